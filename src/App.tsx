@@ -2,6 +2,7 @@ import { useMemo, useEffect, lazy, Suspense } from 'react';
 import themeSettings from './settings/theme';
 import { Theme } from './settings/types';
 import { AuthProvider } from './contexts/AuthContext';
+import { LibraryProvider } from './contexts/LibraryContext';
 import { AuthGate } from './components/auth/AuthGate';
 import { useSystemTheme } from './hooks/useSystemTheme';
 
@@ -52,7 +53,9 @@ function App() {
 
   return (
     <AuthProvider>
-      <AuthGate>{appContent}</AuthGate>
+      <LibraryProvider>
+        <AuthGate>{appContent}</AuthGate>
+      </LibraryProvider>
     </AuthProvider>
   );
 }
@@ -1,9 +1,8 @@
 'use client';
 
 import * as React from 'react';
-import { useState, useMemo, lazy, Suspense } from 'react';
+import { useState, useMemo, useEffect, lazy, Suspense } from 'react';
 import { motion } from 'framer-motion';
-import { cn } from '@/lib/utils';
 import {
   Library,
   Heart,
@@ -15,26 +14,81 @@ import {
   Menu,
   X,
   LogOut,
+  Tags,
+  FolderSearch,
+  Upload,
 } from 'lucide-react';
 import { sidebarNavVariants } from '@/components/ui/variants';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Toaster } from '@/components/ui/sonner';
 import { toast } from 'sonner';
 import { useSREFCodes } from '@/hooks/useSREFCodes';
 import { useTags } from '@/hooks/useTags';
+import { useFolders } from '@/hooks/useFolders';
+import { useSavedCodes } from '@/hooks/useSavedCodes';
+import { useCodeVotes } from '@/hooks/useCodeVotes';
+import { useCodeCopies } from '@/hooks/useCodeCopies';
+import { useDiscoverCodes } from '@/hooks/useDiscoverCodes';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserProfile } from '@/hooks/useUserProfile';
+import { useScrollRestoration } from '@/hooks/useScrollRestoration';
 import StorageDebugPanel from '@/components/debug/StorageDebugPanel';
-import { SREFCode as DatabaseSREFCode } from '@/lib/database';
+import {
+  CodeVisibility,
+  CodeVote,
+  DiscoverSort,
+  SREFCode as DatabaseSREFCode,
+  SREFCodeSort,
+  TagMatchMode,
+} from '@/lib/database';
+import { matchesFilters, matchesSearchQuery, matchesTagFilters } from '@/lib/libraryStore';
+import { StorageService } from '@/lib/storage';
+import { evaluateSearchQuery, parseSearchQuery, toServiceFilters } from '@/lib/searchQuery';
+import { buildTagTree, countTagUsage } from '@/lib/tagTree';
+import { flattenFolderTree, moveCodeIds } from '@/lib/folderTree';
+import { combineFilters, getSmartFolderCriteria, toSmartFolderCriteria } from '@/lib/smartFolders';
+import { smartFolderCriteriaSchema } from '@/schemas/srefValidation';
 import SREFCardGrid from '@/components/sref/SREFCardGrid';
+import { CardMoveDirection } from '@/components/sref/SREFCard';
+import ConnectionStatus from '@/components/sref/ConnectionStatus';
+import RecentlyCopiedStrip from '@/components/sref/RecentlyCopiedStrip';
+import TagCloud, { TagFilterState } from '@/components/sref/TagCloud';
+import FolderTree from '@/components/sref/FolderTree';
+import PacksPanel from '@/components/sref/PacksPanel';
+import ExportMenu, { ExportOption } from '@/components/sref/ExportMenu';
 
 // Lazy load the edit modal since it's only used when editing
 const SREFEditModal = lazy(() => import('@/components/sref/SREFEditModal'));
+const TagManager = lazy(() => import('@/components/sref/TagManager'));
+const SmartFolderEditor = lazy(() => import('@/components/sref/SmartFolderEditor'));
+const PackEditor = lazy(() => import('@/components/sref/PackEditor'));
+const ImportWizard = lazy(() => import('@/components/sref/ImportWizard'));
+
+// Tag cloud for codes outside the library, from the tags on the codes themselves.
+// Tags in keepTags stay offered even when no code carries them.
+const buildCodesTagTree = (codes: DatabaseSREFCode[], keepTags: string[] = []) => {
+  const rows = codes.flatMap(code => code.tags.map(tag => ({ code_id: code.id, tag })));
+  const { counts, totals } = countTagUsage(rows);
+  return buildTagTree([...new Set([...Object.keys(counts), ...keepTags])], counts, totals);
+};
 
 // Types - Union type to handle both database and UI representations
 export type SREFCode =
@@ -50,12 +104,6 @@ export type SREFCode =
       tags: string[];
       createdAt: Date;
     };
-export interface FolderItem {
-  id: string;
-  name: string;
-  isExpanded: boolean;
-  children?: FolderItem[];
-}
 export interface NavigationItem {
   id: string;
   label: string;
@@ -65,7 +113,6 @@ export interface NavigationItem {
 export interface SREFManagementDashboardProps {
   initialCodes?: SREFCode[];
   initialTags?: string[];
-  initialFolders?: FolderItem[];
 }
 
 // Mock data
@@ -166,41 +213,9 @@ const defaultTags = [
   'photography',
   'sepia',
 ];
-const defaultFolders: FolderItem[] = [
-  {
-    id: '1',
-    name: 'My Collections',
-    isExpanded: true,
-    children: [
-      {
-        id: '1-1',
-        name: 'Favorites',
-        isExpanded: false,
-      },
-      {
-        id: '1-2',
-        name: 'Work Projects',
-        isExpanded: false,
-      },
-    ],
-  },
-  {
-    id: '2',
-    name: 'Shared',
-    isExpanded: false,
-    children: [
-      {
-        id: '2-1',
-        name: 'Team Assets',
-        isExpanded: false,
-      },
-    ],
-  },
-];
 export default function SREFManagementDashboard({
   initialCodes = defaultSREFCodes,
   initialTags = defaultTags,
-  initialFolders: _initialFolders = defaultFolders,
 }: SREFManagementDashboardProps) {
   // Authentication
   const { user, signOut } = useAuth();
@@ -209,21 +224,72 @@ export default function SREFManagementDashboard({
   // Real data hooks
   const {
     srefCodes: realSrefCodes,
+    pendingMutations,
     loading: srefLoading,
     error: srefError,
-    searchSREFCodes: _searchSREFCodes,
+    hasMore,
+    loadingMore,
+    partial: isPartialLibrary,
+    setQuery,
+    loadMore,
+    createSREFCode,
     deleteSREFCode,
-    refreshSREFCodes,
   } = useSREFCodes();
 
-  const { tags: realTags, loading: _tagsLoading, refreshTags } = useTags();
+  const { tags: realTags, tagTree: realTagTree, loading: _tagsLoading, refreshTags } = useTags();
+  const {
+    folders,
+    folderTree,
+    folderCodeIds,
+    addCodesToFolder,
+    removeCodesFromFolder,
+    reorderFolderCodes,
+  } = useFolders();
+  const {
+    savedCodes,
+    savedCodeIds,
+    loading: savedCodesLoading,
+    error: savedCodesError,
+    saveCode,
+    unsaveCode,
+  } = useSavedCodes();
+  const { votes, voteCounts, toggleVote } = useCodeVotes();
+  const { recentCopies, recordCopy } = useCodeCopies();
+  const {
+    codes: discoverCodes,
+    loading: discoverLoading,
+    loadingMore: discoverLoadingMore,
+    error: discoverError,
+    hasMore: discoverHasMore,
+    setQuery: setDiscoverQuery,
+    loadMore: loadMoreDiscover,
+  } = useDiscoverCodes();
 
   // State
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-  const [activeTab, setActiveTab] = useState('library');
+  // Pack opened from a share link (?pack=<id>), shown in the Packs tab
+  const [sharedPackId, setSharedPackId] = useState(() =>
+    new URLSearchParams(window.location.search).get('pack')
+  );
+  const [activeTab, setActiveTab] = useState(sharedPackId ? 'packs' : 'library');
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+  // Tag cloud filter: each tag is included, excluded or off
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [excludedTags, setExcludedTags] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMatchMode>('any');
+  // 'manual' is a folder's own order, only offered inside a regular folder
+  const [sortOrder, setSortOrder] = useState<SREFCodeSort>('newest');
+  const [discoverSort, setDiscoverSort] = useState<DiscoverSort>('newest');
+  // Folder the library is narrowed to, if any
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  // Cards picked for dragging or filing together
+  const [selectedCodeIds, setSelectedCodeIds] = useState<string[]>([]);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
+  const [isNewPackOpen, setIsNewPackOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   type EditingCodeType = {
     id: string;
     title: string;
@@ -231,34 +297,456 @@ export default function SREFManagementDashboard({
     version: 'SV4' | 'SV6';
     tags: string[];
     images?: string[];
+    notes?: string;
+    visibility?: CodeVisibility;
   };
 
   const [editingCode, setEditingCode] = useState<EditingCodeType | null>(null);
   const [showDebugPanel, setShowDebugPanel] = useState(false);
 
+  // Come back to the same spot in the grid after editing
+  useScrollRestoration(isEditModalOpen);
+
   // Use real data when user is authenticated, fallback to mock data
   const srefCodes = user ? realSrefCodes : initialCodes;
   const availableTags = user ? realTags : initialTags;
+  const tagTree = useMemo(
+    () => (user ? realTagTree : buildTagTree(initialTags)),
+    [user, realTagTree, initialTags]
+  );
   const isLoading = user ? srefLoading : false;
   const error = user ? srefError : null;
 
-  // Filtered codes based on search and tags
+  // Debounce search input before it goes to the server
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchQuery(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Structured search (tag:, sv:, OR ...); whatever the service can't filter by is
+  // checked against the loaded codes instead
+  const parsedSearch = useMemo(
+    () => parseSearchQuery(debouncedSearchQuery),
+    [debouncedSearchQuery]
+  );
+  const searchFilters = useMemo(() => {
+    const { filters, exact } = toServiceFilters(parsedSearch.ast);
+    const allExcludedTags = [...new Set([...(filters.excludedTags ?? []), ...excludedTags])];
+    const withExclusions =
+      allExcludedTags.length > 0 ? { ...filters, excludedTags: allExcludedTags } : filters;
+    if (selectedTags.length === 0) return { filters: withExclusions, exact };
+
+    // tag: terms always need every tag, so they only combine with the chips in 'all'
+    // mode; otherwise the chips take over the service tag filter and the tag: terms
+    // are checked locally
+    if (filters.tags && tagMode === 'any') {
+      return { filters: { ...withExclusions, tags: selectedTags, tagMode }, exact: false };
+    }
+    return {
+      filters: {
+        ...withExclusions,
+        tags: [...new Set([...(filters.tags ?? []), ...selectedTags])],
+        tagMode,
+      },
+      exact,
+    };
+  }, [parsedSearch, selectedTags, excludedTags, tagMode]);
+
+  // A smart folder has no codes filed in it; it narrows the library by its criteria
+  const smartFolderCriteria = useMemo(() => {
+    const folder = folders.find(candidate => candidate.id === selectedFolderId);
+    return folder ? getSmartFolderCriteria(folder) : null;
+  }, [folders, selectedFolderId]);
+
+  // The search narrowed to the open folder, as the service filters the library by
+  const libraryFilters = useMemo(
+    () =>
+      smartFolderCriteria
+        ? combineFilters(searchFilters.filters, smartFolderCriteria)
+        : selectedFolderId
+          ? { ...searchFilters.filters, folderId: selectedFolderId }
+          : searchFilters.filters,
+    [searchFilters, selectedFolderId, smartFolderCriteria]
+  );
+
+  // The library is filtered and sorted server-side so paging follows the active query
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    // Folder order pages in by position; outside a regular folder it means newest first
+    setQuery({ filters: libraryFilters, sort: sortOrder });
+  }, [userId, setQuery, libraryFilters, sortOrder]);
+
+  // The discover feed pages through other users' codes with the same search and tag filters
+  useEffect(() => {
+    if (activeTab !== 'discover') return;
+    setDiscoverQuery({ filters: searchFilters.filters, sort: discoverSort });
+  }, [activeTab, setDiscoverQuery, searchFilters, discoverSort]);
+
+  // Text searches come back ranked by relevance, whatever sort is chosen
+  const isRelevanceOrder = Boolean(searchFilters.filters.query);
+  const isManualOrder =
+    sortOrder === 'manual' &&
+    selectedFolderId !== null &&
+    !smartFolderCriteria &&
+    !isRelevanceOrder;
+
+  // The current search as smart folder criteria, if there is anything to save
+  const currentSearchCriteria = useMemo(
+    () => toSmartFolderCriteria(searchFilters.filters),
+    [searchFilters]
+  );
+  const canSaveSearch = smartFolderCriteriaSchema.safeParse(currentSearchCriteria).success;
+
+  // Signed-in libraries only need the search terms the service couldn't apply checked here,
+  // plus the open folder so codes taken out of it (or edited out of a smart folder's
+  // criteria) disappear right away; mock data is filtered locally, matching words the
+  // same way the server search does
   const filteredCodes = useMemo(() => {
+    if (user) {
+      const folderCodes = smartFolderCriteria
+        ? realSrefCodes.filter(code => matchesFilters(code, smartFolderCriteria))
+        : selectedFolderId
+          ? realSrefCodes.filter(code => (folderCodeIds[selectedFolderId] ?? []).includes(code.id))
+          : realSrefCodes;
+      const matchingCodes = searchFilters.exact
+        ? folderCodes
+        : folderCodes.filter(code => evaluateSearchQuery(parsedSearch.ast, code));
+      if (!isManualOrder) return matchingCodes;
+
+      // Pages already arrive in folder order; this shows moves before they are saved
+      const positions = new Map(
+        (folderCodeIds[selectedFolderId] ?? []).map((codeId, index) => [codeId, index])
+      );
+      return [...matchingCodes].sort(
+        (a, b) => (positions.get(a.id) ?? Infinity) - (positions.get(b.id) ?? Infinity)
+      );
+    }
+
     return srefCodes.filter(code => {
-      const codeValue = code.code_value || '';
-      const matchesSearch =
-        code.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        codeValue.toLowerCase().includes(searchQuery.toLowerCase());
       const codeTags = code.tags || [];
-      const matchesTags =
-        selectedTags.length === 0 || selectedTags.some(tag => codeTags.includes(tag));
+      const matchesSearch = matchesSearchQuery(
+        [code.title, code.code_value || '', ...codeTags],
+        searchQuery
+      );
+      const matchesTags = matchesTagFilters(codeTags, {
+        tags: selectedTags,
+        tagMode,
+        excludedTags,
+      });
       return matchesSearch && matchesTags;
     });
-  }, [srefCodes, searchQuery, selectedTags]);
+  }, [
+    user,
+    realSrefCodes,
+    srefCodes,
+    searchQuery,
+    selectedTags,
+    excludedTags,
+    tagMode,
+    searchFilters,
+    parsedSearch,
+    selectedFolderId,
+    folderCodeIds,
+    smartFolderCriteria,
+    isManualOrder,
+  ]);
+
+  // What the library can be exported as: everything, plus the open folder, the current
+  // search within it and the selection when there are any. Exports read every code
+  // in scope from the server rather than the loaded pages; the folder and search
+  // are read with the same filters as the grid, so they match what it shows.
+  const exportOptions = useMemo(() => {
+    const options: ExportOption[] = [{ scope: { kind: 'library', label: '' } }];
+    const folder = folders.find(candidate => candidate.id === selectedFolderId);
+    if (folder) {
+      options.push({
+        scope: { kind: 'folder', label: folder.name },
+        filters: smartFolderCriteria ?? { folderId: folder.id },
+      });
+    }
+
+    const searchLabel = [
+      debouncedSearchQuery.trim(),
+      ...selectedTags,
+      ...excludedTags.map(tag => `-${tag}`),
+    ]
+      .filter(Boolean)
+      .join(' ');
+    if (searchLabel) {
+      options.push({
+        scope: { kind: 'search', label: searchLabel },
+        filters: libraryFilters,
+        select: searchFilters.exact
+          ? undefined
+          : code => evaluateSearchQuery(parsedSearch.ast, code),
+      });
+    }
+
+    if (selectedCodeIds.length > 0) {
+      const selected = new Set(selectedCodeIds);
+      options.push({
+        scope: {
+          kind: 'selection',
+          label: selectedCodeIds.length === 1 ? '1 code' : `${selectedCodeIds.length} codes`,
+        },
+        select: code => selected.has(code.id),
+      });
+    }
+    return options;
+  }, [
+    folders,
+    selectedFolderId,
+    smartFolderCriteria,
+    debouncedSearchQuery,
+    selectedTags,
+    excludedTags,
+    libraryFilters,
+    searchFilters,
+    parsedSearch,
+    selectedCodeIds,
+  ]);
+
+  // Favorites are all loaded up front, so search and tag filters apply locally. Saved
+  // library codes show their latest edits.
+  const favoriteCodes = useMemo(() => {
+    const libraryCodes = new Map(realSrefCodes.map(code => [code.id, code]));
+    return savedCodes
+      .map(code => libraryCodes.get(code.id) ?? code)
+      .filter(
+        code =>
+          evaluateSearchQuery(parsedSearch.ast, code) &&
+          matchesTagFilters(code.tags, { tags: selectedTags, tagMode, excludedTags })
+      );
+  }, [realSrefCodes, savedCodes, parsedSearch, selectedTags, tagMode, excludedTags]);
+
+  // Search terms the feed query couldn't express are checked here, as in the library
+  const filteredDiscoverCodes = useMemo(
+    () =>
+      searchFilters.exact
+        ? discoverCodes
+        : discoverCodes.filter(code => evaluateSearchQuery(parsedSearch.ast, code)),
+    [discoverCodes, searchFilters, parsedSearch]
+  );
+
+  // Favorites and Discover offer the tags on their own codes, which may not be in the
+  // library. Discover keeps the active tags so filtering the feed doesn't hide them.
+  const favoriteTagTree = useMemo(() => buildCodesTagTree(savedCodes), [savedCodes]);
+  const discoverTagTree = useMemo(
+    () => buildCodesTagTree(discoverCodes, [...selectedTags, ...excludedTags]),
+    [discoverCodes, selectedTags, excludedTags]
+  );
+  const showingFavorites = Boolean(user) && activeTab === 'favorites';
+  const showingDiscover = activeTab === 'discover';
+  const cloudTagTree = showingFavorites
+    ? favoriteTagTree
+    : showingDiscover
+      ? discoverTagTree
+      : tagTree;
+
+  // Tags cycle through included, excluded and off on repeated clicks
+  const getTagState = (tag: string): TagFilterState =>
+    selectedTags.includes(tag) ? 'included' : excludedTags.includes(tag) ? 'excluded' : 'off';
 
-  // Handle tag toggle
   const toggleTag = (tag: string) => {
-    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+    if (selectedTags.includes(tag)) {
+      setSelectedTags(prev => prev.filter(t => t !== tag));
+      setExcludedTags(prev => [...prev, tag]);
+    } else if (excludedTags.includes(tag)) {
+      setExcludedTags(prev => prev.filter(t => t !== tag));
+    } else {
+      setSelectedTags(prev => [...prev, tag]);
+    }
+  };
+
+  // Tags renamed, merged away or deleted in the tag manager can't filter anything
+  const handleTagsRemoved = (removed: string[]) => {
+    setSelectedTags(prev => prev.filter(tag => !removed.includes(tag)));
+    setExcludedTags(prev => prev.filter(tag => !removed.includes(tag)));
+  };
+
+  // Folders offered in each card's menu, in tree order. Smart folders fill themselves.
+  const folderOptions = useMemo(
+    () =>
+      flattenFolderTree(folderTree)
+        .filter(({ folder }) => !folder.is_smart)
+        .map(({ folder, depth }) => ({
+          id: folder.id,
+          name: folder.name,
+          depth,
+        })),
+    [folderTree]
+  );
+
+  const handleToggleFolder = async (codeId: string, folderId: string, filed: boolean) => {
+    const result = filed
+      ? await addCodesToFolder(folderId, [codeId])
+      : await removeCodesFromFolder(folderId, [codeId]);
+    if (!result.success) {
+      toast.error(`Failed to update folders: ${result.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  // Regular folders open in their own order; leaving one goes back to newest first
+  const handleSelectFolder = (folderId: string | null) => {
+    const folder = folders.find(candidate => candidate.id === folderId);
+    setActiveTab('library');
+    setSelectedFolderId(folderId);
+    setSortOrder(prev =>
+      folder && !folder.is_smart ? 'manual' : prev === 'manual' ? 'newest' : prev
+    );
+  };
+
+  // Going back to the library shows every code again
+  const handleTabChange = (tabId: string) => {
+    if (tabId === 'library') {
+      handleSelectFolder(null);
+    } else {
+      setActiveTab(tabId);
+    }
+  };
+
+  const toggleCodeSelection = (codeId: string) => {
+    setSelectedCodeIds(prev =>
+      prev.includes(codeId) ? prev.filter(id => id !== codeId) : [...prev, codeId]
+    );
+  };
+
+  const handleAddSelectionToFolder = async (folderId: string, folderName: string) => {
+    const result = await addCodesToFolder(folderId, selectedCodeIds);
+    if (!result.success) {
+      toast.error(`Failed to update folders: ${result.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+      return;
+    }
+    toast.success(
+      `Added ${selectedCodeIds.length === 1 ? '1 code' : `${selectedCodeIds.length} codes`} to "${folderName}"`,
+      { duration: 2000, position: 'bottom-right' }
+    );
+    setSelectedCodeIds([]);
+  };
+
+  const handleRemoveSelectionFromFolder = async () => {
+    if (!selectedFolderId) return;
+    const result = await removeCodesFromFolder(selectedFolderId, selectedCodeIds);
+    if (!result.success) {
+      toast.error(`Failed to update folders: ${result.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+      return;
+    }
+    setSelectedCodeIds([]);
+  };
+
+  // Codes dropped onto a card in the open folder take its place in the folder order
+  const handleCardsDrop = async (targetId: string, codeIds: string[]) => {
+    if (!selectedFolderId) return;
+    const order = folderCodeIds[selectedFolderId] ?? [];
+    const newOrder = moveCodeIds(order, codeIds, targetId);
+    if (newOrder === order) return;
+
+    const result = await reorderFolderCodes(selectedFolderId, newOrder);
+    if (!result.success) {
+      toast.error(`Failed to reorder codes: ${result.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  // Keyboard alternative to dragging: swap places with the neighbouring card
+  const handleCardMove = (codeId: string, direction: CardMoveDirection) => {
+    const index = filteredCodes.findIndex(code => code.id === codeId);
+    const neighbour = filteredCodes[direction === 'earlier' ? index - 1 : index + 1];
+    if (index !== -1 && neighbour) handleCardsDrop(neighbour.id, [codeId]);
+  };
+
+  // The heart saves a code to favorites, or takes it back out
+  const handleCardLike = async (codeId: string) => {
+    const code =
+      realSrefCodes.find(candidate => candidate.id === codeId) ??
+      savedCodes.find(candidate => candidate.id === codeId) ??
+      discoverCodes.find(candidate => candidate.id === codeId);
+    if (!code) return;
+
+    const saved = savedCodeIds.has(codeId);
+    const result = saved ? await unsaveCode(codeId) : await saveCode(code);
+    if (!result.success) {
+      toast.error(`Failed to ${saved ? 'remove from' : 'save to'} favorites: ${result.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  // Votes go on other users' codes; the same arrow again takes the vote back
+  const handleCardVote = async (codeId: string, vote: CodeVote) => {
+    const code =
+      discoverCodes.find(candidate => candidate.id === codeId) ??
+      savedCodes.find(candidate => candidate.id === codeId);
+    if (!code) return;
+
+    const result = await toggleVote(code, vote);
+    if (!result.success) {
+      toast.error(`Failed to vote on "${code.title}": ${result.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  // Cloning copies a community code into the library as the user's own. Its images
+  // are copied too, so the clone keeps them if the author deletes theirs.
+  const handleCardClone = async (codeId: string) => {
+    const code = discoverCodes.find(candidate => candidate.id === codeId);
+    if (!code || !user) return;
+
+    const urls = code.images.map(image => image.image_url);
+    const copies = await StorageService.copyImages(urls, user.id);
+    if (!copies.data) {
+      toast.error(`Failed to clone "${code.title}": ${copies.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+      return;
+    }
+
+    const result = await createSREFCode({
+      title: code.title,
+      code_value: code.code_value,
+      sv_version: code.sv_version,
+      notes: code.notes,
+      images: copies.data,
+      tags: code.tags,
+    });
+    if (!result.success) {
+      // The copies belong to no code, so don't leave them in the user's storage
+      await StorageService.removeCopies(urls, copies.data);
+      toast.error(`Failed to clone "${code.title}": ${result.error}`, {
+        duration: 3000,
+        position: 'bottom-right',
+      });
+      return;
+    }
+    toast.success(`Cloned "${code.title}" into your library`, {
+      duration: 2000,
+      position: 'bottom-right',
+    });
+  };
+
+  // Every copy counts towards the code's author, whoever made the copy
+  const handleCardCopy = (codeId: string) => {
+    const code =
+      realSrefCodes.find(candidate => candidate.id === codeId) ??
+      savedCodes.find(candidate => candidate.id === codeId) ??
+      discoverCodes.find(candidate => candidate.id === codeId);
+    if (code) recordCopy(code);
   };
 
   // Handle card click - copy is now handled by the card component itself
@@ -278,6 +766,8 @@ export default function SREFManagementDashboard({
         version: code.sv_version === 6 ? 'SV6' : 'SV4',
         tags: code.tags || [],
         images: code.images?.map(img => (typeof img === 'string' ? img : img.image_url)) || [],
+        notes: ('notes' in code && code.notes) || '',
+        visibility: 'visibility' in code ? code.visibility : undefined,
       });
       setIsEditModalOpen(true);
     }
@@ -293,12 +783,13 @@ export default function SREFManagementDashboard({
   const handleEditSuccess = () => {
     setIsEditModalOpen(false);
     setEditingCode(null);
-    // Refresh both SREF codes and tags to update the tag cloud
-    refreshSREFCodes();
+    // The saved code is already in the shared library store; refresh tags so
+    // tags removed from the last code using them drop out of the tag cloud
     refreshTags();
   };
 
-  // Handle card delete
+  // Handle card delete - the card fades out right away and useSREFCodes
+  // restores it with an error toast if the delete fails
   const handleCardDelete = async (id: string) => {
     if (!user) return;
 
@@ -309,11 +800,6 @@ export default function SREFManagementDashboard({
           duration: 2000,
           position: 'bottom-right',
         });
-      } else {
-        toast.error(result.error || 'Failed to delete SREF code', {
-          duration: 3000,
-          position: 'bottom-right',
-        });
       }
     } catch (_error) {
       toast.error('An unexpected error occurred', {
@@ -400,7 +886,7 @@ export default function SREFManagementDashboard({
                 <Tooltip key={item.id} delayDuration={0}>
                   <TooltipTrigger asChild>
                     <button
-                      onClick={() => setActiveTab(item.id)}
+                      onClick={() => handleTabChange(item.id)}
                       className={sidebarNavVariants({
                         variant: item.active ? 'primary' : 'secondary',
                         size: 'default',
@@ -420,6 +906,9 @@ export default function SREFManagementDashboard({
                 </Tooltip>
               ))}
             </nav>
+            {user && !sidebarCollapsed && (
+              <FolderTree selectedFolderId={selectedFolderId} onSelectFolder={handleSelectFolder} />
+            )}
           </ScrollArea>
 
           {/* Account Settings at Bottom */}
@@ -461,11 +950,66 @@ export default function SREFManagementDashboard({
                     value={searchQuery}
                     onChange={e => setSearchQuery(e.target.value)}
                     className="pl-10 bg-card border-input focus:ring-2 focus:ring-ring"
+                    aria-invalid={parsedSearch.errors.length > 0}
+                    aria-describedby={
+                      parsedSearch.errors.length > 0 ? 'search-query-errors' : undefined
+                    }
                   />
                 </div>
+                {user && activeTab === 'library' && (
+                  <Select
+                    value={isRelevanceOrder ? 'relevance' : sortOrder}
+                    onValueChange={value => setSortOrder(value as SREFCodeSort)}
+                    disabled={isRelevanceOrder}
+                  >
+                    <SelectTrigger className="ml-4 w-36" aria-label="Sort SREF codes">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {isRelevanceOrder && <SelectItem value="relevance">Relevance</SelectItem>}
+                      {selectedFolderId && !smartFolderCriteria && (
+                        <SelectItem value="manual">Folder order</SelectItem>
+                      )}
+                      <SelectItem value="newest">Newest first</SelectItem>
+                      <SelectItem value="oldest">Oldest first</SelectItem>
+                      <SelectItem value="title">Title A–Z</SelectItem>
+                      <SelectItem value="most_used">Most used</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {showingDiscover && (
+                  <Select
+                    value={discoverSort}
+                    onValueChange={value => setDiscoverSort(value as DiscoverSort)}
+                  >
+                    <SelectTrigger className="ml-4 w-36" aria-label="Sort community codes">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">Newest first</SelectItem>
+                      <SelectItem value="most_copied">Most copied</SelectItem>
+                      <SelectItem value="top_voted">Top voted</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {user && <ConnectionStatus className="ml-4" />}
                 {/* Action Buttons */}
                 {user && activeTab === 'library' && (
                   <div className="flex items-center gap-4 ml-4">
+                    <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Import
+                    </Button>
+                    <ExportMenu options={exportOptions} />
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsSaveSearchOpen(true)}
+                      disabled={!canSaveSearch}
+                      title="Save current search as a smart folder"
+                    >
+                      <FolderSearch className="h-4 w-4 mr-2" />
+                      Save search
+                    </Button>
                     <Button
                       onClick={handleAddNew}
                       className="bg-primary hover:bg-primary/90 text-primary-foreground"
@@ -477,21 +1021,54 @@ export default function SREFManagementDashboard({
                 )}
               </div>
 
+              {/* Parts of the search that couldn't be understood, and are being ignored */}
+              {parsedSearch.errors.length > 0 && (
+                <ul id="search-query-errors" className="space-y-1 text-sm text-destructive">
+                  {parsedSearch.errors.map(searchError => (
+                    <li key={`${searchError.start}-${searchError.message}`}>
+                      <code className="font-mono">
+                        {debouncedSearchQuery.slice(searchError.start, searchError.end)}
+                      </code>
+                      : {searchError.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
               {/* Tag Cloud Filter */}
-              <div className="flex flex-wrap gap-2">
-                {availableTags.map(tag => (
-                  <Badge
-                    key={tag}
-                    variant={selectedTags.includes(tag) ? 'default' : 'secondary'}
-                    className={cn(
-                      'cursor-pointer transition-colors hover:bg-primary/80',
-                      selectedTags.includes(tag) && 'bg-primary text-primary-foreground'
-                    )}
-                    onClick={() => toggleTag(tag)}
+              <div className="flex flex-wrap items-center gap-2">
+                {(showingFavorites || showingDiscover
+                  ? cloudTagTree.length > 0
+                  : availableTags.length > 0) && (
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={tagMode}
+                    onValueChange={value => value && setTagMode(value as TagMatchMode)}
+                    aria-label="Match included tags"
+                    className="mr-2"
                   >
-                    {tag}
-                  </Badge>
-                ))}
+                    <ToggleGroupItem value="any" aria-label="Match any included tag">
+                      Any
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="all" aria-label="Match all included tags">
+                      All
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                )}
+                <TagCloud tree={cloudTagTree} getTagState={getTagState} onToggleTag={toggleTag} />
+                {user && availableTags.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => setIsTagManagerOpen(true)}
+                  >
+                    <Tags className="w-4 h-4" />
+                    Manage tags
+                  </Button>
+                )}
               </div>
             </div>
           </header>
@@ -523,7 +1100,64 @@ export default function SREFManagementDashboard({
               </Alert>
             )}
 
+            {user && activeTab === 'library' && (
+              <RecentlyCopiedStrip className="mb-4" copies={recentCopies} onCopy={recordCopy} />
+            )}
+
+            {/* Actions for the selected cards */}
+            {user && activeTab === 'library' && selectedCodeIds.length > 0 && (
+              <div
+                role="toolbar"
+                aria-label="Selected codes"
+                className="mb-4 flex items-center gap-2 rounded-lg border bg-card p-2"
+              >
+                <span className="px-2 text-sm font-medium">{selectedCodeIds.length} selected</span>
+                {folderOptions.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        Add to folder
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      {folderOptions.map(folder => (
+                        <DropdownMenuItem
+                          key={folder.id}
+                          style={{ paddingLeft: folder.depth * 12 + 8 }}
+                          onSelect={() => handleAddSelectionToFolder(folder.id, folder.name)}
+                        >
+                          {folder.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {selectedFolderId && !smartFolderCriteria && (
+                  <Button variant="outline" size="sm" onClick={handleRemoveSelectionFromFolder}>
+                    Remove from folder
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setIsNewPackOpen(true)}>
+                  New pack
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => setSelectedCodeIds([])}
+                >
+                  Clear selection
+                </Button>
+              </div>
+            )}
+
             {/* Render content based on active tab */}
+            {activeTab === 'library' && user && isPartialLibrary && (
+              <p role="status" className="text-sm text-muted-foreground mb-4">
+                Only the codes loaded before going offline are shown. The rest of your library will
+                appear once you reconnect.
+              </p>
+            )}
             {activeTab === 'library' && (
               <SREFCardGrid
                 codes={filteredCodes}
@@ -532,47 +1166,103 @@ export default function SREFManagementDashboard({
                 variant="library"
                 showEmptyCard={user !== null}
                 onCardClick={handleCardClick}
+                onCardCopy={user ? handleCardCopy : undefined}
                 onCardEdit={handleCardEdit}
                 onCardDelete={handleCardDelete}
                 onCreateNew={handleAddNew}
+                pendingCodes={user ? pendingMutations : undefined}
+                hasMore={user ? hasMore : false}
+                isLoadingMore={loadingMore}
+                onLoadMore={loadMore}
+                folders={user ? folderOptions : undefined}
+                folderCodeIds={folderCodeIds}
+                onCardToggleFolder={user ? handleToggleFolder : undefined}
+                selectedCodeIds={selectedCodeIds}
+                onCardToggleSelect={user ? toggleCodeSelection : undefined}
+                draggableCards={Boolean(user)}
+                onCardsDrop={isManualOrder ? handleCardsDrop : undefined}
+                onCardMove={isManualOrder ? handleCardMove : undefined}
+                likedCodes={savedCodeIds}
+                onCardLike={user ? handleCardLike : undefined}
               />
             )}
 
             {activeTab === 'discover' && (
-              <div className="p-6">
-                <div className="text-center py-12">
-                  <Compass className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">Discover Community Codes</h3>
-                  <p className="text-muted-foreground">
-                    Browse and discover SREF codes shared by the community. Coming soon!
-                  </p>
-                </div>
-              </div>
+              <SREFCardGrid
+                codes={filteredDiscoverCodes}
+                isLoading={discoverLoading && discoverCodes.length === 0}
+                error={discoverError}
+                variant="discover"
+                showEmptyCard={false}
+                onCardClick={handleCardClick}
+                onCardCopy={user ? handleCardCopy : undefined}
+                hasMore={discoverHasMore}
+                isLoadingMore={discoverLoadingMore}
+                onLoadMore={loadMoreDiscover}
+                likedCodes={savedCodeIds}
+                onCardLike={user ? handleCardLike : undefined}
+                onCardClone={user ? handleCardClone : undefined}
+                onCardVote={user ? handleCardVote : undefined}
+                votes={votes}
+                voteCounts={voteCounts}
+                currentUserId={user?.id}
+              />
             )}
 
-            {activeTab === 'favorites' && (
-              <div className="p-6">
-                <div className="text-center py-12">
-                  <Heart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">Your Favorites</h3>
-                  <p className="text-muted-foreground">
-                    Community SREF codes you've liked will appear here. Coming soon!
-                  </p>
+            {activeTab === 'favorites' &&
+              (favoriteCodes.length > 0 || (savedCodesLoading && savedCodes.length === 0) ? (
+                <SREFCardGrid
+                  codes={favoriteCodes}
+                  isLoading={savedCodesLoading && savedCodes.length === 0}
+                  error={savedCodesError}
+                  variant="discover"
+                  showEmptyCard={false}
+                  onCardClick={handleCardClick}
+                  onCardCopy={handleCardCopy}
+                  likedCodes={savedCodeIds}
+                  onCardLike={handleCardLike}
+                  onCardVote={handleCardVote}
+                  votes={votes}
+                  voteCounts={voteCounts}
+                  currentUserId={user?.id}
+                />
+              ) : (
+                <div className="p-6">
+                  <div className="text-center py-12">
+                    <Heart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">
+                      {savedCodes.length > 0 ? 'No favorites match your search' : 'Your Favorites'}
+                    </h3>
+                    <p className="text-muted-foreground">
+                      {savedCodesError ??
+                        (savedCodes.length > 0
+                          ? 'Try a different search or clear the tag filters.'
+                          : 'Save codes with the heart on any card and they will appear here.')}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            )}
+              ))}
 
-            {activeTab === 'packs' && (
-              <div className="p-6">
-                <div className="text-center py-12">
-                  <Package className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">SREF Packs</h3>
-                  <p className="text-muted-foreground">
-                    Curated collections of SREF codes will be available here. Coming soon!
-                  </p>
+            {activeTab === 'packs' &&
+              (user ? (
+                <PacksPanel
+                  sharedPackId={sharedPackId}
+                  onSharedPackClose={() => {
+                    setSharedPackId(null);
+                    window.history.replaceState({}, document.title, window.location.pathname);
+                  }}
+                />
+              ) : (
+                <div className="p-6">
+                  <div className="text-center py-12">
+                    <Package className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">SREF Packs</h3>
+                    <p className="text-muted-foreground">
+                      Sign in to build packs of your codes and import packs others share.
+                    </p>
+                  </div>
                 </div>
-              </div>
-            )}
+              ))}
 
             {activeTab === 'settings' && (
               <div className="p-6">
@@ -621,6 +1311,43 @@ export default function SREFManagementDashboard({
             />
           </Suspense>
         )}
+
+        {isTagManagerOpen && (
+          <Suspense fallback={null}>
+            <TagManager
+              isOpen={isTagManagerOpen}
+              onClose={() => setIsTagManagerOpen(false)}
+              onTagsRemoved={handleTagsRemoved}
+            />
+          </Suspense>
+        )}
+
+        {isSaveSearchOpen && (
+          <Suspense fallback={null}>
+            <SmartFolderEditor
+              isOpen={isSaveSearchOpen}
+              onClose={() => setIsSaveSearchOpen(false)}
+              initialCriteria={currentSearchCriteria}
+              incomplete={!searchFilters.exact}
+            />
+          </Suspense>
+        )}
+
+        {isNewPackOpen && (
+          <Suspense fallback={null}>
+            <PackEditor
+              isOpen={isNewPackOpen}
+              onClose={() => setIsNewPackOpen(false)}
+              initialCodeIds={selectedCodeIds}
+            />
+          </Suspense>
+        )}
+
+        {isImportOpen && (
+          <Suspense fallback={null}>
+            <ImportWizard isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+          </Suspense>
+        )}
       </div>
     </TooltipProvider>
   );
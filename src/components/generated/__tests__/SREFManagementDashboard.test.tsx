@@ -1,16 +1,32 @@
 import React from 'react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import { useAuth } from '@/hooks/useAuth';
 import { useSREFCodes } from '@/hooks/useSREFCodes';
 import { useTags } from '@/hooks/useTags';
+import { useFolders } from '@/hooks/useFolders';
+import { useSavedCodes } from '@/hooks/useSavedCodes';
+import { useCodeVotes } from '@/hooks/useCodeVotes';
+import { useCodeCopies } from '@/hooks/useCodeCopies';
+import { useDiscoverCodes } from '@/hooks/useDiscoverCodes';
+import { usePacks } from '@/hooks/usePacks';
+import { useLibraryExport } from '@/hooks/useLibraryExport';
 import { useUserProfile } from '@/hooks/useUserProfile';
+import { buildTagTree } from '@/lib/tagTree';
+import { StorageService } from '@/lib/storage';
 import SREFManagementDashboard from '../SREFManagementDashboard';
 
 // Mock the hooks
 vi.mock('@/hooks/useAuth');
 vi.mock('@/hooks/useSREFCodes');
 vi.mock('@/hooks/useTags');
+vi.mock('@/hooks/useFolders');
+vi.mock('@/hooks/useSavedCodes');
+vi.mock('@/hooks/useCodeVotes');
+vi.mock('@/hooks/useCodeCopies');
+vi.mock('@/hooks/useDiscoverCodes');
+vi.mock('@/hooks/usePacks');
+vi.mock('@/hooks/useLibraryExport');
 vi.mock('@/hooks/useUserProfile');
 
 // Mock framer-motion to avoid animation issues in tests
@@ -45,6 +61,13 @@ Object.defineProperty(window, 'matchMedia', {
 const mockUseAuth = vi.mocked(useAuth);
 const mockUseSREFCodes = vi.mocked(useSREFCodes);
 const mockUseTags = vi.mocked(useTags);
+const mockUseFolders = vi.mocked(useFolders);
+const mockUseSavedCodes = vi.mocked(useSavedCodes);
+const mockUseCodeVotes = vi.mocked(useCodeVotes);
+const mockUseCodeCopies = vi.mocked(useCodeCopies);
+const mockUseDiscoverCodes = vi.mocked(useDiscoverCodes);
+const mockUsePacks = vi.mocked(usePacks);
+const mockUseLibraryExport = vi.mocked(useLibraryExport);
 const mockUseUserProfile = vi.mocked(useUserProfile);
 
 // Mock data
@@ -119,11 +142,14 @@ describe('SREFManagementDashboard', () => {
       deleteSREFCode: vi.fn(),
       refreshSREFCodes: vi.fn(),
       searchSREFCodes: vi.fn(),
+      setQuery: vi.fn(),
+      loadMore: vi.fn(),
       getSREFCodeById: vi.fn(),
     });
 
     mockUseTags.mockReturnValue({
       tags: [],
+      tagTree: [],
       loading: false,
       refreshTags: vi.fn(),
     });
@@ -134,6 +160,84 @@ describe('SREFManagementDashboard', () => {
       error: null,
       refreshProfile: vi.fn(),
     });
+
+    mockUseFolders.mockReturnValue({
+      folders: [],
+      folderTree: [],
+      folderCodeIds: {},
+      loading: false,
+      error: null,
+      refreshFolders: vi.fn(),
+      createFolder: vi.fn(),
+      createSmartFolder: vi.fn(),
+      updateSmartFolder: vi.fn(),
+      renameFolder: vi.fn(),
+      moveFolder: vi.fn(),
+      deleteFolder: vi.fn(),
+      addCodesToFolder: vi.fn(),
+      removeCodesFromFolder: vi.fn(),
+      reorderFolderCodes: vi.fn(),
+    });
+
+    mockUseSavedCodes.mockReturnValue({
+      savedCodes: [],
+      savedCodeIds: new Set(),
+      loading: false,
+      error: null,
+      refreshSavedCodes: vi.fn(),
+      saveCode: vi.fn().mockResolvedValue({ success: true }),
+      unsaveCode: vi.fn().mockResolvedValue({ success: true }),
+    });
+
+    mockUseCodeVotes.mockReturnValue({
+      votes: {},
+      voteCounts: {},
+      loading: false,
+      error: null,
+      refreshVotes: vi.fn(),
+      toggleVote: vi.fn().mockResolvedValue({ success: true }),
+    });
+
+    mockUseCodeCopies.mockReturnValue({
+      recentCopies: [],
+      loading: false,
+      error: null,
+      refreshRecentCopies: vi.fn(),
+      recordCopy: vi.fn().mockResolvedValue({ success: true }),
+    });
+
+    mockUseDiscoverCodes.mockReturnValue({
+      codes: [],
+      loading: false,
+      loadingMore: false,
+      error: null,
+      hasMore: false,
+      setQuery: vi.fn(),
+      loadMore: vi.fn(),
+    });
+
+    mockUsePacks.mockReturnValue({
+      packs: [],
+      packCodeIds: {},
+      communityPacks: [],
+      packImports: {},
+      packUpdates: [],
+      loading: false,
+      error: null,
+      refreshPacks: vi.fn(),
+      createPack: vi.fn(),
+      updatePack: vi.fn(),
+      deletePack: vi.fn(),
+      publishPack: vi.fn(),
+      importPack: vi.fn(),
+      getSharedPack: vi.fn().mockResolvedValue({ pack: null }),
+      getPackCodes: vi.fn().mockResolvedValue({ codes: [] }),
+    });
+
+    mockUseLibraryExport.mockReturnValue({
+      exporting: false,
+      exportCodes: vi.fn().mockResolvedValue({ success: true, count: 1 }),
+    });
   });
 
   describe('Unauthenticated state', () => {
@@ -197,11 +301,14 @@ describe('SREFManagementDashboard', () => {
         deleteSREFCode: vi.fn(),
         refreshSREFCodes: vi.fn(),
         searchSREFCodes: vi.fn(),
+        setQuery: vi.fn(),
+        loadMore: vi.fn(),
         getSREFCodeById: vi.fn(),
       });
 
       mockUseTags.mockReturnValue({
         tags: mockTags,
+        tagTree: buildTagTree(mockTags),
         loading: false,
         refreshTags: vi.fn(),
       });
@@ -267,38 +374,651 @@ describe('SREFManagementDashboard', () => {
         deleteSREFCode: vi.fn(),
         refreshSREFCodes: vi.fn(),
         searchSREFCodes: vi.fn(),
+        setQuery: vi.fn(),
+        loadMore: vi.fn(),
         getSREFCodeById: vi.fn(),
       });
     });
 
-    it('filters SREF codes based on search query', async () => {
+    it('sends the search query to the server-side library query', async () => {
       render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseSREFCodes();
 
       const searchInput = screen.getByPlaceholderText('Search SREF codes...');
-
-      // Initially should show the SREF code
       expect(screen.getByText('Test SREF Code')).toBeInTheDocument();
 
-      // Search for something that doesn't match
       fireEvent.change(searchInput, { target: { value: 'nonexistent' } });
 
       await waitFor(() => {
-        expect(screen.queryByText('Test SREF Code')).not.toBeInTheDocument();
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { query: 'nonexistent' },
+          sort: 'newest',
+        });
       });
+    });
 
-      // Search for something that matches the title
-      fireEvent.change(searchInput, { target: { value: 'Test' } });
+    it('shows text searches as sorted by relevance', async () => {
+      render(<SREFManagementDashboard />);
+
+      const sortSelect = screen.getByRole('combobox', { name: 'Sort SREF codes' });
+      expect(sortSelect).toHaveTextContent('Newest first');
+
+      fireEvent.change(screen.getByPlaceholderText('Search SREF codes...'), {
+        target: { value: 'neon' },
+      });
+
+      await waitFor(() => expect(sortSelect).toHaveTextContent('Relevance'));
+      expect(sortSelect).toBeDisabled();
+    });
+
+    it('translates structured search terms into library filters', async () => {
+      render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseSREFCodes();
+
+      fireEvent.change(screen.getByPlaceholderText('Search SREF codes...'), {
+        target: { value: 'tag:neon sv:6 created:>=2025-01-01' },
+      });
 
       await waitFor(() => {
-        expect(screen.getByText('Test SREF Code')).toBeInTheDocument();
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { tags: ['neon'], tagMode: 'all', svVersion: 6, createdFrom: '2025-01-01' },
+          sort: 'newest',
+        });
       });
+    });
 
-      // Search for something that matches the code value
-      fireEvent.change(searchInput, { target: { value: '1234567890' } });
+    it('shows unknown search terms as inline errors', async () => {
+      render(<SREFManagementDashboard />);
+
+      const searchInput = screen.getByPlaceholderText('Search SREF codes...');
+      fireEvent.change(searchInput, { target: { value: 'neon color:red' } });
+
+      expect(await screen.findByText('color:red')).toBeInTheDocument();
+      expect(screen.getByText(/Unknown filter "color:"/)).toBeInTheDocument();
+      expect(searchInput).toHaveAttribute('aria-invalid', 'true');
+    });
+
+    it('limits the library query to the selected folder', async () => {
+      const folder = {
+        id: 'folder-1',
+        user_id: 'user-1',
+        name: 'Portraits',
+        parent_id: null,
+        is_smart: false,
+        search_criteria: null,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      };
+      mockUseFolders.mockReturnValue({
+        ...mockUseFolders(),
+        folders: [folder],
+        folderTree: [{ folder, depth: 0, children: [] }],
+        folderCodeIds: { 'folder-1': [] },
+      });
+
+      render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseSREFCodes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Portraits' }));
 
       await waitFor(() => {
-        expect(screen.getByText('Test SREF Code')).toBeInTheDocument();
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { folderId: 'folder-1' },
+          sort: 'manual',
+        });
+      });
+      expect(screen.queryByText('Test SREF Code')).not.toBeInTheDocument();
+    });
+
+    it('shows a folder in its own order', async () => {
+      const folder = {
+        id: 'folder-1',
+        user_id: 'user-1',
+        name: 'Portraits',
+        parent_id: null,
+        is_smart: false,
+        search_criteria: null,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      };
+      mockUseSREFCodes.mockReturnValue({
+        ...mockUseSREFCodes(),
+        srefCodes: [
+          mockSREFCodes[0],
+          { ...mockSREFCodes[0], id: '2', title: 'Second Code', code_value: '--sref 222' },
+        ],
+      });
+      mockUseFolders.mockReturnValue({
+        ...mockUseFolders(),
+        folders: [folder],
+        folderTree: [{ folder, depth: 0, children: [] }],
+        folderCodeIds: { 'folder-1': ['2', '1'] },
+      });
+
+      render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseSREFCodes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Portraits' }));
+
+      const titles = screen
+        .getAllByRole('heading', { level: 3 })
+        .map(heading => heading.textContent);
+      expect(titles.indexOf('Second Code')).toBeLessThan(titles.indexOf('Test SREF Code'));
+      await waitFor(() => {
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { folderId: 'folder-1' },
+          sort: 'manual',
+        });
+      });
+    });
+
+    it('searches inside a smart folder by combining its criteria with the search', async () => {
+      const folder = {
+        id: 'folder-2',
+        user_id: 'user-1',
+        name: 'Cyberpunk',
+        parent_id: null,
+        is_smart: true,
+        search_criteria: { tags: ['cyberpunk'], tagMode: 'all' },
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      };
+      mockUseFolders.mockReturnValue({
+        ...mockUseFolders(),
+        folders: [folder],
+        folderTree: [{ folder, depth: 0, children: [] }],
+      });
+
+      render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseSREFCodes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cyberpunk' }));
+      fireEvent.change(screen.getByPlaceholderText('Search SREF codes...'), {
+        target: { value: 'test' },
+      });
+
+      await waitFor(() => {
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { query: 'test', tags: ['cyberpunk'], tagMode: 'all' },
+          sort: 'newest',
+        });
+      });
+      expect(screen.getByText('Test SREF Code')).toBeInTheDocument();
+    });
+  });
+
+  describe('Favorites', () => {
+    const savedCode = {
+      ...mockSREFCodes[0],
+      id: 'saved-1',
+      user_id: 'user-2',
+      title: 'Saved Neon Code',
+      code_value: '--sref 555',
+      tags: ['neon'],
+      save_count: 3,
+    };
+
+    beforeEach(() => {
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: null,
+        loading: false,
+        isPasswordRecovery: false,
+        signIn: vi.fn(),
+        signUp: vi.fn(),
+        signInWithGoogle: vi.fn(),
+        signInWithDiscord: vi.fn(),
+        signOut: vi.fn(),
+        resetPassword: vi.fn(),
+        updatePassword: vi.fn(),
+      });
+
+      mockUseSREFCodes.mockReturnValue({
+        ...mockUseSREFCodes(),
+        srefCodes: mockSREFCodes,
+      });
+    });
+
+    it('saves a library code from its card', async () => {
+      render(<SREFManagementDashboard />);
+      const { saveCode } = mockUseSavedCodes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Save Test SREF Code to favorites' }));
+
+      await waitFor(() => {
+        expect(saveCode).toHaveBeenCalledWith(mockSREFCodes[0]);
+      });
+    });
+
+    it('removes a saved code when its heart is clicked again', async () => {
+      mockUseSavedCodes.mockReturnValue({
+        ...mockUseSavedCodes(),
+        savedCodes: [mockSREFCodes[0]],
+        savedCodeIds: new Set(['1']),
+      });
+
+      render(<SREFManagementDashboard />);
+      const { unsaveCode } = mockUseSavedCodes();
+
+      const heart = screen.getByRole('button', { name: 'Remove Test SREF Code from favorites' });
+      expect(heart).toHaveAttribute('aria-pressed', 'true');
+      fireEvent.click(heart);
+
+      await waitFor(() => {
+        expect(unsaveCode).toHaveBeenCalledWith('1');
+      });
+    });
+
+    it('lists saved codes and filters them by search and tags', async () => {
+      mockUseSavedCodes.mockReturnValue({
+        ...mockUseSavedCodes(),
+        savedCodes: [savedCode, mockSREFCodes[0]],
+        savedCodeIds: new Set(['saved-1', '1']),
+      });
+
+      render(<SREFManagementDashboard />);
+      fireEvent.click(screen.getByRole('button', { name: 'Favorites' }));
+
+      expect(screen.getByText('Saved Neon Code')).toBeInTheDocument();
+      expect(screen.getByText('Test SREF Code')).toBeInTheDocument();
+
+      // The tag cloud offers the tags on saved codes
+      fireEvent.click(screen.getByTitle('Click to show codes tagged "neon".'));
+      expect(screen.getByText('Saved Neon Code')).toBeInTheDocument();
+      expect(screen.queryByText('Test SREF Code')).not.toBeInTheDocument();
+
+      fireEvent.change(screen.getByPlaceholderText('Search SREF codes...'), {
+        target: { value: 'nothing-matches' },
+      });
+      expect(await screen.findByText('No favorites match your search')).toBeInTheDocument();
+    });
+
+    it('explains how to save codes when there are no favorites yet', () => {
+      render(<SREFManagementDashboard />);
+      fireEvent.click(screen.getByRole('button', { name: 'Favorites' }));
+
+      expect(
+        screen.getByText('Save codes with the heart on any card and they will appear here.')
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe('Discover', () => {
+    const communityCode = {
+      ...mockSREFCodes[0],
+      id: 'community-1',
+      user_id: 'user-2',
+      title: 'Community Glow',
+      code_value: '--sref 777',
+      sv_version: 4,
+      notes: 'Soft light',
+      tags: ['glow', 'portrait'],
+      images: [{ id: 'image-7', image_url: 'https://example.com/glow.jpg', position: 0 }],
+      copy_count: 12,
+    };
+
+    beforeEach(() => {
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: null,
+        loading: false,
+        isPasswordRecovery: false,
+        signIn: vi.fn(),
+        signUp: vi.fn(),
+        signInWithGoogle: vi.fn(),
+        signInWithDiscord: vi.fn(),
+        signOut: vi.fn(),
+        resetPassword: vi.fn(),
+        updatePassword: vi.fn(),
+      });
+
+      mockUseSREFCodes.mockReturnValue({
+        ...mockUseSREFCodes(),
+        srefCodes: mockSREFCodes,
+        createSREFCode: vi.fn().mockResolvedValue({ success: true }),
+      });
+
+      mockUseDiscoverCodes.mockReturnValue({
+        ...mockUseDiscoverCodes(),
+        codes: [communityCode],
+      });
+    });
+
+    it('loads the feed with the search and tag filters', async () => {
+      render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseDiscoverCodes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Discover' }));
+      expect(screen.getByText('Community Glow')).toBeInTheDocument();
+      expect(screen.queryByText('Test SREF Code')).not.toBeInTheDocument();
+
+      // The tag cloud offers the tags on the feed's codes
+      fireEvent.click(screen.getByTitle('Click to show codes tagged "glow".'));
+      fireEvent.change(screen.getByPlaceholderText('Search SREF codes...'), {
+        target: { value: 'light' },
+      });
+
+      await waitFor(() => {
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { query: 'light', tags: ['glow'], tagMode: 'any' },
+          sort: 'newest',
+        });
+      });
+    });
+
+    it('clones a community code into the library with copies of its images', async () => {
+      const copyImage = vi
+        .spyOn(StorageService, 'copyImage')
+        .mockResolvedValue({ data: 'https://storage.example.com/user-1/glow.jpg', error: null });
+      render(<SREFManagementDashboard />);
+      const { createSREFCode } = mockUseSREFCodes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Discover' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Clone Community Glow into my library' }));
+
+      await waitFor(() => {
+        expect(createSREFCode).toHaveBeenCalledWith({
+          title: 'Community Glow',
+          code_value: '--sref 777',
+          sv_version: 4,
+          notes: 'Soft light',
+          images: ['https://storage.example.com/user-1/glow.jpg'],
+          tags: ['glow', 'portrait'],
+        });
       });
+      expect(copyImage).toHaveBeenCalledWith('https://example.com/glow.jpg', 'user-1');
+      copyImage.mockRestore();
+    });
+
+    it('deletes the copied images when the clone cannot be saved', async () => {
+      const copyImage = vi
+        .spyOn(StorageService, 'copyImage')
+        .mockResolvedValue({ data: 'https://storage.example.com/user-1/glow.jpg', error: null });
+      const removeCopies = vi.spyOn(StorageService, 'removeCopies').mockResolvedValue();
+      mockUseSREFCodes.mockReturnValue({
+        ...mockUseSREFCodes(),
+        createSREFCode: vi.fn().mockResolvedValue({ success: false, error: 'Offline' }),
+      });
+      render(<SREFManagementDashboard />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Discover' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Clone Community Glow into my library' }));
+
+      await waitFor(() => {
+        expect(removeCopies).toHaveBeenCalledWith(
+          ['https://example.com/glow.jpg'],
+          ['https://storage.example.com/user-1/glow.jpg']
+        );
+      });
+      copyImage.mockRestore();
+      removeCopies.mockRestore();
+    });
+
+    it('saves a community code to favorites', async () => {
+      render(<SREFManagementDashboard />);
+      const { saveCode } = mockUseSavedCodes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Discover' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Save Community Glow to favorites' }));
+
+      await waitFor(() => {
+        expect(saveCode).toHaveBeenCalledWith(communityCode);
+      });
+    });
+
+    it('votes on a community code', async () => {
+      render(<SREFManagementDashboard />);
+      const { toggleVote } = mockUseCodeVotes();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Discover' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Upvote Community Glow' }));
+
+      await waitFor(() => {
+        expect(toggleVote).toHaveBeenCalledWith(communityCode, 'up');
+      });
+    });
+
+    it("shows the latest vote counts and the viewer's vote", () => {
+      mockUseCodeVotes.mockReturnValue({
+        ...mockUseCodeVotes(),
+        votes: { 'community-1': 'down' },
+        voteCounts: { 'community-1': { upvotes: 4, downvotes: 1 } },
+      });
+
+      render(<SREFManagementDashboard />);
+      fireEvent.click(screen.getByRole('button', { name: 'Discover' }));
+
+      expect(screen.getByTitle('4 up, 1 down')).toHaveTextContent('3');
+      expect(
+        screen.getByRole('button', { name: 'Remove downvote from Community Glow' })
+      ).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it("offers no vote buttons on the viewer's own codes", () => {
+      mockUseSavedCodes.mockReturnValue({
+        ...mockUseSavedCodes(),
+        savedCodes: [mockSREFCodes[0]],
+        savedCodeIds: new Set(['1']),
+      });
+
+      render(<SREFManagementDashboard />);
+      fireEvent.click(screen.getByRole('button', { name: 'Favorites' }));
+
+      expect(screen.getByText('Test SREF Code')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Upvote/ })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Copy tracking', () => {
+    beforeEach(() => {
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: null,
+        loading: false,
+        isPasswordRecovery: false,
+        signIn: vi.fn(),
+        signUp: vi.fn(),
+        signInWithGoogle: vi.fn(),
+        signInWithDiscord: vi.fn(),
+        signOut: vi.fn(),
+        resetPassword: vi.fn(),
+        updatePassword: vi.fn(),
+      });
+
+      mockUseSREFCodes.mockReturnValue({
+        ...mockUseSREFCodes(),
+        srefCodes: mockSREFCodes,
+      });
+
+      Object.assign(navigator, { clipboard: { writeText: vi.fn() } });
+    });
+
+    it('records a copy when a card is copied', () => {
+      render(<SREFManagementDashboard />);
+      const { recordCopy } = mockUseCodeCopies();
+
+      fireEvent.click(screen.getByText('Test SREF Code'));
+
+      expect(navigator.clipboard.writeText).toHaveBeenCalledWith('--sref 1234567890 --sv 6');
+      expect(recordCopy).toHaveBeenCalledWith(mockSREFCodes[0]);
+    });
+
+    it('lists recently copied codes and copies them again', () => {
+      const copiedCode = { ...mockSREFCodes[0], id: 'copied-1', title: 'Copied Before' };
+      mockUseCodeCopies.mockReturnValue({
+        ...mockUseCodeCopies(),
+        recentCopies: [{ code: copiedCode, copiedAt: '2024-01-02T00:00:00Z' }],
+      });
+
+      render(<SREFManagementDashboard />);
+      const { recordCopy } = mockUseCodeCopies();
+
+      const strip = screen.getByRole('region', { name: 'Recently copied' });
+      fireEvent.click(within(strip).getByRole('button', { name: 'Copy Copied Before again' }));
+
+      expect(navigator.clipboard.writeText).toHaveBeenCalledWith('--sref 1234567890 --sv 6');
+      expect(recordCopy).toHaveBeenCalledWith(copiedCode);
+    });
+  });
+
+  describe('Visibility', () => {
+    beforeEach(() => {
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: null,
+        loading: false,
+        isPasswordRecovery: false,
+        signIn: vi.fn(),
+        signUp: vi.fn(),
+        signInWithGoogle: vi.fn(),
+        signInWithDiscord: vi.fn(),
+        signOut: vi.fn(),
+        resetPassword: vi.fn(),
+        updatePassword: vi.fn(),
+      });
+    });
+
+    it('badges shared codes and leaves private ones plain', () => {
+      mockUseSREFCodes.mockReturnValue({
+        ...mockUseSREFCodes(),
+        srefCodes: [
+          { ...mockSREFCodes[0], visibility: 'public' },
+          { ...mockSREFCodes[0], id: '2', title: 'Unlisted Code', visibility: 'unlisted' },
+          { ...mockSREFCodes[0], id: '3', title: 'Private Code', visibility: 'private' },
+        ],
+      });
+
+      render(<SREFManagementDashboard />);
+
+      expect(screen.getByTitle('Public: everyone can find it in Discover')).toHaveTextContent(
+        'Public'
+      );
+      expect(screen.getByTitle('Unlisted: anyone with a link can open it')).toHaveTextContent(
+        'Unlisted'
+      );
+      expect(screen.queryByText('Private')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Packs', () => {
+    beforeEach(() => {
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: null,
+        loading: false,
+        isPasswordRecovery: false,
+        signIn: vi.fn(),
+        signUp: vi.fn(),
+        signInWithGoogle: vi.fn(),
+        signInWithDiscord: vi.fn(),
+        signOut: vi.fn(),
+        resetPassword: vi.fn(),
+        updatePassword: vi.fn(),
+      });
+    });
+
+    it('opens a pack share link in the Packs tab and clears it when closed', async () => {
+      window.history.replaceState({}, '', '/?pack=pack-1');
+      mockUsePacks.mockReturnValue({
+        ...mockUsePacks(),
+        getSharedPack: vi.fn().mockResolvedValue({
+          pack: {
+            id: 'pack-1',
+            user_id: 'user-2',
+            title: 'Neon Nights',
+            description: null,
+            cover_image_url: null,
+            visibility: 'unlisted',
+            version: 2,
+            published_at: '2024-01-02T00:00:00Z',
+            codes: [
+              {
+                id: mockSREFCodes[0].id,
+                title: mockSREFCodes[0].title,
+                code_value: mockSREFCodes[0].code_value,
+                sv_version: mockSREFCodes[0].sv_version,
+                created_at: mockSREFCodes[0].created_at,
+                updated_at: mockSREFCodes[0].updated_at,
+                images: [],
+                tags: mockSREFCodes[0].tags,
+              },
+            ],
+          },
+        }),
+      });
+
+      render(<SREFManagementDashboard />);
+
+      expect(await screen.findByText('Version 2 · 1 code')).toBeInTheDocument();
+      expect(mockUsePacks().getSharedPack).toHaveBeenCalledWith('pack-1');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+      expect(window.location.search).toBe('');
+      expect(await screen.findByRole('region', { name: 'My packs' })).toBeInTheDocument();
+    });
+  });
+
+  describe('Export', () => {
+    beforeEach(() => {
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: null,
+        loading: false,
+        isPasswordRecovery: false,
+        signIn: vi.fn(),
+        signUp: vi.fn(),
+        signInWithGoogle: vi.fn(),
+        signInWithDiscord: vi.fn(),
+        signOut: vi.fn(),
+        resetPassword: vi.fn(),
+        updatePassword: vi.fn(),
+      });
+    });
+
+    it('exports the whole library', async () => {
+      render(<SREFManagementDashboard />);
+      const { exportCodes } = mockUseLibraryExport();
+
+      fireEvent.keyDown(screen.getByRole('button', { name: 'Export' }), { key: 'Enter' });
+      expect(screen.queryByText('Search results')).not.toBeInTheDocument();
+      fireEvent.click(
+        await screen.findByRole('menuitem', { name: 'Export whole library as Zip with images' })
+      );
+
+      await waitFor(() =>
+        expect(exportCodes).toHaveBeenCalledWith(
+          'zip',
+          { kind: 'library', label: '' },
+          { filters: undefined, select: undefined }
+        )
+      );
+    });
+
+    it('exports the codes the server matches for the current search', async () => {
+      render(<SREFManagementDashboard />);
+      const { exportCodes } = mockUseLibraryExport();
+
+      fireEvent.change(screen.getByPlaceholderText('Search SREF codes...'), {
+        target: { value: 'tag:cyberpunk' },
+      });
+      await waitFor(() =>
+        expect(mockUseSREFCodes().setQuery).toHaveBeenLastCalledWith(
+          expect.objectContaining({ filters: { tags: ['cyberpunk'], tagMode: 'all' } })
+        )
+      );
+
+      fireEvent.keyDown(screen.getByRole('button', { name: 'Export' }), { key: 'Enter' });
+      fireEvent.click(
+        await screen.findByRole('menuitem', { name: 'Export search results as CSV' })
+      );
+
+      await waitFor(() => expect(exportCodes).toHaveBeenCalled());
+      expect(exportCodes).toHaveBeenCalledWith(
+        'csv',
+        { kind: 'search', label: 'tag:cyberpunk' },
+        { filters: { tags: ['cyberpunk'], tagMode: 'all' }, select: undefined }
+      );
     });
   });
 
@@ -327,11 +1047,14 @@ describe('SREFManagementDashboard', () => {
         deleteSREFCode: vi.fn(),
         refreshSREFCodes: vi.fn(),
         searchSREFCodes: vi.fn(),
+        setQuery: vi.fn(),
+        loadMore: vi.fn(),
         getSREFCodeById: vi.fn(),
       });
 
       mockUseTags.mockReturnValue({
         tags: mockTags,
+        tagTree: buildTagTree(mockTags),
         loading: false,
         refreshTags: vi.fn(),
       });
@@ -361,6 +1084,51 @@ describe('SREFManagementDashboard', () => {
         expect(screen.queryByText('Test SREF Code')).not.toBeInTheDocument();
       });
     });
+    it('cycles tags through included, excluded and off', async () => {
+      render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseSREFCodes();
+      const neonTag = screen.getByText('neon');
+
+      fireEvent.click(neonTag);
+      await waitFor(() => {
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { tags: ['neon'], tagMode: 'any' },
+          sort: 'newest',
+        });
+      });
+      expect(neonTag.closest('[data-state]')).toHaveAttribute('data-state', 'included');
+
+      fireEvent.click(neonTag);
+      await waitFor(() => {
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { excludedTags: ['neon'] },
+          sort: 'newest',
+        });
+      });
+      expect(neonTag.closest('[data-state]')).toHaveAttribute('data-state', 'excluded');
+
+      fireEvent.click(neonTag);
+      await waitFor(() => {
+        expect(setQuery).toHaveBeenLastCalledWith({ filters: {}, sort: 'newest' });
+      });
+      expect(neonTag.closest('[data-state]')).toHaveAttribute('data-state', 'off');
+    });
+
+    it('requires every included tag in match-all mode', async () => {
+      render(<SREFManagementDashboard />);
+      const { setQuery } = mockUseSREFCodes();
+
+      fireEvent.click(screen.getByTitle('Click to show codes tagged "test".'));
+      fireEvent.click(screen.getByTitle('Click to show codes tagged "neon".'));
+      fireEvent.click(screen.getByRole('radio', { name: 'Match all included tags' }));
+
+      await waitFor(() => {
+        expect(setQuery).toHaveBeenLastCalledWith({
+          filters: { tags: ['test', 'neon'], tagMode: 'all' },
+          sort: 'newest',
+        });
+      });
+    });
   });
 
   describe('Loading states', () => {
@@ -388,6 +1156,8 @@ describe('SREFManagementDashboard', () => {
         deleteSREFCode: vi.fn(),
         refreshSREFCodes: vi.fn(),
         searchSREFCodes: vi.fn(),
+        setQuery: vi.fn(),
+        loadMore: vi.fn(),
         getSREFCodeById: vi.fn(),
       });
 
@@ -424,6 +1194,8 @@ describe('SREFManagementDashboard', () => {
         deleteSREFCode: vi.fn(),
         refreshSREFCodes: vi.fn(),
         searchSREFCodes: vi.fn(),
+        setQuery: vi.fn(),
+        loadMore: vi.fn(),
         getSREFCodeById: vi.fn(),
       });
 
@@ -479,6 +1251,8 @@ describe('SREFManagementDashboard', () => {
         deleteSREFCode: vi.fn(),
         refreshSREFCodes: vi.fn(),
         searchSREFCodes: vi.fn(),
+        setQuery: vi.fn(),
+        loadMore: vi.fn(),
         getSREFCodeById: vi.fn(),
       });
 
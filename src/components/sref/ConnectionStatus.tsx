@@ -0,0 +1,45 @@
+'use client';
+
+import * as React from 'react';
+import { Cloud, CloudOff, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+
+export interface ConnectionStatusProps {
+  className?: string;
+}
+
+export default function ConnectionStatus({ className }: ConnectionStatusProps) {
+  const { isOnline, queuedCount, syncing } = useOfflineSync();
+
+  const pendingLabel =
+    queuedCount > 0 ? ` · ${queuedCount} change${queuedCount === 1 ? '' : 's'} pending` : '';
+
+  let icon = <Cloud className="h-3 w-3" />;
+  let label = 'Online';
+  if (syncing) {
+    icon = <Loader2 className="h-3 w-3 animate-spin" />;
+    label = 'Syncing';
+  } else if (!isOnline) {
+    icon = <CloudOff className="h-3 w-3" />;
+    label = 'Offline';
+  }
+
+  return (
+    <Badge
+      variant={isOnline ? 'secondary' : 'outline'}
+      role="status"
+      aria-live="polite"
+      className={cn(
+        'gap-1.5 whitespace-nowrap',
+        !isOnline && 'border-amber-500/50 text-amber-600 dark:text-amber-400',
+        className
+      )}
+    >
+      {icon}
+      {label}
+      {pendingLabel}
+    </Badge>
+  );
+}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { toast } from 'sonner';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ExportScope } from '@/lib/libraryExport';
+import { ExportFormat, ExportSource, useLibraryExport } from '@/hooks/useLibraryExport';
+
+// The codes the scope covers come from its source
+export interface ExportOption extends ExportSource {
+  scope: ExportScope;
+}
+
+interface ExportMenuProps {
+  // In menu order, e.g. the whole library first
+  options: ExportOption[];
+  className?: string;
+}
+
+const TOAST_OPTIONS = { duration: 3000, position: 'bottom-right' } as const;
+
+const SCOPE_TITLES: Record<ExportScope['kind'], string> = {
+  library: 'Whole library',
+  folder: 'This folder',
+  search: 'Search results',
+  selection: 'Selected codes',
+};
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'zip', label: 'Zip with images' },
+];
+
+const countCodes = (count: number) => `${count} code${count === 1 ? '' : 's'}`;
+
+export default function ExportMenu({ options, className }: ExportMenuProps) {
+  const { exporting, exportCodes } = useLibraryExport();
+
+  const handleExport = async (option: ExportOption, format: ExportFormat) => {
+    const { scope, filters, select } = option;
+    const result = await exportCodes(format, scope, { filters, select });
+    if (!result.success) {
+      toast.error(`Export failed: ${result.error}`, TOAST_OPTIONS);
+      return;
+    }
+    const exported = `Exported ${countCodes(result.count ?? 0)}`;
+    if (result.missingImages) {
+      toast.warning(
+        `${exported}; ${result.missingImages} image${result.missingImages === 1 ? '' : 's'} couldn't be downloaded`,
+        TOAST_OPTIONS
+      );
+    } else {
+      toast.success(exported, TOAST_OPTIONS);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className} disabled={exporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option, index) => (
+          <React.Fragment key={option.scope.kind}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>
+              {SCOPE_TITLES[option.scope.kind]}
+              {option.scope.label && (
+                <span className="block text-xs font-normal text-muted-foreground truncate">
+                  {option.scope.label}
+                </span>
+              )}
+            </DropdownMenuLabel>
+            {FORMATS.map(({ format, label }) => (
+              <DropdownMenuItem
+                key={format}
+                aria-label={`Export ${SCOPE_TITLES[option.scope.kind].toLowerCase()} as ${label}`}
+                onSelect={() => handleExport(option, format)}
+              >
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </React.Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
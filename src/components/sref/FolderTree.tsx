@@ -0,0 +1,381 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder as FolderIcon,
+  FolderPlus,
+  FolderSearch,
+  MoreHorizontal,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { sidebarNavVariants } from '@/components/ui/variants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Folder } from '@/lib/database';
+import { FolderNode, flattenFolderTree, folderSubtreeIds } from '@/lib/folderTree';
+import { getDraggedCodes, isCodeDrag } from '@/lib/codeDrag';
+import { FolderOperationResult, useFolders } from '@/hooks/useFolders';
+import SmartFolderEditor from './SmartFolderEditor';
+
+interface FolderTreeProps {
+  selectedFolderId: string | null;
+  // Called with null to go back to the whole library
+  onSelectFolder: (folderId: string | null) => void;
+}
+
+// A folder name being typed: a new folder under parentId, or a rename
+type FolderEdit =
+  | { mode: 'create'; parentId: string | null }
+  | { mode: 'rename'; folderId: string };
+
+const TOAST_OPTIONS = { duration: 3000, position: 'bottom-right' } as const;
+
+interface FolderNameInputProps {
+  label: string;
+  initialValue?: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+// Inline name field: Enter saves, Escape or clicking away cancels
+function FolderNameInput({ label, initialValue = '', onSubmit, onCancel }: FolderNameInputProps) {
+  const [value, setValue] = useState(initialValue);
+
+  return (
+    <Input
+      autoFocus
+      aria-label={label}
+      value={value}
+      className="h-7 text-sm"
+      onChange={e => setValue(e.target.value)}
+      onBlur={onCancel}
+      onKeyDown={e => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          onSubmit(value);
+        }
+        if (e.key === 'Escape') {
+          onCancel();
+        }
+      }}
+    />
+  );
+}
+
+/**
+ * The user's folders as a collapsible tree. Selecting a folder filters the
+ * library to the codes filed in it, or for a smart folder to the codes matching
+ * its filters; each folder's menu creates subfolders, renames, moves and deletes it.
+ * Codes dragged from the grid are filed into the regular folder they're dropped on.
+ */
+export default function FolderTree({ selectedFolderId, onSelectFolder }: FolderTreeProps) {
+  const {
+    folders,
+    folderTree,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    addCodesToFolder,
+  } = useFolders();
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [editing, setEditing] = useState<FolderEdit | null>(null);
+  const [deleting, setDeleting] = useState<Folder | null>(null);
+  const [editingCriteria, setEditingCriteria] = useState<Folder | null>(null);
+  // Folder that dragged codes would be filed into
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const allNodes = flattenFolderTree(folderTree);
+
+  const toggleExpanded = (folderId: string) => {
+    setExpanded(prev =>
+      prev.includes(folderId) ? prev.filter(id => id !== folderId) : [...prev, folderId]
+    );
+  };
+
+  const reportFailure = (result: FolderOperationResult, action: string) => {
+    if (!result.success) {
+      toast.error(`Failed to ${action}: ${result.error}`, TOAST_OPTIONS);
+    }
+    return result.success;
+  };
+
+  const handleCreate = async (name: string, parentId: string | null) => {
+    const result = await createFolder(name, parentId);
+    if (!reportFailure(result, 'create folder')) return;
+
+    setEditing(null);
+    if (parentId && !expanded.includes(parentId)) {
+      setExpanded(prev => [...prev, parentId]);
+    }
+  };
+
+  const handleRename = async (folder: Folder, name: string) => {
+    if (name.trim() === folder.name) {
+      setEditing(null);
+      return;
+    }
+    const result = await renameFolder(folder.id, name);
+    if (reportFailure(result, 'rename folder')) setEditing(null);
+  };
+
+  const handleMove = async (folder: Folder, parent: Folder | null) => {
+    const result = await moveFolder(folder.id, parent?.id ?? null);
+    if (!reportFailure(result, 'move folder')) return;
+
+    toast.success(
+      parent
+        ? `Moved "${folder.name}" into "${parent.name}"`
+        : `Moved "${folder.name}" to the top level`,
+      TOAST_OPTIONS
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const folder = deleting;
+    setDeleting(null);
+    const result = await deleteFolder(folder.id);
+    if (!reportFailure(result, 'delete folder')) return;
+
+    if (selectedFolderId === folder.id) onSelectFolder(null);
+    toast.success(`Deleted "${folder.name}"`, TOAST_OPTIONS);
+  };
+
+  const handleDrop = async (folder: Folder, codeIds: string[]) => {
+    if (codeIds.length === 0) return;
+
+    const result = await addCodesToFolder(folder.id, codeIds);
+    if (!reportFailure(result, 'add to folder')) return;
+
+    toast.success(
+      codeIds.length === 1
+        ? `Added 1 code to "${folder.name}"`
+        : `Added ${codeIds.length} codes to "${folder.name}"`,
+      TOAST_OPTIONS
+    );
+  };
+
+  const renderNameInput = (parentId: string | null, depth: number) =>
+    editing?.mode === 'create' &&
+    editing.parentId === parentId && (
+      <li className="py-1 pr-1" style={{ paddingLeft: depth * 12 + 20 }}>
+        <FolderNameInput
+          label="New folder name"
+          onSubmit={name => handleCreate(name, parentId)}
+          onCancel={() => setEditing(null)}
+        />
+      </li>
+    );
+
+  const renderNode = (node: FolderNode): React.ReactNode => {
+    const { folder, depth, children } = node;
+    const hasChildren = children.length > 0;
+    const isExpanded = expanded.includes(folder.id);
+    const isSelected = selectedFolderId === folder.id;
+    const isRenaming = editing?.mode === 'rename' && editing.folderId === folder.id;
+    const Chevron = isExpanded ? ChevronDown : ChevronRight;
+    const Icon = folder.is_smart ? FolderSearch : FolderIcon;
+
+    // A folder can't move into itself, anything inside it, or where it already is
+    const subtree = folderSubtreeIds(folders, folder.id);
+    const moveTargets = allNodes.filter(target => !subtree.has(target.folder.id));
+
+    return (
+      <li key={folder.id}>
+        <div
+          className={cn(
+            'group flex items-center gap-1 rounded-md',
+            dropTargetId === folder.id && 'bg-sidebar-accent ring-1 ring-primary'
+          )}
+          style={{ paddingLeft: depth * 12 }}
+          onDragOver={e => {
+            // Smart folders fill themselves, so nothing can be dropped on them
+            if (folder.is_smart || !isCodeDrag(e.dataTransfer)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'copy';
+            setDropTargetId(folder.id);
+          }}
+          onDragLeave={() => setDropTargetId(current => (current === folder.id ? null : current))}
+          onDrop={e => {
+            if (folder.is_smart) return;
+            e.preventDefault();
+            setDropTargetId(null);
+            handleDrop(folder, getDraggedCodes(e.dataTransfer));
+          }}
+        >
+          {hasChildren ? (
+            <button
+              type="button"
+              className="rounded-sm text-muted-foreground hover:text-foreground"
+              aria-expanded={isExpanded}
+              aria-label={`${isExpanded ? 'Collapse' : 'Expand'} ${folder.name}`}
+              onClick={() => toggleExpanded(folder.id)}
+            >
+              <Chevron className="h-4 w-4" />
+            </button>
+          ) : (
+            <span className="w-4 flex-shrink-0" />
+          )}
+          {isRenaming ? (
+            <FolderNameInput
+              label={`Rename ${folder.name}`}
+              initialValue={folder.name}
+              onSubmit={name => handleRename(folder, name)}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <button
+              type="button"
+              className={cn(
+                sidebarNavVariants({
+                  variant: isSelected ? 'primary' : 'secondary',
+                  size: 'compact',
+                  shape: 'rounded',
+                }),
+                'min-w-0 py-1'
+              )}
+              aria-pressed={isSelected}
+              onClick={() => onSelectFolder(isSelected ? null : folder.id)}
+            >
+              <Icon className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+              <span className="truncate">{folder.name}</span>
+            </button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                aria-label={`${folder.name} folder actions`}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            {/* Keep focus off the trigger so a name field opened from the menu stays focused */}
+            <DropdownMenuContent align="start" onCloseAutoFocus={e => e.preventDefault()}>
+              <DropdownMenuItem
+                onSelect={() => setEditing({ mode: 'create', parentId: folder.id })}
+              >
+                New subfolder
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => setEditing({ mode: 'rename', folderId: folder.id })}
+              >
+                Rename
+              </DropdownMenuItem>
+              {folder.is_smart && (
+                <DropdownMenuItem onSelect={() => setEditingCriteria(folder)}>
+                  Edit filters
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Move to</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem
+                    disabled={folder.parent_id === null}
+                    onSelect={() => handleMove(folder, null)}
+                  >
+                    Top level
+                  </DropdownMenuItem>
+                  {moveTargets.map(target => (
+                    <DropdownMenuItem
+                      key={target.folder.id}
+                      disabled={target.folder.id === folder.parent_id}
+                      style={{ paddingLeft: target.depth * 12 + 8 }}
+                      onSelect={() => handleMove(folder, target.folder)}
+                    >
+                      {target.folder.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-destructive" onSelect={() => setDeleting(folder)}>
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {(isExpanded || (editing?.mode === 'create' && editing.parentId === folder.id)) && (
+          <ul aria-label={`${folder.name} subfolders`}>
+            {renderNameInput(folder.id, depth + 1)}
+            {isExpanded && children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section className="mt-4 space-y-1">
+      <div className="flex items-center justify-between px-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Folders
+        </h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          aria-label="New folder"
+          onClick={() => setEditing({ mode: 'create', parentId: null })}
+        >
+          <FolderPlus className="h-4 w-4" />
+        </Button>
+      </div>
+      <ul aria-label="Folders">
+        {renderNameInput(null, 0)}
+        {folderTree.map(renderNode)}
+      </ul>
+      {folderTree.length === 0 && editing === null && (
+        <p className="px-2 text-xs text-muted-foreground">No folders yet</p>
+      )}
+
+      {editingCriteria && (
+        <SmartFolderEditor
+          isOpen
+          folder={editingCriteria}
+          onClose={() => setEditingCriteria(null)}
+        />
+      )}
+
+      <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &ldquo;{deleting?.name}&rdquo;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its subfolders move up a level. The codes filed in it stay in your library.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete folder</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+}
@@ -0,0 +1,340 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ColumnMapping,
+  DuplicateStrategy,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportSource,
+  ValidImportRow,
+  fromCSVTable,
+  guessColumnMapping,
+  readImportFile,
+  validateImportRecords,
+} from '@/lib/libraryImport';
+import { ImportRunResult, useLibraryImport } from '@/hooks/useLibraryImport';
+import { useTagRules } from '@/hooks/useTagRules';
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type WizardStep = 'file' | 'mapping' | 'review' | 'result';
+
+// Select value for a field that isn't read from any column
+const UNMAPPED = 'none';
+
+const DUPLICATE_OPTIONS: Array<{ value: DuplicateStrategy; label: string }> = [
+  { value: 'skip', label: 'Skip them' },
+  { value: 'merge', label: 'Add their tags to the existing code' },
+  { value: 'duplicate', label: 'Import them as new codes' },
+];
+
+const countCodes = (count: number) => `${count} code${count === 1 ? '' : 's'}`;
+
+/**
+ * Bulk import from a JSON export, a zip bundle or any CSV. CSV columns are
+ * mapped to code fields first; every row is then checked before anything is
+ * saved, and codes already in the library are skipped, merged or duplicated
+ * as the user chooses. An import cut short picks up again from here.
+ */
+export default function ImportWizard({ isOpen, onClose }: ImportWizardProps) {
+  const {
+    pendingImport,
+    importing,
+    progress,
+    findDuplicates,
+    startImport,
+    resumeImport,
+    discardImport,
+  } = useLibraryImport();
+  const { normalizeTag } = useTagRules();
+
+  const [step, setStep] = useState<WizardStep>('file');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [duplicateRows, setDuplicateRows] = useState<number[]>([]);
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [result, setResult] = useState<ImportRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const validation = useMemo(() => {
+    if (!source) return null;
+    const records = source.table && mapping ? fromCSVTable(source.table, mapping) : source.records;
+    return validateImportRecords(records, normalizeTag);
+  }, [source, mapping, normalizeTag]);
+
+  const bundledImageCount = Object.keys(source?.images ?? {}).length;
+  const isMappingComplete = IMPORT_FIELDS.every(
+    ({ field, required }) => !required || mapping?.[field] !== null
+  );
+
+  // Look for codes already in the library before showing the review
+  const review = async (rows: ValidImportRow[]) => {
+    setBusy(true);
+    setError(null);
+    const duplicates = await findDuplicates(rows);
+    setBusy(false);
+
+    if (duplicates.error) {
+      setError(duplicates.error);
+      return;
+    }
+    setDuplicateRows(duplicates.rows);
+    setStep('review');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    const { data, error: readError } = await readImportFile(file);
+    setBusy(false);
+
+    if (!data) {
+      setError(readError ?? 'The file could not be read');
+      return;
+    }
+    setSource(data);
+    if (data.table) {
+      setMapping(guessColumnMapping(data.table.headers));
+      setStep('mapping');
+    } else {
+      // Exports need no mapping
+      setMapping(null);
+      await review(validateImportRecords(data.records, normalizeTag).rows);
+    }
+  };
+
+  const finish = (outcome: ImportRunResult) => {
+    if (!outcome.success) {
+      setError(outcome.error ?? 'Import failed');
+      // Back to where the unfinished import is offered, rather than starting over
+      if (outcome.resumable) setStep('file');
+      return;
+    }
+    setResult(outcome);
+    setStep('result');
+  };
+
+  const handleImport = async () => {
+    if (!source || !validation) return;
+    setError(null);
+    finish(await startImport(source.fileName, validation.rows, source.images, strategy));
+  };
+
+  const handleResume = async () => {
+    setError(null);
+    finish(await resumeImport());
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping(current =>
+      current ? { ...current, [field]: value === UNMAPPED ? null : Number(value) } : current
+    );
+  };
+
+  const pendingDone = pendingImport?.tasks.filter(task => task.status !== 'pending').length ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import codes</DialogTitle>
+          <DialogDescription>
+            {step === 'mapping'
+              ? `Choose which columns of ${source?.fileName} hold each field.`
+              : 'Import a JSON export, a zip bundle with images or a CSV file.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {importing && progress ? (
+          <div className="space-y-2" role="status">
+            <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+            <p className="text-sm text-muted-foreground">
+              {progress.done} of {progress.total} done. If this tab closes, the import picks up
+              where it stopped next time you open it.
+            </p>
+          </div>
+        ) : step === 'file' ? (
+          <div className="space-y-4">
+            {pendingImport && (
+              <section
+                aria-label="Unfinished import"
+                className="space-y-2 rounded-md border bg-muted/40 p-3"
+              >
+                <p className="text-sm">
+                  Importing {pendingImport.fileName} stopped after {pendingDone} of{' '}
+                  {pendingImport.tasks.length} steps.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleResume}>
+                    Resume import
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={discardImport}>
+                    Discard
+                  </Button>
+                </div>
+              </section>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".json,.csv,.zip"
+                onChange={handleFileChange}
+                disabled={busy}
+              />
+            </div>
+            {busy && <p className="text-sm text-muted-foreground">Reading file...</p>}
+          </div>
+        ) : step === 'mapping' && source?.table && mapping ? (
+          <div className="space-y-3">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor={`import-column-${field}`}>
+                  {label}
+                  {required && ' *'}
+                </Label>
+                <Select
+                  value={mapping[field] === null ? UNMAPPED : String(mapping[field])}
+                  onValueChange={value => setColumn(field, value)}
+                >
+                  <SelectTrigger id={`import-column-${field}`} aria-label={`Column for ${label}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>
+                      {field === 'version' ? 'Not imported (SV6)' : 'Not imported'}
+                    </SelectItem>
+                    {source.table?.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        ) : step === 'review' && validation ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {countCodes(validation.rows.length)} ready to import from {source?.fileName}
+              {bundledImageCount > 0 &&
+                `, with ${bundledImageCount} image${bundledImageCount === 1 ? '' : 's'} to upload`}
+              .
+            </p>
+
+            {validation.errors.length > 0 && (
+              <section aria-label="Rows with problems" className="space-y-1">
+                <p className="text-sm font-medium text-destructive">
+                  {validation.errors.length} row{validation.errors.length === 1 ? '' : 's'} won't be
+                  imported:
+                </p>
+                <ul className="max-h-40 overflow-y-auto space-y-1 text-sm">
+                  {validation.errors.map(rowError => (
+                    <li key={rowError.row}>
+                      Row {rowError.row}: {rowError.messages.join('; ')}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {duplicateRows.length > 0 && (
+              <section aria-label="Duplicates" className="space-y-2">
+                <p className="text-sm">
+                  {countCodes(duplicateRows.length)} already in your library or repeated in the file
+                  (rows {duplicateRows.join(', ')}).
+                </p>
+                <RadioGroup
+                  value={strategy}
+                  onValueChange={value => setStrategy(value as DuplicateStrategy)}
+                  aria-label="Duplicates"
+                >
+                  {DUPLICATE_OPTIONS.map(option => (
+                    <div key={option.value} className="flex items-center gap-2">
+                      <RadioGroupItem value={option.value} id={`import-${option.value}`} />
+                      <Label htmlFor={`import-${option.value}`}>{option.label}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </section>
+            )}
+          </div>
+        ) : result ? (
+          <div className="space-y-2 text-sm" role="status">
+            <p>
+              Created {countCodes(result.created ?? 0)}
+              {result.merged ? `, added tags to ${countCodes(result.merged)}` : ''}
+              {result.skipped ? `, skipped ${countCodes(result.skipped)}` : ''}.
+            </p>
+            {result.failed && result.failed.length > 0 && (
+              <ul className="space-y-1 text-destructive">
+                {result.failed.map(task => (
+                  <li key={task.row}>
+                    Row {task.row}: {task.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : null}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('file')} disabled={busy}>
+                Back
+              </Button>
+              <Button
+                onClick={() => validation && review(validation.rows)}
+                disabled={busy || !isMappingComplete}
+              >
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'review' && !importing && (
+            <>
+              <Button variant="outline" onClick={() => setStep(source?.table ? 'mapping' : 'file')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validation?.rows.length === 0}>
+                Import {countCodes(validation?.rows.length ?? 0)}
+              </Button>
+            </>
+          )}
+          {step === 'result' && <Button onClick={onClose}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
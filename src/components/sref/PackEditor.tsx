@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Pack, SREFCode } from '@/lib/database';
+import { matchesSearchQuery } from '@/lib/libraryStore';
+import { moveCodeIds } from '@/lib/folderTree';
+import { usePacks } from '@/hooks/usePacks';
+import { useSREFCodes } from '@/hooks/useSREFCodes';
+
+interface PackEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Pack to edit; leave out to create a new one
+  pack?: Pack;
+  // Codes a new pack starts with, e.g. the selected cards
+  initialCodeIds?: string[];
+}
+
+const TOAST_OPTIONS = { duration: 3000, position: 'bottom-right' } as const;
+
+// Library codes offered at a time while adding codes
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Create or edit a pack: its title, description and cover, plus the codes in it
+ * in the order importers will get them. Changes reach importers once the pack
+ * is published again.
+ */
+export default function PackEditor({
+  isOpen,
+  onClose,
+  pack,
+  initialCodeIds = [],
+}: PackEditorProps) {
+  const { createPack, updatePack, getPackCodes } = usePacks();
+  const { srefCodes } = useSREFCodes();
+
+  const [title, setTitle] = useState(pack?.title ?? '');
+  const [description, setDescription] = useState(pack?.description ?? '');
+  const [coverImageUrl, setCoverImageUrl] = useState(pack?.cover_image_url ?? '');
+  const [codes, setCodes] = useState<SREFCode[]>(() =>
+    pack ? [] : srefCodes.filter(code => initialCodeIds.includes(code.id))
+  );
+  const [codeQuery, setCodeQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loadingCodes, setLoadingCodes] = useState(Boolean(pack));
+  const [saving, setSaving] = useState(false);
+
+  // The pack's codes may not all be in the loaded library pages, so fetch them
+  useEffect(() => {
+    if (!pack) return;
+
+    let cancelled = false;
+    getPackCodes(pack.id).then(result => {
+      if (cancelled) return;
+      setLoadingCodes(false);
+      if (result.error) {
+        setError(`Failed to load the pack's codes: ${result.error}`);
+      } else {
+        setCodes(result.codes);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pack, getPackCodes]);
+
+  const suggestions = useMemo(() => {
+    if (!codeQuery.trim()) return [];
+    const inPack = new Set(codes.map(code => code.id));
+    return srefCodes
+      .filter(
+        code =>
+          !inPack.has(code.id) &&
+          matchesSearchQuery([code.title, code.code_value, ...code.tags], codeQuery)
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }, [codes, srefCodes, codeQuery]);
+
+  const moveCode = (index: number, offset: number) => {
+    const target = codes[index + offset];
+    if (!target) return;
+    const order = moveCodeIds(
+      codes.map(code => code.id),
+      [codes[index].id],
+      target.id
+    );
+    setCodes(order.flatMap(id => codes.filter(code => code.id === id)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const draft = {
+      title,
+      description,
+      cover_image_url: coverImageUrl,
+      codeIds: codes.map(code => code.id),
+    };
+    const result = pack ? await updatePack(pack.id, draft) : await createPack(draft);
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error ?? 'Failed to save pack');
+      return;
+    }
+
+    toast.success(pack ? `Updated "${title.trim()}"` : `Created "${title.trim()}"`, TOAST_OPTIONS);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{pack ? 'Edit pack' : 'New pack'}</DialogTitle>
+          <DialogDescription>
+            {pack && pack.version > 0
+              ? `Importers keep version ${pack.version} until you publish these changes.`
+              : 'Packs stay private until you publish them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="pack-title">Title</Label>
+            <Input
+              id="pack-title"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pack-description">Description</Label>
+            <Textarea
+              id="pack-description"
+              rows={3}
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pack-cover">Cover image URL</Label>
+            <Input
+              id="pack-cover"
+              type="url"
+              placeholder="https://"
+              value={coverImageUrl}
+              onChange={e => setCoverImageUrl(e.target.value)}
+            />
+          </div>
+
+          <section className="space-y-2" aria-label="Codes in this pack">
+            <h3 className="text-sm font-medium">Codes</h3>
+            {loadingCodes ? (
+              <p className="text-sm text-muted-foreground">Loading codes…</p>
+            ) : codes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No codes yet. Search your library below to add some.
+              </p>
+            ) : (
+              <ol className="space-y-1">
+                {codes.map((code, index) => (
+                  <li
+                    key={code.id}
+                    className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm"
+                  >
+                    <span className="w-5 text-muted-foreground">{index + 1}</span>
+                    <span className="flex-1 truncate">{code.title}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === 0}
+                      onClick={() => moveCode(index, -1)}
+                      aria-label={`Move ${code.title} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === codes.length - 1}
+                      onClick={() => moveCode(index, 1)}
+                      aria-label={`Move ${code.title} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setCodes(prev => prev.filter(item => item.id !== code.id))}
+                      aria-label={`Remove ${code.title} from the pack`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <Input
+              aria-label="Find codes to add"
+              placeholder="Find codes in your library to add"
+              value={codeQuery}
+              onChange={e => setCodeQuery(e.target.value)}
+            />
+            {suggestions.length > 0 && (
+              <ul className="space-y-1">
+                {suggestions.map(code => (
+                  <li key={code.id}>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={() => setCodes(prev => [...prev, code])}
+                      aria-label={`Add ${code.title} to the pack`}
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span className="truncate">{code.title}</span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || loadingCodes}>
+              {pack ? 'Save changes' : 'Create pack'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
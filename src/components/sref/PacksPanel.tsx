@@ -0,0 +1,431 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, Link2, Package, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Pack, PackCodeSummary, SharedPack } from '@/lib/database';
+import { PackResult, usePacks } from '@/hooks/usePacks';
+import { useAuth } from '@/hooks/useAuth';
+import PackEditor from './PackEditor';
+
+interface PacksPanelProps {
+  // Pack opened from a share link; it is previewed until the preview is closed
+  sharedPackId?: string | null;
+  onSharedPackClose?: () => void;
+}
+
+const TOAST_OPTIONS = { duration: 3000, position: 'bottom-right' } as const;
+
+// Share links open the app on the pack's preview
+const getPackLink = (packId: string) =>
+  `${window.location.origin}${window.location.pathname}?pack=${packId}`;
+
+const countCodes = (count: number) => `${count} code${count === 1 ? '' : 's'}`;
+
+const listTitles = (codes: PackCodeSummary[]) => codes.map(code => code.title).join(', ');
+
+interface PackPreviewProps {
+  packId: string;
+  onClose: () => void;
+  // Not offered for the user's own packs, which can't be imported
+  onImport: (pack: SharedPack) => void;
+}
+
+// The latest published version of a pack, as an importer would get it
+function PackPreview({ packId, onClose, onImport }: PackPreviewProps) {
+  const { getSharedPack } = usePacks();
+  const { user } = useAuth();
+  const [pack, setPack] = useState<SharedPack | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSharedPack(packId).then(result => {
+      if (cancelled) return;
+      setLoading(false);
+      setPack(result.pack);
+      setError(
+        result.error ??
+          (result.pack ? null : 'This pack is private, unpublished or no longer exists.')
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [packId, getSharedPack]);
+
+  const isOwnPack = pack?.user_id === user?.id;
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{pack?.title ?? 'Shared pack'}</DialogTitle>
+          <DialogDescription>
+            {pack
+              ? `Version ${pack.version} · ${countCodes(pack.codes.length)}`
+              : loading
+                ? 'Loading pack…'
+                : 'Pack unavailable'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {pack && (
+          <div className="space-y-4">
+            {pack.cover_image_url && (
+              <img
+                src={pack.cover_image_url}
+                alt=""
+                className="w-full max-h-48 rounded-md object-cover"
+              />
+            )}
+            {pack.description && <p className="text-sm">{pack.description}</p>}
+            <ol className="space-y-1 text-sm">
+              {pack.codes.map(code => (
+                <li key={code.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{code.title}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {code.code_value} · SV{code.sv_version}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {pack && !isOwnPack && (
+          <DialogFooter>
+            <Button type="button" onClick={() => onImport(pack)}>
+              <Download className="h-4 w-4" />
+              Import pack
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The Packs tab: updates to packs the user imported, the user's own packs with
+ * editing, publishing and share links, and public packs from the community.
+ */
+export default function PacksPanel({ sharedPackId = null, onSharedPackClose }: PacksPanelProps) {
+  const {
+    packs,
+    packCodeIds,
+    communityPacks,
+    packImports,
+    packUpdates,
+    loading,
+    error,
+    deletePack,
+    publishPack,
+    importPack,
+  } = usePacks();
+  const [editing, setEditing] = useState<Pack | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<Pack | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(sharedPackId);
+  const [importingId, setImportingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (sharedPackId) setPreviewId(sharedPackId);
+  }, [sharedPackId]);
+
+  const reportFailure = (result: PackResult, action: string) => {
+    if (!result.success) {
+      toast.error(`Failed to ${action}: ${result.error}`, TOAST_OPTIONS);
+    }
+    return result.success;
+  };
+
+  const closePreview = () => {
+    if (previewId === sharedPackId) onSharedPackClose?.();
+    setPreviewId(null);
+  };
+
+  const handleImport = async (packId: string, title: string) => {
+    setImportingId(packId);
+    const result = await importPack(packId);
+    setImportingId(null);
+    if (!reportFailure(result, `import "${title}"`)) return;
+
+    toast.success(
+      result.imported
+        ? `Imported ${countCodes(result.imported)} from "${title}"`
+        : `Everything in "${title}" is already in your library`,
+      TOAST_OPTIONS
+    );
+    if (result.imagesNotCopied) {
+      toast.warning(
+        `The images of ${countCodes(result.imagesNotCopied)} couldn't be copied; they still use the author's files`,
+        TOAST_OPTIONS
+      );
+    }
+  };
+
+  const handlePublish = async (pack: Pack, visibility: 'public' | 'unlisted') => {
+    const result = await publishPack(pack.id, visibility);
+    if (!reportFailure(result, `publish "${pack.title}"`)) return;
+
+    toast.success(
+      visibility === 'public'
+        ? `Published "${pack.title}" for everyone`
+        : `Published "${pack.title}" for anyone with the link`,
+      TOAST_OPTIONS
+    );
+  };
+
+  const handleCopyLink = (pack: Pack) => {
+    navigator.clipboard.writeText(getPackLink(pack.id));
+    toast.success('Pack link copied to clipboard!', { duration: 2000, position: 'bottom-right' });
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const pack = deleting;
+    setDeleting(null);
+    const result = await deletePack(pack.id);
+    if (!reportFailure(result, 'delete pack')) return;
+
+    toast.success(`Deleted "${pack.title}"`, TOAST_OPTIONS);
+  };
+
+  return (
+    <div className="p-6 space-y-8">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {packUpdates.length > 0 && (
+        <section aria-label="Pack updates" className="space-y-3">
+          <h3 className="text-lg font-semibold">Updates</h3>
+          {packUpdates.map(update => (
+            <div key={update.packId} className="rounded-lg border bg-card p-4 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium">{update.title}</div>
+                  <div className="text-sm text-muted-foreground">
+                    Version {update.latestVersion} is out; you imported version{' '}
+                    {update.importedVersion}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  disabled={importingId === update.packId}
+                  onClick={() => handleImport(update.packId, update.title)}
+                >
+                  Import version {update.latestVersion}
+                </Button>
+              </div>
+              <ul className="text-sm space-y-1">
+                {update.added.length > 0 && <li>Added: {listTitles(update.added)}</li>}
+                {update.removed.length > 0 && (
+                  <li>Removed (your copies stay in your library): {listTitles(update.removed)}</li>
+                )}
+                {update.changed.length > 0 && <li>Edited: {listTitles(update.changed)}</li>}
+              </ul>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <section aria-label="My packs" className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-lg font-semibold">My packs</h3>
+          <Button size="sm" onClick={() => setEditing('new')}>
+            <Plus className="h-4 w-4" />
+            New pack
+          </Button>
+        </div>
+        {packs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {loading
+              ? 'Loading packs…'
+              : 'Gather codes into a pack to share them as one collection.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {packs.map(pack => (
+              <li
+                key={pack.id}
+                className="flex items-center gap-3 rounded-lg border bg-card p-3"
+                aria-label={pack.title}
+              >
+                <Package className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{pack.title}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {countCodes(packCodeIds[pack.id]?.length ?? 0)}
+                  </div>
+                </div>
+                {pack.version > 0 ? (
+                  <Badge variant="secondary">
+                    v{pack.version} · {pack.visibility === 'public' ? 'Public' : 'Link only'}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">Draft</Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setEditing(pack)}
+                  aria-label={`Edit ${pack.title}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label={`Publish ${pack.title}`}>
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => handlePublish(pack, 'public')}>
+                      Publish for everyone
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => handlePublish(pack, 'unlisted')}>
+                      Publish for anyone with the link
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {pack.version > 0 && pack.visibility !== 'private' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleCopyLink(pack)}
+                    aria-label={`Copy link to ${pack.title}`}
+                  >
+                    <Link2 className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDeleting(pack)}
+                  aria-label={`Delete ${pack.title}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section aria-label="Community packs" className="space-y-3">
+        <h3 className="text-lg font-semibold">Community packs</h3>
+        {communityPacks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {loading ? 'Loading packs…' : 'No one has published a pack yet.'}
+          </p>
+        ) : (
+          <ul className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+            {communityPacks.map(pack => {
+              const importedVersion = packImports[pack.id];
+              const upToDate = importedVersion !== undefined && importedVersion >= pack.version;
+              return (
+                <li
+                  key={pack.id}
+                  className="rounded-lg border bg-card overflow-hidden"
+                  aria-label={pack.title}
+                >
+                  {pack.cover_image_url && (
+                    <img src={pack.cover_image_url} alt="" className="h-32 w-full object-cover" />
+                  )}
+                  <div className="p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="font-medium truncate">{pack.title}</div>
+                      <Badge variant="outline">v{pack.version}</Badge>
+                    </div>
+                    {pack.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {pack.description}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setPreviewId(pack.id)}>
+                        Preview
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={upToDate || importingId === pack.id}
+                        onClick={() => handleImport(pack.id, pack.title)}
+                        aria-label={upToDate ? undefined : `Import ${pack.title}`}
+                      >
+                        {upToDate
+                          ? `Imported v${importedVersion}`
+                          : importedVersion !== undefined
+                            ? `Import v${pack.version}`
+                            : 'Import'}
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      {editing && (
+        <PackEditor
+          isOpen
+          pack={editing === 'new' ? undefined : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {previewId && (
+        <PackPreview
+          packId={previewId}
+          onClose={closePreview}
+          onImport={pack => {
+            closePreview();
+            handleImport(pack.id, pack.title);
+          }}
+        />
+      )}
+
+      <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &ldquo;{deleting?.title}&rdquo;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its codes stay in your library, and people who imported it keep their copies.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete pack</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import * as React from 'react';
+import { toast } from 'sonner';
+import { History } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { RecentCopy, SREFCode } from '@/lib/database';
+
+export interface RecentlyCopiedStripProps {
+  copies: RecentCopy[];
+  // Called after a code is copied again from the strip
+  onCopy?: (code: SREFCode) => void;
+  className?: string;
+}
+
+// The same command a card copies: the code plus its SV version
+const getCommand = (code: SREFCode) =>
+  code.sv_version ? `${code.code_value} --sv ${code.sv_version}` : code.code_value;
+
+export default function RecentlyCopiedStrip({
+  copies,
+  onCopy,
+  className,
+}: RecentlyCopiedStripProps) {
+  if (copies.length === 0) return null;
+
+  const handleCopy = (code: SREFCode) => {
+    navigator.clipboard.writeText(getCommand(code));
+    toast.success('SREF code with SV version copied to clipboard!', {
+      duration: 2000,
+      position: 'bottom-right',
+    });
+    onCopy?.(code);
+  };
+
+  return (
+    <section className={cn('flex items-center gap-3', className)} aria-label="Recently copied">
+      <div className="flex items-center gap-1.5 text-sm text-muted-foreground whitespace-nowrap">
+        <History className="h-4 w-4" aria-hidden="true" />
+        Recently copied
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {copies.map(({ code, copiedAt }) => (
+          <Button
+            key={code.id}
+            variant="outline"
+            size="sm"
+            className="flex-shrink-0"
+            onClick={() => handleCopy(code)}
+            aria-label={`Copy ${code.title} again`}
+            title={`${getCommand(code)} · last copied ${new Date(copiedAt).toLocaleString()}`}
+          >
+            <span className="max-w-40 truncate">{code.title}</span>
+            <span className="text-xs text-muted-foreground">SV{code.sv_version}</span>
+          </Button>
+        ))}
+      </div>
+    </section>
+  );
+}
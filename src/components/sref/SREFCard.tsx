@@ -4,16 +4,45 @@ import * as React from 'react';
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { MoreVertical, Heart, Copy, Plus } from 'lucide-react';
+import {
+  MoreVertical,
+  Heart,
+  Copy,
+  CopyPlus,
+  Plus,
+  Loader2,
+  Globe,
+  Link2,
+  ArrowBigUp,
+  ArrowBigDown,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { useCachedImage } from '@/hooks/useCachedImage';
+import { CodeVisibility, CodeVote } from '@/lib/database';
+
+// A folder in the card's "Folders" menu; filed says whether the card is in it
+export interface CardFolderOption {
+  id: string;
+  name: string;
+  depth: number;
+  filed: boolean;
+}
+
+// One step through a folder's manual order
+export type CardMoveDirection = 'earlier' | 'later';
 
 export interface SREFCardProps {
   variant: 'library' | 'discover' | 'empty';
@@ -23,15 +52,56 @@ export interface SREFCardProps {
   svVersion?: number;
   images?: Array<{ id: string; image_url: string; position: number } | string>;
   tags?: string[];
+  // Shared codes get a badge; private is the default and shows nothing
+  visibility?: CodeVisibility;
   isLiked?: boolean;
+  // Vote counts and the viewer's own vote; buttons only show when onVote is given
+  upvotes?: number;
+  downvotes?: number;
+  vote?: CodeVote | null;
+  onVote?: (id: string, vote: CodeVote) => void;
+  pendingState?: 'saving' | 'deleting';
   onCardClick?: (codeValue: string) => void;
+  // Called with the card's id after its code is copied to the clipboard
+  onCopy?: (id: string) => void;
   onEdit?: (id: string) => void;
   onDelete?: (id: string) => void;
   onLike?: (id: string) => void;
+  // Copy someone else's code into your own library
+  onClone?: (id: string) => void;
   onCreateNew?: () => void;
+  folders?: CardFolderOption[];
+  onToggleFolder?: (id: string, folderId: string, filed: boolean) => void;
+  // Selected cards are dragged and filed together; Ctrl/Cmd-click also toggles selection
+  selected?: boolean;
+  onToggleSelect?: (id: string) => void;
+  // Keyboard-friendly reordering inside a folder
+  onMove?: (id: string, direction: CardMoveDirection) => void;
+  canMoveEarlier?: boolean;
+  canMoveLater?: boolean;
   className?: string;
 }
 
+// Card thumbnail, served from the offline cache when available
+function CardImage({ src, alt }: { src: string; alt: string }) {
+  const cachedSrc = useCachedImage(src);
+
+  return (
+    <img
+      src={cachedSrc}
+      alt={alt}
+      className="w-full h-full object-cover"
+      loading="lazy"
+      onError={e => {
+        const target = e.currentTarget;
+        target.onerror = null;
+        target.src =
+          'data:image/svg+xml;utf8,<svg width="300" height="300" xmlns="http://www.w3.org/2000/svg"><rect fill="%23f3f3f3" width="100%" height="100%"/><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-size="20" fill="%23999">Image unavailable</text></svg>';
+      }}
+    />
+  );
+}
+
 export default function SREFCard({
   variant,
   id,
@@ -40,12 +110,27 @@ export default function SREFCard({
   svVersion,
   images = [],
   tags = [],
+  visibility,
   isLiked = false,
+  upvotes = 0,
+  downvotes = 0,
+  vote = null,
+  onVote,
+  pendingState,
   onCardClick,
+  onCopy,
   onEdit,
   onDelete,
   onLike,
+  onClone,
   onCreateNew,
+  folders = [],
+  onToggleFolder,
+  selected = false,
+  onToggleSelect,
+  onMove,
+  canMoveEarlier = false,
+  canMoveLater = false,
   className,
 }: SREFCardProps) {
   const [isHovered, setIsHovered] = useState(false);
@@ -78,7 +163,16 @@ export default function SREFCard({
         position: 'bottom-right',
       });
       onCardClick?.(codeValue || '');
+      if (id) onCopy?.(id);
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if ((e.metaKey || e.ctrlKey) && id && onToggleSelect) {
+      onToggleSelect(id);
+      return;
     }
+    handleCardClick();
   };
 
   // Handle menu actions
@@ -97,6 +191,16 @@ export default function SREFCard({
     if (id) onLike?.(id);
   };
 
+  const handleClone = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (id) onClone?.(id);
+  };
+
+  const handleVote = (e: React.MouseEvent, direction: CodeVote) => {
+    e.stopPropagation();
+    if (id) onVote?.(id, direction);
+  };
+
   // Get SV chip styling
   const getSVChipStyle = (version: number) => {
     const baseStyle = {
@@ -127,6 +231,21 @@ export default function SREFCard({
     color: '#FCFCFD',
   });
 
+  // Saving to favorites; library cards only show it when the grid handles it
+  const likeButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8 rounded-full border-0"
+      style={getBlurElementStyle()}
+      onClick={handleLike}
+      aria-label={isLiked ? `Remove ${title} from favorites` : `Save ${title} to favorites`}
+      aria-pressed={isLiked}
+    >
+      <Heart className={cn('h-4 w-4', isLiked && 'fill-current')} />
+    </Button>
+  );
+
   // Render image grid
   const renderImageGrid = () => {
     const imageUrls = images.map(img => (typeof img === 'string' ? img : img.image_url));
@@ -137,18 +256,7 @@ export default function SREFCard({
       <div className="absolute inset-0 flex bg-[#2E3038] gap-px">
         {imageUrls.slice(0, 4).map((imageUrl, index) => (
           <div key={index} className="flex-1">
-            <img
-              src={imageUrl}
-              alt={`${title} reference ${index + 1}`}
-              className="w-full h-full object-cover"
-              loading="lazy"
-              onError={e => {
-                const target = e.currentTarget;
-                target.onerror = null;
-                target.src =
-                  'data:image/svg+xml;utf8,<svg width="300" height="300" xmlns="http://www.w3.org/2000/svg"><rect fill="%23f3f3f3" width="100%" height="100%"/><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-size="20" fill="%23999">Image unavailable</text></svg>';
-              }}
-            />
+            <CardImage src={imageUrl} alt={`${title} reference ${index + 1}`} />
           </div>
         ))}
       </div>
@@ -217,9 +325,20 @@ export default function SREFCard({
   // Main card variants (library/discover)
   return (
     <motion.div
-      className={cn('relative bg-card rounded-lg overflow-hidden cursor-pointer group', className)}
+      className={cn(
+        'relative bg-card rounded-lg overflow-hidden cursor-pointer group',
+        pendingState === 'deleting' && 'pointer-events-none',
+        selected && 'ring-2 ring-primary ring-offset-2 ring-offset-background',
+        className
+      )}
       style={{ aspectRatio: '1.68' }}
-      onClick={handleCardClick}
+      animate={{
+        opacity: pendingState === 'deleting' ? 0 : 1,
+        scale: pendingState === 'deleting' ? 0.95 : 1,
+      }}
+      transition={{ duration: 0.3 }}
+      aria-busy={pendingState !== undefined}
+      onClick={handleClick}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
       whileHover={{ scale: 1.02 }}
@@ -235,6 +354,20 @@ export default function SREFCard({
       <div className="absolute top-3 left-3 right-3 flex items-start justify-between z-10">
         {/* Left side: SV chip and title */}
         <div className="flex items-center space-x-2 flex-1 min-w-0">
+          {/* Selection checkbox, shown on hover once anything can be selected */}
+          {onToggleSelect && id && (
+            <Checkbox
+              checked={selected}
+              aria-label={`Select ${title}`}
+              className={cn(
+                'flex-shrink-0 border-white bg-black/30',
+                !selected && 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+              )}
+              onClick={e => e.stopPropagation()}
+              onCheckedChange={() => onToggleSelect(id)}
+            />
+          )}
+
           {/* SV Version Chip */}
           {svVersion && (
             <div
@@ -250,6 +383,31 @@ export default function SREFCard({
             </div>
           )}
 
+          {/* Visibility badge for codes others can see */}
+          {(visibility === 'public' || visibility === 'unlisted') && (
+            <div
+              className="flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold flex-shrink-0"
+              style={{
+                ...getBlurElementStyle(),
+                fontFamily: 'DM Sans, system-ui, sans-serif',
+                fontSize: '12px',
+                lineHeight: '21px',
+              }}
+              title={
+                visibility === 'public'
+                  ? 'Public: everyone can find it in Discover'
+                  : 'Unlisted: anyone with a link can open it'
+              }
+            >
+              {visibility === 'public' ? (
+                <Globe className="h-3 w-3" aria-hidden="true" />
+              ) : (
+                <Link2 className="h-3 w-3" aria-hidden="true" />
+              )}
+              {visibility === 'public' ? 'Public' : 'Unlisted'}
+            </div>
+          )}
+
           {/* Title */}
           {title && (
             <h3
@@ -268,49 +426,148 @@ export default function SREFCard({
 
         {/* Action Button */}
         <div className="flex items-center space-x-2 flex-shrink-0">
-          {variant === 'library' ? (
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
+          {pendingState === 'saving' ? (
+            <div
+              className="h-8 w-8 rounded-full flex items-center justify-center"
+              style={getBlurElementStyle()}
+              title="Saving..."
+            >
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : variant === 'library' ? (
+            <>
+              {onLike && likeButton}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full border-0"
+                    style={getBlurElementStyle()}
+                    onClick={e => e.stopPropagation()}
+                  >
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleEdit(e);
+                    }}
+                  >
+                    Edit
+                  </DropdownMenuItem>
+                  {onToggleFolder && folders.length > 0 && (
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger onClick={e => e.stopPropagation()}>
+                        Folders
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        {folders.map(folder => (
+                          <DropdownMenuCheckboxItem
+                            key={folder.id}
+                            checked={folder.filed}
+                            style={{ paddingLeft: folder.depth * 12 + 32 }}
+                            onClick={e => e.stopPropagation()}
+                            onCheckedChange={checked => {
+                              if (id) onToggleFolder(id, folder.id, checked === true);
+                            }}
+                          >
+                            {folder.name}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  )}
+                  {onMove && (
+                    <>
+                      <DropdownMenuItem
+                        disabled={!canMoveEarlier}
+                        onClick={e => {
+                          e.stopPropagation();
+                          if (id) onMove(id, 'earlier');
+                        }}
+                      >
+                        Move earlier
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={!canMoveLater}
+                        onClick={e => {
+                          e.stopPropagation();
+                          if (id) onMove(id, 'later');
+                        }}
+                      >
+                        Move later
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                  <DropdownMenuItem
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleDelete(e);
+                    }}
+                    className="text-destructive"
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </>
+          ) : (
+            <>
+              {onVote && (
+                <div
+                  className="h-8 flex items-center rounded-full"
+                  style={getBlurElementStyle()}
+                  role="group"
+                  aria-label={`Votes for ${title}`}
+                >
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full border-0"
+                    onClick={e => handleVote(e, 'up')}
+                    aria-label={vote === 'up' ? `Remove upvote from ${title}` : `Upvote ${title}`}
+                    aria-pressed={vote === 'up'}
+                  >
+                    <ArrowBigUp className={cn('h-4 w-4', vote === 'up' && 'fill-current')} />
+                  </Button>
+                  <span
+                    className="min-w-4 text-center text-xs font-semibold tabular-nums"
+                    title={`${upvotes} up, ${downvotes} down`}
+                  >
+                    {upvotes - downvotes}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full border-0"
+                    onClick={e => handleVote(e, 'down')}
+                    aria-label={
+                      vote === 'down' ? `Remove downvote from ${title}` : `Downvote ${title}`
+                    }
+                    aria-pressed={vote === 'down'}
+                  >
+                    <ArrowBigDown className={cn('h-4 w-4', vote === 'down' && 'fill-current')} />
+                  </Button>
+                </div>
+              )}
+              {onClone && (
                 <Button
                   variant="ghost"
                   size="icon"
                   className="h-8 w-8 rounded-full border-0"
                   style={getBlurElementStyle()}
-                  onClick={e => e.stopPropagation()}
+                  onClick={handleClone}
+                  aria-label={`Clone ${title} into my library`}
+                  title="Clone into my library"
                 >
-                  <MoreVertical className="h-4 w-4" />
+                  <CopyPlus className="h-4 w-4" />
                 </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem
-                  onClick={e => {
-                    e.stopPropagation();
-                    handleEdit(e);
-                  }}
-                >
-                  Edit
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                  onClick={e => {
-                    e.stopPropagation();
-                    handleDelete(e);
-                  }}
-                  className="text-destructive"
-                >
-                  Delete
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          ) : (
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-8 w-8 rounded-full border-0"
-              style={getBlurElementStyle()}
-              onClick={handleLike}
-            >
-              <Heart className={cn('h-4 w-4', isLiked && 'fill-current')} />
-            </Button>
+              )}
+              {likeButton}
+            </>
           )}
         </div>
       </div>
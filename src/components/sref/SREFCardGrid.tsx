@@ -1,13 +1,16 @@
 'use client';
 
 import * as React from 'react';
-import { motion } from 'framer-motion';
-import { Search, Plus } from 'lucide-react';
+import { Search, Plus, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import SREFCard from './SREFCard';
-import { SREFCode as DatabaseSREFCode } from '@/lib/database';
+import SREFCard, { CardFolderOption, CardMoveDirection } from './SREFCard';
+import { cn } from '@/lib/utils';
+import { useVirtualGrid } from '@/hooks/useVirtualGrid';
+import { CodeVote, SREFCode as DatabaseSREFCode, VoteCounts } from '@/lib/database';
+import { PendingMutation } from '@/lib/libraryStore';
+import { getDraggedCodes, isCodeDrag, setDraggedCodes } from '@/lib/codeDrag';
 
 export type SREFCode =
   | DatabaseSREFCode
@@ -30,11 +33,119 @@ export interface SREFCardGridProps {
   variant?: 'library' | 'discover';
   showEmptyCard?: boolean;
   onCardClick?: (codeValue: string) => void;
+  onCardCopy?: (id: string) => void;
   onCardEdit?: (id: string) => void;
   onCardDelete?: (id: string) => void;
   onCardLike?: (id: string) => void;
+  onCardClone?: (id: string) => void;
   onCreateNew?: () => void;
   likedCodes?: Set<string>;
+  // Voting on discover cards. Codes owned by currentUserId get no vote buttons,
+  // and voteCounts overrides the counts on the codes themselves.
+  onCardVote?: (id: string, vote: CodeVote) => void;
+  votes?: Record<string, CodeVote>;
+  voteCounts?: Record<string, VoteCounts>;
+  currentUserId?: string | null;
+  pendingCodes?: Record<string, PendingMutation>;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Folders offered in each card's menu, and which codes are filed in each
+  folders?: Omit<CardFolderOption, 'filed'>[];
+  folderCodeIds?: Record<string, string[]>;
+  onCardToggleFolder?: (id: string, folderId: string, filed: boolean) => void;
+  // Multi-select; dragging a selected card drags the whole selection
+  selectedCodeIds?: string[];
+  onCardToggleSelect?: (id: string) => void;
+  // Cards can be dragged onto sidebar folders
+  draggableCards?: boolean;
+  // Reordering inside a folder: codes dropped onto a card, or moved from its menu
+  onCardsDrop?: (targetId: string, codeIds: string[]) => void;
+  onCardMove?: (id: string, direction: CardMoveDirection) => void;
+}
+
+const getPendingState = (mutation?: PendingMutation) => {
+  if (!mutation) return undefined;
+  return mutation === 'delete' ? 'deleting' : 'saving';
+};
+
+// Asks for the next page when scrolled into view. Browsers without
+// IntersectionObserver get a plain "Load more" button instead.
+function LoadMoreSentinel({
+  isLoadingMore,
+  onLoadMore,
+}: {
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+}) {
+  const sentinelRef = React.useRef<HTMLDivElement>(null);
+  const supportsObserver = typeof IntersectionObserver !== 'undefined';
+
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!supportsObserver || !sentinel || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [supportsObserver, isLoadingMore, onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-6">
+      {isLoadingMore ? (
+        <Loader2
+          className="h-6 w-6 animate-spin text-muted-foreground"
+          aria-label="Loading more SREF codes"
+        />
+      ) : (
+        !supportsObserver && (
+          <Button variant="outline" onClick={onLoadMore}>
+            Load more
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
+
+const GRID_GAP = 24; // gap-6
+const CARD_ASPECT_RATIO = 1.68;
+
+// Only mounts the rows near the viewport; cards are fixed aspect ratio, so every
+// row has the same height and the grid can be laid out without measuring cards
+function VirtualizedGrid({
+  itemCount,
+  renderItem,
+}: {
+  itemCount: number;
+  renderItem: (index: number) => React.ReactNode;
+}) {
+  const { containerRef, columns, startIndex, endIndex, offsetTop, totalHeight } = useVirtualGrid({
+    itemCount,
+    gap: GRID_GAP,
+    aspectRatio: CARD_ASPECT_RATIO,
+  });
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+      <div
+        className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6"
+        style={{
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          transform: offsetTop ? `translateY(${offsetTop}px)` : undefined,
+        }}
+      >
+        {Array.from({ length: endIndex - startIndex }, (_, offset) =>
+          renderItem(startIndex + offset)
+        )}
+      </div>
+    </div>
+  );
 }
 
 export default function SREFCardGrid({
@@ -44,12 +155,33 @@ export default function SREFCardGrid({
   variant = 'library',
   showEmptyCard = true,
   onCardClick,
+  onCardCopy,
   onCardEdit,
   onCardDelete,
   onCardLike,
+  onCardClone,
   onCreateNew,
   likedCodes = new Set(),
+  onCardVote,
+  votes = {},
+  voteCounts = {},
+  currentUserId = null,
+  pendingCodes = {},
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  folders = [],
+  folderCodeIds = {},
+  onCardToggleFolder,
+  selectedCodeIds = [],
+  onCardToggleSelect,
+  draggableCards = false,
+  onCardsDrop,
+  onCardMove,
 }: SREFCardGridProps) {
+  // Card the dragged codes would be dropped onto
+  const [dropTargetId, setDropTargetId] = React.useState<string | null>(null);
+
   // Loading state
   if (isLoading) {
     return (
@@ -103,46 +235,96 @@ export default function SREFCardGrid({
     );
   }
 
-  // Main grid
-  return (
-    <section className="" aria-label="SREF code collection">
-      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-        {/* Existing SREF codes */}
-        {codes.map(code => (
-          <motion.div
-            key={code.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.3 }}
-          >
-            <SREFCard
-              variant={variant}
-              id={code.id}
-              title={code.title}
-              codeValue={code.code_value || ('code' in code ? code.code : '') || ''}
-              svVersion={code.sv_version || ('version' in code && code.version === 'SV4' ? 4 : 6)}
-              images={code.images || []}
-              tags={code.tags || []}
-              isLiked={likedCodes.has(code.id)}
-              onCardClick={onCardClick}
-              onEdit={onCardEdit}
-              onDelete={onCardDelete}
-              onLike={onCardLike}
-            />
-          </motion.div>
-        ))}
-
-        {/* Empty card for adding new SREF codes (only in library view) */}
-        {showEmptyCard && variant === 'library' && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.3, delay: codes.length * 0.05 }}
-          >
-            <SREFCard variant="empty" onCreateNew={onCreateNew} />
-          </motion.div>
+  // Main grid - the empty card for adding new SREF codes (library view only) goes last
+  const includeEmptyCard = showEmptyCard && variant === 'library';
+  const renderItem = (index: number) => {
+    const code = codes[index];
+    if (!code) {
+      return (
+        <div key="empty-card">
+          <SREFCard variant="empty" onCreateNew={onCreateNew} />
+        </div>
+      );
+    }
+
+    const isOthersCode = 'user_id' in code && code.user_id !== currentUserId;
+    const counts = voteCounts[code.id] ?? ('upvotes' in code ? code : undefined);
+
+    return (
+      <div
+        key={code.id}
+        draggable={draggableCards}
+        className={cn(
+          'rounded-lg',
+          dropTargetId === code.id && 'outline-dashed outline-2 outline-offset-4 outline-primary'
         )}
+        onDragStart={e =>
+          setDraggedCodes(
+            e.dataTransfer,
+            selectedCodeIds.includes(code.id) ? selectedCodeIds : [code.id]
+          )
+        }
+        onDragOver={e => {
+          if (!onCardsDrop || !isCodeDrag(e.dataTransfer)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          setDropTargetId(code.id);
+        }}
+        onDragLeave={() => setDropTargetId(current => (current === code.id ? null : current))}
+        onDrop={e => {
+          if (!onCardsDrop) return;
+          e.preventDefault();
+          setDropTargetId(null);
+          const codeIds = getDraggedCodes(e.dataTransfer);
+          if (codeIds.length > 0) onCardsDrop(code.id, codeIds);
+        }}
+      >
+        <SREFCard
+          variant={variant}
+          id={code.id}
+          title={code.title}
+          codeValue={code.code_value || ('code' in code ? code.code : '') || ''}
+          svVersion={code.sv_version || ('version' in code && code.version === 'SV4' ? 4 : 6)}
+          images={code.images || []}
+          tags={code.tags || []}
+          visibility={'visibility' in code ? code.visibility : undefined}
+          isLiked={likedCodes.has(code.id)}
+          upvotes={counts?.upvotes}
+          downvotes={counts?.downvotes}
+          vote={votes[code.id]}
+          onVote={isOthersCode ? onCardVote : undefined}
+          pendingState={getPendingState(pendingCodes[code.id])}
+          onCardClick={onCardClick}
+          onCopy={onCardCopy}
+          onEdit={onCardEdit}
+          onDelete={onCardDelete}
+          onLike={onCardLike}
+          onClone={onCardClone}
+          folders={folders.map(folder => ({
+            ...folder,
+            filed: (folderCodeIds[folder.id] ?? []).includes(code.id),
+          }))}
+          onToggleFolder={onCardToggleFolder}
+          selected={selectedCodeIds.includes(code.id)}
+          onToggleSelect={onCardToggleSelect}
+          onMove={onCardMove}
+          canMoveEarlier={index > 0}
+          canMoveLater={index < codes.length - 1}
+        />
       </div>
+    );
+  };
+
+  return (
+    <section className="" aria-label="SREF code collection">
+      <VirtualizedGrid
+        itemCount={codes.length + (includeEmptyCard ? 1 : 0)}
+        renderItem={renderItem}
+      />
+
+      {hasMore && onLoadMore && (
+        <LoadMoreSentinel isLoadingMore={isLoadingMore} onLoadMore={onLoadMore} />
+      )}
     </section>
   );
 }
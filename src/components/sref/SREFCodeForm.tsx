@@ -1,12 +1,13 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, X, Plus, Save, Image as _ImageIcon, Tag, Code } from 'lucide-react';
+import { Upload, X, Plus, Save, Image as _ImageIcon, Tag, Code, FolderOpen } from 'lucide-react';
 import equal from 'fast-deep-equal';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { srefCodeSchema, type SREFFormData } from '@/schemas/srefValidation';
+import { createSrefCodeSchema, type SREFFormData } from '@/schemas/srefValidation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -22,6 +23,11 @@ import { useSREFCodes } from '@/hooks/useSREFCodes';
 import { useAuth } from '@/contexts/AuthContext';
 import { useImageUpload } from '@/hooks/useImageUpload';
 import { useTags } from '@/hooks/useTags';
+import { useTagRules } from '@/hooks/useTagRules';
+import { useTagStats } from '@/hooks/useTagStats';
+import { TagSuggestion, suggestTags } from '@/lib/tagTree';
+import { rankTags } from '@/lib/tagStats';
+import { CodeVisibility } from '@/lib/database';
 
 interface SREFCodeFormProps {
   editingCode?: {
@@ -29,31 +35,52 @@ interface SREFCodeFormProps {
     title: string;
     code_value: string;
     description?: string;
+    notes?: string;
     version: 'SV4' | 'SV6';
     tags: string[];
     images?: string[];
+    visibility?: CodeVisibility;
   };
   onSuccess?: () => void;
   onCancel?: () => void;
 }
 
+// How many tags the suggested row offers
+const SUGGESTED_TAG_COUNT = 6;
+
+const VISIBILITY_OPTIONS: { value: CodeVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only you can see this code.' },
+  {
+    value: 'unlisted',
+    label: 'Unlisted',
+    description: "Anyone with a link can open it, but it isn't listed in Discover.",
+  },
+  { value: 'public', label: 'Public', description: 'Everyone can find it in Discover.' },
+];
+
 export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFCodeFormProps) {
   const { user } = useAuth();
   const { createSREFCode, updateSREFCode } = useSREFCodes();
   const { uploadImages, uploading: imageUploading, progress: uploadProgress } = useImageUpload();
   const { tags: availableTags } = useTags();
+  const { normalizeTag } = useTagRules();
+  const { stats: tagStats } = useTagStats();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const tagInputRef = useRef<HTMLInputElement>(null);
+  const schema = useMemo(() => createSrefCodeSchema(normalizeTag), [normalizeTag]);
 
   // React Hook Form with Zod validation
   const form = useForm<SREFFormData>({
-    resolver: zodResolver(srefCodeSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       title: editingCode?.title || '',
       code_value: editingCode?.code_value || '',
       version: editingCode?.version || 'SV6',
       tags: editingCode?.tags || [],
       images: editingCode?.images || [],
+      notes: editingCode?.notes || '',
+      visibility: editingCode?.visibility || 'private',
     },
   });
 
@@ -68,6 +95,8 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
           version: editingCode.version,
           tags: [...editingCode.tags],
           images: [...(editingCode.images || [])],
+          notes: editingCode.notes || '',
+          visibility: editingCode.visibility || 'private',
         }
       : null
   );
@@ -85,17 +114,24 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
       title: originalState.current.title,
       code_value: originalState.current.code_value,
       version: originalState.current.version,
+      notes: originalState.current.notes,
     };
 
     const currentText = {
       title: formData.title,
       code_value: formData.code_value,
       version: formData.version,
+      notes: formData.notes,
     };
 
     return !equal(originalText, currentText);
   };
 
+  const hasVisibilityChanged = () => {
+    if (!originalState.current) return true; // New creation - always include
+    return originalState.current.visibility !== formData.visibility;
+  };
+
   const hasTagsChanged = () => {
     if (!originalState.current) return true; // New creation - always include
 
@@ -129,15 +165,21 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
     form.setValue(field, value);
   };
 
-  // Filter available tags based on input and exclude already selected tags
-  const filteredSuggestions = availableTags
-    .filter(tag => tag.toLowerCase().includes(newTag.toLowerCase()) && !formData.tags.includes(tag))
-    .slice(0, 5); // Limit to 5 suggestions
+  // Tags most likely to go with the ones already on the code come first
+  const rankedTags = rankTags(tagStats, availableTags, formData.tags);
+
+  // Suggest tags and namespaces inside whatever namespace has been typed so far
+  const filteredSuggestions = suggestTags(rankedTags, newTag, formData.tags);
+
+  const suggestedTags = rankedTags
+    .filter(tag => !formData.tags.includes(tag))
+    .slice(0, SUGGESTED_TAG_COUNT);
 
+  // Tags are stored in the spelling the user's normalization rules give them
   const handleAddTag = (tagToAdd?: string) => {
-    const tag = tagToAdd || newTag;
-    if (tag.trim() && !formData.tags.includes(tag.trim())) {
-      const newTags = [...formData.tags, tag.trim()];
+    const tag = normalizeTag(tagToAdd || newTag);
+    if (tag && !formData.tags.includes(tag)) {
+      const newTags = [...formData.tags, tag];
       form.setValue('tags', newTags);
       setNewTag('');
       setShowTagSuggestions(false);
@@ -147,14 +189,20 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
   const handleTagInputChange = (value: string) => {
     setNewTag(value);
     // Update suggestions based on the new value
-    const newFilteredSuggestions = availableTags
-      .filter(
-        tag => tag.toLowerCase().includes(value.toLowerCase()) && !formData.tags.includes(tag)
-      )
-      .slice(0, 5);
+    const newFilteredSuggestions = suggestTags(rankedTags, value, formData.tags);
     setShowTagSuggestions(value.length > 0 && newFilteredSuggestions.length > 0);
   };
 
+  const handleSuggestionClick = (suggestion: TagSuggestion) => {
+    if (suggestion.namespace) {
+      // Keep typing inside the namespace
+      handleTagInputChange(suggestion.value);
+      tagInputRef.current?.focus();
+    } else {
+      handleAddTag(suggestion.value);
+    }
+  };
+
   const handleTagInputFocus = () => {
     if (newTag.length > 0 && filteredSuggestions.length > 0) {
       setShowTagSuggestions(true);
@@ -270,6 +318,8 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
         title?: string;
         code_value?: string;
         sv_version?: number;
+        notes?: string | null;
+        visibility?: CodeVisibility;
         tags?: string[];
         images?: string[];
         imageDiff?: {
@@ -291,9 +341,14 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
         srefData.title = formData.title.trim();
         srefData.code_value = formData.code_value.trim();
         srefData.sv_version = formData.version === 'SV6' ? 6 : 4;
+        srefData.notes = formData.notes.trim() || null;
         console.log('📝 Including text fields in update');
       }
 
+      if (hasVisibilityChanged()) {
+        srefData.visibility = formData.visibility;
+      }
+
       // Only include tags if they changed
       if (tagsChanged) {
         if (!originalState.current) {
@@ -371,8 +426,9 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
       if (editingCode) {
         const result = await updateSREFCode(editingCode.id, srefData);
         if (!result.success) {
+          // useSREFCodes has already rolled the card back and shown an error toast
           console.error('Update SREF code error:', result.error);
-          throw new Error(result.error);
+          return;
         }
         toast.success('SREF code updated successfully!');
       } else {
@@ -388,8 +444,9 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
 
         const result = await createSREFCode(createData);
         if (!result.success) {
+          // useSREFCodes has already removed the placeholder card and shown an error toast
           console.error('Create SREF code error:', result.error);
-          throw new Error(result.error);
+          return;
         }
         toast.success('SREF code created successfully!');
       }
@@ -484,12 +541,55 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
               )}
             </div>
 
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea
+                id="notes"
+                value={formData.notes}
+                onChange={e => handleInputChange('notes', e.target.value)}
+                placeholder="Prompts, parameters or anything else worth finding this code by"
+                className={form.formState.errors.notes ? 'border-red-500' : ''}
+                rows={3}
+              />
+              {form.formState.errors.notes && (
+                <p className="text-sm text-red-500">{form.formState.errors.notes.message}</p>
+              )}
+            </div>
+
+            {/* Visibility */}
+            <div className="space-y-2">
+              <Label htmlFor="visibility">Visibility</Label>
+              <Select
+                value={formData.visibility}
+                onValueChange={(value: CodeVisibility) => handleInputChange('visibility', value)}
+              >
+                <SelectTrigger id="visibility" className="w-full md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VISIBILITY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {
+                  VISIBILITY_OPTIONS.find(option => option.value === formData.visibility)
+                    ?.description
+                }
+              </p>
+            </div>
+
             {/* Tags */}
             <div className="space-y-2">
               <Label>Tags</Label>
               <div className="relative">
                 <div className="flex gap-2">
                   <Input
+                    ref={tagInputRef}
                     value={newTag}
                     onChange={e => handleTagInputChange(e.target.value)}
                     onFocus={handleTagInputFocus}
@@ -518,15 +618,20 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
                 {/* Tag Suggestions Dropdown */}
                 {showTagSuggestions && filteredSuggestions.length > 0 && (
                   <div className="absolute top-full left-0 right-12 mt-1 bg-card border border-border rounded-md shadow-lg z-50 max-h-40 overflow-y-auto">
-                    {filteredSuggestions.map((tag, index) => (
+                    {filteredSuggestions.map(suggestion => (
                       <button
-                        key={index}
+                        key={`${suggestion.namespace}-${suggestion.value}`}
                         type="button"
                         className="w-full text-left px-3 py-2 hover:bg-muted text-sm transition-colors first:rounded-t-md last:rounded-b-md"
-                        onClick={() => handleAddTag(tag)}
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={() => handleSuggestionClick(suggestion)}
                       >
-                        <Tag className="h-3 w-3 inline mr-2" />
-                        {tag}
+                        {suggestion.namespace ? (
+                          <FolderOpen className="h-3 w-3 inline mr-2" />
+                        ) : (
+                          <Tag className="h-3 w-3 inline mr-2" />
+                        )}
+                        {suggestion.value}
                       </button>
                     ))}
                   </div>
@@ -551,6 +656,28 @@ export default function SREFCodeForm({ editingCode, onSuccess, onCancel }: SREFC
                   ))}
                 </div>
               )}
+              {suggestedTags.length > 0 && (
+                <div
+                  role="group"
+                  aria-label="Suggested tags"
+                  className="flex flex-wrap items-center gap-2"
+                >
+                  <span className="text-xs text-muted-foreground">Suggested:</span>
+                  {suggestedTags.map(tag => (
+                    <Button
+                      key={tag}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-6 gap-1 px-2 text-xs"
+                      onClick={() => handleAddTag(tag)}
+                    >
+                      <Plus className="h-3 w-3" />
+                      {tag}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Image Upload */}
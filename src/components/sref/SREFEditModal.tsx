@@ -3,6 +3,7 @@ import { motion as _motion, AnimatePresence as _AnimatePresence } from 'framer-m
 import { X as _X } from 'lucide-react';
 import { Button as _Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CodeVisibility } from '@/lib/database';
 import SREFCodeForm from './SREFCodeForm';
 
 interface SREFEditModalProps {
@@ -15,6 +16,8 @@ interface SREFEditModalProps {
     version: 'SV4' | 'SV6';
     tags: string[];
     images?: string[];
+    notes?: string;
+    visibility?: CodeVisibility;
   };
   onSuccess?: () => void;
 }
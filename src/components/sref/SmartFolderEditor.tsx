@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Folder, TagMatchMode } from '@/lib/database';
+import { getSmartFolderCriteria } from '@/lib/smartFolders';
+import { SmartFolderCriteria } from '@/schemas/srefValidation';
+import { useFolders } from '@/hooks/useFolders';
+import { useTags } from '@/hooks/useTags';
+import TagCloud, { TagFilterState } from './TagCloud';
+
+interface SmartFolderEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Smart folder to edit; leave out to create a new one
+  folder?: Folder;
+  // Starting filters for a new folder, e.g. the current search
+  initialCriteria?: SmartFolderCriteria;
+  // Parts of the current search that can't be expressed as criteria were left out
+  incomplete?: boolean;
+}
+
+const TOAST_OPTIONS = { duration: 3000, position: 'bottom-right' } as const;
+
+const countToString = (count?: number) => (count === undefined ? '' : String(count));
+
+/**
+ * Create or edit a smart folder: a name plus the same filters as library search.
+ * The folder's contents are worked out from these filters whenever it's opened.
+ */
+export default function SmartFolderEditor({
+  isOpen,
+  onClose,
+  folder,
+  initialCriteria = {},
+  incomplete = false,
+}: SmartFolderEditorProps) {
+  const { createSmartFolder, updateSmartFolder } = useFolders();
+  const { tagTree } = useTags();
+  const initial = (folder && getSmartFolderCriteria(folder)) ?? initialCriteria;
+
+  const [name, setName] = useState(folder?.name ?? '');
+  const [query, setQuery] = useState(initial.query ?? '');
+  const [tags, setTags] = useState(initial.tags ?? []);
+  const [excludedTags, setExcludedTags] = useState(initial.excludedTags ?? []);
+  const [tagMode, setTagMode] = useState<TagMatchMode>(initial.tagMode ?? 'any');
+  const [svVersion, setSvVersion] = useState(
+    initial.svVersion === undefined ? 'any' : String(initial.svVersion)
+  );
+  const [createdFrom, setCreatedFrom] = useState(initial.createdFrom ?? '');
+  const [createdUntil, setCreatedUntil] = useState(initial.createdUntil ?? '');
+  const [minImages, setMinImages] = useState(countToString(initial.minImages));
+  const [maxImages, setMaxImages] = useState(countToString(initial.maxImages));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const getTagState = (tag: string): TagFilterState =>
+    tags.includes(tag) ? 'included' : excludedTags.includes(tag) ? 'excluded' : 'off';
+
+  // Same cycle as the library tag cloud: included, excluded, off
+  const toggleTag = (tag: string) => {
+    if (tags.includes(tag)) {
+      setTags(prev => prev.filter(t => t !== tag));
+      setExcludedTags(prev => [...prev, tag]);
+    } else if (excludedTags.includes(tag)) {
+      setExcludedTags(prev => prev.filter(t => t !== tag));
+    } else {
+      setTags(prev => [...prev, tag]);
+    }
+  };
+
+  const buildCriteria = (): SmartFolderCriteria => {
+    const criteria: SmartFolderCriteria = {};
+    if (query.trim()) criteria.query = query.trim();
+    if (tags.length > 0) {
+      criteria.tags = tags;
+      criteria.tagMode = tagMode;
+    }
+    if (excludedTags.length > 0) criteria.excludedTags = excludedTags;
+    if (svVersion === '4' || svVersion === '6') criteria.svVersion = Number(svVersion) as 4 | 6;
+    if (createdFrom) criteria.createdFrom = createdFrom;
+    if (createdUntil) criteria.createdUntil = createdUntil;
+    if (minImages.trim()) criteria.minImages = Number(minImages);
+    if (maxImages.trim()) criteria.maxImages = Number(maxImages);
+    return criteria;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const criteria = buildCriteria();
+    const result = folder
+      ? await updateSmartFolder(folder.id, name, criteria)
+      : await createSmartFolder(name, criteria);
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error ?? 'Failed to save smart folder');
+      return;
+    }
+
+    toast.success(folder ? `Updated "${name.trim()}"` : `Created "${name.trim()}"`, TOAST_OPTIONS);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{folder ? 'Edit smart folder' : 'New smart folder'}</DialogTitle>
+          <DialogDescription>
+            Smart folders show every code matching these filters, including codes added later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="smart-folder-name">Name</Label>
+            <Input
+              id="smart-folder-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="smart-folder-query">Text</Label>
+            <Input
+              id="smart-folder-query"
+              placeholder="Words in the title, code, tags or notes"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+          </div>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-sm font-medium">Tags</h3>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={tagMode}
+                onValueChange={value => value && setTagMode(value as TagMatchMode)}
+                aria-label="Match included tags"
+              >
+                <ToggleGroupItem value="any" aria-label="Match any included tag">
+                  Any
+                </ToggleGroupItem>
+                <ToggleGroupItem value="all" aria-label="Match all included tags">
+                  All
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            {tagTree.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                <TagCloud tree={tagTree} getTagState={getTagState} onToggleTag={toggleTag} />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Your library has no tags yet.</p>
+            )}
+          </section>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="smart-folder-version" className="font-normal">
+              SREF version
+            </Label>
+            <Select value={svVersion} onValueChange={setSvVersion}>
+              <SelectTrigger id="smart-folder-version" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any version</SelectItem>
+                <SelectItem value="6">SV6</SelectItem>
+                <SelectItem value="4">SV4</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="smart-folder-created-from">Created on or after</Label>
+              <Input
+                id="smart-folder-created-from"
+                type="date"
+                value={createdFrom}
+                onChange={e => setCreatedFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smart-folder-created-until">Created before</Label>
+              <Input
+                id="smart-folder-created-until"
+                type="date"
+                value={createdUntil}
+                onChange={e => setCreatedUntil(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smart-folder-min-images">At least this many images</Label>
+              <Input
+                id="smart-folder-min-images"
+                type="number"
+                min={0}
+                value={minImages}
+                onChange={e => setMinImages(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smart-folder-max-images">At most this many images</Label>
+              <Input
+                id="smart-folder-max-images"
+                type="number"
+                min={0}
+                value={maxImages}
+                onChange={e => setMaxImages(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {incomplete && (
+            <p className="text-sm text-muted-foreground">
+              OR groups, phrases and other terms that only narrow the search locally can&apos;t be
+              saved, so they were left out.
+            </p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {folder ? 'Save changes' : 'Create smart folder'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Minus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { TagTreeNode } from '@/lib/tagTree';
+
+// Whether codes with a tag are shown, hidden or not filtered on
+export type TagFilterState = 'included' | 'excluded' | 'off';
+
+interface TagCloudProps {
+  tree: TagTreeNode[];
+  getTagState: (tag: string) => TagFilterState;
+  onToggleTag: (tag: string) => void;
+}
+
+interface TagBadgeProps {
+  node: TagTreeNode;
+  state: TagFilterState;
+  onToggle: () => void;
+  // Shown after the name, e.g. how many codes a namespace covers
+  children?: React.ReactNode;
+}
+
+function TagBadge({ node, state, onToggle, children }: TagBadgeProps) {
+  const target =
+    node.children.length > 0
+      ? `codes tagged "${node.path}" or below`
+      : `codes tagged "${node.path}"`;
+
+  return (
+    <Badge
+      variant={state === 'off' ? 'secondary' : state === 'included' ? 'default' : 'outline'}
+      data-state={state}
+      title={
+        state === 'included'
+          ? `Showing ${target}. Click to exclude them.`
+          : state === 'excluded'
+            ? `Hiding ${target}. Click to clear.`
+            : `Click to show ${target}.`
+      }
+      className={cn(
+        'cursor-pointer transition-colors hover:bg-primary/80',
+        state === 'included' && 'bg-primary text-primary-foreground',
+        state === 'excluded' &&
+          'border-destructive text-destructive line-through hover:bg-destructive/10'
+      )}
+      onClick={onToggle}
+    >
+      {state === 'excluded' && <Minus aria-hidden="true" />}
+      {node.name}
+      {children}
+    </Badge>
+  );
+}
+
+/**
+ * Tag filter chips arranged by "/" namespace. Namespaces collapse into a
+ * single chip that filters on everything below it; expanding one shows its
+ * tags on their own row.
+ */
+export default function TagCloud({ tree, getTagState, onToggleTag }: TagCloudProps) {
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  const toggleExpanded = (path: string) => {
+    setExpanded(prev =>
+      prev.includes(path) ? prev.filter(existing => existing !== path) : [...prev, path]
+    );
+  };
+
+  const renderNode = (node: TagTreeNode): React.ReactNode => {
+    const badge = (
+      <TagBadge node={node} state={getTagState(node.path)} onToggle={() => onToggleTag(node.path)}>
+        {node.children.length > 0 && node.total > 0 && (
+          <span className="text-xs opacity-70">{node.total}</span>
+        )}
+      </TagBadge>
+    );
+
+    if (node.children.length === 0) {
+      return <React.Fragment key={node.path}>{badge}</React.Fragment>;
+    }
+
+    const isExpanded = expanded.includes(node.path);
+    const Chevron = isExpanded ? ChevronDown : ChevronRight;
+
+    return (
+      <div
+        key={node.path}
+        role="group"
+        aria-label={node.path}
+        className={cn(
+          'flex flex-wrap items-center gap-2',
+          isExpanded && 'basis-full border-l pl-2'
+        )}
+      >
+        <button
+          type="button"
+          className="rounded-sm text-muted-foreground hover:text-foreground"
+          aria-expanded={isExpanded}
+          aria-label={`${isExpanded ? 'Collapse' : 'Expand'} ${node.path}`}
+          onClick={() => toggleExpanded(node.path)}
+        >
+          <Chevron className="h-4 w-4" />
+        </button>
+        {badge}
+        {isExpanded && node.children.map(renderNode)}
+      </div>
+    );
+  };
+
+  return <>{tree.map(renderNode)}</>;
+}
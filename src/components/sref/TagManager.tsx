@@ -0,0 +1,358 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { TagChangePreview, TagOperationResult, useTags } from '@/hooks/useTags';
+import { useTagRules } from '@/hooks/useTagRules';
+import TagRulesPanel from './TagRulesPanel';
+import { tagSchema } from '@/schemas/srefValidation';
+
+interface TagManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Tags that no longer exist after a change, so filters using them can be cleared
+  onTagsRemoved?: (tags: string[]) => void;
+}
+
+type TagAction = 'rename' | 'merge' | 'delete';
+
+const ACTION_LABELS: Record<TagAction, string> = {
+  rename: 'Rename',
+  merge: 'Merge',
+  delete: 'Delete',
+};
+
+const TOAST_OPTIONS = { duration: 3000, position: 'bottom-right' } as const;
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export default function TagManager({ isOpen, onClose, onTagsRemoved }: TagManagerProps) {
+  const {
+    tags,
+    tagCounts,
+    loading,
+    refreshTags,
+    previewTagChange,
+    renameTag,
+    mergeTags,
+    deleteTags,
+  } = useTags();
+  const { normalizeTag } = useTagRules();
+
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [action, setAction] = useState<TagAction | null>(null);
+  const [targetName, setTargetName] = useState('');
+  const [preview, setPreview] = useState<TagChangePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  // Counts go stale as codes are edited, so fetch fresh ones whenever the manager opens
+  useEffect(() => {
+    if (isOpen) {
+      refreshTags();
+    }
+  }, [isOpen, refreshTags]);
+
+  // Drop selections for tags that disappeared, e.g. after a change in another tab
+  useEffect(() => {
+    setSelected(prev => {
+      const next = prev.filter(tag => tags.includes(tag));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [tags]);
+
+  const visibleTags = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return needle ? tags.filter(tag => tag.toLowerCase().includes(needle)) : tags;
+  }, [tags, filter]);
+
+  // New names follow the user's normalization rules like any other tag
+  const target = normalizeTag(targetName);
+
+  // Tags that go away: every selected tag on delete, all but the target otherwise
+  const removedTags = useMemo(
+    () => (action === 'delete' ? selected : selected.filter(tag => tag !== target)),
+    [action, selected, target]
+  );
+  const removedKey = removedTags.join('\n');
+
+  const targetError = useMemo(() => {
+    if (!action || action === 'delete') return null;
+
+    const result = tagSchema.safeParse(target);
+    if (!result.success) return result.error.issues[0].message;
+    if (removedTags.length === 0) return 'Enter a different name';
+    return null;
+  }, [action, target, removedTags.length]);
+
+  // Load the codes the pending change would touch
+  useEffect(() => {
+    if (!action || removedKey === '') {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewLoading(true);
+
+    previewTagChange(removedKey.split('\n')).then(result => {
+      if (cancelled) return;
+      setPreview(result);
+      setPreviewLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [action, removedKey, previewTagChange]);
+
+  const toggleSelected = (tag: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, tag] : prev.filter(existing => existing !== tag)));
+  };
+
+  const startAction = (next: TagAction) => {
+    setAction(next);
+    setPreviewLoading(true);
+    if (next === 'rename') {
+      setTargetName(selected[0]);
+    } else if (next === 'merge') {
+      // Default to keeping the most used of the selected tags
+      const mostUsed = [...selected].sort((a, b) => (tagCounts[b] ?? 0) - (tagCounts[a] ?? 0))[0];
+      setTargetName(mostUsed);
+    } else {
+      setTargetName('');
+    }
+  };
+
+  const cancelAction = () => {
+    setAction(null);
+    setTargetName('');
+  };
+
+  const handleClose = () => {
+    if (running) return;
+    cancelAction();
+    setSelected([]);
+    setFilter('');
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    if (!action || targetError || removedTags.length === 0) return;
+
+    setRunning(true);
+    let result: TagOperationResult;
+    if (action === 'rename') {
+      result = await renameTag(removedTags[0], target);
+    } else if (action === 'merge') {
+      result = await mergeTags(removedTags, target);
+    } else {
+      result = await deleteTags(removedTags);
+    }
+    setRunning(false);
+
+    if (!result.success) {
+      toast.error(`Failed to ${action} tags: ${result.error}`, TOAST_OPTIONS);
+      return;
+    }
+
+    const codes = pluralize(result.affected ?? 0, 'code');
+    toast.success(
+      action === 'rename'
+        ? `Renamed "${removedTags[0]}" to "${target}" on ${codes}`
+        : action === 'merge'
+          ? `Merged ${pluralize(removedTags.length, 'tag')} into "${target}" on ${codes}`
+          : `Deleted ${pluralize(removedTags.length, 'tag')} from ${codes}`,
+      TOAST_OPTIONS
+    );
+
+    onTagsRemoved?.(removedTags);
+    setSelected(action === 'delete' ? [] : [target]);
+    cancelAction();
+  };
+
+  const mergesIntoExisting =
+    action === 'rename' && target !== '' && !selected.includes(target) && tags.includes(target);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage tags</DialogTitle>
+          <DialogDescription>
+            Rename, merge or delete tags across every code in your library.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="tags">
+          <TabsList>
+            <TabsTrigger value="tags">Tags</TabsTrigger>
+            <TabsTrigger value="rules">Rules</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rules">
+            <TagRulesPanel onTagsRemoved={onTagsRemoved} />
+          </TabsContent>
+
+          <TabsContent value="tags">
+            {action === null ? (
+              <div className="space-y-4">
+                <Input
+                  placeholder="Filter tags..."
+                  aria-label="Filter tags"
+                  value={filter}
+                  onChange={e => setFilter(e.target.value)}
+                />
+
+                <ScrollArea className="h-72 rounded-md border">
+                  {visibleTags.length === 0 ? (
+                    <p className="p-4 text-sm text-muted-foreground">
+                      {loading ? 'Loading tags...' : 'No tags found'}
+                    </p>
+                  ) : (
+                    <ul className="divide-y">
+                      {visibleTags.map(tag => (
+                        <li key={tag} className="flex items-center gap-3 px-4 py-2">
+                          <Checkbox
+                            id={`tag-manager-${tag}`}
+                            checked={selected.includes(tag)}
+                            onCheckedChange={checked => toggleSelected(tag, checked === true)}
+                          />
+                          <Label htmlFor={`tag-manager-${tag}`} className="flex-1 font-normal">
+                            {tag}
+                          </Label>
+                          <Badge
+                            variant="secondary"
+                            aria-label={pluralize(tagCounts[tag] ?? 0, 'code')}
+                          >
+                            {tagCounts[tag] ?? 0}
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </ScrollArea>
+
+                <DialogFooter className="sm:justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    {pluralize(selected.length, 'tag')} selected
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={selected.length !== 1}
+                      onClick={() => startAction('rename')}
+                    >
+                      Rename
+                    </Button>
+                    <Button
+                      variant="outline"
+                      disabled={selected.length < 2}
+                      onClick={() => startAction('merge')}
+                    >
+                      Merge
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      disabled={selected.length === 0}
+                      onClick={() => startAction('delete')}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </DialogFooter>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {action === 'delete' ? (
+                  <p className="text-sm">
+                    Remove {removedTags.map(tag => `"${tag}"`).join(', ')} from every code? The
+                    codes themselves are kept.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="tag-manager-target">
+                      {action === 'rename'
+                        ? `New name for "${selected[0]}"`
+                        : `Merge ${selected.map(tag => `"${tag}"`).join(', ')} into`}
+                    </Label>
+                    <Input
+                      id="tag-manager-target"
+                      value={targetName}
+                      onChange={e => setTargetName(e.target.value)}
+                      aria-invalid={targetError !== null}
+                      aria-describedby={targetError ? 'tag-manager-target-error' : undefined}
+                      autoFocus
+                    />
+                    {targetError && (
+                      <p id="tag-manager-target-error" className="text-sm text-destructive">
+                        {targetError}
+                      </p>
+                    )}
+                    {mergesIntoExisting && (
+                      <p className="text-sm text-muted-foreground">
+                        "{target}" already exists. The two tags will be merged.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {removedTags.length > 0 && (
+                  <div className="space-y-2" aria-live="polite">
+                    <h3 className="text-sm font-medium">Affected codes</h3>
+                    {previewLoading ? (
+                      <p className="text-sm text-muted-foreground">Loading preview...</p>
+                    ) : preview === null ? (
+                      <p className="text-sm text-destructive">Couldn't load the affected codes</p>
+                    ) : preview.codes.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No codes use these tags</p>
+                    ) : (
+                      <ul className="space-y-1 rounded-md border p-3 text-sm">
+                        {preview.codes.map(code => (
+                          <li key={code.id} className="flex justify-between gap-4">
+                            <span className="truncate">{code.title}</span>
+                            <span className="text-muted-foreground">
+                              {code.tags.filter(tag => removedTags.includes(tag)).join(', ')}
+                            </span>
+                          </li>
+                        ))}
+                        {preview.hasMore && <li className="text-muted-foreground">...and more</li>}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <DialogFooter>
+                  <Button variant="outline" onClick={cancelAction} disabled={running}>
+                    Back
+                  </Button>
+                  <Button
+                    variant={action === 'delete' ? 'destructive' : 'default'}
+                    onClick={handleConfirm}
+                    disabled={running || targetError !== null || removedTags.length === 0}
+                  >
+                    {running ? 'Saving...' : ACTION_LABELS[action]}
+                  </Button>
+                </DialogFooter>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
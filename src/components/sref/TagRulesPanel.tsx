@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { ArrowRight, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTagRules } from '@/hooks/useTagRules';
+import { TagNormalizationSettings, TagSeparator } from '@/lib/tagNormalization';
+import { tagSchema } from '@/schemas/srefValidation';
+
+interface TagRulesPanelProps {
+  // Tags rewritten to their canonical spelling, so filters using them can be cleared
+  onTagsRemoved?: (tags: string[]) => void;
+}
+
+const SEPARATOR_LABELS: Record<TagSeparator, string> = {
+  keep: 'As typed',
+  space: 'Spaces',
+  dash: 'Dashes',
+};
+
+const TOAST_OPTIONS = { duration: 3000, position: 'bottom-right' } as const;
+
+export default function TagRulesPanel({ onTagsRemoved }: TagRulesPanelProps) {
+  const {
+    rules,
+    loading,
+    saveSettings,
+    saveAlias,
+    removeAlias,
+    canonicalizationPlan,
+    canonicalizeTags,
+  } = useTagRules();
+
+  const [alias, setAlias] = useState('');
+  const [canonical, setCanonical] = useState('');
+  const [aliasError, setAliasError] = useState<string | null>(null);
+  const [rewriting, setRewriting] = useState(false);
+
+  const handleSettingsChange = async (changes: Partial<TagNormalizationSettings>) => {
+    const result = await saveSettings({
+      lowercase: changes.lowercase ?? rules.lowercase,
+      separator: changes.separator ?? rules.separator,
+    });
+    if (!result.success) {
+      toast.error(`Failed to save tag rules: ${result.error}`, TOAST_OPTIONS);
+    }
+  };
+
+  const handleAddAlias = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const aliasResult = tagSchema.safeParse(alias.trim());
+    const canonicalResult = tagSchema.safeParse(canonical.trim());
+    if (!aliasResult.success || !canonicalResult.success) {
+      setAliasError('Enter both a synonym and the tag it should become');
+      return;
+    }
+
+    setAliasError(null);
+    const result = await saveAlias({ alias: aliasResult.data, canonical: canonicalResult.data });
+    if (result.success) {
+      setAlias('');
+      setCanonical('');
+    } else {
+      toast.error(`Failed to save alias: ${result.error}`, TOAST_OPTIONS);
+    }
+  };
+
+  const handleRemoveAlias = async (value: string) => {
+    const result = await removeAlias(value);
+    if (!result.success) {
+      toast.error(`Failed to remove alias: ${result.error}`, TOAST_OPTIONS);
+    }
+  };
+
+  const handleRewrite = async () => {
+    const sources = canonicalizationPlan.flatMap(group => group.sources);
+
+    setRewriting(true);
+    const result = await canonicalizeTags();
+    setRewriting(false);
+
+    if (!result.success) {
+      toast.error(`Failed to clean up tags: ${result.error}`, TOAST_OPTIONS);
+      return;
+    }
+
+    toast.success(
+      `Rewrote ${sources.length} tag${sources.length === 1 ? '' : 's'} on ${result.affected} code${result.affected === 1 ? '' : 's'}`,
+      TOAST_OPTIONS
+    );
+    onTagsRemoved?.(sources);
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-4">
+        <h3 className="text-sm font-medium">New tags</h3>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="tag-rules-lowercase" className="font-normal">
+            Ignore case (store tags in lowercase)
+          </Label>
+          <Switch
+            id="tag-rules-lowercase"
+            checked={rules.lowercase}
+            disabled={loading}
+            onCheckedChange={checked => handleSettingsChange({ lowercase: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="tag-rules-separator" className="font-normal">
+            Separate words with
+          </Label>
+          <Select
+            value={rules.separator}
+            disabled={loading}
+            onValueChange={value => handleSettingsChange({ separator: value as TagSeparator })}
+          >
+            <SelectTrigger id="tag-rules-separator" className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SEPARATOR_LABELS) as TagSeparator[]).map(separator => (
+                <SelectItem key={separator} value={separator}>
+                  {SEPARATOR_LABELS[separator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-medium">Aliases</h3>
+        <p className="text-sm text-muted-foreground">
+          Synonyms are saved as their canonical tag whenever you add them to a code.
+        </p>
+        {rules.aliases.length > 0 && (
+          <ul className="space-y-1 rounded-md border p-3 text-sm">
+            {rules.aliases.map(entry => (
+              <li key={entry.alias} className="flex items-center gap-2">
+                <span>{entry.alias}</span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" aria-label="becomes" />
+                <span className="flex-1 font-medium">{entry.canonical}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={`Remove alias ${entry.alias}`}
+                  onClick={() => handleRemoveAlias(entry.alias)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form className="flex items-start gap-2" onSubmit={handleAddAlias}>
+          <Input
+            placeholder="Synonym"
+            aria-label="Synonym"
+            value={alias}
+            onChange={e => setAlias(e.target.value)}
+          />
+          <Input
+            placeholder="Canonical tag"
+            aria-label="Canonical tag"
+            value={canonical}
+            onChange={e => setCanonical(e.target.value)}
+          />
+          <Button type="submit" variant="outline">
+            Add
+          </Button>
+        </form>
+        {aliasError && <p className="text-sm text-destructive">{aliasError}</p>}
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-medium">Existing tags</h3>
+        {canonicalizationPlan.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Every tag in your library already follows these rules.
+          </p>
+        ) : (
+          <>
+            <ul className="space-y-1 rounded-md border p-3 text-sm">
+              {canonicalizationPlan.map(group => (
+                <li key={group.target} className="flex items-center gap-2">
+                  <span>{group.sources.join(', ')}</span>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" aria-label="becomes" />
+                  <span className="font-medium">{group.target}</span>
+                </li>
+              ))}
+            </ul>
+            <Button onClick={handleRewrite} disabled={rewriting}>
+              {rewriting ? 'Rewriting...' : 'Rewrite existing tags'}
+            </Button>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import FolderTree from '../FolderTree';
+import { useFolders } from '@/hooks/useFolders';
+import { Folder } from '@/lib/database';
+import { buildFolderTree } from '@/lib/folderTree';
+import { CODE_DRAG_TYPE } from '@/lib/codeDrag';
+
+vi.mock('@/hooks/useFolders');
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockUseFolders = vi.mocked(useFolders);
+
+const folder = (id: string, name: string, parent_id: string | null = null): Folder => ({
+  id,
+  user_id: 'user-1',
+  name,
+  parent_id,
+  is_smart: false,
+  search_criteria: null,
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-15T12:00:00Z',
+});
+
+describe('FolderTree', () => {
+  const folders = [
+    folder('people', 'People'),
+    folder('portraits', 'Portraits', 'people'),
+    { ...folder('recent', 'Recent'), is_smart: true, search_criteria: { svVersion: 6 } },
+  ];
+  const createFolder = vi.fn();
+  const addCodesToFolder = vi.fn();
+
+  // A drag carrying code ids, as set by the card grid
+  const codeDrag = (codeIds: string[]) => ({
+    dataTransfer: {
+      types: [CODE_DRAG_TYPE],
+      getData: (type: string) => (type === CODE_DRAG_TYPE ? JSON.stringify(codeIds) : ''),
+      dropEffect: 'none',
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    createFolder.mockResolvedValue({ success: true });
+    addCodesToFolder.mockResolvedValue({ success: true });
+    mockUseFolders.mockReturnValue({
+      folders,
+      folderTree: buildFolderTree(folders),
+      folderCodeIds: {},
+      loading: false,
+      error: null,
+      refreshFolders: vi.fn(),
+      createFolder,
+      createSmartFolder: vi.fn(),
+      updateSmartFolder: vi.fn(),
+      renameFolder: vi.fn(),
+      moveFolder: vi.fn(),
+      deleteFolder: vi.fn(),
+      addCodesToFolder,
+      removeCodesFromFolder: vi.fn(),
+      reorderFolderCodes: vi.fn(),
+    });
+  });
+
+  it('should show subfolders when a folder is expanded', () => {
+    render(<FolderTree selectedFolderId={null} onSelectFolder={vi.fn()} />);
+
+    expect(screen.queryByText('Portraits')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Expand People' }));
+    expect(screen.getByText('Portraits')).toBeInTheDocument();
+  });
+
+  it('should select a folder and clear the selection on a second click', () => {
+    const onSelectFolder = vi.fn();
+    const { rerender } = render(
+      <FolderTree selectedFolderId={null} onSelectFolder={onSelectFolder} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'People' }));
+    expect(onSelectFolder).toHaveBeenLastCalledWith('people');
+
+    rerender(<FolderTree selectedFolderId="people" onSelectFolder={onSelectFolder} />);
+    const selected = screen.getByRole('button', { name: 'People' });
+    expect(selected).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(selected);
+    expect(onSelectFolder).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should create a top-level folder from the name field', async () => {
+    render(<FolderTree selectedFolderId={null} onSelectFolder={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'New folder' }));
+    const input = screen.getByLabelText('New folder name');
+    fireEvent.change(input, { target: { value: 'Landscapes' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => {
+      expect(createFolder).toHaveBeenCalledWith('Landscapes', null);
+    });
+    await waitFor(() => {
+      expect(screen.queryByLabelText('New folder name')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should file codes dropped onto a folder', async () => {
+    render(<FolderTree selectedFolderId={null} onSelectFolder={vi.fn()} />);
+    const row = screen.getByRole('button', { name: 'People' }).parentElement!;
+
+    fireEvent.dragOver(row, codeDrag(['sref-1', 'sref-2']));
+    fireEvent.drop(row, codeDrag(['sref-1', 'sref-2']));
+
+    await waitFor(() => {
+      expect(addCodesToFolder).toHaveBeenCalledWith('people', ['sref-1', 'sref-2']);
+    });
+  });
+
+  it('should not accept drops on smart folders', () => {
+    render(<FolderTree selectedFolderId={null} onSelectFolder={vi.fn()} />);
+    const row = screen.getByRole('button', { name: 'Recent' }).parentElement!;
+
+    fireEvent.drop(row, codeDrag(['sref-1']));
+
+    expect(addCodesToFolder).not.toHaveBeenCalled();
+  });
+});
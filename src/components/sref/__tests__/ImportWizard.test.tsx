@@ -0,0 +1,118 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import ImportWizard from '../ImportWizard';
+import { useLibraryImport } from '@/hooks/useLibraryImport';
+import { useTagRules } from '@/hooks/useTagRules';
+import { parseCSV, readImportFile } from '@/lib/libraryImport';
+
+vi.mock('@/hooks/useLibraryImport');
+vi.mock('@/hooks/useTagRules');
+vi.mock('@/lib/libraryImport', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/libraryImport')>()),
+  readImportFile: vi.fn(),
+}));
+
+const mockUseLibraryImport = vi.mocked(useLibraryImport);
+const mockUseTagRules = vi.mocked(useTagRules);
+const mockReadImportFile = vi.mocked(readImportFile);
+
+describe('ImportWizard', () => {
+  const findDuplicates = vi.fn();
+  const startImport = vi.fn();
+  const resumeImport = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    findDuplicates.mockResolvedValue({ rows: [2] });
+    startImport.mockResolvedValue({ success: true, created: 0, merged: 1, skipped: 0, failed: [] });
+    mockUseTagRules.mockReturnValue({
+      normalizeTag: (tag: string) => tag.toLowerCase(),
+    } as ReturnType<typeof useTagRules>);
+    mockUseLibraryImport.mockReturnValue({
+      pendingImport: null,
+      importing: false,
+      progress: null,
+      findDuplicates,
+      startImport,
+      resumeImport,
+      discardImport: vi.fn(),
+    });
+    mockReadImportFile.mockResolvedValue({
+      data: {
+        fileName: 'codes.csv',
+        kind: 'csv',
+        records: [],
+        table: parseCSV('Name,Code,Tags\nNeon,--sref 123,Neon\n,--sref 5,\n'),
+        images: {},
+      },
+      error: null,
+    });
+  });
+
+  const chooseFile = () =>
+    fireEvent.change(screen.getByLabelText('File'), {
+      target: { files: [new File(['csv'], 'codes.csv', { type: 'text/csv' })] },
+    });
+
+  it('maps CSV columns, reports invalid rows and merges duplicates', async () => {
+    render(<ImportWizard isOpen onClose={vi.fn()} />);
+
+    chooseFile();
+    expect(await screen.findByRole('combobox', { name: 'Column for Title' })).toHaveTextContent(
+      'Name'
+    );
+    expect(screen.getByRole('combobox', { name: 'Column for Version' })).toHaveTextContent(
+      'Not imported (SV6)'
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+    const problems = await screen.findByRole('region', { name: 'Rows with problems' });
+    expect(within(problems).getByText('Row 3: Title is required')).toBeInTheDocument();
+    expect(findDuplicates).toHaveBeenCalledWith([
+      expect.objectContaining({ row: 2, code: expect.objectContaining({ tags: ['neon'] }) }),
+    ]);
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Add their tags to the existing code' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 code' }));
+
+    await waitFor(() =>
+      expect(startImport).toHaveBeenCalledWith(
+        'codes.csv',
+        [expect.objectContaining({ row: 2 })],
+        {},
+        'merge'
+      )
+    );
+    expect(await screen.findByText('Created 0 codes, added tags to 1 code.')).toBeInTheDocument();
+  });
+
+  it('offers to resume an unfinished import', async () => {
+    resumeImport.mockResolvedValue({ success: true, created: 2, merged: 0, skipped: 0 });
+    mockUseLibraryImport.mockReturnValue({
+      ...mockUseLibraryImport(),
+      pendingImport: {
+        userId: 'user-1',
+        fileName: 'library.zip',
+        startedAt: '2025-03-20T09:00:00Z',
+        tasks: [
+          { row: 1, status: 'done', type: 'merge', codeId: 'code-1', title: 'Neon', tags: [] },
+          { row: 2, status: 'pending', type: 'merge', codeId: 'code-2', title: 'Dusk', tags: [] },
+        ],
+        skipped: 0,
+        images: {},
+        uploadedImages: {},
+      },
+    });
+    render(<ImportWizard isOpen onClose={vi.fn()} />);
+
+    const unfinished = screen.getByRole('region', { name: 'Unfinished import' });
+    expect(
+      within(unfinished).getByText('Importing library.zip stopped after 1 of 2 steps.')
+    ).toBeInTheDocument();
+    fireEvent.click(within(unfinished).getByRole('button', { name: 'Resume import' }));
+
+    expect(await screen.findByText('Created 2 codes.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,128 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { toast } from 'sonner';
+import PacksPanel from '../PacksPanel';
+import { usePacks } from '@/hooks/usePacks';
+import { useAuth } from '@/hooks/useAuth';
+
+vi.mock('@/hooks/usePacks');
+vi.mock('@/hooks/useAuth');
+vi.mock('@/hooks/useSREFCodes');
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockUsePacks = vi.mocked(usePacks);
+const mockUseAuth = vi.mocked(useAuth);
+
+const packWithId = (id: string, overrides = {}) => ({
+  id,
+  user_id: 'user-1',
+  title: `Pack ${id}`,
+  description: null,
+  cover_image_url: null,
+  visibility: 'private' as const,
+  version: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('PacksPanel', () => {
+  const importPack = vi.fn();
+  const publishPack = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    importPack.mockResolvedValue({ success: true, imported: 2 });
+    publishPack.mockResolvedValue({ success: true });
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } } as ReturnType<typeof useAuth>);
+    mockUsePacks.mockReturnValue({
+      packs: [packWithId('mine'), packWithId('shared', { version: 2, visibility: 'unlisted' })],
+      packCodeIds: { mine: ['code-1'], shared: ['code-1', 'code-2'] },
+      communityPacks: [
+        packWithId('fresh', { user_id: 'user-2', visibility: 'public', version: 1 }),
+        packWithId('current', { user_id: 'user-2', visibility: 'public', version: 3 }),
+      ],
+      packImports: { current: 3 },
+      packUpdates: [
+        {
+          packId: 'older',
+          title: 'Older Pack',
+          importedVersion: 1,
+          latestVersion: 2,
+          added: [{ id: 'code-5', title: 'Sunset' }],
+          removed: [{ id: 'code-6', title: 'Dusk' }],
+          changed: [],
+        },
+      ],
+      loading: false,
+      error: null,
+      refreshPacks: vi.fn(),
+      createPack: vi.fn(),
+      updatePack: vi.fn(),
+      deletePack: vi.fn(),
+      publishPack,
+      importPack,
+      getSharedPack: vi.fn().mockResolvedValue({ pack: null }),
+      getPackCodes: vi.fn().mockResolvedValue({ codes: [] }),
+    });
+  });
+
+  it('lists what changed in imported packs and imports the new version', async () => {
+    render(<PacksPanel />);
+
+    const updates = screen.getByRole('region', { name: 'Pack updates' });
+    expect(within(updates).getByText('Added: Sunset')).toBeInTheDocument();
+    expect(
+      within(updates).getByText('Removed (your copies stay in your library): Dusk')
+    ).toBeInTheDocument();
+
+    fireEvent.click(within(updates).getByRole('button', { name: 'Import version 2' }));
+
+    await waitFor(() => expect(importPack).toHaveBeenCalledWith('older'));
+    expect(toast.success).toHaveBeenCalledWith('Imported 2 codes from "Older Pack"', {
+      duration: 3000,
+      position: 'bottom-right',
+    });
+  });
+
+  it('shows drafts and published packs with their code counts', () => {
+    render(<PacksPanel />);
+
+    const mine = screen.getByRole('listitem', { name: 'Pack mine' });
+    expect(within(mine).getByText('Draft')).toBeInTheDocument();
+    expect(within(mine).getByText('1 code')).toBeInTheDocument();
+    expect(
+      within(mine).queryByRole('button', { name: 'Copy link to Pack mine' })
+    ).not.toBeInTheDocument();
+
+    const shared = screen.getByRole('listitem', { name: 'Pack shared' });
+    expect(within(shared).getByText('v2 · Link only')).toBeInTheDocument();
+    expect(within(shared).getByText('2 codes')).toBeInTheDocument();
+    expect(
+      within(shared).getByRole('button', { name: 'Copy link to Pack shared' })
+    ).toBeInTheDocument();
+  });
+
+  it('publishes a pack for anyone with the link', async () => {
+    render(<PacksPanel />);
+
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Publish Pack mine' }), {
+      key: 'Enter',
+    });
+    fireEvent.click(await screen.findByText('Publish for anyone with the link'));
+
+    await waitFor(() => expect(publishPack).toHaveBeenCalledWith('mine', 'unlisted'));
+  });
+
+  it('offers community packs to import unless the latest version is already imported', () => {
+    render(<PacksPanel />);
+
+    const community = screen.getByRole('region', { name: 'Community packs' });
+    fireEvent.click(within(community).getByRole('button', { name: 'Import Pack fresh' }));
+    expect(importPack).toHaveBeenCalledWith('fresh');
+
+    expect(within(community).getByRole('button', { name: 'Imported v3' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,122 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import SmartFolderEditor from '../SmartFolderEditor';
+import { useFolders } from '@/hooks/useFolders';
+import { useTags } from '@/hooks/useTags';
+import { Folder } from '@/lib/database';
+import { buildTagTree } from '@/lib/tagTree';
+
+vi.mock('@/hooks/useFolders');
+vi.mock('@/hooks/useTags');
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockUseFolders = vi.mocked(useFolders);
+const mockUseTags = vi.mocked(useTags);
+
+describe('SmartFolderEditor', () => {
+  const createSmartFolder = vi.fn();
+  const updateSmartFolder = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    createSmartFolder.mockResolvedValue({ success: true });
+    updateSmartFolder.mockResolvedValue({ success: true });
+    mockUseFolders.mockReturnValue({
+      folders: [],
+      folderTree: [],
+      folderCodeIds: {},
+      loading: false,
+      error: null,
+      refreshFolders: vi.fn(),
+      createFolder: vi.fn(),
+      createSmartFolder,
+      updateSmartFolder,
+      renameFolder: vi.fn(),
+      moveFolder: vi.fn(),
+      deleteFolder: vi.fn(),
+      addCodesToFolder: vi.fn(),
+      removeCodesFromFolder: vi.fn(),
+      reorderFolderCodes: vi.fn(),
+    });
+    mockUseTags.mockReturnValue({
+      tags: ['neon', 'dark'],
+      tagTree: buildTagTree(['neon', 'dark']),
+      loading: false,
+      refreshTags: vi.fn(),
+    });
+  });
+
+  it('should save the current search as a new smart folder', async () => {
+    const onClose = vi.fn();
+    render(
+      <SmartFolderEditor
+        isOpen
+        onClose={onClose}
+        initialCriteria={{ query: 'city', tags: ['neon'], tagMode: 'any' }}
+      />
+    );
+
+    expect(screen.getByText('neon')).toHaveAttribute('data-state', 'included');
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Neon cities' } });
+    fireEvent.click(screen.getByText('dark'));
+    fireEvent.click(screen.getByText('dark'));
+    fireEvent.change(screen.getByLabelText('At least this many images'), {
+      target: { value: '2' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Create smart folder' }));
+
+    await waitFor(() => {
+      expect(createSmartFolder).toHaveBeenCalledWith('Neon cities', {
+        query: 'city',
+        tags: ['neon'],
+        tagMode: 'any',
+        excludedTags: ['dark'],
+        minImages: 2,
+      });
+    });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should edit the criteria of an existing smart folder', async () => {
+    const folder: Folder = {
+      id: 'folder-1',
+      user_id: 'user-1',
+      name: 'Recent',
+      parent_id: null,
+      is_smart: true,
+      search_criteria: { createdFrom: '2025-01-01' },
+      created_at: '2025-03-15T12:00:00Z',
+      updated_at: '2025-03-15T12:00:00Z',
+    };
+    render(<SmartFolderEditor isOpen onClose={vi.fn()} folder={folder} />);
+
+    expect(screen.getByLabelText('Created on or after')).toHaveValue('2025-01-01');
+
+    fireEvent.change(screen.getByLabelText('Created before'), {
+      target: { value: '2025-02-01' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+
+    await waitFor(() => {
+      expect(updateSmartFolder).toHaveBeenCalledWith('folder-1', 'Recent', {
+        createdFrom: '2025-01-01',
+        createdUntil: '2025-02-01',
+      });
+    });
+  });
+
+  it('should show why the criteria could not be saved', async () => {
+    createSmartFolder.mockResolvedValue({ success: false, error: 'Add at least one filter' });
+    const onClose = vi.fn();
+    render(<SmartFolderEditor isOpen onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Empty' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create smart folder' }));
+
+    expect(await screen.findByText('Add at least one filter')).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
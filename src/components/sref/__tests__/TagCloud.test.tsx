@@ -0,0 +1,53 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import TagCloud from '../TagCloud';
+import { buildTagTree } from '@/lib/tagTree';
+
+describe('TagCloud', () => {
+  const tree = buildTagTree(
+    ['neon', 'medium/watercolor', 'medium/ink'],
+    { neon: 2, 'medium/watercolor': 3, 'medium/ink': 1 },
+    { medium: 4 }
+  );
+
+  it('should collapse namespaces into one chip with their total', () => {
+    render(<TagCloud tree={tree} getTagState={() => 'off'} onToggleTag={vi.fn()} />);
+
+    expect(screen.getByText('neon')).toBeInTheDocument();
+    expect(screen.getByText('medium')).toHaveTextContent('4');
+    expect(screen.queryByText('watercolor')).not.toBeInTheDocument();
+  });
+
+  it('should show child tags when a namespace is expanded', () => {
+    const onToggleTag = vi.fn();
+    render(<TagCloud tree={tree} getTagState={() => 'off'} onToggleTag={onToggleTag} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Expand medium' }));
+    expect(screen.getByRole('button', { name: 'Collapse medium' })).toHaveAttribute(
+      'aria-expanded',
+      'true'
+    );
+
+    fireEvent.click(screen.getByText('watercolor'));
+    expect(onToggleTag).toHaveBeenCalledWith('medium/watercolor');
+  });
+
+  it('should filter on a whole namespace from its chip', () => {
+    const onToggleTag = vi.fn();
+    render(
+      <TagCloud
+        tree={tree}
+        getTagState={tag => (tag === 'medium' ? 'included' : 'off')}
+        onToggleTag={onToggleTag}
+      />
+    );
+
+    const chip = screen.getByText('medium');
+    expect(chip).toHaveAttribute('data-state', 'included');
+    expect(chip).toHaveAttribute('title', expect.stringContaining('"medium" or below'));
+
+    fireEvent.click(chip);
+    expect(onToggleTag).toHaveBeenCalledWith('medium');
+  });
+});
@@ -0,0 +1,185 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import TagManager from '../TagManager';
+import { useTags } from '@/hooks/useTags';
+import { useTagRules } from '@/hooks/useTagRules';
+import { SREFCode } from '@/lib/database';
+import { DEFAULT_TAG_RULES, createTagNormalizer } from '@/lib/tagNormalization';
+
+vi.mock('@/hooks/useTags');
+vi.mock('@/hooks/useTagRules');
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockUseTags = vi.mocked(useTags);
+const mockUseTagRules = vi.mocked(useTagRules);
+
+const code = (id: string, title: string, tags: string[]): SREFCode => ({
+  id,
+  user_id: 'user-1',
+  code_value: '--sref 1234567890',
+  sv_version: 6,
+  title,
+  notes: null,
+  copy_count: 0,
+  upvotes: 0,
+  downvotes: 0,
+  save_count: 0,
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-15T12:00:00Z',
+  images: [],
+  tags,
+});
+
+describe('TagManager', () => {
+  const renameTag = vi.fn();
+  const mergeTags = vi.fn();
+  const deleteTags = vi.fn();
+  const previewTagChange = vi.fn();
+  const refreshTags = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    renameTag.mockResolvedValue({ success: true, affected: 2 });
+    mergeTags.mockResolvedValue({ success: true, affected: 3 });
+    deleteTags.mockResolvedValue({ success: true, affected: 1 });
+    previewTagChange.mockResolvedValue({
+      codes: [code('sref-1', 'Neon City', ['Cyberpunk'])],
+      hasMore: false,
+    });
+
+    mockUseTags.mockReturnValue({
+      tags: ['Cyberpunk', 'cyberpunk', 'neon'],
+      tagCounts: { Cyberpunk: 1, cyberpunk: 4, neon: 2 },
+      loading: false,
+      error: null,
+      refreshTags,
+      previewTagChange,
+      renameTag,
+      mergeTags,
+      deleteTags,
+    });
+
+    mockUseTagRules.mockReturnValue({
+      rules: DEFAULT_TAG_RULES,
+      normalizeTag: createTagNormalizer(DEFAULT_TAG_RULES),
+      loading: false,
+      error: null,
+      saveSettings: vi.fn(),
+      saveAlias: vi.fn(),
+      removeAlias: vi.fn(),
+      canonicalizationPlan: [],
+      canonicalizeTags: vi.fn(),
+    });
+  });
+
+  const renderManager = (onTagsRemoved = vi.fn()) =>
+    render(<TagManager isOpen onClose={vi.fn()} onTagsRemoved={onTagsRemoved} />);
+
+  it('lists every tag with its usage count and refreshes counts on open', () => {
+    renderManager();
+
+    expect(screen.getByLabelText('Cyberpunk')).toBeInTheDocument();
+    expect(screen.getByLabelText('4 codes')).toBeInTheDocument();
+    expect(screen.getByLabelText('1 code')).toBeInTheDocument();
+    expect(refreshTags).toHaveBeenCalled();
+  });
+
+  it('only enables the actions that fit the selection', () => {
+    renderManager();
+
+    expect(screen.getByRole('button', { name: 'Rename' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Delete' })).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('neon'));
+    expect(screen.getByRole('button', { name: 'Rename' })).toBeEnabled();
+    expect(screen.getByRole('button', { name: 'Merge' })).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('Cyberpunk'));
+    expect(screen.getByRole('button', { name: 'Rename' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Merge' })).toBeEnabled();
+  });
+
+  it('previews the affected codes before renaming', async () => {
+    const onTagsRemoved = vi.fn();
+    renderManager(onTagsRemoved);
+
+    fireEvent.click(screen.getByLabelText('Cyberpunk'));
+    fireEvent.click(screen.getByRole('button', { name: 'Rename' }));
+    fireEvent.change(screen.getByLabelText('New name for "Cyberpunk"'), {
+      target: { value: 'cyberpunk' },
+    });
+
+    expect(await screen.findByText('Neon City')).toBeInTheDocument();
+    expect(previewTagChange).toHaveBeenLastCalledWith(['Cyberpunk']);
+    expect(screen.getByText('"cyberpunk" already exists. The two tags will be merged.'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rename' }));
+
+    await waitFor(() => expect(renameTag).toHaveBeenCalledWith('Cyberpunk', 'cyberpunk'));
+    await waitFor(() => expect(onTagsRemoved).toHaveBeenCalledWith(['Cyberpunk']));
+  });
+
+  it('normalizes the new name with the tag rules', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByLabelText('neon'));
+    fireEvent.click(screen.getByRole('button', { name: 'Rename' }));
+
+    expect(screen.getByText('Enter a different name')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('New name for "neon"'), {
+      target: { value: '  Neon Lights ' },
+    });
+    await screen.findByText('Neon City');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rename' }));
+
+    await waitFor(() => expect(renameTag).toHaveBeenCalledWith('neon', 'neon lights'));
+  });
+
+  it('merges into the most used tag by default', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByLabelText('Cyberpunk'));
+    fireEvent.click(screen.getByLabelText('cyberpunk'));
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+
+    expect(screen.getByLabelText('Merge "Cyberpunk", "cyberpunk" into')).toHaveValue('cyberpunk');
+    await screen.findByText('Neon City');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+
+    await waitFor(() => expect(mergeTags).toHaveBeenCalledWith(['Cyberpunk'], 'cyberpunk'));
+  });
+
+  it('deletes the selected tags after confirming', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByLabelText('neon'));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    expect(screen.getByText(/Remove "neon" from every code\?/)).toBeInTheDocument();
+    await screen.findByText('Neon City');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(deleteTags).toHaveBeenCalledWith(['neon']));
+  });
+
+  it('keeps the dialog open when the change fails', async () => {
+    deleteTags.mockResolvedValue({ success: false, error: 'permission denied' });
+    const onTagsRemoved = vi.fn();
+    renderManager(onTagsRemoved);
+
+    fireEvent.click(screen.getByLabelText('neon'));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    await screen.findByText('Neon City');
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(deleteTags).toHaveBeenCalled());
+    expect(onTagsRemoved).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Back' })).toBeInTheDocument();
+  });
+});
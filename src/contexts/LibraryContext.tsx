@@ -0,0 +1,20 @@
+import React, { useState, ReactNode } from 'react';
+import { createLibraryStore } from '../lib/libraryStore';
+import { ChangeSource, createLibraryChangeSource } from '../lib/realtime';
+import { useLibraryStoreOwner } from '../hooks/useLibraryStore';
+import { LibraryContext, LibraryContextValue } from './libraryStoreContext';
+
+interface LibraryProviderProps {
+  children: ReactNode;
+  changeSource?: ChangeSource;
+}
+
+export const LibraryProvider: React.FC<LibraryProviderProps> = ({ children, changeSource }) => {
+  const [value] = useState<LibraryContextValue>(() => ({
+    store: createLibraryStore(),
+    changeSource: changeSource ?? createLibraryChangeSource(),
+  }));
+  useLibraryStoreOwner(value.store);
+
+  return <LibraryContext.Provider value={value}>{children}</LibraryContext.Provider>;
+};
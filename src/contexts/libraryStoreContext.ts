@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import { LibraryStore } from '../lib/libraryStore';
+import { ChangeSource } from '../lib/realtime';
+
+export interface LibraryContextValue {
+  store: LibraryStore;
+  changeSource: ChangeSource;
+}
+
+export const LibraryContext = createContext<LibraryContextValue | undefined>(undefined);
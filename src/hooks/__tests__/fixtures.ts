@@ -0,0 +1,21 @@
+import { SREFCode } from '../../lib/database';
+
+// A complete code for hook tests, told apart by its id
+export const codeWithId = (id: string, overrides: Partial<SREFCode> = {}): SREFCode => ({
+  id,
+  user_id: 'user-1',
+  title: `Code ${id}`,
+  code_value: `--sref ${id}`,
+  sv_version: 6,
+  notes: null,
+  copy_count: 0,
+  upvotes: 0,
+  downvotes: 0,
+  save_count: 0,
+  visibility: 'private',
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-15T12:00:00Z',
+  tags: [],
+  images: [],
+  ...overrides,
+});
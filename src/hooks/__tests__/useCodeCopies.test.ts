@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useCodeCopies } from '../useCodeCopies';
+import { useAuth } from '../useAuth';
+import { CopyService } from '../../lib/database';
+import { codeWithId } from './fixtures';
+
+vi.mock('../useAuth');
+vi.mock('../../lib/database');
+vi.mock('../../lib/sentry');
+
+const mockUseAuth = vi.mocked(useAuth);
+const mockCopyService = vi.mocked(CopyService);
+
+describe('useCodeCopies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } } as ReturnType<typeof useAuth>);
+    mockCopyService.getRecentCopies.mockResolvedValue({
+      data: [
+        { code: codeWithId('a'), copiedAt: '2024-01-03T00:00:00Z' },
+        { code: codeWithId('b'), copiedAt: '2024-01-02T00:00:00Z' },
+      ],
+      error: null,
+    });
+  });
+
+  const renderLoaded = async () => {
+    const hook = renderHook(() => useCodeCopies());
+    await waitFor(() => expect(hook.result.current.recentCopies).toHaveLength(2));
+    return hook;
+  };
+
+  it('moves a copied code to the front with the count from the server', async () => {
+    mockCopyService.recordCopy.mockResolvedValue({ data: 9, error: null });
+    const { result } = await renderLoaded();
+
+    await act(() => result.current.recordCopy(codeWithId('b')));
+
+    expect(mockCopyService.recordCopy).toHaveBeenCalledWith('b');
+    expect(result.current.recentCopies.map(copy => copy.code.id)).toEqual(['b', 'a']);
+    expect(result.current.recentCopies[0].code.copy_count).toBe(9);
+  });
+
+  it('puts the history back when the copy is not recorded', async () => {
+    mockCopyService.recordCopy.mockResolvedValue({ data: null, error: new Error('offline') });
+    const { result } = await renderLoaded();
+
+    let outcome: Awaited<ReturnType<typeof result.current.recordCopy>> | undefined;
+    await act(async () => {
+      outcome = await result.current.recordCopy(codeWithId('c'));
+    });
+
+    expect(outcome).toEqual({ success: false, error: 'offline' });
+    expect(result.current.recentCopies.map(copy => copy.code.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useCodeVotes } from '../useCodeVotes';
+import { useAuth } from '../useAuth';
+import { VoteService } from '../../lib/database';
+
+vi.mock('../useAuth');
+vi.mock('../../lib/database');
+vi.mock('../../lib/sentry');
+
+const mockUseAuth = vi.mocked(useAuth);
+const mockVoteService = vi.mocked(VoteService);
+
+const communityCode = {
+  id: 'code-1',
+  user_id: 'user-2',
+  code_value: '--sref 123',
+  title: 'Community Code',
+  sv_version: 6,
+  tags: [],
+  images: [],
+  upvotes: 3,
+  downvotes: 1,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('useCodeVotes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } } as ReturnType<typeof useAuth>);
+    mockVoteService.getUserVotes.mockResolvedValue({ data: {}, error: null });
+  });
+
+  const renderLoaded = async () => {
+    const hook = renderHook(() => useCodeVotes());
+    await waitFor(() => expect(mockVoteService.getUserVotes).toHaveBeenCalledWith('user-1'));
+    return hook;
+  };
+
+  it('casts a vote and takes the counts from the server', async () => {
+    mockVoteService.castVote.mockResolvedValue({
+      data: { upvotes: 5, downvotes: 1 },
+      error: null,
+    });
+    const { result } = await renderLoaded();
+
+    await act(() => result.current.toggleVote(communityCode, 'up'));
+
+    expect(mockVoteService.castVote).toHaveBeenCalledWith('user-1', 'code-1', 'up');
+    expect(result.current.votes).toEqual({ 'code-1': 'up' });
+    expect(result.current.voteCounts['code-1']).toEqual({ upvotes: 5, downvotes: 1 });
+  });
+
+  it('changes an existing vote and retracts it when chosen again', async () => {
+    mockVoteService.getUserVotes.mockResolvedValue({ data: { 'code-1': 'up' }, error: null });
+    mockVoteService.changeVote.mockResolvedValue({ data: null, error: null });
+    mockVoteService.retractVote.mockResolvedValue({ data: null, error: null });
+    const { result } = await renderLoaded();
+    await waitFor(() => expect(result.current.votes).toEqual({ 'code-1': 'up' }));
+
+    await act(() => result.current.toggleVote(communityCode, 'down'));
+
+    expect(mockVoteService.changeVote).toHaveBeenCalledWith('user-1', 'code-1', 'down');
+    expect(result.current.voteCounts['code-1']).toEqual({ upvotes: 2, downvotes: 2 });
+
+    await act(() => result.current.toggleVote(communityCode, 'down'));
+
+    expect(mockVoteService.retractVote).toHaveBeenCalledWith('user-1', 'code-1');
+    expect(result.current.votes).toEqual({});
+    expect(result.current.voteCounts['code-1']).toEqual({ upvotes: 2, downvotes: 1 });
+  });
+
+  it('puts the vote and counts back when the server refuses it', async () => {
+    mockVoteService.castVote.mockResolvedValue({ data: null, error: new Error('denied') });
+    const { result } = await renderLoaded();
+
+    let outcome: Awaited<ReturnType<typeof result.current.toggleVote>> | undefined;
+    await act(async () => {
+      outcome = await result.current.toggleVote(communityCode, 'down');
+    });
+
+    expect(outcome).toEqual({ success: false, error: 'denied' });
+    expect(result.current.votes).toEqual({});
+    expect(result.current.voteCounts['code-1']).toEqual({ upvotes: 3, downvotes: 1 });
+  });
+
+  it("refuses votes on the user's own codes", async () => {
+    const { result } = await renderLoaded();
+
+    const outcome = await result.current.toggleVote({ ...communityCode, user_id: 'user-1' }, 'up');
+
+    expect(outcome.success).toBe(false);
+    expect(mockVoteService.castVote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useDiscoverCodes } from '../useDiscoverCodes';
+import { useAuth } from '../useAuth';
+import { DiscoverService } from '../../lib/database';
+import { codeWithId } from './fixtures';
+
+vi.mock('../useAuth');
+vi.mock('../../lib/database');
+vi.mock('../../lib/sentry');
+
+const mockUseAuth = vi.mocked(useAuth);
+const mockDiscoverService = vi.mocked(DiscoverService);
+
+const pageOf = (ids: string[], nextCursor: { value: string; id: string } | null = null) => ({
+  data: {
+    codes: ids.map(id => codeWithId(id, { user_id: 'user-2', visibility: 'public' })),
+    nextCursor,
+  },
+  error: null,
+});
+
+describe('useDiscoverCodes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } } as ReturnType<typeof useAuth>);
+  });
+
+  it("fetches other users' codes for the query, leaving out the viewer's own", async () => {
+    mockDiscoverService.getDiscoverPage.mockResolvedValue(pageOf(['a', 'b']));
+    const { result } = renderHook(() => useDiscoverCodes());
+
+    const query = { filters: { tags: ['neon'] }, sort: 'top_voted' as const };
+    await act(() => result.current.setQuery(query));
+
+    expect(mockDiscoverService.getDiscoverPage).toHaveBeenCalledWith('user-1', query);
+    expect(result.current.codes.map(code => code.id)).toEqual(['a', 'b']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('continues the feed from the last cursor without repeating codes', async () => {
+    mockDiscoverService.getDiscoverPage
+      .mockResolvedValueOnce(pageOf(['a', 'b'], { value: '5', id: 'b' }))
+      .mockResolvedValueOnce(pageOf(['b', 'c']));
+    const { result } = renderHook(() => useDiscoverCodes());
+
+    await act(() => result.current.setQuery({ filters: {}, sort: 'most_copied' }));
+    expect(result.current.hasMore).toBe(true);
+
+    await act(() => result.current.loadMore());
+
+    expect(mockDiscoverService.getDiscoverPage).toHaveBeenLastCalledWith('user-1', {
+      filters: {},
+      sort: 'most_copied',
+      cursor: { value: '5', id: 'b' },
+    });
+    expect(result.current.codes.map(code => code.id)).toEqual(['a', 'b', 'c']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('ignores a response for a query that has since been replaced', async () => {
+    let resolveFirst: (page: ReturnType<typeof pageOf>) => void = () => {};
+    mockDiscoverService.getDiscoverPage
+      .mockImplementationOnce(() => new Promise(resolve => (resolveFirst = resolve)))
+      .mockResolvedValueOnce(pageOf(['new']));
+    const { result } = renderHook(() => useDiscoverCodes());
+
+    let first: Promise<void> = Promise.resolve();
+    act(() => {
+      first = result.current.setQuery({ filters: { query: 'old' }, sort: 'newest' });
+    });
+    await act(() => result.current.setQuery({ filters: { query: 'new' }, sort: 'newest' }));
+    await act(async () => {
+      resolveFirst(pageOf(['old']));
+      await first;
+    });
+
+    expect(result.current.codes.map(code => code.id)).toEqual(['new']);
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLibraryExport } from '../useLibraryExport';
+import { useAuth } from '../useAuth';
+import { SREFCodeService } from '../../lib/database';
+import { saveFile } from '../../lib/libraryExport';
+import { codeWithId } from './fixtures';
+
+vi.mock('../useAuth');
+vi.mock('../../lib/database');
+vi.mock('../../lib/storage');
+vi.mock('../../lib/sentry');
+vi.mock('../../lib/libraryExport', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../lib/libraryExport')>()),
+  saveFile: vi.fn(),
+}));
+
+const mockUseAuth = vi.mocked(useAuth);
+const mockSREFCodeService = vi.mocked(SREFCodeService);
+const mockSaveFile = vi.mocked(saveFile);
+
+describe('useLibraryExport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } } as ReturnType<typeof useAuth>);
+    mockSREFCodeService.getAllUserSREFCodes.mockResolvedValue({
+      data: [codeWithId('a'), codeWithId('b')],
+      error: null,
+    });
+  });
+
+  it('exports the codes in scope from the whole library', async () => {
+    const { result } = renderHook(() => useLibraryExport());
+
+    let outcome: Awaited<ReturnType<typeof result.current.exportCodes>> | undefined;
+    await act(async () => {
+      outcome = await result.current.exportCodes(
+        'csv',
+        { kind: 'selection', label: '1 code' },
+        { select: code => code.id === 'b' }
+      );
+    });
+
+    expect(outcome).toEqual({ success: true, count: 1 });
+    expect(mockSREFCodeService.getAllUserSREFCodes).toHaveBeenCalledWith('user-1', undefined);
+    expect(mockSaveFile).toHaveBeenCalledWith(
+      expect.any(Blob),
+      expect.stringMatching(/^sref-selection-1-code-\d{4}-\d{2}-\d{2}\.csv$/)
+    );
+    expect(result.current.exporting).toBe(false);
+  });
+
+  it('does not save an empty export', async () => {
+    const { result } = renderHook(() => useLibraryExport());
+
+    const outcome = await result.current.exportCodes(
+      'json',
+      { kind: 'search', label: 'neon' },
+      { filters: { query: 'neon' }, select: () => false }
+    );
+
+    expect(outcome).toEqual({ success: false, error: 'There are no codes to export' });
+    expect(mockSaveFile).not.toHaveBeenCalled();
+  });
+});
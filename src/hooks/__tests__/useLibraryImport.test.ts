@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useLibraryImport } from '../useLibraryImport';
+import { useAuth } from '../useAuth';
+import { loadSREFCodes } from '../useSREFCodes';
+import { loadTags } from '../useTags';
+import { SREFCodeService } from '../../lib/database';
+import { StorageService } from '../../lib/storage';
+import { OfflineCache } from '../../lib/offlineCache';
+import { ImportSession, ValidImportRow } from '../../lib/libraryImport';
+
+vi.mock('../useAuth');
+vi.mock('../useSREFCodes');
+vi.mock('../useTags');
+vi.mock('../../lib/database');
+vi.mock('../../lib/storage');
+vi.mock('../../lib/offlineCache');
+vi.mock('../../lib/sentry');
+
+const mockUseAuth = vi.mocked(useAuth);
+const mockSREFCodeService = vi.mocked(SREFCodeService);
+const mockStorageService = vi.mocked(StorageService);
+const mockOfflineCache = vi.mocked(OfflineCache);
+
+const IMAGE_URL = 'https://example.com/a.png';
+
+const row = (rowNumber: number, codeValue: string, images: string[] = []): ValidImportRow => ({
+  row: rowNumber,
+  code: {
+    title: `Row ${rowNumber}`,
+    code_value: codeValue,
+    sv_version: 6,
+    notes: null,
+    visibility: 'private',
+    images,
+    tags: ['neon'],
+  },
+});
+
+const libraryCode = (codeValue: string, createdAt = '2025-03-15T12:00:00Z') => ({
+  id: `code-${codeValue}`,
+  user_id: 'user-1',
+  title: codeValue,
+  code_value: codeValue,
+  sv_version: 6,
+  notes: null,
+  copy_count: 0,
+  upvotes: 0,
+  downvotes: 0,
+  save_count: 0,
+  visibility: 'private' as const,
+  created_at: createdAt,
+  updated_at: createdAt,
+  tags: ['neon'],
+  images: [],
+});
+
+describe('useLibraryImport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } } as ReturnType<typeof useAuth>);
+    mockOfflineCache.getImportSession.mockResolvedValue(null);
+    mockSREFCodeService.getAllUserSREFCodes.mockResolvedValue({
+      data: [libraryCode('--sref 1')],
+      error: null,
+    });
+    mockSREFCodeService.createSREFCode.mockResolvedValue({ data: null, error: null });
+    mockStorageService.uploadImage.mockResolvedValue({
+      data: {
+        id: 'upload-1',
+        url: 'https://storage.example.com/user-1/a.png',
+        filename: 'imported.png',
+        size: 1,
+        type: 'image/png',
+      },
+      error: null,
+    });
+  });
+
+  it('uploads bundled images once, skips duplicates and saves progress', async () => {
+    const { result } = renderHook(() => useLibraryImport());
+
+    let outcome: Awaited<ReturnType<typeof result.current.startImport>> | undefined;
+    await act(async () => {
+      outcome = await result.current.startImport(
+        'library.zip',
+        [row(1, '--sref 1'), row(2, '--sref 2', [IMAGE_URL]), row(3, '--sref 3', [IMAGE_URL])],
+        { [IMAGE_URL]: new Blob(['a'], { type: 'image/png' }) },
+        'skip'
+      );
+    });
+
+    expect(mockSREFCodeService.getAllUserSREFCodes).toHaveBeenCalledWith('user-1');
+    expect(outcome).toEqual({ success: true, created: 2, merged: 0, skipped: 1, failed: [] });
+    expect(mockStorageService.uploadImage).toHaveBeenCalledTimes(1);
+    expect(mockSREFCodeService.createSREFCode).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user_id: 'user-1',
+        code_value: '--sref 3',
+        images: ['https://storage.example.com/user-1/a.png'],
+      })
+    );
+    expect(mockOfflineCache.saveImportSession).toHaveBeenCalled();
+    expect(mockOfflineCache.clearImportSession).toHaveBeenCalledWith('user-1');
+    expect(loadSREFCodes).toHaveBeenCalledWith(expect.anything(), 'user-1');
+    expect(loadTags).toHaveBeenCalledWith(expect.anything(), 'user-1');
+  });
+
+  it('resumes an unfinished import without repeating finished steps', async () => {
+    const session: ImportSession = {
+      userId: 'user-1',
+      fileName: 'codes.csv',
+      startedAt: '2025-03-20T09:00:00Z',
+      tasks: [
+        { row: 2, status: 'done', type: 'create', code: row(2, '--sref 2').code },
+        // Created just before the tab closed, but not yet saved as done
+        { row: 3, status: 'pending', type: 'create', code: row(3, '--sref 3').code },
+        { row: 4, status: 'pending', type: 'create', code: row(4, '--sref 4').code },
+      ],
+      skipped: 0,
+      images: {},
+      uploadedImages: {},
+    };
+    mockOfflineCache.getImportSession.mockResolvedValue(session);
+    mockSREFCodeService.getAllUserSREFCodes.mockResolvedValue({
+      data: [
+        libraryCode('--sref 2', '2025-03-20T09:00:01Z'),
+        libraryCode('--sref 3', '2025-03-20T09:00:02Z'),
+      ],
+      error: null,
+    });
+    const { result } = renderHook(() => useLibraryImport());
+    await waitFor(() => expect(result.current.pendingImport).toEqual(session));
+
+    let outcome: Awaited<ReturnType<typeof result.current.resumeImport>> | undefined;
+    await act(async () => {
+      outcome = await result.current.resumeImport();
+    });
+
+    expect(outcome).toEqual(expect.objectContaining({ success: true, created: 3 }));
+    expect(mockSREFCodeService.createSREFCode).toHaveBeenCalledTimes(1);
+    expect(mockSREFCodeService.createSREFCode).toHaveBeenCalledWith(
+      expect.objectContaining({ code_value: '--sref 4' })
+    );
+    expect(result.current.pendingImport).toBe(null);
+  });
+});
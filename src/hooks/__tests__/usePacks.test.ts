@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { usePacks } from '../usePacks';
+import { useAuth } from '../useAuth';
+import { loadSREFCodes } from '../useSREFCodes';
+import { loadTags } from '../useTags';
+import { PackService, SREFCodeService } from '../../lib/database';
+import { StorageService } from '../../lib/storage';
+import { codeWithId } from './fixtures';
+
+vi.mock('../useAuth');
+vi.mock('../useSREFCodes');
+vi.mock('../useTags');
+vi.mock('../../lib/database');
+vi.mock('../../lib/storage');
+vi.mock('../../lib/sentry');
+
+const mockUseAuth = vi.mocked(useAuth);
+const mockPackService = vi.mocked(PackService);
+const mockSREFCodeService = vi.mocked(SREFCodeService);
+const mockStorageService = vi.mocked(StorageService);
+
+const imageAt = (codeId: string, url: string) => ({
+  id: `${codeId}-image`,
+  code_id: codeId,
+  image_url: url,
+  position: 0,
+  created_at: '2025-03-15T12:00:00Z',
+});
+
+const packWithId = (id: string, userId = 'user-1') => ({
+  id,
+  user_id: userId,
+  title: `Pack ${id}`,
+  description: null,
+  cover_image_url: null,
+  visibility: 'private' as const,
+  version: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+});
+
+describe('usePacks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } } as ReturnType<typeof useAuth>);
+    mockPackService.getUserPacks.mockResolvedValue({ data: [packWithId('a')], error: null });
+    mockPackService.getPackCodes.mockResolvedValue({
+      data: [
+        { pack_id: 'a', code_id: 'code-2' },
+        { pack_id: 'a', code_id: 'code-1' },
+      ],
+      error: null,
+    });
+    mockPackService.getCommunityPacks.mockResolvedValue({
+      data: [{ ...packWithId('b', 'user-2'), visibility: 'public', version: 3 }],
+      error: null,
+    });
+    mockPackService.getPackImports.mockResolvedValue({ data: { b: 2 }, error: null });
+    mockPackService.getPackUpdates.mockResolvedValue({
+      data: [
+        {
+          packId: 'b',
+          title: 'Pack b',
+          importedVersion: 2,
+          latestVersion: 3,
+          added: [{ id: 'code-9', title: 'New code' }],
+          removed: [],
+          changed: [],
+        },
+      ],
+      error: null,
+    });
+  });
+
+  const renderLoaded = async () => {
+    const hook = renderHook(() => usePacks());
+    await waitFor(() => expect(hook.result.current.packs).toHaveLength(1));
+    return hook;
+  };
+
+  it('loads packs with their codes in order, imports and updates', async () => {
+    const { result } = await renderLoaded();
+
+    expect(result.current.packCodeIds).toEqual({ a: ['code-2', 'code-1'] });
+    expect(result.current.communityPacks.map(pack => pack.id)).toEqual(['b']);
+    expect(result.current.packImports).toEqual({ b: 2 });
+    expect(result.current.packUpdates[0].added).toEqual([{ id: 'code-9', title: 'New code' }]);
+  });
+
+  it('creates a pack and saves its codes in order', async () => {
+    mockPackService.createPack.mockResolvedValue({
+      data: { ...packWithId('c'), title: 'Neon' },
+      error: null,
+    });
+    mockPackService.setPackCodes.mockResolvedValue({ error: null });
+    const { result } = await renderLoaded();
+
+    let outcome: Awaited<ReturnType<typeof result.current.createPack>> | undefined;
+    await act(async () => {
+      outcome = await result.current.createPack({
+        title: '  Neon ',
+        description: '',
+        codeIds: ['code-3', 'code-1'],
+      });
+    });
+
+    expect(outcome).toEqual({ success: true });
+    expect(mockPackService.createPack).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      title: 'Neon',
+      description: null,
+      cover_image_url: null,
+    });
+    expect(mockPackService.setPackCodes).toHaveBeenCalledWith('c', ['code-3', 'code-1']);
+    expect(result.current.packs.map(pack => pack.id)).toEqual(['c', 'a']);
+    expect(result.current.packCodeIds.c).toEqual(['code-3', 'code-1']);
+  });
+
+  it('rejects a pack without a title before saving', async () => {
+    const { result } = await renderLoaded();
+
+    const outcome = await result.current.createPack({ title: ' ', codeIds: [] });
+
+    expect(outcome).toEqual({ success: false, error: 'Pack title is required' });
+    expect(mockPackService.createPack).not.toHaveBeenCalled();
+  });
+
+  it('copies imported images, then reloads the library, tags and packs', async () => {
+    mockPackService.importPack.mockResolvedValue({ data: ['new-1', 'new-2'], error: null });
+    mockPackService.getCodes.mockResolvedValue({
+      data: [
+        codeWithId('new-1', { images: [imageAt('new-1', 'https://example.com/author/a.png')] }),
+        codeWithId('new-2', { images: [imageAt('new-2', 'https://example.com/author/b.png')] }),
+      ],
+      error: null,
+    });
+    mockStorageService.copyImages
+      .mockResolvedValueOnce({ data: ['https://example.com/user-1/a.png'], error: null })
+      .mockResolvedValueOnce({ data: null, error: 'Download failed' });
+    mockSREFCodeService.updateSREFCode.mockResolvedValue({ data: null, error: null });
+    const { result } = await renderLoaded();
+
+    let outcome: Awaited<ReturnType<typeof result.current.importPack>> | undefined;
+    await act(async () => {
+      outcome = await result.current.importPack('b');
+    });
+
+    expect(outcome).toEqual({ success: true, imported: 2, imagesNotCopied: 1 });
+    expect(mockPackService.importPack).toHaveBeenCalledWith('b');
+    expect(mockPackService.getCodes).toHaveBeenCalledWith(['new-1', 'new-2']);
+    expect(mockStorageService.copyImages).toHaveBeenCalledWith(
+      ['https://example.com/author/a.png'],
+      'user-1'
+    );
+    expect(mockSREFCodeService.updateSREFCode).toHaveBeenCalledTimes(1);
+    expect(mockSREFCodeService.updateSREFCode).toHaveBeenCalledWith('new-1', {
+      images: ['https://example.com/user-1/a.png'],
+    });
+    expect(loadSREFCodes).toHaveBeenCalledWith(expect.anything(), 'user-1');
+    expect(loadTags).toHaveBeenCalledWith(expect.anything(), 'user-1');
+    expect(mockPackService.getUserPacks).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,14 +1,22 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
+import { createElement, ReactNode } from 'react';
 import { useSREFCodes } from '../useSREFCodes';
+import { useTags } from '../useTags';
+import { LibraryProvider } from '../../contexts/LibraryContext';
 import { useAuth } from '../useAuth';
 import { SREFCodeService } from '../../lib/database';
 import { captureException } from '../../lib/sentry';
+import { OfflineCache } from '../../lib/offlineCache';
+import { SyncQueue } from '../../lib/syncQueue';
+import { createMemoryChangeSource } from '../../lib/realtime';
+import { toast } from 'sonner';
 
 // Mock dependencies
 vi.mock('../useAuth');
 vi.mock('../../lib/database');
 vi.mock('../../lib/sentry');
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }));
 
 const mockUseAuth = vi.mocked(useAuth);
 const mockSREFCodeService = vi.mocked(SREFCodeService);
@@ -31,6 +39,11 @@ const mockUser = {
   is_anonymous: false,
 };
 
+const pageOf = <T>(codes: T[], nextCursor: { value: string; id: string } | null = null) => ({
+  data: { codes, nextCursor },
+  error: null,
+});
+
 const mockSREFCode = {
   id: 'sref-123',
   user_id: 'user-123',
@@ -70,19 +83,16 @@ describe('useSREFCodes', () => {
     });
 
     // Default service mocks
-    mockSREFCodeService.getUserSREFCodes = vi.fn();
+    mockSREFCodeService.getUserSREFCodesPage = vi.fn();
     mockSREFCodeService.createSREFCode = vi.fn();
     mockSREFCodeService.updateSREFCode = vi.fn();
     mockSREFCodeService.deleteSREFCode = vi.fn();
-    mockSREFCodeService.searchSREFCodes = vi.fn();
+    mockSREFCodeService.getUserTags = vi.fn().mockResolvedValue({ data: [], error: null });
   });
 
   describe('Initial state and data fetching', () => {
     it('should initialize with correct default state', async () => {
-      mockSREFCodeService.getUserSREFCodes.mockResolvedValue({
-        data: [],
-        error: null,
-      });
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([]));
 
       const { result } = renderHook(() => useSREFCodes());
 
@@ -97,10 +107,7 @@ describe('useSREFCodes', () => {
 
     it('should fetch SREF codes on mount when user is authenticated', async () => {
       const mockCodes = [mockSREFCode];
-      mockSREFCodeService.getUserSREFCodes.mockResolvedValue({
-        data: mockCodes,
-        error: null,
-      });
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf(mockCodes));
 
       const { result } = renderHook(() => useSREFCodes());
 
@@ -108,7 +115,10 @@ describe('useSREFCodes', () => {
         expect(result.current.loading).toBe(false);
       });
 
-      expect(mockSREFCodeService.getUserSREFCodes).toHaveBeenCalledWith('user-123');
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenCalledWith('user-123', {
+        filters: {},
+        sort: 'newest',
+      });
       expect(result.current.srefCodes).toEqual(mockCodes);
       expect(result.current.error).toBe(null);
     });
@@ -136,12 +146,12 @@ describe('useSREFCodes', () => {
 
       renderHook(() => useSREFCodes());
 
-      expect(mockSREFCodeService.getUserSREFCodes).not.toHaveBeenCalled();
+      expect(mockSREFCodeService.getUserSREFCodesPage).not.toHaveBeenCalled();
     });
 
     it('should handle fetch errors and capture exceptions', async () => {
       const mockError = new Error('Failed to fetch');
-      mockSREFCodeService.getUserSREFCodes.mockResolvedValue({
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue({
         data: null,
         error: mockError,
       });
@@ -270,10 +280,7 @@ describe('useSREFCodes', () => {
       });
 
       // Set initial state with the original code
-      mockSREFCodeService.getUserSREFCodes.mockResolvedValue({
-        data: [mockSREFCode],
-        error: null,
-      });
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
 
       const { result } = renderHook(() => useSREFCodes());
 
@@ -339,10 +346,7 @@ describe('useSREFCodes', () => {
       });
 
       // Set initial state with the code to be deleted
-      mockSREFCodeService.getUserSREFCodes.mockResolvedValue({
-        data: [mockSREFCode],
-        error: null,
-      });
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
 
       const { result } = renderHook(() => useSREFCodes());
 
@@ -398,21 +402,29 @@ describe('useSREFCodes', () => {
   describe('searchSREFCodes', () => {
     it('should search SREF codes successfully', async () => {
       const searchResults = [mockSREFCode];
-      mockSREFCodeService.searchSREFCodes.mockResolvedValue({
-        data: searchResults,
-        error: null,
-      });
+      mockSREFCodeService.getUserSREFCodesPage
+        .mockResolvedValueOnce(pageOf([]))
+        .mockResolvedValueOnce(pageOf(searchResults));
 
       const { result } = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
 
       await act(async () => {
-        await result.current.searchSREFCodes('test query', ['landscape']);
+        await result.current.searchSREFCodes('test query', ['landscape'], 'all');
       });
 
-      expect(mockSREFCodeService.searchSREFCodes).toHaveBeenCalledWith('user-123', 'test query', [
-        'landscape',
-      ]);
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenLastCalledWith('user-123', {
+        filters: { query: 'test query', tags: ['landscape'], tagMode: 'all' },
+        sort: 'newest',
+      });
       expect(result.current.srefCodes).toEqual(searchResults);
+      expect(result.current.query.filters).toEqual({
+        query: 'test query',
+        tags: ['landscape'],
+        tagMode: 'all',
+      });
     });
 
     it('should not search when user is not authenticated', async () => {
@@ -442,17 +454,14 @@ describe('useSREFCodes', () => {
         await result.current.searchSREFCodes('test query');
       });
 
-      expect(mockSREFCodeService.searchSREFCodes).not.toHaveBeenCalled();
+      expect(mockSREFCodeService.getUserSREFCodesPage).not.toHaveBeenCalled();
     });
   });
 
   describe('Utility functions', () => {
     it('should get SREF code by ID', async () => {
       // Set initial state
-      mockSREFCodeService.getUserSREFCodes.mockResolvedValue({
-        data: [mockSREFCode],
-        error: null,
-      });
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
 
       const { result } = renderHook(() => useSREFCodes());
 
@@ -472,9 +481,9 @@ describe('useSREFCodes', () => {
       const initialCodes = [mockSREFCode];
       const refreshedCodes = [{ ...mockSREFCode, title: 'Refreshed' }];
 
-      mockSREFCodeService.getUserSREFCodes
-        .mockResolvedValueOnce({ data: initialCodes, error: null })
-        .mockResolvedValueOnce({ data: refreshedCodes, error: null });
+      mockSREFCodeService.getUserSREFCodesPage
+        .mockResolvedValueOnce(pageOf(initialCodes))
+        .mockResolvedValueOnce(pageOf(refreshedCodes));
 
       const { result } = renderHook(() => useSREFCodes());
 
@@ -488,7 +497,570 @@ describe('useSREFCodes', () => {
       });
 
       expect(result.current.srefCodes).toEqual(refreshedCodes);
-      expect(mockSREFCodeService.getUserSREFCodes).toHaveBeenCalledTimes(2);
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Shared library store', () => {
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(LibraryProvider, { changeSource: createMemoryChangeSource() }, children);
+
+    const useLibrary = () => ({ form: useSREFCodes(), dashboard: useSREFCodes(), tags: useTags() });
+
+    it('should share one fetch between consumers', async () => {
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
+
+      const { result } = renderHook(useLibrary, { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.dashboard.srefCodes).toEqual([mockSREFCode]);
+      });
+
+      expect(result.current.form.srefCodes).toEqual([mockSREFCode]);
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show a code created by one consumer to every other consumer', async () => {
+      const newSREFCode = { ...mockSREFCode, id: 'new-sref', tags: ['portrait'] };
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
+      mockSREFCodeService.createSREFCode.mockResolvedValue({
+        data: newSREFCode,
+        error: null,
+      });
+
+      const { result } = renderHook(useLibrary, { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.dashboard.srefCodes).toHaveLength(1);
+      });
+
+      await act(async () => {
+        await result.current.form.createSREFCode({
+          code_value: '--sref 987654321',
+          title: 'New SREF Code',
+          sv_version: 4,
+          tags: ['portrait'],
+          images: [],
+        });
+      });
+
+      expect(result.current.dashboard.srefCodes.map(code => code.id)).toEqual([
+        'new-sref',
+        'sref-123',
+      ]);
+      expect(result.current.tags.tags).toContain('portrait');
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop the previous user's codes when another user signs in", async () => {
+      const otherCode = { ...mockSREFCode, id: 'sref-other', user_id: 'user-456' };
+      mockSREFCodeService.getUserSREFCodesPage
+        .mockResolvedValueOnce(pageOf([mockSREFCode]))
+        .mockResolvedValueOnce(pageOf([otherCode]));
+
+      const { result, rerender } = renderHook(useLibrary, { wrapper });
+      await waitFor(() => {
+        expect(result.current.dashboard.srefCodes).toEqual([mockSREFCode]);
+      });
+
+      mockUseAuth.mockReturnValue({
+        ...mockUseAuth(),
+        user: { ...mockUser, id: 'user-456' },
+      });
+      rerender();
+
+      await waitFor(() => {
+        expect(result.current.dashboard.srefCodes).toEqual([otherCode]);
+      });
+      expect(result.current.form.srefCodes).toEqual([otherCode]);
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenLastCalledWith(
+        'user-456',
+        expect.anything()
+      );
+    });
+  });
+
+  describe('Pagination', () => {
+    const secondCode = { ...mockSREFCode, id: 'sref-456', created_at: '2023-12-01T00:00:00Z' };
+    const cursor = { value: mockSREFCode.created_at, id: mockSREFCode.id };
+
+    it('should append the next page using the cursor from the previous one', async () => {
+      mockSREFCodeService.getUserSREFCodesPage
+        .mockResolvedValueOnce(pageOf([mockSREFCode], cursor))
+        .mockResolvedValueOnce(pageOf([secondCode]));
+
+      const { result } = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+      expect(result.current.hasMore).toBe(true);
+
+      await act(async () => {
+        await result.current.loadMore();
+      });
+
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenLastCalledWith('user-123', {
+        filters: {},
+        sort: 'newest',
+        cursor,
+      });
+      expect(result.current.srefCodes).toEqual([mockSREFCode, secondCode]);
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('should restart from the first page when the sort order changes', async () => {
+      mockSREFCodeService.getUserSREFCodesPage
+        .mockResolvedValueOnce(pageOf([mockSREFCode], cursor))
+        .mockResolvedValueOnce(pageOf([secondCode, mockSREFCode]));
+
+      const { result } = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+
+      await act(async () => {
+        await result.current.setQuery({ sort: 'oldest' });
+      });
+
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenLastCalledWith('user-123', {
+        filters: {},
+        sort: 'oldest',
+      });
+      expect(result.current.srefCodes).toEqual([secondCode, mockSREFCode]);
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('should not refetch when the query is unchanged', async () => {
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
+
+      const { result } = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+
+      await act(async () => {
+        await result.current.setQuery({ filters: { query: '  ', tags: [] }, sort: 'newest' });
+      });
+
+      expect(mockSREFCodeService.getUserSREFCodesPage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Live changes', () => {
+    let changeSource: ReturnType<typeof createMemoryChangeSource>;
+
+    const renderWithChanges = async () => {
+      changeSource = createMemoryChangeSource();
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
+
+      const hook = renderHook(() => useSREFCodes(), {
+        wrapper: ({ children }: { children: ReactNode }) =>
+          createElement(LibraryProvider, { changeSource }, children),
+      });
+      await waitFor(() => {
+        expect(hook.result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+      return hook;
+    };
+
+    it('should merge a code changed on another device', async () => {
+      const { result } = await renderWithChanges();
+
+      act(() => {
+        changeSource.emit('user-123', {
+          table: 'sref_codes',
+          eventType: 'UPDATE',
+          new: { ...mockSREFCode, title: 'Renamed Elsewhere' },
+          old: null,
+        });
+      });
+
+      expect(result.current.srefCodes[0].title).toBe('Renamed Elsewhere');
+    });
+
+    it('should fetch the full code for a bare row insert', async () => {
+      const remoteCode = { ...mockSREFCode, id: 'remote-sref', tags: ['remote'] };
+      mockSREFCodeService.getSREFCodeById = vi
+        .fn()
+        .mockResolvedValue({ data: remoteCode, error: null });
+
+      const { result } = await renderWithChanges();
+
+      act(() => {
+        changeSource.emit('user-123', {
+          table: 'sref_codes',
+          eventType: 'INSERT',
+          new: { id: 'remote-sref', user_id: 'user-123', title: 'Test SREF Code' },
+          old: null,
+        });
+      });
+
+      await waitFor(() => {
+        expect(result.current.srefCodes.map(code => code.id)).toEqual(['remote-sref', 'sref-123']);
+      });
+      expect(mockSREFCodeService.getSREFCodeById).toHaveBeenCalledWith('remote-sref');
+    });
+
+    it('should merge tag and image rows and remove deleted codes', async () => {
+      const { result } = await renderWithChanges();
+
+      act(() => {
+        changeSource.emit('user-123', {
+          table: 'code_tags',
+          eventType: 'INSERT',
+          new: { id: 'tag-row-1', code_id: 'sref-123', tag: 'sunset' },
+          old: null,
+        });
+        changeSource.emit('user-123', {
+          table: 'code_images',
+          eventType: 'INSERT',
+          new: {
+            id: 'image-1',
+            code_id: 'sref-123',
+            image_url: 'https://example.com/a.png',
+            position: 0,
+            created_at: '2024-01-01T00:00:00Z',
+          },
+          old: null,
+        });
+      });
+
+      expect(result.current.srefCodes[0].tags).toEqual(['landscape', 'nature', 'sunset']);
+      expect(result.current.srefCodes[0].images).toHaveLength(1);
+
+      act(() => {
+        changeSource.emit('user-123', {
+          table: 'code_tags',
+          eventType: 'DELETE',
+          new: null,
+          old: { id: 'tag-row-1' },
+        });
+      });
+
+      expect(result.current.srefCodes[0].tags).toEqual(['landscape', 'nature']);
+
+      act(() => {
+        changeSource.emit('user-123', {
+          table: 'sref_codes',
+          eventType: 'DELETE',
+          new: null,
+          old: { id: 'sref-123' },
+        });
+      });
+
+      expect(result.current.srefCodes).toEqual([]);
+    });
+
+    it('should ignore changes for codes with a mutation in flight', async () => {
+      mockSREFCodeService.updateSREFCode.mockReturnValue(new Promise(() => {}));
+      const { result } = await renderWithChanges();
+
+      act(() => {
+        result.current.updateSREFCode('sref-123', { title: 'Local Title' });
+      });
+
+      act(() => {
+        changeSource.emit('user-123', {
+          table: 'sref_codes',
+          eventType: 'UPDATE',
+          new: { ...mockSREFCode, title: 'Remote Title' },
+          old: null,
+        });
+      });
+
+      expect(result.current.srefCodes[0].title).toBe('Local Title');
+    });
+  });
+
+  describe('Optimistic mutations', () => {
+    const loadInitialCode = async () => {
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
+
+      const hook = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(hook.result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+      return hook;
+    };
+
+    it('should show a created code as pending before the server answers', async () => {
+      let resolveCreate: (value: { data: typeof mockSREFCode; error: null }) => void = () => {};
+      mockSREFCodeService.createSREFCode.mockReturnValue(
+        new Promise(resolve => {
+          resolveCreate = resolve;
+        })
+      );
+
+      const { result } = await loadInitialCode();
+
+      let createPromise: Promise<unknown> = Promise.resolve();
+      act(() => {
+        createPromise = result.current.createSREFCode({
+          code_value: '--sref 987654321',
+          title: 'New SREF Code',
+          sv_version: 4,
+          tags: ['portrait'],
+          images: [],
+        });
+      });
+
+      const placeholder = result.current.srefCodes[0];
+      expect(placeholder.title).toBe('New SREF Code');
+      expect(result.current.pendingMutations[placeholder.id]).toBe('create');
+      expect(result.current.loading).toBe(false);
+
+      await act(async () => {
+        resolveCreate({ data: { ...mockSREFCode, id: 'new-sref' }, error: null });
+        await createPromise;
+      });
+
+      expect(result.current.srefCodes.map(code => code.id)).toEqual(['new-sref', 'sref-123']);
+      expect(result.current.pendingMutations).toEqual({});
+    });
+
+    it('should remove the placeholder when create fails', async () => {
+      mockSREFCodeService.createSREFCode.mockResolvedValue({
+        data: null,
+        error: new Error('Create failed'),
+      });
+
+      const { result } = await loadInitialCode();
+
+      await act(async () => {
+        await result.current.createSREFCode({
+          code_value: '--sref 987654321',
+          title: 'New SREF Code',
+          sv_version: 4,
+          tags: [],
+          images: [],
+        });
+      });
+
+      expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      expect(result.current.pendingMutations).toEqual({});
+      expect(toast.error).toHaveBeenCalled();
+    });
+
+    it('should roll back an update when the service fails', async () => {
+      mockSREFCodeService.updateSREFCode.mockResolvedValue({
+        data: null,
+        error: new Error('Update failed'),
+      });
+
+      const { result } = await loadInitialCode();
+
+      let updateResult;
+      await act(async () => {
+        updateResult = await result.current.updateSREFCode('sref-123', {
+          title: 'Updated Title',
+          tagDiff: { tagsToDelete: ['nature'], tagsToAdd: ['forest'] },
+        });
+      });
+
+      expect(updateResult).toEqual({ success: false, error: 'Failed to update SREF code' });
+      expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      expect(result.current.pendingMutations).toEqual({});
+      expect(toast.error).toHaveBeenCalled();
+    });
+
+    it('should mark a code as deleting and restore it when delete fails', async () => {
+      let resolveDelete: (value: { error: Error | null }) => void = () => {};
+      mockSREFCodeService.deleteSREFCode.mockReturnValue(
+        new Promise(resolve => {
+          resolveDelete = resolve;
+        })
+      );
+
+      const { result } = await loadInitialCode();
+
+      let deletePromise: Promise<unknown> = Promise.resolve();
+      act(() => {
+        deletePromise = result.current.deleteSREFCode('sref-123');
+      });
+
+      expect(result.current.pendingMutations).toEqual({ 'sref-123': 'delete' });
+
+      await act(async () => {
+        resolveDelete({ error: new Error('Delete failed') });
+        await deletePromise;
+      });
+
+      expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      expect(result.current.pendingMutations).toEqual({});
+      expect(toast.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('Offline mode', () => {
+    beforeEach(() => {
+      vi.spyOn(OfflineCache, 'isAvailable').mockReturnValue(true);
+      vi.spyOn(OfflineCache, 'getLibrary').mockResolvedValue(null);
+      vi.spyOn(OfflineCache, 'saveLibrary').mockResolvedValue();
+      vi.spyOn(SyncQueue, 'enqueue').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const goOffline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    it('should show the cached library before the network answers', async () => {
+      vi.mocked(OfflineCache.getLibrary).mockResolvedValue({
+        userId: 'user-123',
+        codes: [mockSREFCode],
+        tags: ['landscape', 'nature'],
+        complete: true,
+        cachedAt: '2024-01-01T00:00:00Z',
+      });
+      mockSREFCodeService.getUserSREFCodesPage.mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useSREFCodes());
+
+      await waitFor(() => {
+        expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should save a library with unloaded pages as a partial snapshot', async () => {
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(
+        pageOf([mockSREFCode], { value: mockSREFCode.created_at, id: mockSREFCode.id })
+      );
+
+      renderHook(() => useSREFCodes());
+
+      await waitFor(() => {
+        expect(OfflineCache.saveLibrary).toHaveBeenCalledWith(
+          'user-123',
+          [mockSREFCode],
+          expect.any(Array),
+          false
+        );
+      });
+    });
+
+    it('should keep the unloaded pages of the previous snapshot', async () => {
+      const olderCode = { ...mockSREFCode, id: 'sref-old', title: 'Older' };
+      const editedCode = { ...mockSREFCode, title: 'Edited elsewhere' };
+      vi.mocked(OfflineCache.getLibrary).mockResolvedValue({
+        userId: 'user-123',
+        codes: [mockSREFCode, olderCode],
+        tags: ['landscape', 'nature'],
+        complete: true,
+        cachedAt: '2024-01-01T00:00:00Z',
+      });
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(
+        pageOf([editedCode], { value: editedCode.created_at, id: editedCode.id })
+      );
+
+      renderHook(() => useSREFCodes());
+
+      await waitFor(() => {
+        expect(OfflineCache.saveLibrary).toHaveBeenCalledWith(
+          'user-123',
+          [editedCode, olderCode],
+          expect.any(Array),
+          true
+        );
+      });
+    });
+
+    it('should flag a partial snapshot shown while offline', async () => {
+      vi.mocked(OfflineCache.getLibrary).mockResolvedValue({
+        userId: 'user-123',
+        codes: [mockSREFCode],
+        tags: ['landscape', 'nature'],
+        complete: false,
+        cachedAt: '2024-01-01T00:00:00Z',
+      });
+      goOffline();
+
+      const { result } = renderHook(() => useSREFCodes());
+
+      await waitFor(() => {
+        expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+      expect(result.current.partial).toBe(true);
+    });
+
+    it('should search the cached library by word prefix while offline', async () => {
+      const otherCode = {
+        ...mockSREFCode,
+        id: 'sref-456',
+        code_value: '--sref 987654321',
+        title: 'Neon Streets',
+        tags: ['city'],
+      };
+      vi.mocked(OfflineCache.getLibrary).mockResolvedValue({
+        userId: 'user-123',
+        codes: [mockSREFCode, otherCode],
+        tags: ['city', 'landscape', 'nature'],
+        complete: true,
+        cachedAt: '2024-01-01T00:00:00Z',
+      });
+      goOffline();
+
+      const { result } = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(result.current.srefCodes).toHaveLength(2);
+      });
+
+      await act(async () => {
+        await result.current.setQuery({ filters: { query: 'land 1234' } });
+      });
+
+      expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      expect(mockSREFCodeService.getUserSREFCodesPage).not.toHaveBeenCalled();
+    });
+
+    it('should queue an update made while offline instead of calling the service', async () => {
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
+
+      const { result } = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+
+      goOffline();
+
+      let updateResult;
+      await act(async () => {
+        updateResult = await result.current.updateSREFCode('sref-123', { title: 'Offline Title' });
+      });
+
+      expect(updateResult).toMatchObject({ success: true });
+      expect(mockSREFCodeService.updateSREFCode).not.toHaveBeenCalled();
+      expect(SyncQueue.enqueue).toHaveBeenCalledWith({
+        type: 'update',
+        userId: 'user-123',
+        codeId: 'sref-123',
+        payload: { title: 'Offline Title' },
+        baseUpdatedAt: mockSREFCode.updated_at,
+      });
+      expect(result.current.srefCodes[0].title).toBe('Offline Title');
+      expect(result.current.pendingMutations).toEqual({});
+    });
+
+    it('should queue a delete made while offline and remove the code locally', async () => {
+      mockSREFCodeService.getUserSREFCodesPage.mockResolvedValue(pageOf([mockSREFCode]));
+
+      const { result } = renderHook(() => useSREFCodes());
+      await waitFor(() => {
+        expect(result.current.srefCodes).toEqual([mockSREFCode]);
+      });
+
+      goOffline();
+
+      await act(async () => {
+        await result.current.deleteSREFCode('sref-123');
+      });
+
+      expect(mockSREFCodeService.deleteSREFCode).not.toHaveBeenCalled();
+      expect(SyncQueue.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'delete', codeId: 'sref-123' })
+      );
+      expect(result.current.srefCodes).toEqual([]);
     });
   });
 });
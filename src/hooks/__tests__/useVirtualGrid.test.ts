@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useVirtualGrid } from '../useVirtualGrid';
+
+// Render the hook with a container attached, as if laid out at the given width and page offset
+const renderVirtualGrid = (itemCount: number, { width = 1224, top = 200 } = {}) =>
+  renderHook(() => {
+    const grid = useVirtualGrid({ itemCount, gap: 24, aspectRatio: 1.68 });
+    if (!grid.containerRef.current) {
+      const container = document.createElement('div');
+      container.getBoundingClientRect = () => ({ width, top: top - window.scrollY }) as DOMRect;
+      grid.containerRef.current = container;
+    }
+    return grid;
+  });
+
+describe('useVirtualGrid', () => {
+  beforeEach(() => {
+    vi.spyOn(window, 'innerWidth', 'get').mockReturnValue(1440);
+    vi.spyOn(window, 'innerHeight', 'get').mockReturnValue(900);
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use three columns at the xl breakpoint and mount only rows near the viewport', () => {
+    const { result } = renderVirtualGrid(3000);
+
+    // 3 columns of 392px wide cards => rows of ~233px + 24px gap
+    expect(result.current.columns).toBe(3);
+    expect(result.current.startIndex).toBe(0);
+    expect(result.current.endIndex).toBeLessThan(30);
+    expect(result.current.totalHeight).toBeGreaterThan(1000 * 233);
+  });
+
+  it('should fall back to one column below the lg breakpoint', () => {
+    vi.spyOn(window, 'innerWidth', 'get').mockReturnValue(800);
+
+    const { result } = renderVirtualGrid(10, { width: 752 });
+
+    expect(result.current.columns).toBe(1);
+  });
+
+  it('should start mounting further down once the page is scrolled', () => {
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(50_000);
+
+    const { result } = renderVirtualGrid(3000);
+
+    expect(result.current.startIndex).toBeGreaterThan(0);
+    expect(result.current.startIndex % 3).toBe(0);
+    expect(result.current.offsetTop).toBeGreaterThan(0);
+  });
+
+  it('should mount everything when the container cannot be measured', () => {
+    const { result } = renderVirtualGrid(50, { width: 0 });
+
+    expect(result.current.startIndex).toBe(0);
+    expect(result.current.endIndex).toBe(50);
+    expect(result.current.totalHeight).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { OfflineCache } from '../lib/offlineCache';
+
+// Resolve an image URL to its offline copy when one exists, caching it otherwise
+export const useCachedImage = (url: string): string => {
+  const [cached, setCached] = useState<{ url: string; objectUrl: string } | null>(null);
+
+  useEffect(() => {
+    if (!OfflineCache.isAvailable()) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    OfflineCache.getThumbnail(url).then(blob => {
+      if (cancelled) return;
+
+      if (blob) {
+        objectUrl = URL.createObjectURL(blob);
+        setCached({ url, objectUrl });
+      } else if (navigator.onLine) {
+        OfflineCache.cacheThumbnail(url);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url]);
+
+  return cached?.url === url ? cached.objectUrl : url;
+};
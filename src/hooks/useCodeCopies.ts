@@ -0,0 +1,126 @@
+import { useEffect, useCallback, useSyncExternalStore } from 'react';
+import { CopyService, RecentCopy, SREFCode } from '../lib/database';
+import { LibraryStore, addRecentCopy, setCopyCount } from '../lib/libraryStore';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { captureException } from '../lib/sentry';
+
+export interface CopyResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface UseCodeCopiesReturn {
+  // Most recently copied first, one entry per code
+  recentCopies: RecentCopy[];
+  loading: boolean;
+  error: string | null;
+  refreshRecentCopies: () => Promise<void>;
+  // Record a copy the user just made to the clipboard
+  recordCopy: (code: SREFCode) => Promise<CopyResult>;
+}
+
+// Fetch the user's recently copied codes into the shared store
+export const loadRecentCopies = (store: LibraryStore, userId: string) =>
+  store.dedupe(`recent-copies:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+
+    if (!navigator.onLine) return;
+
+    store.setState(() => ({ recentCopiesLoading: true, recentCopiesError: null }));
+
+    try {
+      const { data, error } = await CopyService.getRecentCopies();
+      if (!isCurrentOwner()) return;
+
+      if (error || !data) {
+        store.setState(() => ({ recentCopiesError: 'Failed to load recently copied codes' }));
+        captureException(error, {
+          tags: { operation: 'fetch_recent_copies' },
+          user: { id: userId },
+        });
+      } else {
+        store.setState(() => ({ recentCopies: data, recentCopiesLoaded: true }));
+      }
+    } catch (err) {
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ recentCopiesError: 'An unexpected error occurred' }));
+      captureException(err, {
+        tags: { operation: 'fetch_recent_copies' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ recentCopiesLoading: false }));
+      }
+    }
+  });
+
+export const useCodeCopies = (): UseCodeCopiesReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load the copy history on mount and when user changes, unless another consumer already did
+  useEffect(() => {
+    if (userId && !store.getState().recentCopiesLoaded) {
+      loadRecentCopies(store, userId);
+    }
+  }, [store, userId]);
+
+  const refreshRecentCopies = useCallback(async () => {
+    if (!userId) return;
+    await loadRecentCopies(store, userId);
+  }, [store, userId]);
+
+  // The copy shows in the history straight away. The clipboard already has the
+  // code, so a copy the server doesn't record only puts the history and count back.
+  const recordCopy = useCallback(
+    async (code: SREFCode): Promise<CopyResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      const previous = store.getState().recentCopies;
+      store.setState(current => addRecentCopy(current, code, new Date().toISOString()));
+      const restore = () =>
+        store.setState(current => ({
+          ...setCopyCount(current, code.id, code.copy_count),
+          recentCopies: previous,
+        }));
+
+      try {
+        const { data, error } = await CopyService.recordCopy(code.id);
+
+        if (error || data === null) {
+          restore();
+          captureException(error, {
+            tags: { operation: 'record_copy' },
+            user: { id: userId },
+          });
+          return { success: false, error: error?.message ?? 'Copy was not recorded' };
+        }
+
+        store.setState(current => setCopyCount(current, code.id, data));
+        return { success: true };
+      } catch (err) {
+        restore();
+        captureException(err, {
+          tags: { operation: 'record_copy' },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  return {
+    recentCopies: state.recentCopies,
+    loading: state.recentCopiesLoading,
+    error: state.recentCopiesError,
+    refreshRecentCopies,
+    recordCopy,
+  };
+};
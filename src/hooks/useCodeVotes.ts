@@ -0,0 +1,145 @@
+import { useEffect, useCallback, useSyncExternalStore } from 'react';
+import { CodeVote, SREFCode, VoteCounts, VoteService } from '../lib/database';
+import { LibraryStore, getVoteCounts, setVote } from '../lib/libraryStore';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { captureException } from '../lib/sentry';
+
+export interface VoteResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface UseCodeVotesReturn {
+  // The user's vote on each code they voted on
+  votes: Record<string, CodeVote>;
+  // Latest counts for codes voted on this session, ahead of the codes themselves
+  voteCounts: Record<string, VoteCounts>;
+  loading: boolean;
+  error: string | null;
+  refreshVotes: () => Promise<void>;
+  // Vote a code up or down; voting the same way again takes the vote back
+  toggleVote: (code: SREFCode, vote: CodeVote) => Promise<VoteResult>;
+}
+
+// Fetch the user's votes into the shared store
+export const loadVotes = (store: LibraryStore, userId: string) =>
+  store.dedupe(`votes:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+
+    if (!navigator.onLine) return;
+
+    store.setState(() => ({ votesLoading: true, votesError: null }));
+
+    try {
+      const { data, error } = await VoteService.getUserVotes(userId);
+      if (!isCurrentOwner()) return;
+
+      if (error || !data) {
+        store.setState(() => ({ votesError: 'Failed to load votes' }));
+        captureException(error, {
+          tags: { operation: 'fetch_votes' },
+          user: { id: userId },
+        });
+      } else {
+        store.setState(() => ({ votes: data, votesLoaded: true }));
+      }
+    } catch (err) {
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ votesError: 'An unexpected error occurred' }));
+      captureException(err, {
+        tags: { operation: 'fetch_votes' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ votesLoading: false }));
+      }
+    }
+  });
+
+export const useCodeVotes = (): UseCodeVotesReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load votes on mount and when user changes, unless another consumer already did
+  useEffect(() => {
+    if (userId && !store.getState().votesLoaded) {
+      loadVotes(store, userId);
+    }
+  }, [store, userId]);
+
+  const refreshVotes = useCallback(async () => {
+    if (!userId) return;
+    await loadVotes(store, userId);
+  }, [store, userId]);
+
+  // The vote and counts change straight away; the server's counts replace the
+  // guess once it answers, and a refused vote is undone
+  const toggleVote = useCallback(
+    async (code: SREFCode, vote: CodeVote): Promise<VoteResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+      if (code.user_id === userId) {
+        return { success: false, error: 'You cannot vote on your own codes' };
+      }
+
+      const current = store.getState();
+      const previous = current.votes[code.id] ?? null;
+      const previousCounts = getVoteCounts(current, code);
+      const next = previous === vote ? null : vote;
+
+      store.setState(latest => setVote(latest, code, next));
+      const restore = () =>
+        store.setState(latest => ({
+          ...setVote(latest, code, previous),
+          voteCounts: { ...latest.voteCounts, [code.id]: previousCounts },
+        }));
+
+      try {
+        const { data, error } = !next
+          ? await VoteService.retractVote(userId, code.id)
+          : previous
+            ? await VoteService.changeVote(userId, code.id, next)
+            : await VoteService.castVote(userId, code.id, next);
+
+        if (error) {
+          restore();
+          captureException(error, {
+            tags: { operation: 'vote_on_code' },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        if (data) {
+          store.setState(latest => ({
+            voteCounts: { ...latest.voteCounts, [code.id]: data },
+          }));
+        }
+
+        return { success: true };
+      } catch (err) {
+        restore();
+        captureException(err, {
+          tags: { operation: 'vote_on_code' },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  return {
+    votes: state.votes,
+    voteCounts: state.voteCounts,
+    loading: state.votesLoading,
+    error: state.votesError,
+    refreshVotes,
+    toggleVote,
+  };
+};
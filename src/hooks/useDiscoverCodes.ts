@@ -0,0 +1,132 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  DiscoverService,
+  DiscoverSort,
+  SREFCode,
+  SREFCodeCursor,
+  SREFCodeFilters,
+} from '../lib/database';
+import { useAuth } from './useAuth';
+import { captureException } from '../lib/sentry';
+
+// Filters and sort order the discover feed is fetched with
+export interface DiscoverQuery {
+  filters: Omit<SREFCodeFilters, 'folderId'>;
+  sort: DiscoverSort;
+}
+
+export interface UseDiscoverCodesReturn {
+  codes: SREFCode[];
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  // Start the feed over from the first page of a new query
+  setQuery: (query: DiscoverQuery) => Promise<void>;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Other users' codes, one page at a time. The feed isn't part of the library,
+ * so it lives here rather than in the shared library store.
+ */
+export const useDiscoverCodes = (): UseDiscoverCodesReturn => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const [codes, setCodes] = useState<SREFCode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<SREFCodeCursor | null>(null);
+  const queryRef = useRef<DiscoverQuery | null>(null);
+  // Bumped for every new query so responses to an older one are dropped
+  const requestRef = useRef(0);
+
+  const setQuery = useCallback(
+    async (query: DiscoverQuery) => {
+      const request = ++requestRef.current;
+      queryRef.current = query;
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: feedError } = await DiscoverService.getDiscoverPage(userId, query);
+        if (request !== requestRef.current) return;
+
+        if (feedError || !data) {
+          setError('Failed to load community codes');
+          captureException(feedError, {
+            tags: { operation: 'fetch_discover_codes' },
+            user: userId ? { id: userId } : undefined,
+          });
+        } else {
+          setCodes(data.codes);
+          setNextCursor(data.nextCursor);
+        }
+      } catch (err) {
+        if (request !== requestRef.current) return;
+        setError('An unexpected error occurred');
+        captureException(err, {
+          tags: { operation: 'fetch_discover_codes' },
+          user: userId ? { id: userId } : undefined,
+        });
+      } finally {
+        if (request === requestRef.current) {
+          setLoading(false);
+        }
+      }
+    },
+    [userId]
+  );
+
+  const loadMore = useCallback(async () => {
+    const query = queryRef.current;
+    if (!query || !nextCursor || loadingMore) return;
+
+    const request = requestRef.current;
+    setLoadingMore(true);
+
+    try {
+      const { data, error: feedError } = await DiscoverService.getDiscoverPage(userId, {
+        ...query,
+        cursor: nextCursor,
+      });
+      if (request !== requestRef.current) return;
+
+      if (feedError || !data) {
+        setError('Failed to load more community codes');
+        captureException(feedError, {
+          tags: { operation: 'fetch_more_discover_codes' },
+          user: userId ? { id: userId } : undefined,
+        });
+      } else {
+        // Codes whose sort value changed between pages can turn up twice
+        setCodes(prev => [
+          ...prev,
+          ...data.codes.filter(code => !prev.some(existing => existing.id === code.id)),
+        ]);
+        setNextCursor(data.nextCursor);
+      }
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setError('An unexpected error occurred');
+      captureException(err, {
+        tags: { operation: 'fetch_more_discover_codes' },
+        user: userId ? { id: userId } : undefined,
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [userId, nextCursor, loadingMore]);
+
+  return {
+    codes,
+    loading,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    setQuery,
+    loadMore,
+  };
+};
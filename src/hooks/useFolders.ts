@@ -0,0 +1,369 @@
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Folder, FolderService } from '../lib/database';
+import { LibraryState, LibraryStore } from '../lib/libraryStore';
+import { FolderNode, buildFolderTree, folderSubtreeIds } from '../lib/folderTree';
+import {
+  SmartFolderCriteria,
+  folderNameSchema,
+  smartFolderCriteriaSchema,
+} from '../schemas/srefValidation';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { captureException } from '../lib/sentry';
+
+export interface FolderOperationResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface UseFoldersReturn {
+  folders: Folder[];
+  // Folders arranged by parent, siblings sorted by name
+  folderTree: FolderNode[];
+  // Ids of the codes filed in each folder, in the folder's manual order
+  folderCodeIds: Record<string, string[]>;
+  loading: boolean;
+  error: string | null;
+  refreshFolders: () => Promise<void>;
+  createFolder: (name: string, parentId?: string | null) => Promise<FolderOperationResult>;
+  // Smart folders list whatever codes match their criteria
+  createSmartFolder: (
+    name: string,
+    criteria: SmartFolderCriteria,
+    parentId?: string | null
+  ) => Promise<FolderOperationResult>;
+  updateSmartFolder: (
+    folderId: string,
+    name: string,
+    criteria: SmartFolderCriteria
+  ) => Promise<FolderOperationResult>;
+  renameFolder: (folderId: string, name: string) => Promise<FolderOperationResult>;
+  moveFolder: (folderId: string, parentId: string | null) => Promise<FolderOperationResult>;
+  deleteFolder: (folderId: string) => Promise<FolderOperationResult>;
+  addCodesToFolder: (folderId: string, codeIds: string[]) => Promise<FolderOperationResult>;
+  removeCodesFromFolder: (folderId: string, codeIds: string[]) => Promise<FolderOperationResult>;
+  reorderFolderCodes: (folderId: string, codeIds: string[]) => Promise<FolderOperationResult>;
+}
+
+// Fetch the user's folders and what is filed in them into the shared store
+export const loadFolders = (store: LibraryStore, userId: string) =>
+  store.dedupe(`folders:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+
+    if (!navigator.onLine) return;
+
+    store.setState(() => ({ foldersLoading: true, foldersError: null }));
+
+    try {
+      const { data: folders, error } = await FolderService.getUserFolders(userId);
+      const { data: filed, error: filedError } = folders
+        ? await FolderService.getFolderCodes(folders.map(folder => folder.id))
+        : { data: null, error: null };
+      if (!isCurrentOwner()) return;
+
+      if (error || filedError || !folders || !filed) {
+        store.setState(() => ({ foldersError: 'Failed to load folders' }));
+        captureException(error ?? filedError, {
+          tags: { operation: 'fetch_folders' },
+          user: { id: userId },
+        });
+      } else {
+        const folderCodeIds: Record<string, string[]> = {};
+        filed.forEach(({ folder_id, code_id }) => {
+          folderCodeIds[folder_id] = [...(folderCodeIds[folder_id] ?? []), code_id];
+        });
+        store.setState(() => ({ folders, folderCodeIds, foldersLoaded: true }));
+      }
+    } catch (err) {
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ foldersError: 'An unexpected error occurred' }));
+      captureException(err, {
+        tags: { operation: 'fetch_folders' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ foldersLoading: false }));
+      }
+    }
+  });
+
+const validateFolderName = (name: string) => {
+  const result = folderNameSchema.safeParse(name);
+  return result.success
+    ? { name: result.data, error: null }
+    : { name: '', error: result.error.issues[0].message };
+};
+
+const validateCriteria = (criteria: SmartFolderCriteria) => {
+  const result = smartFolderCriteriaSchema.safeParse(criteria);
+  return result.success
+    ? { criteria: result.data, error: null }
+    : { criteria: null, error: result.error.issues[0].message };
+};
+
+const replaceFolder = (folders: Folder[], folder: Folder | null | undefined) =>
+  folder ? folders.map(existing => (existing.id === folder.id ? folder : existing)) : folders;
+
+export const useFolders = (): UseFoldersReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load folders on mount and when user changes, unless another consumer already did
+  useEffect(() => {
+    if (userId && !store.getState().foldersLoaded) {
+      loadFolders(store, userId);
+    }
+  }, [store, userId]);
+
+  const refreshFolders = useCallback(async () => {
+    if (!userId) return;
+    await loadFolders(store, userId);
+  }, [store, userId]);
+
+  // Save a change on the server, then apply it to the shared folders
+  const runFolderChange = useCallback(
+    async <T>(
+      operation: string,
+      request: (userId: string) => Promise<{ data?: T | null; error: Error | null }>,
+      apply: (state: LibraryState, data: T | null | undefined) => Partial<LibraryState>
+    ): Promise<FolderOperationResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      try {
+        const { data, error } = await request(userId);
+
+        if (error) {
+          captureException(error, {
+            tags: { operation },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        store.setState(current => apply(current, data));
+        return { success: true };
+      } catch (err) {
+        captureException(err, {
+          tags: { operation },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  const createFolder = useCallback(
+    (name: string, parentId: string | null = null) => {
+      const validated = validateFolderName(name);
+      if (validated.error) return Promise.resolve({ success: false, error: validated.error });
+
+      return runFolderChange(
+        'create_folder',
+        id =>
+          FolderService.createFolder({ user_id: id, name: validated.name, parent_id: parentId }),
+        (current, folder) => (folder ? { folders: [...current.folders, folder] } : {})
+      );
+    },
+    [runFolderChange]
+  );
+
+  const createSmartFolder = useCallback(
+    (name: string, criteria: SmartFolderCriteria, parentId: string | null = null) => {
+      const validated = validateFolderName(name);
+      const validatedCriteria = validateCriteria(criteria);
+      const error = validated.error ?? validatedCriteria.error;
+      if (error) return Promise.resolve({ success: false, error });
+
+      return runFolderChange(
+        'create_smart_folder',
+        id =>
+          FolderService.createFolder({
+            user_id: id,
+            name: validated.name,
+            parent_id: parentId,
+            is_smart: true,
+            search_criteria: validatedCriteria.criteria,
+          }),
+        (current, folder) => (folder ? { folders: [...current.folders, folder] } : {})
+      );
+    },
+    [runFolderChange]
+  );
+
+  const updateSmartFolder = useCallback(
+    (folderId: string, name: string, criteria: SmartFolderCriteria) => {
+      const validated = validateFolderName(name);
+      const validatedCriteria = validateCriteria(criteria);
+      const error = validated.error ?? validatedCriteria.error;
+      if (error) return Promise.resolve({ success: false, error });
+
+      return runFolderChange(
+        'update_smart_folder',
+        () =>
+          FolderService.updateFolder(folderId, {
+            name: validated.name,
+            search_criteria: validatedCriteria.criteria,
+          }),
+        (current, folder) => ({ folders: replaceFolder(current.folders, folder) })
+      );
+    },
+    [runFolderChange]
+  );
+
+  const renameFolder = useCallback(
+    (folderId: string, name: string) => {
+      const validated = validateFolderName(name);
+      if (validated.error) return Promise.resolve({ success: false, error: validated.error });
+
+      return runFolderChange(
+        'rename_folder',
+        () => FolderService.updateFolder(folderId, { name: validated.name }),
+        (current, folder) => ({ folders: replaceFolder(current.folders, folder) })
+      );
+    },
+    [runFolderChange]
+  );
+
+  // The server rejects cycles too; checking here gives a clear message without a round trip
+  const moveFolder = useCallback(
+    (folderId: string, parentId: string | null) => {
+      if (parentId && folderSubtreeIds(store.getState().folders, folderId).has(parentId)) {
+        return Promise.resolve({
+          success: false,
+          error: 'A folder cannot be moved inside itself',
+        });
+      }
+
+      return runFolderChange(
+        'move_folder',
+        () => FolderService.updateFolder(folderId, { parent_id: parentId }),
+        (current, folder) => ({ folders: replaceFolder(current.folders, folder) })
+      );
+    },
+    [store, runFolderChange]
+  );
+
+  // Subfolders move up a level and the codes stay in the library
+  const deleteFolder = useCallback(
+    (folderId: string) =>
+      runFolderChange(
+        'delete_folder',
+        () => FolderService.deleteFolder(folderId),
+        current => {
+          const deleted = current.folders.find(folder => folder.id === folderId);
+          const { [folderId]: _removed, ...folderCodeIds } = current.folderCodeIds;
+          return {
+            folders: current.folders
+              .filter(folder => folder.id !== folderId)
+              .map(folder =>
+                folder.parent_id === folderId
+                  ? { ...folder, parent_id: deleted?.parent_id ?? null }
+                  : folder
+              ),
+            folderCodeIds,
+          };
+        }
+      ),
+    [runFolderChange]
+  );
+
+  const addCodesToFolder = useCallback(
+    (folderId: string, codeIds: string[]) =>
+      runFolderChange(
+        'add_codes_to_folder',
+        () => FolderService.addCodesToFolder(folderId, codeIds),
+        current => ({
+          folderCodeIds: {
+            ...current.folderCodeIds,
+            [folderId]: [...new Set([...(current.folderCodeIds[folderId] ?? []), ...codeIds])],
+          },
+        })
+      ),
+    [runFolderChange]
+  );
+
+  const removeCodesFromFolder = useCallback(
+    (folderId: string, codeIds: string[]) =>
+      runFolderChange(
+        'remove_codes_from_folder',
+        () => FolderService.removeCodesFromFolder(folderId, codeIds),
+        current => ({
+          folderCodeIds: {
+            ...current.folderCodeIds,
+            [folderId]: (current.folderCodeIds[folderId] ?? []).filter(
+              codeId => !codeIds.includes(codeId)
+            ),
+          },
+        })
+      ),
+    [runFolderChange]
+  );
+
+  // Applied right away so dragged cards stay where they were dropped; put back if saving fails
+  const reorderFolderCodes = useCallback(
+    async (folderId: string, codeIds: string[]): Promise<FolderOperationResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      const previous = store.getState().folderCodeIds[folderId] ?? [];
+      const restore = () =>
+        store.setState(current => ({
+          folderCodeIds: { ...current.folderCodeIds, [folderId]: previous },
+        }));
+      store.setState(current => ({
+        folderCodeIds: { ...current.folderCodeIds, [folderId]: codeIds },
+      }));
+
+      try {
+        const { error } = await FolderService.reorderFolderCodes(folderId, codeIds);
+
+        if (error) {
+          restore();
+          captureException(error, {
+            tags: { operation: 'reorder_folder_codes' },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        return { success: true };
+      } catch (err) {
+        restore();
+        captureException(err, {
+          tags: { operation: 'reorder_folder_codes' },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  const { folders } = state;
+  const folderTree = useMemo(() => buildFolderTree(folders), [folders]);
+
+  return {
+    folders,
+    folderTree,
+    folderCodeIds: state.folderCodeIds,
+    loading: state.foldersLoading,
+    error: state.foldersError,
+    refreshFolders,
+    createFolder,
+    createSmartFolder,
+    updateSmartFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    addCodesToFolder,
+    removeCodesFromFolder,
+    reorderFolderCodes,
+  };
+};
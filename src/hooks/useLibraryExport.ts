@@ -0,0 +1,111 @@
+import { useState, useCallback } from 'react';
+import { SREFCode, SREFCodeFilters, SREFCodeService } from '../lib/database';
+import { StorageService } from '../lib/storage';
+import {
+  ExportScope,
+  buildLibraryBundle,
+  getExportFilename,
+  saveFile,
+  toLibraryCSV,
+  toLibraryJSON,
+} from '../lib/libraryExport';
+import { useAuth } from './useAuth';
+import { captureException } from '../lib/sentry';
+
+export type ExportFormat = 'json' | 'csv' | 'zip';
+
+export interface ExportResult {
+  success: boolean;
+  error?: string;
+  // Codes written to the file
+  count?: number;
+  // Zip exports only: images that couldn't be downloaded
+  missingImages?: number;
+}
+
+// Which codes an export covers; the whole library when both are omitted
+export interface ExportSource {
+  // Read on the server the same way the library query is
+  filters?: SREFCodeFilters;
+  // Checked against each code read, for what the filters can't express
+  select?: (code: SREFCode) => boolean;
+}
+
+export interface UseLibraryExportReturn {
+  exporting: boolean;
+  // Export the codes from `source` as a download
+  exportCodes: (
+    format: ExportFormat,
+    scope: ExportScope,
+    source?: ExportSource
+  ) => Promise<ExportResult>;
+}
+
+export const useLibraryExport = (): UseLibraryExportReturn => {
+  const { user } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const userId = user?.id ?? null;
+
+  const exportCodes = useCallback(
+    async (
+      format: ExportFormat,
+      scope: ExportScope,
+      { filters, select }: ExportSource = {}
+    ): Promise<ExportResult> => {
+      if (!userId) return { success: false, error: 'User not authenticated' };
+
+      setExporting(true);
+      try {
+        // Read the library fresh so the export doesn't depend on what's been loaded
+        const { data, error } = await SREFCodeService.getAllUserSREFCodes(userId, filters);
+        if (error || !data) {
+          captureException(error, {
+            tags: { operation: 'export_library' },
+            user: { id: userId },
+          });
+          return { success: false, error: 'Failed to load codes for export' };
+        }
+
+        const codes = select ? data.filter(select) : data;
+        if (codes.length === 0) return { success: false, error: 'There are no codes to export' };
+
+        const exportedAt = new Date();
+        const filename = getExportFilename(scope, format, exportedAt);
+
+        if (format === 'zip') {
+          const bundle = await buildLibraryBundle(
+            codes,
+            scope,
+            url => StorageService.downloadImage(url),
+            exportedAt
+          );
+          saveFile(bundle.data, filename);
+          return {
+            success: true,
+            count: codes.length,
+            missingImages: bundle.manifest.missing_images.length,
+          };
+        }
+
+        saveFile(
+          format === 'json'
+            ? new Blob([toLibraryJSON(codes, scope, exportedAt)], { type: 'application/json' })
+            : new Blob([toLibraryCSV(codes)], { type: 'text/csv;charset=utf-8' }),
+          filename
+        );
+        return { success: true, count: codes.length };
+      } catch (err) {
+        captureException(err, {
+          tags: { operation: 'export_library' },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      } finally {
+        setExporting(false);
+      }
+    },
+    [userId]
+  );
+
+  return { exporting, exportCodes };
+};
@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SREFCode, SREFCodeService } from '../lib/database';
+import { StorageService } from '../lib/storage';
+import { OfflineCache } from '../lib/offlineCache';
+import {
+  DuplicateStrategy,
+  ImportSession,
+  ImportTask,
+  ValidImportRow,
+  findDuplicateRows,
+  getDuplicateKey,
+  planImport,
+} from '../lib/libraryImport';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { loadSREFCodes } from './useSREFCodes';
+import { loadTags } from './useTags';
+import { captureException } from '../lib/sentry';
+
+export interface ImportProgress {
+  // Steps finished, whether they succeeded or not
+  done: number;
+  total: number;
+}
+
+export interface ImportRunResult {
+  success: boolean;
+  error?: string;
+  created?: number;
+  merged?: number;
+  skipped?: number;
+  // Steps that couldn't be completed, with the reason
+  failed?: ImportTask[];
+  // The import stopped part way and can be resumed
+  resumable?: boolean;
+}
+
+export interface UseLibraryImportReturn {
+  // An import that stopped before finishing, e.g. because the tab was closed
+  pendingImport: ImportSession | null;
+  importing: boolean;
+  progress: ImportProgress | null;
+  // Rows that repeat a library code or an earlier row
+  findDuplicates: (rows: ValidImportRow[]) => Promise<{ rows: number[]; error?: string }>;
+  startImport: (
+    fileName: string,
+    rows: ValidImportRow[],
+    images: Record<string, Blob>,
+    strategy: DuplicateStrategy
+  ) => Promise<ImportRunResult>;
+  resumeImport: () => Promise<ImportRunResult>;
+  discardImport: () => Promise<void>;
+}
+
+const OFFLINE_ERROR = 'Importing needs a connection. Resume the import once you are back online.';
+
+// Upload the bundled images a code uses and swap in their storage URLs. Other
+// URLs are kept as they are.
+const uploadBundledImages = async (session: ImportSession, imageUrls: string[]) => {
+  const urls: string[] = [];
+  for (const url of imageUrls) {
+    const image = session.images[url];
+    if (image && !session.uploadedImages[url]) {
+      const extension = image.type.split('/')[1] || 'jpg';
+      const { data, error } = await StorageService.uploadImage(
+        new File([image], `imported.${extension}`, { type: image.type }),
+        session.userId
+      );
+      if (!data) return { urls: null, error: error ?? 'Image upload failed' };
+      session.uploadedImages[url] = data.url;
+      await OfflineCache.saveImportSession(session);
+    }
+    urls.push(session.uploadedImages[url] ?? url);
+  }
+  return { urls, error: null };
+};
+
+const runTask = async (session: ImportSession, task: ImportTask): Promise<ImportTask> => {
+  if (task.type === 'merge') {
+    const { error } = await SREFCodeService.updateSREFCode(task.codeId, {
+      tagDiff: { tagsToAdd: task.tags, tagsToDelete: [] },
+    });
+    return error
+      ? { ...task, status: 'failed', error: `Failed to add tags to "${task.title}"` }
+      : { ...task, status: 'done' };
+  }
+
+  const { urls, error: uploadError } = await uploadBundledImages(session, task.code.images);
+  if (!urls) return { ...task, status: 'failed', error: uploadError };
+
+  const { error } = await SREFCodeService.createSREFCode({
+    ...task.code,
+    images: urls,
+    user_id: session.userId,
+  });
+  return error
+    ? { ...task, status: 'failed', error: `Failed to create "${task.code.title}"` }
+    : { ...task, status: 'done' };
+};
+
+// A code can be created just before the tab closes, without its step being saved as
+// done. Codes created since the import started are matched to the pending steps that
+// would have made them.
+const markCreatedTasks = (session: ImportSession, codes: SREFCode[]) => {
+  const startedAt = new Date(session.startedAt).getTime();
+  const unaccounted = new Map<string, number>();
+  const adjust = (key: string, by: number) =>
+    unaccounted.set(key, (unaccounted.get(key) ?? 0) + by);
+
+  codes
+    .filter(code => new Date(code.created_at).getTime() >= startedAt)
+    .forEach(code => adjust(getDuplicateKey(code), 1));
+  session.tasks.forEach(task => {
+    if (task.type === 'create' && task.status === 'done') adjust(getDuplicateKey(task.code), -1);
+  });
+
+  return session.tasks.map(task => {
+    if (task.type !== 'create' || task.status !== 'pending') return task;
+    const key = getDuplicateKey(task.code);
+    if ((unaccounted.get(key) ?? 0) <= 0) return task;
+    adjust(key, -1);
+    return { ...task, status: 'done' as const };
+  });
+};
+
+export const useLibraryImport = (): UseLibraryImportReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const [pendingImport, setPendingImport] = useState<ImportSession | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const userId = user?.id ?? null;
+
+  // Pick up an import left unfinished in an earlier visit
+  useEffect(() => {
+    let cancelled = false;
+    setPendingImport(null);
+    if (userId) {
+      OfflineCache.getImportSession(userId).then(session => {
+        if (!cancelled) setPendingImport(session);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Work through the steps still pending, saving after each one
+  const run = useCallback(
+    async (initial: ImportSession): Promise<ImportRunResult> => {
+      const session: ImportSession = {
+        ...initial,
+        tasks: [...initial.tasks],
+        uploadedImages: { ...initial.uploadedImages },
+      };
+      const countDone = () => session.tasks.filter(task => task.status !== 'pending').length;
+
+      setImporting(true);
+      setProgress({ done: countDone(), total: session.tasks.length });
+
+      try {
+        await OfflineCache.saveImportSession(session);
+
+        for (const [index, task] of session.tasks.entries()) {
+          if (task.status !== 'pending') continue;
+          if (!navigator.onLine) {
+            setPendingImport(session);
+            return { success: false, error: OFFLINE_ERROR, resumable: true };
+          }
+
+          session.tasks[index] = await runTask(session, task);
+          await OfflineCache.saveImportSession(session);
+          setProgress({ done: countDone(), total: session.tasks.length });
+        }
+
+        await OfflineCache.clearImportSession(session.userId);
+        setPendingImport(null);
+
+        const countCompleted = (type: ImportTask['type']) =>
+          session.tasks.filter(task => task.type === type && task.status === 'done').length;
+        const created = countCompleted('create');
+        const merged = countCompleted('merge');
+        if (created + merged > 0) {
+          store.setState(() => ({ tagStatsLoaded: false }));
+          await Promise.all([
+            loadSREFCodes(store, session.userId),
+            loadTags(store, session.userId),
+          ]);
+        }
+
+        return {
+          success: true,
+          created,
+          merged,
+          skipped: session.skipped,
+          failed: session.tasks.filter(task => task.status === 'failed'),
+        };
+      } catch (err) {
+        // The saved session is left in place, so the import can still be resumed
+        captureException(err, {
+          tags: { operation: 'import_library' },
+          user: { id: session.userId },
+        });
+        setPendingImport(session);
+        return { success: false, error: 'An unexpected error occurred', resumable: true };
+      } finally {
+        setImporting(false);
+      }
+    },
+    [store]
+  );
+
+  const loadLibrary = useCallback(async (ownerId: string) => {
+    const { data, error } = await SREFCodeService.getAllUserSREFCodes(ownerId);
+    if (error || !data) {
+      captureException(error, {
+        tags: { operation: 'import_library' },
+        user: { id: ownerId },
+      });
+      return null;
+    }
+    return data;
+  }, []);
+
+  const findDuplicates = useCallback(
+    async (rows: ValidImportRow[]) => {
+      if (!userId) return { rows: [], error: 'User not authenticated' };
+
+      const library = await loadLibrary(userId);
+      if (!library) return { rows: [], error: 'Failed to load your library' };
+      return { rows: findDuplicateRows(rows, library) };
+    },
+    [userId, loadLibrary]
+  );
+
+  const startImport = useCallback(
+    async (
+      fileName: string,
+      rows: ValidImportRow[],
+      images: Record<string, Blob>,
+      strategy: DuplicateStrategy
+    ): Promise<ImportRunResult> => {
+      if (!userId) return { success: false, error: 'User not authenticated' };
+      if (!navigator.onLine) return { success: false, error: OFFLINE_ERROR };
+
+      const library = await loadLibrary(userId);
+      if (!library) return { success: false, error: 'Failed to load your library' };
+
+      const { tasks, skipped } = planImport(rows, library, strategy);
+      // Only bundled images that a code being created uses are kept for upload
+      const usedImages = new Set(
+        tasks.flatMap(task => (task.type === 'create' ? task.code.images : []))
+      );
+
+      return run({
+        userId,
+        fileName,
+        startedAt: new Date().toISOString(),
+        tasks,
+        skipped,
+        images: Object.fromEntries(Object.entries(images).filter(([url]) => usedImages.has(url))),
+        uploadedImages: {},
+      });
+    },
+    [userId, loadLibrary, run]
+  );
+
+  const resumeImport = useCallback(async (): Promise<ImportRunResult> => {
+    if (!userId) return { success: false, error: 'User not authenticated' };
+    if (!navigator.onLine) return { success: false, error: OFFLINE_ERROR };
+
+    const session = await OfflineCache.getImportSession(userId);
+    if (!session) return { success: false, error: 'There is no import to resume' };
+
+    const library = await loadLibrary(userId);
+    if (!library) return { success: false, error: 'Failed to load your library' };
+
+    return run({ ...session, tasks: markCreatedTasks(session, library) });
+  }, [userId, loadLibrary, run]);
+
+  const discardImport = useCallback(async () => {
+    if (!userId) return;
+    await OfflineCache.clearImportSession(userId);
+    setPendingImport(null);
+  }, [userId]);
+
+  return {
+    pendingImport,
+    importing,
+    progress,
+    findDuplicates,
+    startImport,
+    resumeImport,
+    discardImport,
+  };
+};
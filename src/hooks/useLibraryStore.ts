@@ -0,0 +1,34 @@
+import { useContext, useLayoutEffect, useState } from 'react';
+import { createLibraryStore, LibraryStore } from '../lib/libraryStore';
+import { ChangeSource } from '../lib/realtime';
+import { LibraryContext } from '../contexts/libraryStoreContext';
+import { useAuth } from './useAuth';
+
+// Scope a store to the signed-in user, dropping everything loaded for anyone
+// else. Layout effects run before any hook's loading effects, so nothing is
+// loaded into a store that is about to be reset.
+export const useLibraryStoreOwner = (store: LibraryStore | null) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  useLayoutEffect(() => {
+    if (store && store.getState().ownerId !== userId) {
+      store.reset(userId);
+    }
+  }, [store, userId]);
+};
+
+// Components rendered outside a LibraryProvider get a private store, so hooks
+// built on it keep working in isolation (e.g. in tests)
+export const useLibraryStore = (): LibraryStore => {
+  const context = useContext(LibraryContext);
+  const [privateStore] = useState(createLibraryStore);
+  useLibraryStoreOwner(context ? null : privateStore);
+  return context?.store ?? privateStore;
+};
+
+// Live changes are only received inside a LibraryProvider
+export const useLibraryChangeSource = (): ChangeSource | null => {
+  const context = useContext(LibraryContext);
+  return context?.changeSource ?? null;
+};
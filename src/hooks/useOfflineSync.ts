@@ -0,0 +1,109 @@
+import { useEffect, useCallback, useSyncExternalStore } from 'react';
+import { LibraryStore } from '../lib/libraryStore';
+import { OfflineCache } from '../lib/offlineCache';
+import { SyncQueue, SyncReport } from '../lib/syncQueue';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { useOnlineStatus } from './useOnlineStatus';
+import { loadSREFCodes } from './useSREFCodes';
+import { loadTags } from './useTags';
+import { captureException } from '../lib/sentry';
+import { toast } from 'sonner';
+
+export interface UseOfflineSyncReturn {
+  isOnline: boolean;
+  queuedCount: number;
+  syncing: boolean;
+  syncNow: () => Promise<void>;
+}
+
+const SYNC_TOAST = { duration: 3000, position: 'bottom-right' } as const;
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Tell the user what happened to the edits they made offline
+const announceSyncReport = ({ applied, conflicts, failed }: SyncReport) => {
+  if (applied > 0) {
+    toast.success(`Synced ${pluralize(applied, 'offline change')}`, SYNC_TOAST);
+  }
+
+  conflicts.forEach(({ mutation, serverCode, reason }) => {
+    const title =
+      serverCode?.title ?? (mutation.type !== 'delete' ? mutation.payload.title : undefined);
+    const name = title ? `"${title}"` : 'An SREF code';
+
+    toast.warning(
+      reason === 'deleted'
+        ? `${name} was deleted on another device while you were offline. Your edit was discarded.`
+        : `${name} was changed on another device while you were offline. Your offline ${
+            mutation.type === 'delete' ? 'delete' : 'edit'
+          } was not applied.`,
+      { ...SYNC_TOAST, duration: 8000 }
+    );
+  });
+
+  if (failed.length > 0) {
+    toast.error(`${pluralize(failed.length, 'offline change')} could not be synced`, SYNC_TOAST);
+  }
+};
+
+// Replay the user's offline queue, then reload the library from the server
+const syncOfflineChanges = (store: LibraryStore, userId: string) =>
+  store.dedupe(`sync:${userId}`, async () => {
+    if (!OfflineCache.isAvailable()) return;
+
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+    const queuedCount = await SyncQueue.count(userId);
+    if (!isCurrentOwner()) return;
+
+    store.setState(() => ({ queuedCount }));
+    if (queuedCount === 0 || !navigator.onLine) return;
+
+    store.setState(() => ({ syncing: true }));
+
+    try {
+      const report = await SyncQueue.replay(userId);
+      if (!isCurrentOwner()) return;
+
+      store.setState(() => ({ queuedCount: report.remaining }));
+      announceSyncReport(report);
+
+      await Promise.all([loadSREFCodes(store, userId), loadTags(store, userId)]);
+    } catch (err) {
+      captureException(err, {
+        tags: { operation: 'sync_offline_changes' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ syncing: false }));
+      }
+    }
+  });
+
+export const useOfflineSync = (): UseOfflineSyncReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const isOnline = useOnlineStatus();
+  const userId = user?.id ?? null;
+
+  // Count queued edits on sign-in and replay them whenever the connection comes back
+  useEffect(() => {
+    if (userId) {
+      syncOfflineChanges(store, userId);
+    }
+  }, [store, userId, isOnline]);
+
+  const syncNow = useCallback(async () => {
+    if (!userId) return;
+    await syncOfflineChanges(store, userId);
+  }, [store, userId]);
+
+  return {
+    isOnline,
+    queuedCount: state.queuedCount,
+    syncing: state.syncing,
+    syncNow,
+  };
+};
@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (callback: () => void) => {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+};
+
+const getSnapshot = () => navigator.onLine;
+
+// Server rendering has no connection state; assume online
+const getServerSnapshot = () => true;
+
+export const useOnlineStatus = (): boolean =>
+  useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
@@ -0,0 +1,355 @@
+import { useEffect, useCallback, useSyncExternalStore } from 'react';
+import {
+  CodeVisibility,
+  Pack,
+  PackChanges,
+  PackService,
+  SREFCode,
+  SREFCodeService,
+  SharedPack,
+} from '../lib/database';
+import { LibraryState, LibraryStore } from '../lib/libraryStore';
+import { StorageService } from '../lib/storage';
+import { packSchema } from '../schemas/srefValidation';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { loadSREFCodes } from './useSREFCodes';
+import { loadTags } from './useTags';
+import { captureException } from '../lib/sentry';
+
+export interface PackResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface PackImportResult extends PackResult {
+  // Codes added to the library; codes imported from the pack before are skipped
+  imported?: number;
+  // Imported codes whose images couldn't be copied and still use the author's files
+  imagesNotCopied?: number;
+}
+
+// What the pack editor saves: the pack's details and its codes in order
+export interface PackDraft {
+  title: string;
+  description?: string;
+  cover_image_url?: string;
+  codeIds: string[];
+}
+
+export interface UsePacksReturn {
+  packs: Pack[];
+  // Ids of the codes in each of the user's packs, in order
+  packCodeIds: Record<string, string[]>;
+  communityPacks: Pack[];
+  // The version of each pack the user last imported
+  packImports: Record<string, number>;
+  // Imported packs with a newer version out, and what changed in them
+  packUpdates: PackChanges[];
+  loading: boolean;
+  error: string | null;
+  refreshPacks: () => Promise<void>;
+  createPack: (draft: PackDraft) => Promise<PackResult>;
+  updatePack: (packId: string, draft: PackDraft) => Promise<PackResult>;
+  deletePack: (packId: string) => Promise<PackResult>;
+  // Publish the pack as it is now as its next version
+  publishPack: (
+    packId: string,
+    visibility: Exclude<CodeVisibility, 'private'>
+  ) => Promise<PackResult>;
+  // Copy the latest version of someone else's pack into the library
+  importPack: (packId: string) => Promise<PackImportResult>;
+  // Look up a pack shared by link; pack is null if it isn't shared
+  getSharedPack: (packId: string) => Promise<{ pack: SharedPack | null; error?: string }>;
+  // The codes of one of the user's packs, in order
+  getPackCodes: (packId: string) => Promise<{ codes: SREFCode[]; error?: string }>;
+}
+
+// Fetch the user's packs, the community's packs and the user's imports into the shared store
+export const loadPacks = (store: LibraryStore, userId: string) =>
+  store.dedupe(`packs:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+
+    if (!navigator.onLine) return;
+
+    store.setState(() => ({ packsLoading: true, packsError: null }));
+
+    try {
+      const { data: packs, error } = await PackService.getUserPacks(userId);
+      const { data: listed, error: listedError } = packs
+        ? await PackService.getPackCodes(packs.map(pack => pack.id))
+        : { data: null, error: null };
+      const [
+        { data: communityPacks, error: communityError },
+        { data: packImports, error: importsError },
+        { data: packUpdates, error: updatesError },
+      ] = await Promise.all([
+        PackService.getCommunityPacks(userId),
+        PackService.getPackImports(userId),
+        PackService.getPackUpdates(),
+      ]);
+      if (!isCurrentOwner()) return;
+
+      const failure = error ?? listedError ?? communityError ?? importsError ?? updatesError;
+      if (failure || !packs || !listed || !communityPacks || !packImports || !packUpdates) {
+        store.setState(() => ({ packsError: 'Failed to load packs' }));
+        captureException(failure, {
+          tags: { operation: 'fetch_packs' },
+          user: { id: userId },
+        });
+      } else {
+        const packCodeIds: Record<string, string[]> = {};
+        listed.forEach(({ pack_id, code_id }) => {
+          packCodeIds[pack_id] = [...(packCodeIds[pack_id] ?? []), code_id];
+        });
+        store.setState(() => ({
+          packs,
+          packCodeIds,
+          communityPacks,
+          packImports,
+          packUpdates,
+          packsLoaded: true,
+        }));
+      }
+    } catch (err) {
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ packsError: 'An unexpected error occurred' }));
+      captureException(err, {
+        tags: { operation: 'fetch_packs' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ packsLoading: false }));
+      }
+    }
+  });
+
+const validateDraft = (draft: PackDraft) => {
+  const result = packSchema.safeParse(draft);
+  if (!result.success) return { details: null, error: result.error.issues[0].message };
+
+  const { title, description, cover_image_url } = result.data;
+  return {
+    details: { title, description: description || null, cover_image_url: cover_image_url || null },
+    error: null,
+  };
+};
+
+// Copy the images of newly imported codes into the user's storage, one code at
+// a time. Resolves to the number of codes left on the author's images.
+const copyImportedImages = async (userId: string, codeIds: string[]) => {
+  if (codeIds.length === 0) return 0;
+
+  const { data: codes, error } = await PackService.getCodes(codeIds);
+  if (error || !codes) return codeIds.length;
+
+  let failed = 0;
+  for (const code of codes) {
+    const urls = code.images.map(image => image.image_url);
+    const { data: copies } = await StorageService.copyImages(urls, userId);
+    if (!copies) {
+      failed += 1;
+      continue;
+    }
+    if (copies.every((copy, index) => copy === urls[index])) continue;
+
+    const { error: updateError } = await SREFCodeService.updateSREFCode(code.id, {
+      images: copies,
+    });
+    if (updateError) {
+      await StorageService.removeCopies(urls, copies);
+      failed += 1;
+    }
+  }
+  return failed;
+};
+
+const replacePack = (packs: Pack[], pack: Pack) => [
+  pack,
+  ...packs.filter(existing => existing.id !== pack.id),
+];
+
+export const usePacks = (): UsePacksReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load packs on mount and when user changes, unless another consumer already did
+  useEffect(() => {
+    if (userId && !store.getState().packsLoaded) {
+      loadPacks(store, userId);
+    }
+  }, [store, userId]);
+
+  const refreshPacks = useCallback(async () => {
+    if (!userId) return;
+    await loadPacks(store, userId);
+  }, [store, userId]);
+
+  // Save a change on the server, then apply it to the shared packs
+  const runPackChange = useCallback(
+    async <T>(
+      operation: string,
+      request: (userId: string) => Promise<{ data?: T | null; error: Error | null }>,
+      apply: (state: LibraryState, data: T | null | undefined) => Partial<LibraryState>
+    ): Promise<PackResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      try {
+        const { data, error } = await request(userId);
+
+        if (error) {
+          captureException(error, {
+            tags: { operation },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        store.setState(current => apply(current, data));
+        return { success: true };
+      } catch (err) {
+        captureException(err, {
+          tags: { operation },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  // The pack row and its code list are saved one after the other; if the codes
+  // fail, the saved details stay and the error is reported.
+  const savePack = useCallback(
+    (operation: string, draft: PackDraft, packId?: string) => {
+      const { details, error } = validateDraft(draft);
+      if (!details) return Promise.resolve({ success: false, error });
+
+      return runPackChange(
+        operation,
+        async id => {
+          const { data: pack, error: packError } = packId
+            ? await PackService.updatePack(packId, details)
+            : await PackService.createPack({ user_id: id, ...details });
+          if (packError || !pack) return { data: null, error: packError };
+
+          const { error: codesError } = await PackService.setPackCodes(pack.id, draft.codeIds);
+          if (codesError) {
+            store.setState(current => ({ packs: replacePack(current.packs, pack) }));
+            return { data: null, error: codesError };
+          }
+          return { data: pack, error: null };
+        },
+        (current, pack) =>
+          pack
+            ? {
+                packs: replacePack(current.packs, pack),
+                packCodeIds: { ...current.packCodeIds, [pack.id]: draft.codeIds },
+              }
+            : {}
+      );
+    },
+    [store, runPackChange]
+  );
+
+  const createPack = useCallback((draft: PackDraft) => savePack('create_pack', draft), [savePack]);
+
+  const updatePack = useCallback(
+    (packId: string, draft: PackDraft) => savePack('update_pack', draft, packId),
+    [savePack]
+  );
+
+  // Importers keep the codes they already copied from the pack
+  const deletePack = useCallback(
+    (packId: string) =>
+      runPackChange(
+        'delete_pack',
+        () => PackService.deletePack(packId),
+        current => {
+          const { [packId]: _removed, ...packCodeIds } = current.packCodeIds;
+          return { packs: current.packs.filter(pack => pack.id !== packId), packCodeIds };
+        }
+      ),
+    [runPackChange]
+  );
+
+  const publishPack = useCallback(
+    (packId: string, visibility: Exclude<CodeVisibility, 'private'>) =>
+      runPackChange(
+        'publish_pack',
+        () => PackService.publishPack(packId, visibility),
+        (current, version) => ({
+          packs: current.packs.map(pack =>
+            pack.id === packId && version
+              ? { ...pack, version, visibility, updated_at: new Date().toISOString() }
+              : pack
+          ),
+        })
+      ),
+    [runPackChange]
+  );
+
+  // The imported codes come back with the next library load, so the library,
+  // tags and packs are all fetched again once their images are copied
+  const importPack = useCallback(
+    async (packId: string): Promise<PackImportResult> => {
+      let codeIds: string[] = [];
+      const result = await runPackChange(
+        'import_pack',
+        () => PackService.importPack(packId),
+        (_current, ids) => {
+          codeIds = ids ?? [];
+          return { tagStatsLoaded: false };
+        }
+      );
+      if (!result.success || !userId) return result;
+
+      const imagesNotCopied = await copyImportedImages(userId, codeIds);
+      await Promise.all([
+        loadPacks(store, userId),
+        loadSREFCodes(store, userId),
+        loadTags(store, userId),
+      ]);
+      return { success: true, imported: codeIds.length, imagesNotCopied };
+    },
+    [store, userId, runPackChange]
+  );
+
+  const getSharedPack = useCallback(async (packId: string) => {
+    const { data, error } = await PackService.getSharedPack(packId);
+    return error ? { pack: null, error: error.message } : { pack: data };
+  }, []);
+
+  const getPackCodes = useCallback(
+    async (packId: string) => {
+      const { data, error } = await PackService.getCodes(
+        store.getState().packCodeIds[packId] ?? []
+      );
+      return error || !data ? { codes: [], error: error?.message } : { codes: data };
+    },
+    [store]
+  );
+
+  return {
+    packs: state.packs,
+    packCodeIds: state.packCodeIds,
+    communityPacks: state.communityPacks,
+    packImports: state.packImports,
+    packUpdates: state.packUpdates,
+    loading: state.packsLoading,
+    error: state.packsError,
+    refreshPacks,
+    createPack,
+    updatePack,
+    deletePack,
+    publishPack,
+    importPack,
+    getSharedPack,
+    getPackCodes,
+  };
+};
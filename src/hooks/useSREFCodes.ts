@@ -1,13 +1,45 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SREFCodeService, SREFCode, SREFCodeInsert, SREFCodeUpdate } from '../lib/database';
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import {
+  SREFCodeService,
+  SREFCode,
+  SREFCodeInsert,
+  SREFCodeUpdate,
+  TagMatchMode,
+} from '../lib/database';
+import {
+  LibraryStore,
+  PendingMutation,
+  replaceCodes,
+  replaceCode,
+  upsertCode,
+  removeCode,
+  setPending,
+  selectCodes,
+  appendCodes,
+  matchesFilters,
+  isSameQuery,
+  persistLibrary,
+  LibraryQuery,
+} from '../lib/libraryStore';
+import { OfflineCache } from '../lib/offlineCache';
+import { SyncQueue } from '../lib/syncQueue';
+import { LibraryChange, codeChange, subscribeToLibraryChanges } from '../lib/realtime';
+import { useLibraryStore, useLibraryChangeSource } from './useLibraryStore';
 import { useAuth } from './useAuth';
 import { captureException } from '../lib/sentry';
+import { toast } from 'sonner';
 
 export interface UseSREFCodesReturn {
   // Data
   srefCodes: SREFCode[];
+  pendingMutations: Record<string, PendingMutation>;
   loading: boolean;
   error: string | null;
+  query: LibraryQuery;
+  hasMore: boolean;
+  loadingMore: boolean;
+  // Showing a cached snapshot that lacks codes which were never loaded, e.g. offline
+  partial: boolean;
 
   // Actions
   createSREFCode: (
@@ -19,242 +51,542 @@ export interface UseSREFCodesReturn {
   ) => Promise<{ success: boolean; data?: SREFCode; error?: string }>;
   deleteSREFCode: (codeId: string) => Promise<{ success: boolean; error?: string }>;
   refreshSREFCodes: () => Promise<void>;
-  searchSREFCodes: (query: string, tags?: string[]) => Promise<void>;
+  searchSREFCodes: (query: string, tags?: string[], tagMode?: TagMatchMode) => Promise<void>;
+  setQuery: (query: Partial<LibraryQuery>) => Promise<void>;
+  loadMore: () => Promise<void>;
 
   // Utility
   getSREFCodeById: (codeId: string) => SREFCode | undefined;
 }
 
-export const useSREFCodes = (): UseSREFCodesReturn => {
-  const { user } = useAuth();
-  const [srefCodes, setSrefCodes] = useState<SREFCode[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch all SREF codes for the current user
-  const fetchSREFCodes = useCallback(async () => {
-    if (!user || !user.id) {
-      setLoading(false);
-      return;
-    }
+const ROLLBACK_TOAST = { duration: 3000, position: 'bottom-right' } as const;
+
+const createPlaceholderId = () =>
+  `temp-${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+// Build a code as it will look once saved, so it can be shown before the server answers
+const buildOptimisticCode = (id: string, srefCode: SREFCodeInsert): SREFCode => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    user_id: srefCode.user_id,
+    code_value: srefCode.code_value,
+    sv_version: srefCode.sv_version,
+    title: srefCode.title,
+    notes: srefCode.notes ?? null,
+    copy_count: 0,
+    upvotes: 0,
+    downvotes: 0,
+    save_count: 0,
+    visibility: srefCode.visibility ?? 'private',
+    created_at: now,
+    updated_at: now,
+    images: srefCode.images.map((imageUrl, position) => ({
+      id: `${id}-image-${position}`,
+      code_id: id,
+      image_url: imageUrl,
+      position,
+      created_at: now,
+    })),
+    tags: [...new Set(srefCode.tags)],
+  };
+};
+
+// Apply an update payload (including image/tag diffs) to a local copy of a code
+const applyOptimisticUpdate = (code: SREFCode, updates: SREFCodeUpdate): SREFCode => {
+  const now = new Date().toISOString();
+  const toImages = (imageUrls: string[], startPosition: number) =>
+    imageUrls.map((imageUrl, index) => ({
+      id: `${code.id}-pending-image-${startPosition + index}`,
+      code_id: code.id,
+      image_url: imageUrl,
+      position: startPosition + index,
+      created_at: now,
+    }));
+
+  let images = code.images;
+  if (updates.imageDiff) {
+    const { imagesToDelete, imagesToAdd } = updates.imageDiff;
+    const kept = code.images.filter(image => !imagesToDelete.includes(image.image_url));
+    const nextPosition = kept.reduce((max, image) => Math.max(max, image.position), -1) + 1;
+    images = [...kept, ...toImages(imagesToAdd, nextPosition)];
+  } else if (updates.images) {
+    images = toImages(updates.images, 0);
+  }
+
+  let tags = code.tags;
+  if (updates.tagDiff) {
+    const { tagsToDelete, tagsToAdd } = updates.tagDiff;
+    const kept = code.tags.filter(tag => !tagsToDelete.includes(tag));
+    tags = [...kept, ...tagsToAdd.filter(tag => !kept.includes(tag))];
+  } else if (updates.tags) {
+    tags = updates.tags;
+  }
+
+  return {
+    ...code,
+    title: updates.title ?? code.title,
+    code_value: updates.code_value ?? code.code_value,
+    sv_version: updates.sv_version ?? code.sv_version,
+    notes: updates.notes === undefined ? code.notes : updates.notes || null,
+    visibility: updates.visibility ?? code.visibility,
+    images,
+    tags,
+    updated_at: now,
+  };
+};
+
+// Edits are queued for later instead of sent when there is no connection to send them over
+const shouldQueueOffline = () => !navigator.onLine && OfflineCache.isAvailable();
 
-    setLoading(true);
-    setError(null);
+// Load the first page of SREF codes for the store's current query. Concurrent calls
+// from different consumers share one request and apply its result once. The cached
+// library is shown first so the page is usable before (or without) the network.
+export const loadSREFCodes = (store: LibraryStore, userId: string) => {
+  const query = store.getState().query;
+
+  return store.dedupe(`codes:${userId}:${JSON.stringify(query)}`, async () => {
+    const isCurrent = () => {
+      const state = store.getState();
+      return state.ownerId === userId && state.query === query;
+    };
+
+    store.setState(() => ({ codesLoading: true, codesError: null }));
 
     try {
-      const { data, error } = await SREFCodeService.getUserSREFCodes(user.id);
+      if (!store.getState().codesLoaded || !navigator.onLine) {
+        const cached = await OfflineCache.getLibrary(userId);
+        if (cached && isCurrent()) {
+          store.setState(state => ({
+            ...replaceCodes(
+              cached.codes.filter(code => matchesFilters(code, query.filters, state.folderCodeIds))
+            ),
+            codesLoaded: true,
+            codesLoading: false,
+            // Snapshots saved before completeness was recorded count as partial
+            codesPartial: cached.complete !== true,
+            nextCursor: null,
+            hasMore: false,
+          }));
+        }
+      }
+
+      if (!navigator.onLine) {
+        if (isCurrent() && !store.getState().codesLoaded) {
+          store.setState(() => ({
+            codesError: 'You are offline and no saved library is available',
+          }));
+        }
+        return;
+      }
+
+      const { data, error } = await SREFCodeService.getUserSREFCodesPage(userId, {
+        filters: query.filters,
+        sort: query.sort,
+      });
+      if (!isCurrent()) return;
 
-      if (error) {
-        setError('Failed to load SREF codes');
+      if (error || !data) {
+        store.setState(() => ({ codesError: 'Failed to load SREF codes' }));
         captureException(error, {
           tags: { operation: 'fetch_sref_codes' },
-          user: { id: user.id },
+          user: { id: userId },
         });
       } else {
-        setSrefCodes(data || []);
+        store.setState(() => ({
+          ...replaceCodes(data.codes),
+          codesLoaded: true,
+          codesPartial: false,
+          nextCursor: data.nextCursor,
+          hasMore: data.nextCursor !== null,
+        }));
+        persistLibrary(store);
       }
     } catch (err) {
-      setError('An unexpected error occurred');
+      if (!isCurrent()) return;
+      store.setState(() => ({ codesError: 'An unexpected error occurred' }));
       captureException(err, {
         tags: { operation: 'fetch_sref_codes' },
-        user: { id: user.id },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrent()) {
+        store.setState(() => ({ codesLoading: false }));
+      }
+    }
+  });
+};
+
+// Append the page after the last loaded code, for the same query
+const loadMoreSREFCodes = (store: LibraryStore, userId: string) =>
+  store.dedupe(`codes-more:${userId}`, async () => {
+    const { query, nextCursor, hasMore } = store.getState();
+    if (!hasMore || !nextCursor) return;
+
+    const isCurrent = () => {
+      const state = store.getState();
+      return state.ownerId === userId && state.query === query && state.nextCursor === nextCursor;
+    };
+
+    store.setState(() => ({ loadingMore: true }));
+
+    try {
+      const { data, error } = await SREFCodeService.getUserSREFCodesPage(userId, {
+        filters: query.filters,
+        sort: query.sort,
+        cursor: nextCursor,
+      });
+      if (!isCurrent()) return;
+
+      if (error || !data) {
+        toast.error('Could not load more SREF codes', ROLLBACK_TOAST);
+        captureException(error, {
+          tags: { operation: 'fetch_more_sref_codes' },
+          user: { id: userId },
+        });
+      } else {
+        store.setState(state => ({
+          ...appendCodes(state, data.codes),
+          nextCursor: data.nextCursor,
+          hasMore: data.nextCursor !== null,
+        }));
+        persistLibrary(store);
+      }
+    } catch (err) {
+      captureException(err, {
+        tags: { operation: 'fetch_more_sref_codes' },
+        user: { id: userId },
       });
     } finally {
-      setLoading(false);
+      if (store.getState().ownerId === userId) {
+        store.setState(() => ({ loadingMore: false }));
+      }
     }
-  }, [user]);
+  });
 
-  // Load SREF codes on mount and when user changes
+export const useSREFCodes = (): UseSREFCodesReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const changeSource = useLibraryChangeSource();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  const { codeIds, codesById } = state;
+  const srefCodes = useMemo(() => selectCodes({ codeIds, codesById }), [codeIds, codesById]);
+
+  // Load SREF codes on mount and when user changes, unless another consumer already did
   useEffect(() => {
-    fetchSREFCodes();
-  }, [fetchSREFCodes]);
+    if (userId && !store.getState().codesLoaded) {
+      loadSREFCodes(store, userId);
+    }
+  }, [store, userId]);
 
-  // Create a new SREF code
+  // Merge changes made in other tabs and on other devices; all consumers share one subscription
+  useEffect(() => {
+    if (!userId || !changeSource) return;
+    return store.retain(`changes:${userId}`, () =>
+      subscribeToLibraryChanges(store, userId, changeSource)
+    );
+  }, [store, userId, changeSource]);
+
+  // Let other tabs know about a change saved here
+  const publishChange = useCallback(
+    (change: LibraryChange) => {
+      if (userId && changeSource) changeSource.publish(userId, change);
+    },
+    [userId, changeSource]
+  );
+
+  // Create a new SREF code. It shows up right away under a placeholder id, which is
+  // swapped for the saved row once the server answers or removed again if it fails.
   const createSREFCode = useCallback(
     async (srefCode: Omit<SREFCodeInsert, 'user_id'>) => {
       if (!user || !user.id) {
         return { success: false, error: 'User not authenticated' };
       }
 
-      setLoading(true);
-      setError(null);
+      const newCode = { ...srefCode, user_id: user.id };
+      const placeholderId = createPlaceholderId();
 
-      try {
-        const { data, error } = await SREFCodeService.createSREFCode({
-          ...srefCode,
-          user_id: user.id,
+      if (shouldQueueOffline()) {
+        const queued = await SyncQueue.enqueue({
+          type: 'create',
+          userId: user.id,
+          codeId: placeholderId,
+          payload: newCode,
         });
+        if (queued) {
+          const placeholder = buildOptimisticCode(placeholderId, newCode);
+          store.setState(state => ({
+            ...upsertCode(state, placeholder, { prepend: true }),
+            queuedCount: state.queuedCount + 1,
+          }));
+          persistLibrary(store);
+          return { success: true, data: placeholder };
+        }
+      }
+      const rollback = () => {
+        store.setState(state => removeCode(state, placeholderId));
+        toast.error(`Could not create "${srefCode.title}". It has been removed.`, ROLLBACK_TOAST);
+      };
+
+      store.setState(state => ({
+        ...upsertCode(state, buildOptimisticCode(placeholderId, newCode), { prepend: true }),
+        ...setPending(state, placeholderId, 'create'),
+      }));
+
+      try {
+        const { data, error } = await SREFCodeService.createSREFCode(newCode);
 
         if (error) {
-          const errorMessage = 'Failed to create SREF code';
-          setError(errorMessage);
+          rollback();
           captureException(error, {
             tags: { operation: 'create_sref_code' },
             user: { id: user.id },
           });
-          return { success: false, error: errorMessage };
+          return { success: false, error: 'Failed to create SREF code' };
         }
 
         if (data) {
-          setSrefCodes(prev => [data, ...prev]);
+          store.setState(state => ({
+            ...replaceCode(state, placeholderId, data),
+            ...setPending(state, placeholderId, null),
+            // Suggestions should learn from the new tags
+            tagStatsLoaded: false,
+          }));
+          persistLibrary(store);
+          publishChange(codeChange('INSERT', data));
           return { success: true, data };
         }
 
+        rollback();
         return { success: false, error: 'Unknown error occurred' };
       } catch (err) {
-        const errorMessage = 'An unexpected error occurred';
-        setError(errorMessage);
+        rollback();
         captureException(err, {
           tags: { operation: 'create_sref_code' },
           user: { id: user.id },
         });
-        return { success: false, error: errorMessage };
-      } finally {
-        setLoading(false);
+        return { success: false, error: 'An unexpected error occurred' };
       }
     },
-    [user]
+    [user, store, publishChange]
   );
 
-  // Update an existing SREF code
+  // Update an existing SREF code, applying the change locally first and
+  // restoring the previous version if the server rejects it
   const updateSREFCode = useCallback(
     async (codeId: string, updates: SREFCodeUpdate) => {
       if (!user || !user.id) {
         return { success: false, error: 'User not authenticated' };
       }
 
-      setLoading(true);
-      setError(null);
+      const previous = store.getState().codesById[codeId];
+      const rollback = () => {
+        if (!previous) return;
+        store.setState(state => ({
+          ...upsertCode(state, previous),
+          ...setPending(state, codeId, null),
+        }));
+        toast.error(
+          `Could not update "${previous.title}". Your changes have been undone.`,
+          ROLLBACK_TOAST
+        );
+      };
+
+      if (previous && shouldQueueOffline()) {
+        const queued = await SyncQueue.enqueue({
+          type: 'update',
+          userId: user.id,
+          codeId,
+          payload: updates,
+          baseUpdatedAt: previous.updated_at,
+        });
+        if (queued) {
+          const updated = applyOptimisticUpdate(previous, updates);
+          store.setState(state => ({
+            ...upsertCode(state, updated),
+            queuedCount: state.queuedCount + 1,
+          }));
+          persistLibrary(store);
+          publishChange(codeChange('UPDATE', updated));
+          return { success: true, data: updated };
+        }
+      }
+
+      if (previous) {
+        store.setState(state => ({
+          ...upsertCode(state, applyOptimisticUpdate(previous, updates)),
+          ...setPending(state, codeId, 'update'),
+        }));
+      }
 
       try {
         const { data, error } = await SREFCodeService.updateSREFCode(codeId, updates);
 
         if (error) {
-          const errorMessage = 'Failed to update SREF code';
-          setError(errorMessage);
+          rollback();
           captureException(error, {
             tags: { operation: 'update_sref_code' },
             user: { id: user.id },
           });
-          return { success: false, error: errorMessage };
+          return { success: false, error: 'Failed to update SREF code' };
         }
 
         if (data) {
-          setSrefCodes(prev => prev.map(code => (code.id === codeId ? data : code)));
+          store.setState(state => ({
+            ...upsertCode(state, data),
+            ...setPending(state, codeId, null),
+            // Suggestions should learn from the new tags
+            tagStatsLoaded: false,
+          }));
+          persistLibrary(store);
+          publishChange(codeChange('UPDATE', data));
           return { success: true, data };
         }
 
+        rollback();
         return { success: false, error: 'Unknown error occurred' };
       } catch (err) {
-        const errorMessage = 'An unexpected error occurred';
-        setError(errorMessage);
+        rollback();
         captureException(err, {
           tags: { operation: 'update_sref_code' },
           user: { id: user.id },
         });
-        return { success: false, error: errorMessage };
-      } finally {
-        setLoading(false);
+        return { success: false, error: 'An unexpected error occurred' };
       }
     },
-    [user]
+    [user, store, publishChange]
   );
 
-  // Delete an SREF code
+  // Delete an SREF code. The card fades out while the request is pending and
+  // comes back if the server call fails.
   const deleteSREFCode = useCallback(
     async (codeId: string) => {
       if (!user || !user.id) {
         return { success: false, error: 'User not authenticated' };
       }
 
-      setLoading(true);
-      setError(null);
+      const existing = store.getState().codesById[codeId];
+      const title = existing?.title;
+
+      if (existing && shouldQueueOffline()) {
+        const queued = await SyncQueue.enqueue({
+          type: 'delete',
+          userId: user.id,
+          codeId,
+          baseUpdatedAt: existing.updated_at,
+        });
+        if (queued) {
+          store.setState(state => ({
+            ...removeCode(state, codeId),
+            queuedCount: state.queuedCount + 1,
+          }));
+          persistLibrary(store);
+          publishChange(codeChange('DELETE', { id: codeId }));
+          return { success: true };
+        }
+      }
+      const rollback = () => {
+        store.setState(state => setPending(state, codeId, null));
+        toast.error(
+          `Could not delete ${title ? `"${title}"` : 'SREF code'}. It has been restored.`,
+          ROLLBACK_TOAST
+        );
+      };
+
+      store.setState(state => setPending(state, codeId, 'delete'));
 
       try {
         const { error } = await SREFCodeService.deleteSREFCode(codeId);
 
         if (error) {
-          const errorMessage = 'Failed to delete SREF code';
-          setError(errorMessage);
+          rollback();
           captureException(error, {
             tags: { operation: 'delete_sref_code' },
             user: { id: user.id },
           });
-          return { success: false, error: errorMessage };
+          return { success: false, error: 'Failed to delete SREF code' };
         }
 
-        setSrefCodes(prev => prev.filter(code => code.id !== codeId));
+        store.setState(state => ({ ...removeCode(state, codeId), tagStatsLoaded: false }));
+        persistLibrary(store);
+        publishChange(codeChange('DELETE', { id: codeId }));
         return { success: true };
       } catch (err) {
-        const errorMessage = 'An unexpected error occurred';
-        setError(errorMessage);
+        rollback();
         captureException(err, {
           tags: { operation: 'delete_sref_code' },
           user: { id: user.id },
         });
-        return { success: false, error: errorMessage };
-      } finally {
-        setLoading(false);
+        return { success: false, error: 'An unexpected error occurred' };
       }
     },
-    [user]
+    [user, store, publishChange]
   );
 
-  // Search SREF codes
-  const searchSREFCodes = useCallback(
-    async (query: string, tags: string[] = []) => {
-      if (!user || !user.id) return;
-
-      setLoading(true);
-      setError(null);
-
-      try {
-        const { data, error } = await SREFCodeService.searchSREFCodes(user.id, query, tags);
-
-        if (error) {
-          setError('Failed to search SREF codes');
-          captureException(error, {
-            tags: { operation: 'search_sref_codes' },
-            user: { id: user.id },
-          });
-        } else {
-          setSrefCodes(data || []);
-        }
-      } catch (err) {
-        setError('An unexpected error occurred');
-        captureException(err, {
-          tags: { operation: 'search_sref_codes' },
-          user: { id: user.id },
-        });
-      } finally {
-        setLoading(false);
-      }
+  // Change the filters or sort order and reload from the first page
+  const setQuery = useCallback(
+    async (changes: Partial<LibraryQuery>) => {
+      if (!userId) return;
+
+      const current = store.getState().query;
+      const query = { ...current, ...changes };
+      if (isSameQuery(query, current)) return;
+
+      store.setState(() => ({
+        query,
+        nextCursor: null,
+        hasMore: false,
+      }));
+      await loadSREFCodes(store, userId);
     },
-    [user]
+    [store, userId]
   );
 
+  // Search SREF codes by text and tags, keeping the current sort order
+  const searchSREFCodes = useCallback(
+    (query: string, tags: string[] = [], tagMode: TagMatchMode = 'any') =>
+      setQuery({ filters: { query, tags, tagMode } }),
+    [setQuery]
+  );
+
+  // Load the next page of the current query
+  const loadMore = useCallback(async () => {
+    if (!userId) return;
+    await loadMoreSREFCodes(store, userId);
+  }, [store, userId]);
+
   // Refresh SREF codes
   const refreshSREFCodes = useCallback(async () => {
-    await fetchSREFCodes();
-  }, [fetchSREFCodes]);
+    if (!userId) return;
+    await loadSREFCodes(store, userId);
+  }, [store, userId]);
 
   // Get a specific SREF code by ID
   const getSREFCodeById = useCallback(
     (codeId: string) => {
-      return srefCodes.find(code => code.id === codeId);
+      return codesById[codeId];
     },
-    [srefCodes]
+    [codesById]
   );
 
   return {
     srefCodes,
-    loading,
-    error,
+    pendingMutations: state.pendingById,
+    loading: state.codesLoading,
+    error: state.codesError,
+    query: state.query,
+    hasMore: state.hasMore,
+    loadingMore: state.loadingMore,
+    partial: state.codesPartial,
     createSREFCode,
     updateSREFCode,
     deleteSREFCode,
     refreshSREFCodes,
     searchSREFCodes,
+    setQuery,
+    loadMore,
     getSREFCodeById,
   };
 };
@@ -0,0 +1,165 @@
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { SREFCode, SavedCodeService } from '../lib/database';
+import { LibraryStore, addSavedCode, removeSavedCode } from '../lib/libraryStore';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { captureException } from '../lib/sentry';
+
+export interface SavedCodeResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface UseSavedCodesReturn {
+  // Most recently saved first
+  savedCodes: SREFCode[];
+  savedCodeIds: Set<string>;
+  loading: boolean;
+  error: string | null;
+  refreshSavedCodes: () => Promise<void>;
+  saveCode: (code: SREFCode) => Promise<SavedCodeResult>;
+  unsaveCode: (codeId: string) => Promise<SavedCodeResult>;
+}
+
+// Fetch the codes the user saved to favorites into the shared store
+export const loadSavedCodes = (store: LibraryStore, userId: string) =>
+  store.dedupe(`saved-codes:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+
+    if (!navigator.onLine) return;
+
+    store.setState(() => ({ savedCodesLoading: true, savedCodesError: null }));
+
+    try {
+      const { data, error } = await SavedCodeService.getSavedCodes(userId);
+      if (!isCurrentOwner()) return;
+
+      if (error || !data) {
+        store.setState(() => ({ savedCodesError: 'Failed to load favorites' }));
+        captureException(error, {
+          tags: { operation: 'fetch_saved_codes' },
+          user: { id: userId },
+        });
+      } else {
+        store.setState(() => ({ savedCodes: data, savedCodesLoaded: true }));
+      }
+    } catch (err) {
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ savedCodesError: 'An unexpected error occurred' }));
+      captureException(err, {
+        tags: { operation: 'fetch_saved_codes' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ savedCodesLoading: false }));
+      }
+    }
+  });
+
+export const useSavedCodes = (): UseSavedCodesReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load favorites on mount and when user changes, unless another consumer already did
+  useEffect(() => {
+    if (userId && !store.getState().savedCodesLoaded) {
+      loadSavedCodes(store, userId);
+    }
+  }, [store, userId]);
+
+  const refreshSavedCodes = useCallback(async () => {
+    if (!userId) return;
+    await loadSavedCodes(store, userId);
+  }, [store, userId]);
+
+  // Saving shows straight away and is undone if the server refuses it
+  const saveCode = useCallback(
+    async (code: SREFCode): Promise<SavedCodeResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      store.setState(current => addSavedCode(current, code));
+      const restore = () => store.setState(current => removeSavedCode(current, code.id));
+
+      try {
+        const { error } = await SavedCodeService.saveCode(userId, code.id);
+
+        if (error) {
+          restore();
+          captureException(error, {
+            tags: { operation: 'save_code' },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        return { success: true };
+      } catch (err) {
+        restore();
+        captureException(err, {
+          tags: { operation: 'save_code' },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  const unsaveCode = useCallback(
+    async (codeId: string): Promise<SavedCodeResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      const previous = store.getState().savedCodes;
+      const code = previous.find(saved => saved.id === codeId);
+      if (!code) return { success: true };
+
+      store.setState(current => removeSavedCode(current, codeId));
+      // Put the code back where it was in the list, with its count restored
+      const restore = () =>
+        store.setState(current => ({ ...addSavedCode(current, code), savedCodes: previous }));
+
+      try {
+        const { error } = await SavedCodeService.unsaveCode(userId, codeId);
+
+        if (error) {
+          restore();
+          captureException(error, {
+            tags: { operation: 'unsave_code' },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        return { success: true };
+      } catch (err) {
+        restore();
+        captureException(err, {
+          tags: { operation: 'unsave_code' },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  const { savedCodes } = state;
+  const savedCodeIds = useMemo(() => new Set(savedCodes.map(code => code.id)), [savedCodes]);
+
+  return {
+    savedCodes,
+    savedCodeIds,
+    loading: state.savedCodesLoading,
+    error: state.savedCodesError,
+    refreshSavedCodes,
+    saveCode,
+    unsaveCode,
+  };
+};
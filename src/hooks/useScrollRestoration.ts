@@ -0,0 +1,24 @@
+import { useLayoutEffect, useRef } from 'react';
+
+/**
+ * Remember the window scroll position while `isAway` is true (e.g. a modal is
+ * open) and return to it once it turns false again, after the page has re-rendered.
+ */
+export const useScrollRestoration = (isAway: boolean) => {
+  const savedScrollY = useRef<number | null>(null);
+
+  useLayoutEffect(() => {
+    if (isAway) {
+      savedScrollY.current = window.scrollY;
+      return;
+    }
+
+    const target = savedScrollY.current;
+    if (target === null) return;
+    savedScrollY.current = null;
+
+    // Wait a frame so virtualized content has its full height again
+    const frame = requestAnimationFrame(() => window.scrollTo({ top: target }));
+    return () => cancelAnimationFrame(frame);
+  }, [isAway]);
+};
@@ -0,0 +1,217 @@
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { SREFCodeService, TagRuleService } from '../lib/database';
+import { LibraryStore } from '../lib/libraryStore';
+import {
+  TagAlias,
+  TagNormalizationSettings,
+  TagNormalizer,
+  TagRules,
+  createTagNormalizer,
+  normalizeTagText,
+  planTagCanonicalization,
+} from '../lib/tagNormalization';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { TagOperationResult, loadTags } from './useTags';
+import { loadSREFCodes } from './useSREFCodes';
+import { captureException } from '../lib/sentry';
+
+export interface UseTagRulesReturn {
+  rules: TagRules;
+  // Maps any spelling of a tag to the one the library stores
+  normalizeTag: TagNormalizer;
+  loading: boolean;
+  error: string | null;
+  saveSettings: (
+    settings: TagNormalizationSettings
+  ) => Promise<{ success: boolean; error?: string }>;
+  saveAlias: (alias: TagAlias) => Promise<{ success: boolean; error?: string }>;
+  removeAlias: (alias: string) => Promise<{ success: boolean; error?: string }>;
+  // Existing tags the current rules would store differently
+  canonicalizationPlan: { sources: string[]; target: string }[];
+  canonicalizeTags: () => Promise<TagOperationResult>;
+}
+
+// Fetch the user's normalization rules into the shared store. Until they load,
+// and while offline, the default rules apply.
+export const loadTagRules = (store: LibraryStore, userId: string) =>
+  store.dedupe(`tag-rules:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+
+    if (!navigator.onLine) return;
+
+    store.setState(() => ({ tagRulesLoading: true, tagRulesError: null }));
+
+    try {
+      const { data, error } = await TagRuleService.getTagRules(userId);
+      if (!isCurrentOwner()) return;
+
+      if (error || !data) {
+        store.setState(() => ({ tagRulesError: 'Failed to load tag rules' }));
+        captureException(error, {
+          tags: { operation: 'fetch_tag_rules' },
+          user: { id: userId },
+        });
+      } else {
+        store.setState(() => ({ tagRules: data, tagRulesLoaded: true }));
+      }
+    } catch (err) {
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ tagRulesError: 'An unexpected error occurred' }));
+      captureException(err, {
+        tags: { operation: 'fetch_tag_rules' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ tagRulesLoading: false }));
+      }
+    }
+  });
+
+export const useTagRules = (): UseTagRulesReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load rules on mount and when user changes, unless another consumer already did
+  useEffect(() => {
+    if (userId && !store.getState().tagRulesLoaded) {
+      loadTagRules(store, userId);
+    }
+  }, [store, userId]);
+
+  const { tagRules, tags } = state;
+  const normalizeTag = useMemo(() => createTagNormalizer(tagRules), [tagRules]);
+  const canonicalizationPlan = useMemo(
+    () => planTagCanonicalization(tags, normalizeTag),
+    [tags, normalizeTag]
+  );
+
+  // Save a change on the server, then apply it to the shared rules
+  const runRuleChange = useCallback(
+    async (
+      operation: string,
+      request: (userId: string) => Promise<{ error: Error | null }>,
+      apply: (rules: TagRules) => TagRules
+    ) => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      try {
+        const { error } = await request(userId);
+
+        if (error) {
+          captureException(error, {
+            tags: { operation },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        store.setState(current => ({ tagRules: apply(current.tagRules) }));
+        return { success: true };
+      } catch (err) {
+        captureException(err, {
+          tags: { operation },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  const saveSettings = useCallback(
+    (settings: TagNormalizationSettings) =>
+      runRuleChange(
+        'save_tag_settings',
+        id => TagRuleService.saveTagSettings(id, settings),
+        rules => ({ ...rules, ...settings })
+      ),
+    [runRuleChange]
+  );
+
+  // Aliases are stored in their normalized spelling, so the list reads the way tags do
+  const saveAlias = useCallback(
+    ({ alias, canonical }: TagAlias) => {
+      const { tagRules: rules } = store.getState();
+      const saved = {
+        alias: normalizeTagText(alias, rules),
+        canonical: normalizeTagText(canonical, rules),
+      };
+
+      return runRuleChange(
+        'save_tag_alias',
+        id => TagRuleService.saveTagAlias(id, saved),
+        current => ({
+          ...current,
+          aliases: [
+            ...current.aliases.filter(existing => existing.alias !== saved.alias),
+            saved,
+          ].sort((a, b) => a.alias.localeCompare(b.alias)),
+        })
+      );
+    },
+    [store, runRuleChange]
+  );
+
+  const removeAlias = useCallback(
+    (alias: string) =>
+      runRuleChange(
+        'delete_tag_alias',
+        id => TagRuleService.deleteTagAlias(id, alias),
+        current => ({
+          ...current,
+          aliases: current.aliases.filter(existing => existing.alias !== alias),
+        })
+      ),
+    [runRuleChange]
+  );
+
+  // One-off rewrite of existing tags to their canonical spelling
+  const canonicalizeTags = useCallback(async (): Promise<TagOperationResult> => {
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+    if (canonicalizationPlan.length === 0) {
+      return { success: true, affected: 0 };
+    }
+
+    try {
+      const { data, error } = await SREFCodeService.renameTags(userId, canonicalizationPlan);
+
+      if (error) {
+        captureException(error, {
+          tags: { operation: 'canonicalize_tags' },
+          user: { id: userId },
+        });
+        return { success: false, error: error.message };
+      }
+
+      store.setState(() => ({ tagStatsLoaded: false }));
+      await Promise.all([loadTags(store, userId), loadSREFCodes(store, userId)]);
+      return { success: true, affected: data ?? 0 };
+    } catch (err) {
+      captureException(err, {
+        tags: { operation: 'canonicalize_tags' },
+        user: { id: userId },
+      });
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }, [store, userId, canonicalizationPlan]);
+
+  return {
+    rules: tagRules,
+    normalizeTag,
+    loading: state.tagRulesLoading,
+    error: state.tagRulesError,
+    saveSettings,
+    saveAlias,
+    removeAlias,
+    canonicalizationPlan,
+    canonicalizeTags,
+  };
+};
@@ -0,0 +1,78 @@
+import { useEffect, useCallback, useSyncExternalStore } from 'react';
+import { TagStatsService } from '../lib/database';
+import { LibraryStore } from '../lib/libraryStore';
+import { TagStats } from '../lib/tagStats';
+import { useLibraryStore } from './useLibraryStore';
+import { useAuth } from './useAuth';
+import { captureException } from '../lib/sentry';
+
+export interface UseTagStatsReturn {
+  stats: TagStats;
+  loading: boolean;
+  error: string | null;
+  refreshTagStats: () => Promise<void>;
+}
+
+// Fetch tag usage and co-occurrence into the shared store. Until they load,
+// and while offline, stats are empty and suggestions fall back to names.
+export const loadTagStats = (store: LibraryStore, userId: string) =>
+  store.dedupe(`tag-stats:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
+
+    if (!navigator.onLine) return;
+
+    store.setState(() => ({ tagStatsLoading: true, tagStatsError: null }));
+
+    try {
+      const { data, error } = await TagStatsService.getTagStats(userId);
+      if (!isCurrentOwner()) return;
+
+      if (error || !data) {
+        store.setState(() => ({ tagStatsError: 'Failed to load tag statistics' }));
+        captureException(error, {
+          tags: { operation: 'fetch_tag_stats' },
+          user: { id: userId },
+        });
+      } else {
+        store.setState(() => ({ tagStats: data, tagStatsLoaded: true }));
+      }
+    } catch (err) {
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ tagStatsError: 'An unexpected error occurred' }));
+      captureException(err, {
+        tags: { operation: 'fetch_tag_stats' },
+        user: { id: userId },
+      });
+    } finally {
+      if (isCurrentOwner()) {
+        store.setState(() => ({ tagStatsLoading: false }));
+      }
+    }
+  });
+
+export const useTagStats = (): UseTagStatsReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load stats on mount, when the user changes and whenever a tag change marks them stale
+  const { tagStatsLoaded } = state;
+  useEffect(() => {
+    if (userId && !tagStatsLoaded) {
+      loadTagStats(store, userId);
+    }
+  }, [store, userId, tagStatsLoaded]);
+
+  const refreshTagStats = useCallback(async () => {
+    if (!userId) return;
+    await loadTagStats(store, userId);
+  }, [store, userId]);
+
+  return {
+    stats: state.tagStats,
+    loading: state.tagStatsLoading,
+    error: state.tagStatsError,
+    refreshTagStats,
+  };
+};
@@ -1,68 +1,209 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SREFCodeService } from '../lib/database';
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { SREFCode, SREFCodeService } from '../lib/database';
+import { LibraryStore, persistLibrary } from '../lib/libraryStore';
+import { OfflineCache } from '../lib/offlineCache';
+import { TagTreeNode, buildTagTree, flattenTagTree } from '../lib/tagTree';
+import { useLibraryStore } from './useLibraryStore';
 import { useAuth } from './useAuth';
+import { loadSREFCodes } from './useSREFCodes';
 import { captureException } from '../lib/sentry';
 
+// Outcome of a library-wide tag change; affected is the number of codes that changed
+export interface TagOperationResult {
+  success: boolean;
+  affected?: number;
+  error?: string;
+}
+
+// First codes a tag change would touch
+export interface TagChangePreview {
+  codes: SREFCode[];
+  hasMore: boolean;
+}
+
+const PREVIEW_PAGE_SIZE = 12;
+
 export interface UseTagsReturn {
   tags: string[];
+  tagCounts: Record<string, number>;
+  // Tags arranged by "/" namespace
+  tagTree: TagTreeNode[];
   loading: boolean;
   error: string | null;
   refreshTags: () => Promise<void>;
+  previewTagChange: (tags: string[]) => Promise<TagChangePreview | null>;
+  renameTag: (tag: string, newName: string) => Promise<TagOperationResult>;
+  mergeTags: (sources: string[], target: string) => Promise<TagOperationResult>;
+  deleteTags: (tags: string[]) => Promise<TagOperationResult>;
 }
 
-export const useTags = (): UseTagsReturn => {
-  const { user } = useAuth();
-  const [tags, setTags] = useState<string[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch all tags for the current user
-  const fetchTags = useCallback(async () => {
-    if (!user || !user.id) {
-      setLoading(false);
-      return;
-    }
+// Fetch all tags for a user into the shared store, sharing concurrent requests.
+// Cached tags are shown first; while offline they are all there is.
+export const loadTags = (store: LibraryStore, userId: string) =>
+  store.dedupe(`tags:${userId}`, async () => {
+    const isCurrentOwner = () => store.getState().ownerId === userId;
 
-    setLoading(true);
-    setError(null);
+    store.setState(() => ({ tagsLoading: true, tagsError: null }));
 
     try {
-      const { data, error } = await SREFCodeService.getUserTags(user.id);
+      if (!store.getState().tagsLoaded) {
+        const cached = await OfflineCache.getLibrary(userId);
+        if (cached && isCurrentOwner()) {
+          store.setState(() => ({ tags: cached.tags, tagsLoaded: true }));
+        }
+      }
+
+      if (!navigator.onLine) return;
+
+      const { data, error } = await SREFCodeService.getUserTags(userId);
+      if (!isCurrentOwner()) return;
 
       if (error) {
-        setError('Failed to load tags');
+        store.setState(() => ({ tagsError: 'Failed to load tags' }));
         captureException(error, {
           tags: { operation: 'fetch_tags' },
-          user: { id: user.id },
+          user: { id: userId },
         });
       } else {
-        setTags(data || []);
+        // Namespaces nobody tags directly are rebuilt from the tags below them
+        const nodes = flattenTagTree(data || []);
+        store.setState(() => ({
+          tags: nodes
+            .filter(node => node.count > 0)
+            .map(node => node.path)
+            .sort(),
+          tagCounts: Object.fromEntries(nodes.map(node => [node.path, node.count])),
+          tagTotals: Object.fromEntries(nodes.map(node => [node.path, node.total])),
+          tagsLoaded: true,
+        }));
+        persistLibrary(store);
       }
     } catch (err) {
-      setError('An unexpected error occurred');
+      if (!isCurrentOwner()) return;
+      store.setState(() => ({ tagsError: 'An unexpected error occurred' }));
       captureException(err, {
         tags: { operation: 'fetch_tags' },
-        user: { id: user.id },
+        user: { id: userId },
       });
     } finally {
-      setLoading(false);
+      if (isCurrentOwner()) {
+        store.setState(() => ({ tagsLoading: false }));
+      }
     }
-  }, [user]);
+  });
 
-  // Load tags on mount and when user changes
+export const useTags = (): UseTagsReturn => {
+  const { user } = useAuth();
+  const store = useLibraryStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const userId = user?.id ?? null;
+
+  // Load tags on mount and when user changes, unless another consumer already did
   useEffect(() => {
-    fetchTags();
-  }, [fetchTags]);
+    if (userId && !store.getState().tagsLoaded) {
+      loadTags(store, userId);
+    }
+  }, [store, userId]);
 
   // Refresh tags
   const refreshTags = useCallback(async () => {
-    await fetchTags();
-  }, [fetchTags]);
+    if (!userId) return;
+    await loadTags(store, userId);
+  }, [store, userId]);
+
+  // Codes carrying any of the tags, newest first
+  const previewTagChange = useCallback(
+    async (tags: string[]): Promise<TagChangePreview | null> => {
+      if (!userId) return null;
+      if (tags.length === 0) return { codes: [], hasMore: false };
+
+      const { data, error } = await SREFCodeService.getUserSREFCodesPage(userId, {
+        filters: { tags, tagMode: 'any' },
+        pageSize: PREVIEW_PAGE_SIZE,
+      });
+
+      if (error || !data) {
+        captureException(error, {
+          tags: { operation: 'preview_tag_change' },
+          user: { id: userId },
+        });
+        return null;
+      }
+
+      return { codes: data.codes, hasMore: data.nextCursor !== null };
+    },
+    [userId]
+  );
+
+  // Run a tag change on the server, then reload tags and the codes that carry them.
+  // Tag stats are marked stale and reload in whichever component uses them.
+  const runTagOperation = useCallback(
+    async (
+      operation: string,
+      request: (userId: string) => Promise<{ data: number | null; error: Error | null }>
+    ): Promise<TagOperationResult> => {
+      if (!userId) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      try {
+        const { data, error } = await request(userId);
+
+        if (error) {
+          captureException(error, {
+            tags: { operation },
+            user: { id: userId },
+          });
+          return { success: false, error: error.message };
+        }
+
+        store.setState(() => ({ tagStatsLoaded: false }));
+        await Promise.all([loadTags(store, userId), loadSREFCodes(store, userId)]);
+        return { success: true, affected: data ?? 0 };
+      } catch (err) {
+        captureException(err, {
+          tags: { operation },
+          user: { id: userId },
+        });
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [store, userId]
+  );
+
+  const renameTag = useCallback(
+    (tag: string, newName: string) =>
+      runTagOperation('rename_tag', id => SREFCodeService.renameTag(id, tag, newName.trim())),
+    [runTagOperation]
+  );
+
+  const mergeTags = useCallback(
+    (sources: string[], target: string) =>
+      runTagOperation('merge_tags', id => SREFCodeService.mergeTags(id, sources, target.trim())),
+    [runTagOperation]
+  );
+
+  const deleteTags = useCallback(
+    (tags: string[]) => runTagOperation('delete_tags', id => SREFCodeService.deleteTags(id, tags)),
+    [runTagOperation]
+  );
+
+  const { tags, tagCounts, tagTotals } = state;
+  const tagTree = useMemo(
+    () => buildTagTree(tags, tagCounts, tagTotals),
+    [tags, tagCounts, tagTotals]
+  );
 
   return {
     tags,
-    loading,
-    error,
+    tagCounts,
+    tagTree,
+    loading: state.tagsLoading,
+    error: state.tagsError,
     refreshTags,
+    previewTagChange,
+    renameTag,
+    mergeTags,
+    deleteTags,
   };
 };
@@ -0,0 +1,143 @@
+import { useCallback, useLayoutEffect, useRef, useState } from 'react';
+
+interface UseVirtualGridOptions {
+  itemCount: number;
+  // Gap between cells in px, both directions
+  gap: number;
+  // Cell width / height
+  aspectRatio: number;
+  // Extra rows mounted above and below the viewport
+  overscanRows?: number;
+}
+
+export interface UseVirtualGridReturn {
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  columns: number;
+  // Items in [startIndex, endIndex) are mounted
+  startIndex: number;
+  endIndex: number;
+  // Offset of the first mounted row from the top of the container
+  offsetTop: number;
+  // Height of the whole grid, or undefined before it could be measured
+  totalHeight: number | undefined;
+}
+
+// Same breakpoints as the grid's lg/xl Tailwind classes
+const COLUMN_BREAKPOINTS = [
+  { minWidth: 1280, columns: 3 },
+  { minWidth: 1024, columns: 2 },
+];
+
+const getColumnCount = () =>
+  COLUMN_BREAKPOINTS.find(breakpoint => window.innerWidth >= breakpoint.minWidth)?.columns ?? 1;
+
+interface Viewport {
+  width: number;
+  top: number;
+  scrollY: number;
+  height: number;
+  columns: number;
+}
+
+const isSameViewport = (a: Viewport, b: Viewport) =>
+  a.width === b.width &&
+  a.top === b.top &&
+  a.scrollY === b.scrollY &&
+  a.height === b.height &&
+  a.columns === b.columns;
+
+/**
+ * Window-scrolled grid virtualization for fixed aspect-ratio cells. Only the rows
+ * around the viewport are mounted; the container keeps the full height so the
+ * page scrollbar behaves as if every row were rendered.
+ */
+export const useVirtualGrid = ({
+  itemCount,
+  gap,
+  aspectRatio,
+  overscanRows = 2,
+}: UseVirtualGridOptions): UseVirtualGridReturn => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>(() => ({
+    width: 0,
+    top: 0,
+    scrollY: 0,
+    height: 0,
+    columns: getColumnCount(),
+  }));
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const rect = container.getBoundingClientRect();
+    const next = {
+      width: rect.width,
+      top: rect.top + window.scrollY,
+      scrollY: window.scrollY,
+      height: window.innerHeight,
+      columns: getColumnCount(),
+    };
+    setViewport(previous => (isSameViewport(previous, next) ? previous : next));
+  }, []);
+
+  useLayoutEffect(() => {
+    measure();
+
+    let frame = 0;
+    const scheduleMeasure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(measure);
+    };
+
+    window.addEventListener('scroll', scheduleMeasure, { passive: true });
+    window.addEventListener('resize', scheduleMeasure);
+
+    const observer =
+      typeof ResizeObserver !== 'undefined' ? new ResizeObserver(scheduleMeasure) : null;
+    if (observer && containerRef.current) {
+      observer.observe(containerRef.current);
+    }
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', scheduleMeasure);
+      window.removeEventListener('resize', scheduleMeasure);
+      observer?.disconnect();
+    };
+  }, [measure]);
+
+  const { columns } = viewport;
+  const rowCount = Math.ceil(itemCount / columns);
+  const columnWidth = (viewport.width - gap * (columns - 1)) / columns;
+  const rowHeight = columnWidth > 0 ? columnWidth / aspectRatio : 0;
+
+  // Nothing to measure yet (first render, hidden, or a test environment): mount everything
+  if (rowHeight === 0 || viewport.height === 0) {
+    return {
+      containerRef,
+      columns,
+      startIndex: 0,
+      endIndex: itemCount,
+      offsetTop: 0,
+      totalHeight: undefined,
+    };
+  }
+
+  const rowStride = rowHeight + gap;
+  const visibleTop = viewport.scrollY - viewport.top;
+  const visibleBottom = visibleTop + viewport.height;
+  const clampRow = (row: number) => Math.min(Math.max(row, 0), rowCount);
+
+  const startRow = clampRow(Math.floor(visibleTop / rowStride) - overscanRows);
+  const endRow = clampRow(Math.ceil(visibleBottom / rowStride) + overscanRows);
+
+  return {
+    containerRef,
+    columns,
+    startIndex: startRow * columns,
+    endIndex: Math.min(itemCount, endRow * columns),
+    offsetTop: startRow * rowStride,
+    totalHeight: rowCount > 0 ? rowCount * rowStride - gap : 0,
+  };
+};
@@ -0,0 +1,21 @@
+// Dragging codes between the grid and the folder tree. The payload is the list of
+// dragged code ids, under a custom type so other drags (files, text) are ignored.
+export const CODE_DRAG_TYPE = 'application/x-sref-code-ids';
+
+export const setDraggedCodes = (dataTransfer: DataTransfer, codeIds: string[]) => {
+  dataTransfer.setData(CODE_DRAG_TYPE, JSON.stringify(codeIds));
+  dataTransfer.effectAllowed = 'copyMove';
+};
+
+// Whether a drag carries codes. Only the types can be read before the drop.
+export const isCodeDrag = (dataTransfer: DataTransfer) =>
+  Array.from(dataTransfer.types).includes(CODE_DRAG_TYPE);
+
+export const getDraggedCodes = (dataTransfer: DataTransfer): string[] => {
+  try {
+    const codeIds: unknown = JSON.parse(dataTransfer.getData(CODE_DRAG_TYPE) || '[]');
+    return Array.isArray(codeIds) ? codeIds.filter(id => typeof id === 'string') : [];
+  } catch (_error) {
+    return [];
+  }
+};
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SREFCode, SREFCodeService, TagStatsService } from './database';
+import { supabase } from './supabase';
+import { captureException } from './sentry';
+
+vi.mock('./supabase', () => ({ supabase: { rpc: vi.fn(), from: vi.fn() } }));
+vi.mock('./sentry');
+
+const mockRpc = vi.mocked(supabase.rpc);
+const mockFrom = vi.mocked(supabase.from);
+
+// The saved code as read back after the RPC, with images out of order
+const savedRow = {
+  id: 'code-1',
+  user_id: 'user-1',
+  title: 'Neon City',
+  code_value: '--sref 123',
+  sv_version: 6,
+  notes: null,
+  copy_count: 0,
+  upvotes: 0,
+  downvotes: 0,
+  save_count: 0,
+  visibility: 'private',
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-15T12:00:00Z',
+  code_images: [
+    { id: 'image-2', image_url: 'https://example.com/b.png', position: 1 },
+    { id: 'image-1', image_url: 'https://example.com/a.png', position: 0 },
+  ],
+  code_tags: [{ tag: 'neon' }],
+};
+
+const mockReadBack = () => {
+  const single = vi.fn().mockResolvedValue({ data: savedRow, error: null });
+  const eq = vi.fn().mockReturnValue({ single });
+  const select = vi.fn().mockReturnValue({ eq });
+  mockFrom.mockReturnValue({ select } as unknown as ReturnType<typeof supabase.from>);
+  return { eq };
+};
+
+describe('SREFCodeService.createSREFCode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create the code through the RPC and read it back', async () => {
+    mockRpc.mockResolvedValue({ data: 'code-1', error: null } as never);
+    const { eq } = mockReadBack();
+
+    const { data, error } = await SREFCodeService.createSREFCode({
+      user_id: 'user-1',
+      title: 'Neon City',
+      code_value: '--sref 123',
+      sv_version: 6,
+      images: ['https://example.com/a.png', 'https://example.com/b.png'],
+      tags: ['neon'],
+      visibility: 'private',
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith('create_sref_code', {
+      p_user_id: 'user-1',
+      p_code_value: '--sref 123',
+      p_sv_version: 6,
+      p_title: 'Neon City',
+      p_images: ['https://example.com/a.png', 'https://example.com/b.png'],
+      p_tags: ['neon'],
+      p_notes: undefined,
+      p_visibility: 'private',
+    });
+    expect(eq).toHaveBeenCalledWith('id', 'code-1');
+    expect(error).toBe(null);
+    expect(data?.images.map(image => image.id)).toEqual(['image-1', 'image-2']);
+    expect(data?.tags).toEqual(['neon']);
+  });
+
+  it('should report an RPC error without reading anything back', async () => {
+    const rpcError = { message: 'duplicate key', code: '23505' };
+    mockRpc.mockResolvedValue({ data: null, error: rpcError } as never);
+
+    const { data, error } = await SREFCodeService.createSREFCode({
+      user_id: 'user-1',
+      title: 'Neon City',
+      code_value: '--sref 123',
+      sv_version: 6,
+      images: [],
+      tags: [],
+    });
+
+    expect(data).toBe(null);
+    expect(error).toBe(rpcError);
+    expect(captureException).toHaveBeenCalledWith(rpcError, {
+      tags: { operation: 'create_sref_code' },
+    });
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('should treat a missing id as a failed create', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null } as never);
+
+    const { data, error } = await SREFCodeService.createSREFCode({
+      user_id: 'user-1',
+      title: 'Neon City',
+      code_value: '--sref 123',
+      sv_version: 6,
+      images: [],
+      tags: [],
+    });
+
+    expect(data).toBe(null);
+    expect(error?.message).toBe('SREF code was not created');
+  });
+});
+
+describe('SREFCodeService.updateSREFCode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send image and tag diffs instead of the full lists', async () => {
+    mockRpc.mockResolvedValue({ data: 'code-1', error: null } as never);
+    mockReadBack();
+
+    const { error } = await SREFCodeService.updateSREFCode('code-1', {
+      title: 'Neon Town',
+      images: ['https://example.com/a.png'],
+      tags: ['neon'],
+      imageDiff: { imagesToDelete: ['image-2'], imagesToAdd: [] },
+      tagDiff: { tagsToDelete: [], tagsToAdd: ['city'] },
+      notes: null,
+    });
+
+    expect(error).toBe(null);
+    expect(mockRpc).toHaveBeenCalledWith('update_sref_code', {
+      p_code_id: 'code-1',
+      p_title: 'Neon Town',
+      p_code_value: undefined,
+      p_sv_version: undefined,
+      p_images: undefined,
+      p_images_to_delete: ['image-2'],
+      p_images_to_add: [],
+      p_tags: undefined,
+      p_tags_to_delete: [],
+      p_tags_to_add: ['city'],
+      p_notes: '',
+      p_visibility: undefined,
+    });
+  });
+
+  it('should report an RPC error', async () => {
+    const rpcError = { message: 'permission denied', code: '42501' };
+    mockRpc.mockResolvedValue({ data: null, error: rpcError } as never);
+
+    const { data, error } = await SREFCodeService.updateSREFCode('code-1', { title: 'Neon' });
+
+    expect(data).toBe(null);
+    expect(error).toBe(rpcError);
+    expect(captureException).toHaveBeenCalledWith(rpcError, {
+      tags: { operation: 'update_sref_code', code_id: 'code-1' },
+    });
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+});
+
+describe('SREFCodeService.getUserSREFCodesPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should page a folder in its manual order', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        { code_id: 'code-1', position: 4 },
+        { code_id: 'code-2', position: 5 },
+      ],
+      error: null,
+    } as never);
+    const inIds = vi.fn().mockResolvedValue({ data: [savedRow], error: null });
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({ in: inIds }),
+    } as unknown as ReturnType<typeof supabase.from>);
+
+    const { data, error } = await SREFCodeService.getUserSREFCodesPage('user-1', {
+      filters: { folderId: 'folder-1', tags: ['neon'] },
+      sort: 'manual',
+      cursor: { value: '3', id: 'code-0' },
+      pageSize: 1,
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith(
+      'get_folder_sref_codes',
+      expect.objectContaining({
+        p_user_id: 'user-1',
+        p_folder_id: 'folder-1',
+        p_tags: ['neon'],
+        p_limit: 2,
+        p_after_position: 3,
+        p_after_id: 'code-0',
+      })
+    );
+    expect(inIds).toHaveBeenCalledWith('id', ['code-1']);
+    expect(error).toBe(null);
+    expect(data?.codes.map(code => code.id)).toEqual(['code-1']);
+    expect(data?.nextCursor).toEqual({ value: '4', id: 'code-1' });
+  });
+});
+
+describe('SREFCodeService.getAllUserSREFCodes', () => {
+  it('should read every page until there is no next cursor', async () => {
+    const code = { ...savedRow, images: [], tags: [] } as unknown as SREFCode;
+    const getPage = vi
+      .spyOn(SREFCodeService, 'getUserSREFCodesPage')
+      .mockResolvedValueOnce({
+        data: { codes: [code], nextCursor: { value: 'a', id: 'code-1' } },
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: { codes: [{ ...code, id: 'code-2' }], nextCursor: null },
+        error: null,
+      });
+
+    const { data, error } = await SREFCodeService.getAllUserSREFCodes('user-1', {
+      query: 'neon',
+    });
+
+    expect(error).toBe(null);
+    expect(data?.map(item => item.id)).toEqual(['code-1', 'code-2']);
+    expect(getPage).toHaveBeenLastCalledWith('user-1', {
+      filters: { query: 'neon' },
+      cursor: { value: 'a', id: 'code-1' },
+      pageSize: 500,
+    });
+    getPage.mockRestore();
+  });
+});
+
+describe('TagStatsService.getTagStats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should read the tag rows a page at a time', async () => {
+    const fullPage = Array.from({ length: 500 }, (_, index) => ({
+      code_id: `code-${String(index).padStart(3, '0')}`,
+      tag: 'neon',
+    }));
+    mockRpc
+      .mockResolvedValueOnce({ data: fullPage, error: null } as never)
+      .mockResolvedValueOnce({
+        data: [{ code_id: 'code-999', tag: 'city' }],
+        error: null,
+      } as never);
+
+    const { data, error } = await TagStatsService.getTagStats('user-1');
+
+    expect(error).toBe(null);
+    expect(data?.counts).toEqual({ neon: 500, city: 1 });
+    expect(mockRpc).toHaveBeenCalledTimes(2);
+    expect(mockRpc).toHaveBeenLastCalledWith('get_user_tag_rows', {
+      p_user_id: 'user-1',
+      p_limit: 500,
+      p_after_code_id: 'code-499',
+      p_after_tag: 'neon',
+    });
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+});
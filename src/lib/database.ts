@@ -1,6 +1,14 @@
 import { supabase } from './supabase';
 import { Database } from '../types/database';
 import { captureException } from './sentry';
+import {
+  DEFAULT_TAG_RULES,
+  TagAlias,
+  TagNormalizationSettings,
+  TagRules,
+} from './tagNormalization';
+import { TagTreeNode, buildTagTree, countTagUsage } from './tagTree';
+import { TagStats, computeTagStats } from './tagStats';
 
 // Type definitions based on our database schema
 export type SREFCode = Database['public']['Tables']['sref_codes']['Row'] & {
@@ -26,11 +34,231 @@ export type SREFCodeUpdate = Database['public']['Tables']['sref_codes']['Update'
   };
 };
 
+// Who can see a code: only its owner, anyone with its id, or everyone
+export type CodeVisibility = Database['public']['Tables']['sref_codes']['Row']['visibility'];
+
 export type Folder = Database['public']['Tables']['folders']['Row'];
 export type FolderInsert = Database['public']['Tables']['folders']['Insert'];
 export type FolderUpdate = Database['public']['Tables']['folders']['Update'];
 
+export type Pack = Database['public']['Tables']['packs']['Row'];
+export type PackInsert = Database['public']['Tables']['packs']['Insert'];
+export type PackUpdate = Database['public']['Tables']['packs']['Update'];
+
+// The parts of a code a shared pack shows; the author's notes stay private
+export type SharedPackCode = Pick<
+  SREFCode,
+  'id' | 'title' | 'code_value' | 'sv_version' | 'created_at' | 'updated_at' | 'images' | 'tags'
+>;
+
+// A pack's latest published version, as everyone it is shared with sees it
+export interface SharedPack {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  cover_image_url: string | null;
+  visibility: CodeVisibility;
+  version: number;
+  published_at: string;
+  codes: SharedPackCode[];
+}
+
+export interface PackCodeSummary {
+  id: string;
+  title: string;
+}
+
+// What changed in a pack the user imported since the version they imported
+export interface PackChanges {
+  packId: string;
+  title: string;
+  importedVersion: number;
+  latestVersion: number;
+  added: PackCodeSummary[];
+  removed: PackCodeSummary[];
+  changed: PackCodeSummary[];
+}
+
+// Most used is the code's copy count, copies by anyone included. Manual is the
+// order codes were arranged in within the filtered folder.
+export type SREFCodeSort = 'newest' | 'oldest' | 'title' | 'most_used' | 'manual';
+
+// Discover feed order; top voted is upvotes minus downvotes
+export type DiscoverSort = 'newest' | 'most_copied' | 'top_voted';
+
+// A user's vote on someone else's code
+export type CodeVote = 'up' | 'down';
+
+// A code in the user's copy history, with when they last copied it
+export interface RecentCopy {
+  code: SREFCode;
+  copiedAt: string;
+}
+
+export interface VoteCounts {
+  upvotes: number;
+  downvotes: number;
+}
+
+// Whether codes need any or all of the filter tags
+export type TagMatchMode = 'any' | 'all';
+
+export interface SREFCodeFilters {
+  query?: string;
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  // Codes carrying any of these tags are left out
+  excludedTags?: string[];
+  svVersion?: number;
+  // Creation time range: from is inclusive, until is exclusive
+  createdFrom?: string;
+  createdUntil?: string;
+  // Only codes filed directly in this folder
+  folderId?: string;
+  // Image count range, both inclusive
+  minImages?: number;
+  maxImages?: number;
+}
+
+// Keyset position: sort column value and id of the last code on the previous page
+export interface SREFCodeCursor {
+  value: string;
+  id: string;
+}
+
+export interface SREFCodePage {
+  codes: SREFCode[];
+  nextCursor: SREFCodeCursor | null;
+}
+
+export const SREF_CODES_PAGE_SIZE = 24;
+
+// Page size for reading a whole library, kept under the API's 1000 row limit
+const FULL_READ_PAGE_SIZE = 500;
+
+// Codes kept in the recently copied strip
+export const RECENT_COPIES_LIMIT = 12;
+
+// Public packs listed in the Packs tab, most recently updated first
+export const COMMUNITY_PACKS_LIMIT = 48;
+
+const SORT_COLUMNS: Record<
+  Exclude<SREFCodeSort, 'manual'>,
+  { column: 'created_at' | 'title' | 'copy_count'; ascending: boolean }
+> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  title: { column: 'title', ascending: true },
+  most_used: { column: 'copy_count', ascending: false },
+};
+
+// Quote a value for use inside a PostgREST or=() filter
+const quoteFilterValue = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// Postgres array literal for array operators in PostgREST filters
+const toArrayLiteral = (values: string[]) => `{${values.map(quoteFilterValue).join(',')}}`;
+
+// One row per tag on each of the user's codes, read a page at a time
+const getUserTagRows = async (
+  userId: string,
+  operation: string
+): Promise<{ data: { code_id: string; tag: string }[] | null; error: Error | null }> => {
+  const rows: { code_id: string; tag: string }[] = [];
+
+  try {
+    let last: { code_id: string; tag: string } | undefined;
+    do {
+      const { data, error } = await supabase.rpc('get_user_tag_rows', {
+        p_user_id: userId,
+        p_limit: FULL_READ_PAGE_SIZE,
+        p_after_code_id: last?.code_id,
+        p_after_tag: last?.tag,
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation } });
+        return { data: null, error };
+      }
+
+      const page = data ?? [];
+      rows.push(...page);
+      last = page.length === FULL_READ_PAGE_SIZE ? page[page.length - 1] : undefined;
+    } while (last);
+
+    return { data: rows, error: null };
+  } catch (error) {
+    captureException(error, { tags: { operation } });
+    return { data: null, error: error as Error };
+  }
+};
+
 // SREF Codes Operations
+// Fetch codes with their images and tags, in the order of codeIds. Codes that
+// no longer exist or can't be seen are skipped.
+const getCodesByIds = async (
+  codeIds: string[]
+): Promise<{ data: SREFCode[] | null; error: Error | null }> => {
+  if (codeIds.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data: codes, error } = await supabase
+    .from('sref_codes')
+    .select(
+      `
+      *,
+      code_images (
+        id,
+        image_url,
+        position
+      ),
+      code_tags (
+        tag
+      )
+    `
+    )
+    .in('id', codeIds);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const codesById = new Map((codes || []).map(code => [code.id, code]));
+  const orderedCodes: SREFCode[] = codeIds.flatMap(id => {
+    const code = codesById.get(id);
+    if (!code) return [];
+    const { code_images, code_tags, ...row } = code;
+    return [
+      {
+        ...row,
+        images: code_images?.sort((a, b) => a.position - b.position) || [],
+        tags: code_tags?.map(tag => tag.tag) || [],
+      },
+    ];
+  });
+
+  return { data: orderedCodes, error: null };
+};
+
+// Recompute a code's vote counts from its votes and read them back
+const refreshVoteCounts = async (
+  codeId: string
+): Promise<{ data: VoteCounts | null; error: Error | null }> => {
+  const { error: countError } = await supabase.rpc('update_code_vote_counts', {
+    code_id: codeId,
+  });
+  if (countError) return { data: null, error: countError };
+
+  const { data, error } = await supabase
+    .from('sref_codes')
+    .select('upvotes, downvotes')
+    .eq('id', codeId)
+    .single();
+
+  return { data, error };
+};
+
 export class SREFCodeService {
   // Get all SREF codes for the current user with images and tags
   static async getUserSREFCodes(
@@ -75,6 +303,129 @@ export class SREFCodeService {
     }
   }
 
+  // Get one page of a user's SREF codes. Pages are keyed on the sort column plus id,
+  // so codes added or removed while scrolling don't shift later pages.
+  static async getUserSREFCodesPage(
+    userId: string,
+    options: {
+      filters?: SREFCodeFilters;
+      sort?: SREFCodeSort;
+      cursor?: SREFCodeCursor | null;
+      pageSize?: number;
+    } = {}
+  ): Promise<{ data: SREFCodePage | null; error: Error | null }> {
+    const {
+      filters = {},
+      sort = 'newest',
+      cursor = null,
+      pageSize = SREF_CODES_PAGE_SIZE,
+    } = options;
+    const tags = filters.tags ?? [];
+
+    // Text searches are ranked by relevance, which takes precedence over the sort
+    const query = filters.query?.trim();
+    if (query) {
+      return this.searchSREFCodes(userId, query, { filters, cursor, pageSize });
+    }
+    // Manual order only exists within a folder; without one, newest first applies
+    if (sort === 'manual' && filters.folderId) {
+      return this.getFolderSREFCodesPage(userId, filters.folderId, { filters, cursor, pageSize });
+    }
+    const { column, ascending } = SORT_COLUMNS[sort === 'manual' ? 'newest' : sort];
+
+    try {
+      let queryBuilder = supabase
+        .from('sref_codes')
+        .select(
+          `
+          *,
+          code_images (
+            id,
+            image_url,
+            position
+          ),
+          code_tags (
+            tag
+          )
+        `
+        )
+        .eq('user_id', userId);
+
+      // tag_paths is a computed column holding each code's tags and the
+      // namespaces above them, so a namespace matches every tag below it
+      if (tags.length > 0) {
+        queryBuilder = queryBuilder.filter(
+          'tag_paths',
+          filters.tagMode === 'all' ? 'cs' : 'ov',
+          toArrayLiteral(tags)
+        );
+      }
+      if (filters.excludedTags?.length) {
+        queryBuilder = queryBuilder.not('tag_paths', 'ov', toArrayLiteral(filters.excludedTags));
+      }
+
+      if (filters.svVersion !== undefined) {
+        queryBuilder = queryBuilder.eq('sv_version', filters.svVersion);
+      }
+      if (filters.createdFrom) {
+        queryBuilder = queryBuilder.gte('created_at', filters.createdFrom);
+      }
+      if (filters.createdUntil) {
+        queryBuilder = queryBuilder.lt('created_at', filters.createdUntil);
+      }
+      // folder_ids is a computed column listing the folders a code is filed in
+      if (filters.folderId) {
+        queryBuilder = queryBuilder.filter('folder_ids', 'cs', toArrayLiteral([filters.folderId]));
+      }
+      // image_count is a computed column counting each code's images
+      if (filters.minImages !== undefined) {
+        queryBuilder = queryBuilder.filter('image_count', 'gte', filters.minImages);
+      }
+      if (filters.maxImages !== undefined) {
+        queryBuilder = queryBuilder.filter('image_count', 'lte', filters.maxImages);
+      }
+
+      if (cursor) {
+        const operator = ascending ? 'gt' : 'lt';
+        const value = quoteFilterValue(cursor.value);
+        queryBuilder = queryBuilder.or(
+          `${column}.${operator}.${value},and(${column}.eq.${value},id.${operator}.${cursor.id})`
+        );
+      }
+
+      // Fetch one extra row to learn whether another page follows
+      const { data: codes, error } = await queryBuilder
+        .order(column, { ascending })
+        .order('id', { ascending })
+        .limit(pageSize + 1);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_user_sref_codes_page' } });
+        return { data: null, error };
+      }
+
+      const pageCodes: SREFCode[] = (codes || []).slice(0, pageSize).map(code => {
+        const { code_images, code_tags, ...row } = code;
+        return {
+          ...row,
+          images: code_images?.sort((a, b) => a.position - b.position) || [],
+          tags: code_tags?.map(tag => tag.tag) || [],
+        };
+      });
+
+      const last = pageCodes[pageCodes.length - 1];
+      const nextCursor =
+        (codes?.length ?? 0) > pageSize && last
+          ? { value: String(last[column] ?? ''), id: last.id }
+          : null;
+
+      return { data: { codes: pageCodes, nextCursor }, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_user_sref_codes_page' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
   // Get a single SREF code by ID
   static async getSREFCodeById(
     codeId: string
@@ -116,301 +467,86 @@ export class SREFCodeService {
     }
   }
 
-  // Create a new SREF code
-  static async createSREFCode(
-    srefCode: SREFCodeInsert
+  // Get a code someone shared by id. Unlisted codes can only be read this way;
+  // data is null if the code doesn't exist or its owner keeps it private.
+  static async getSharedSREFCode(
+    codeId: string
   ): Promise<{ data: SREFCode | null; error: Error | null }> {
     try {
-      // Start a transaction-like operation
-      const { data: newCode, error: codeError } = await supabase
-        .from('sref_codes')
-        .insert({
-          user_id: srefCode.user_id,
-          code_value: srefCode.code_value,
-          sv_version: srefCode.sv_version,
-          title: srefCode.title,
-        })
-        .select()
-        .single();
-
-      if (codeError || !newCode) {
-        captureException(codeError, { tags: { operation: 'create_sref_code' } });
-        return { data: null, error: codeError };
-      }
-
-      // Add images if provided
-      if (srefCode.images && srefCode.images.length > 0) {
-        const imageInserts = srefCode.images.map((imageUrl, index) => ({
-          code_id: newCode.id,
-          image_url: imageUrl,
-          position: index,
-        }));
+      const { data, error } = await supabase.rpc('get_shared_sref_code', {
+        p_code_id: codeId,
+      });
 
-        const { error: imagesError } = await supabase.from('code_images').insert(imageInserts);
-
-        if (imagesError) {
-          captureException(imagesError, { tags: { operation: 'create_sref_code_images' } });
-          // Don't return error, just log it
-        }
+      if (error) {
+        captureException(error, { tags: { operation: 'get_shared_sref_code' } });
+        return { data: null, error };
       }
 
-      // Add tags if provided
-      if (srefCode.tags && srefCode.tags.length > 0) {
-        const tagInserts = srefCode.tags.map(tag => ({
-          code_id: newCode.id,
-          tag: tag,
-        }));
-
-        const { error: tagsError } = await supabase.from('code_tags').insert(tagInserts);
+      return { data: (data as SREFCode | null) ?? null, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_shared_sref_code' } });
+      return { data: null, error: error as Error };
+    }
+  }
 
-        if (tagsError) {
-          captureException(tagsError, { tags: { operation: 'create_sref_code_tags' } });
-          // Don't return error, just log it
-        }
+  // Create a new SREF code together with its images and tags in one transaction
+  static async createSREFCode(
+    srefCode: SREFCodeInsert
+  ): Promise<{ data: SREFCode | null; error: Error | null }> {
+    try {
+      const { data: newCodeId, error } = await supabase.rpc('create_sref_code', {
+        p_user_id: srefCode.user_id,
+        p_code_value: srefCode.code_value,
+        p_sv_version: srefCode.sv_version,
+        p_title: srefCode.title,
+        p_images: srefCode.images || [],
+        p_tags: srefCode.tags || [],
+        p_notes: srefCode.notes ?? undefined,
+        p_visibility: srefCode.visibility,
+      });
+
+      if (error || !newCodeId) {
+        const createError = error || new Error('SREF code was not created');
+        captureException(createError, { tags: { operation: 'create_sref_code' } });
+        return { data: null, error: createError };
       }
 
       // Fetch the complete record with images and tags
-      return await this.getSREFCodeById(newCode.id);
+      return await this.getSREFCodeById(newCodeId);
     } catch (error) {
       captureException(error, { tags: { operation: 'create_sref_code' } });
       return { data: null, error: error as Error };
     }
   }
 
-  // Update an existing SREF code
+  // Update an existing SREF code. Only provided fields are changed; image and tag
+  // diffs take precedence over full replacement arrays. Runs in one transaction.
   static async updateSREFCode(
     codeId: string,
     updates: SREFCodeUpdate
   ): Promise<{ data: SREFCode | null; error: Error | null }> {
     try {
-      // Build selective update payload for main record
-      const mainRecordUpdate: Database['public']['Tables']['sref_codes']['Update'] = {
-        updated_at: new Date().toISOString(),
-      };
-
-      // Only include fields that were actually provided
-      if (updates.title !== undefined) mainRecordUpdate.title = updates.title;
-      if (updates.code_value !== undefined) mainRecordUpdate.code_value = updates.code_value;
-      if (updates.sv_version !== undefined) mainRecordUpdate.sv_version = updates.sv_version;
-
-      console.log('🔍 Updating main record with:', mainRecordUpdate);
-
-      // Update the main record
-      const { data: updatedCode, error: codeError } = await supabase
-        .from('sref_codes')
-        .update(mainRecordUpdate)
-        .eq('id', codeId)
-        .select()
-        .single();
+      const { error } = await supabase.rpc('update_sref_code', {
+        p_code_id: codeId,
+        p_title: updates.title,
+        p_code_value: updates.code_value,
+        p_sv_version: updates.sv_version,
+        p_images: updates.imageDiff ? undefined : updates.images,
+        p_images_to_delete: updates.imageDiff?.imagesToDelete,
+        p_images_to_add: updates.imageDiff?.imagesToAdd,
+        p_tags: updates.tagDiff ? undefined : updates.tags,
+        p_tags_to_delete: updates.tagDiff?.tagsToDelete,
+        p_tags_to_add: updates.tagDiff?.tagsToAdd,
+        // null clears the notes; undefined leaves them untouched
+        p_notes: updates.notes === null ? '' : updates.notes,
+        p_visibility: updates.visibility,
+      });
 
-      if (codeError || !updatedCode) {
-        captureException(codeError, { tags: { operation: 'update_sref_code' } });
-        return { data: null, error: codeError };
-      }
-
-      // TODO: CRITICAL - Replace with UUID-based granular image operations
-      // CURRENT PROBLEM: "Delete all, re-insert all" approach causing duplications
-      // Delete operation returns count: 0 (failing silently) but inserts work
-      // Result: Original images stay + new images inserted = duplicates
-      //
-      // TOMORROW'S IMPLEMENTATION:
-      // 1. Change SREFCodeUpdate interface to include:
-      //    - imagesToDelete: string[] (UUIDs or image_urls to remove)
-      //    - imagesToAdd: string[] (new image URLs to insert)
-      // 2. Delete only specific images by UUID: DELETE WHERE id IN (uuid1, uuid2)
-      // 3. Insert only new images
-      // 4. Investigate why current delete returns count 0 (RLS policies?)
-
-      // Handle images with granular diffing or full replacement
-      if (updates.imageDiff) {
-        // NEW: Granular image update approach
-        const { imagesToDelete, imagesToAdd } = updates.imageDiff;
-
-        console.log('🔍 Granular image update:', { imagesToDelete, imagesToAdd });
-
-        // Delete specific images by URL
-        if (imagesToDelete.length > 0) {
-          const { error: deleteError, count: deletedCount } = await supabase
-            .from('code_images')
-            .delete({ count: 'exact' })
-            .eq('code_id', codeId)
-            .in('image_url', imagesToDelete);
-
-          if (deleteError) {
-            captureException(deleteError, {
-              tags: {
-                operation: 'granular_delete_images',
-                code_id: codeId,
-              },
-            });
-            console.error('🚨 Granular DELETE FAILED:', deleteError);
-          } else {
-            console.log(`✅ Granular delete: removed ${deletedCount} specific images`);
-          }
-        }
-
-        // Insert only new images
-        if (imagesToAdd.length > 0) {
-          // Get current max position to maintain order
-          const { data: maxPositionData } = await supabase
-            .from('code_images')
-            .select('position')
-            .eq('code_id', codeId)
-            .order('position', { ascending: false })
-            .limit(1);
-
-          const startPosition = (maxPositionData?.[0]?.position ?? -1) + 1;
-
-          const imageInserts = imagesToAdd.map((imageUrl, index) => ({
-            code_id: codeId,
-            image_url: imageUrl,
-            position: startPosition + index,
-          }));
-
-          const { error: imagesError, count: insertedCount } = await supabase
-            .from('code_images')
-            .insert(imageInserts, { count: 'exact' });
-
-          if (imagesError) {
-            captureException(imagesError, {
-              tags: {
-                operation: 'granular_insert_images',
-                code_id: codeId,
-              },
-            });
-            console.error('Granular INSERT FAILED:', imagesError);
-          } else {
-            console.log(`✅ Granular insert: added ${insertedCount} new images`);
-          }
-        }
-      } else if (updates.images !== undefined) {
-        // FALLBACK: Full replacement for new creations or legacy calls
-        console.log('🔄 Full image replacement (legacy mode)');
-
-        // Delete ALL existing images
-        const { error: deleteError } = await supabase
-          .from('code_images')
-          .delete()
-          .eq('code_id', codeId);
-
-        if (deleteError) {
-          captureException(deleteError, {
-            tags: {
-              operation: 'legacy_delete_all_images',
-              code_id: codeId,
-            },
-          });
-        }
-
-        // Insert all new images
-        if (updates.images.length > 0) {
-          const imageInserts = updates.images.map((imageUrl, index) => ({
-            code_id: codeId,
-            image_url: imageUrl,
-            position: index,
-          }));
-
-          const { error: imagesError } = await supabase.from('code_images').insert(imageInserts);
-
-          if (imagesError) {
-            captureException(imagesError, {
-              tags: {
-                operation: 'legacy_insert_images',
-                code_id: codeId,
-              },
-            });
-          }
-        }
-      }
-
-      // Handle tags with granular diffing or full replacement
-      if (updates.tagDiff) {
-        // NEW: Granular tag update approach
-        const { tagsToDelete, tagsToAdd } = updates.tagDiff;
-
-        console.log('🔍 Granular tag update:', { tagsToDelete, tagsToAdd });
-
-        // Delete specific tags by tag name
-        if (tagsToDelete.length > 0) {
-          const { error: deleteError, count: deletedCount } = await supabase
-            .from('code_tags')
-            .delete({ count: 'exact' })
-            .eq('code_id', codeId)
-            .in('tag', tagsToDelete);
-
-          if (deleteError) {
-            captureException(deleteError, {
-              tags: {
-                operation: 'granular_delete_tags',
-                code_id: codeId,
-              },
-            });
-            console.error('🚨 Granular tag DELETE FAILED:', deleteError);
-          } else {
-            console.log(`✅ Granular delete: removed ${deletedCount} specific tags`);
-          }
-        }
-
-        // Insert only new tags
-        if (tagsToAdd.length > 0) {
-          const tagInserts = tagsToAdd.map(tag => ({
-            code_id: codeId,
-            tag: tag,
-          }));
-
-          const { error: tagsError, count: insertedCount } = await supabase
-            .from('code_tags')
-            .insert(tagInserts, { count: 'exact' });
-
-          if (tagsError) {
-            captureException(tagsError, {
-              tags: {
-                operation: 'granular_insert_tags',
-                code_id: codeId,
-              },
-            });
-            console.error('Granular tag INSERT FAILED:', tagsError);
-          } else {
-            console.log(`✅ Granular insert: added ${insertedCount} new tags`);
-          }
-        }
-      } else if (updates.tags !== undefined) {
-        // FALLBACK: Full replacement for new creations or legacy calls
-        console.log('🔄 Full tag replacement (legacy mode)');
-
-        // Delete ALL existing tags
-        const { error: deleteTagsError } = await supabase
-          .from('code_tags')
-          .delete()
-          .eq('code_id', codeId);
-
-        if (deleteTagsError) {
-          captureException(deleteTagsError, {
-            tags: {
-              operation: 'legacy_delete_all_tags',
-              code_id: codeId,
-            },
-          });
-        }
-
-        // Insert all new tags
-        if (updates.tags.length > 0) {
-          const tagInserts = updates.tags.map(tag => ({
-            code_id: codeId,
-            tag: tag,
-          }));
-
-          const { error: tagsError } = await supabase.from('code_tags').insert(tagInserts);
-
-          if (tagsError) {
-            captureException(tagsError, {
-              tags: {
-                operation: 'legacy_insert_tags',
-                code_id: codeId,
-              },
-            });
-          }
-        }
+      if (error) {
+        captureException(error, {
+          tags: { operation: 'update_sref_code', code_id: codeId },
+        });
+        return { data: null, error };
       }
 
       // Fetch the updated complete record
@@ -438,104 +574,370 @@ export class SREFCodeService {
     }
   }
 
-  // Search SREF codes
+  // Full-text search over title, code value, tags and notes, best matches first.
+  // Every term matches as a word prefix. The query is only ever sent as an RPC
+  // parameter; pages continue from the rank and id of the last code.
   static async searchSREFCodes(
     userId: string,
     query: string,
-    tags: string[] = []
-  ): Promise<{ data: SREFCode[] | null; error: Error | null }> {
-    try {
-      let queryBuilder = supabase
-        .from('sref_codes')
-        .select(
-          `
-          *,
-          code_images (
-            id,
-            image_url,
-            position
-          ),
-          code_tags (
-            tag
-          )
-        `
-        )
-        .eq('user_id', userId);
+    options: {
+      filters?: Omit<SREFCodeFilters, 'query'>;
+      cursor?: SREFCodeCursor | null;
+      pageSize?: number;
+    } = {}
+  ): Promise<{ data: SREFCodePage | null; error: Error | null }> {
+    const { filters = {}, cursor = null, pageSize = SREF_CODES_PAGE_SIZE } = options;
+    const tags = filters.tags ?? [];
 
-      // Add text search
-      if (query.trim()) {
-        queryBuilder = queryBuilder.or(`title.ilike.%${query}%,code_value.ilike.%${query}%`);
+    try {
+      const { data: matches, error: searchError } = await supabase.rpc('search_sref_codes', {
+        p_user_id: userId,
+        p_query: query,
+        p_tags: tags.length > 0 ? tags : undefined,
+        p_tag_mode: filters.tagMode,
+        p_excluded_tags: filters.excludedTags?.length ? filters.excludedTags : undefined,
+        p_sv_version: filters.svVersion,
+        p_created_from: filters.createdFrom,
+        p_created_until: filters.createdUntil,
+        p_folder_id: filters.folderId,
+        p_min_images: filters.minImages,
+        p_max_images: filters.maxImages,
+        p_limit: pageSize + 1,
+        p_after_rank: cursor ? Number(cursor.value) : undefined,
+        p_after_id: cursor?.id,
+      });
+
+      if (searchError) {
+        captureException(searchError, { tags: { operation: 'search_sref_codes' } });
+        return { data: null, error: searchError };
       }
 
-      const { data: codes, error } = await queryBuilder.order('created_at', { ascending: false });
+      // Codes come back in rank order; any deleted since the search ran are skipped
+      const pageMatches = (matches || []).slice(0, pageSize);
+      const { data: pageCodes, error } = await getCodesByIds(
+        pageMatches.map(match => match.code_id)
+      );
 
-      if (error) {
+      if (error || !pageCodes) {
         captureException(error, { tags: { operation: 'search_sref_codes' } });
         return { data: null, error };
       }
 
-      // Transform and filter by tags
-      let transformedCodes: SREFCode[] =
-        codes?.map(code => ({
-          ...code,
-          images: code.code_images?.sort((a, b) => a.position - b.position) || [],
-          tags: code.code_tags?.map(tag => tag.tag) || [],
-        })) || [];
+      const last = pageMatches[pageMatches.length - 1];
+      const nextCursor =
+        (matches?.length ?? 0) > pageSize ? { value: String(last.rank), id: last.code_id } : null;
 
-      // Filter by tags if provided
-      if (tags.length > 0) {
-        transformedCodes = transformedCodes.filter(code =>
-          tags.some(tag => code.tags.includes(tag))
-        );
+      return { data: { codes: pageCodes, nextCursor }, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'search_sref_codes' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Every code matching the filters, read page by page. A single query stops at the
+  // API's row limit, so reads of a whole library (exports, imports) go through here.
+  static async getAllUserSREFCodes(
+    userId: string,
+    filters: SREFCodeFilters = {}
+  ): Promise<{ data: SREFCode[] | null; error: Error | null }> {
+    const codes: SREFCode[] = [];
+    let cursor: SREFCodeCursor | null = null;
+
+    do {
+      const { data, error } = await this.getUserSREFCodesPage(userId, {
+        filters,
+        cursor,
+        pageSize: FULL_READ_PAGE_SIZE,
+      });
+      if (error || !data) return { data: null, error };
+
+      codes.push(...data.codes);
+      cursor = data.nextCursor;
+    } while (cursor);
+
+    return { data: codes, error: null };
+  }
+
+  // One page of a folder's codes in their manual order, continuing from the
+  // position and id of the last code
+  static async getFolderSREFCodesPage(
+    userId: string,
+    folderId: string,
+    options: {
+      filters?: Omit<SREFCodeFilters, 'query' | 'folderId'>;
+      cursor?: SREFCodeCursor | null;
+      pageSize?: number;
+    } = {}
+  ): Promise<{ data: SREFCodePage | null; error: Error | null }> {
+    const { filters = {}, cursor = null, pageSize = SREF_CODES_PAGE_SIZE } = options;
+    const tags = filters.tags ?? [];
+
+    try {
+      const { data: entries, error: orderError } = await supabase.rpc('get_folder_sref_codes', {
+        p_user_id: userId,
+        p_folder_id: folderId,
+        p_tags: tags.length > 0 ? tags : undefined,
+        p_tag_mode: filters.tagMode,
+        p_excluded_tags: filters.excludedTags?.length ? filters.excludedTags : undefined,
+        p_sv_version: filters.svVersion,
+        p_created_from: filters.createdFrom,
+        p_created_until: filters.createdUntil,
+        p_min_images: filters.minImages,
+        p_max_images: filters.maxImages,
+        p_limit: pageSize + 1,
+        p_after_position: cursor ? Number(cursor.value) : undefined,
+        p_after_id: cursor?.id,
+      });
+
+      if (orderError) {
+        captureException(orderError, { tags: { operation: 'get_folder_sref_codes' } });
+        return { data: null, error: orderError };
       }
 
-      return { data: transformedCodes, error: null };
+      const pageEntries = (entries || []).slice(0, pageSize);
+      const { data: pageCodes, error } = await getCodesByIds(
+        pageEntries.map(entry => entry.code_id)
+      );
+
+      if (error || !pageCodes) {
+        captureException(error, { tags: { operation: 'get_folder_sref_codes' } });
+        return { data: null, error };
+      }
+
+      const last = pageEntries[pageEntries.length - 1];
+      const nextCursor =
+        (entries?.length ?? 0) > pageSize
+          ? { value: String(last.position), id: last.code_id }
+          : null;
+
+      return { data: { codes: pageCodes, nextCursor }, error: null };
     } catch (error) {
-      captureException(error, { tags: { operation: 'search_sref_codes' } });
+      captureException(error, { tags: { operation: 'get_folder_sref_codes' } });
       return { data: null, error: error as Error };
     }
   }
 
-  // Get all unique tags for a user
+  // Every tag the user has used, arranged by "/" namespace, with how many codes
+  // carry each tag and each namespace
   static async getUserTags(
     userId: string
-  ): Promise<{ data: string[] | null; error: Error | null }> {
+  ): Promise<{ data: TagTreeNode[] | null; error: Error | null }> {
+    const { data: rows, error } = await getUserTagRows(userId, 'get_user_tags');
+    if (error || !rows) return { data: null, error };
+
+    const { counts, totals } = countTagUsage(rows);
+    return {
+      data: buildTagTree(
+        rows.map(row => row.tag),
+        counts,
+        totals
+      ),
+      error: null,
+    };
+  }
+
+  // Move every source tag onto the target across all of the user's codes in one
+  // transaction. Resolves to the number of codes that changed.
+  static async mergeTags(
+    userId: string,
+    sources: string[],
+    target: string
+  ): Promise<{ data: number | null; error: Error | null }> {
     try {
-      // Get code IDs first
-      const { data: codeIds, error: codeError } = await supabase
-        .from('sref_codes')
-        .select('id')
-        .eq('user_id', userId);
+      const { data, error } = await supabase.rpc('merge_tags', {
+        p_user_id: userId,
+        p_sources: sources,
+        p_target: target,
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'merge_tags' } });
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'merge_tags' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Renaming onto a name that's already in use merges the two tags
+  static async renameTag(
+    userId: string,
+    tag: string,
+    newName: string
+  ): Promise<{ data: number | null; error: Error | null }> {
+    return this.mergeTags(userId, [tag], newName);
+  }
+
+  // Rewrite several tags at once, e.g. to bring old tags in line with the user's
+  // normalization rules. Resolves to the number of codes that changed.
+  static async renameTags(
+    userId: string,
+    renames: { sources: string[]; target: string }[]
+  ): Promise<{ data: number | null; error: Error | null }> {
+    const pairs = renames.flatMap(({ sources, target }) =>
+      sources.map(source => ({ source, target }))
+    );
 
-      if (codeError) {
-        captureException(codeError, { tags: { operation: 'get_user_tags_codes' } });
-        return { data: null, error: codeError };
+    try {
+      const { data, error } = await supabase.rpc('rename_tags', {
+        p_user_id: userId,
+        p_sources: pairs.map(pair => pair.source),
+        p_targets: pairs.map(pair => pair.target),
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'rename_tags' } });
+        return { data: null, error };
       }
 
-      const codeIdsList = codeIds?.map(c => c.id) || [];
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'rename_tags' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Remove tags from every one of the user's codes; the codes are kept
+  static async deleteTags(
+    userId: string,
+    tags: string[]
+  ): Promise<{ data: number | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase.rpc('delete_tags', {
+        p_user_id: userId,
+        p_tags: tags,
+      });
 
-      if (codeIdsList.length === 0) {
-        return { data: [], error: null };
+      if (error) {
+        captureException(error, { tags: { operation: 'delete_tags' } });
+        return { data: null, error };
       }
 
-      const { data: tags, error } = await supabase
-        .from('code_tags')
-        .select('tag')
-        .in('code_id', codeIdsList);
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'delete_tags' } });
+      return { data: null, error: error as Error };
+    }
+  }
+}
+
+// Tag usage statistics
+export class TagStatsService {
+  // How often each tag is used and how often pairs of tags share a code
+  static async getTagStats(
+    userId: string
+  ): Promise<{ data: TagStats | null; error: Error | null }> {
+    const { data: rows, error } = await getUserTagRows(userId, 'get_tag_stats');
+    if (error || !rows) return { data: null, error };
+
+    return { data: computeTagStats(rows), error: null };
+  }
+}
 
+// Tag normalization rules
+export class TagRuleService {
+  // A user's rules, falling back to the defaults for anything not saved yet
+  static async getTagRules(
+    userId: string
+  ): Promise<{ data: TagRules | null; error: Error | null }> {
+    try {
+      const [settingsResult, aliasesResult] = await Promise.all([
+        supabase
+          .from('tag_settings')
+          .select('lowercase, separator')
+          .eq('user_id', userId)
+          .maybeSingle(),
+        supabase
+          .from('tag_aliases')
+          .select('alias, canonical')
+          .eq('user_id', userId)
+          .order('alias', { ascending: true }),
+      ]);
+
+      const error = settingsResult.error ?? aliasesResult.error;
       if (error) {
-        captureException(error, { tags: { operation: 'get_user_tags' } });
+        captureException(error, { tags: { operation: 'get_tag_rules' } });
         return { data: null, error };
       }
 
-      // Get unique tags
-      const uniqueTags = [...new Set(tags?.map(t => t.tag) || [])].sort();
-      return { data: uniqueTags, error: null };
+      return {
+        data: {
+          ...DEFAULT_TAG_RULES,
+          ...(settingsResult.data ?? {}),
+          aliases: aliasesResult.data ?? [],
+        },
+        error: null,
+      };
     } catch (error) {
-      captureException(error, { tags: { operation: 'get_user_tags' } });
+      captureException(error, { tags: { operation: 'get_tag_rules' } });
       return { data: null, error: error as Error };
     }
   }
+
+  // Save case and separator rules
+  static async saveTagSettings(
+    userId: string,
+    settings: TagNormalizationSettings
+  ): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.from('tag_settings').upsert({
+        user_id: userId,
+        lowercase: settings.lowercase,
+        separator: settings.separator,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'save_tag_settings' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'save_tag_settings' } });
+      return { error: error as Error };
+    }
+  }
+
+  // Add an alias, or point an existing one at a different canonical tag
+  static async saveTagAlias(userId: string, alias: TagAlias): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase
+        .from('tag_aliases')
+        .upsert({ user_id: userId, alias: alias.alias, canonical: alias.canonical });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'save_tag_alias' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'save_tag_alias' } });
+      return { error: error as Error };
+    }
+  }
+
+  // Remove an alias
+  static async deleteTagAlias(userId: string, alias: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase
+        .from('tag_aliases')
+        .delete()
+        .eq('user_id', userId)
+        .eq('alias', alias);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'delete_tag_alias' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'delete_tag_alias' } });
+      return { error: error as Error };
+    }
+  }
 }
 
 // Folder Operations
@@ -614,10 +1016,11 @@ export class FolderService {
     }
   }
 
-  // Delete a folder
+  // Delete a folder. Its subfolders move up to its parent and its codes stay in
+  // the library; only their filing in this folder goes.
   static async deleteFolder(folderId: string): Promise<{ error: Error | null }> {
     try {
-      const { error } = await supabase.from('folders').delete().eq('id', folderId);
+      const { error } = await supabase.rpc('delete_folder', { p_folder_id: folderId });
 
       if (error) {
         captureException(error, { tags: { operation: 'delete_folder' } });
@@ -629,4 +1032,703 @@ export class FolderService {
       return { error: error as Error };
     }
   }
+
+  // Which codes are filed in which of the given folders, in each folder's manual order
+  static async getFolderCodes(
+    folderIds: string[]
+  ): Promise<{ data: { folder_id: string; code_id: string }[] | null; error: Error | null }> {
+    if (folderIds.length === 0) {
+      return { data: [], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('folder_codes')
+        .select('folder_id, code_id')
+        .in('folder_id', folderIds)
+        .order('position', { ascending: true });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_folder_codes' } });
+        return { data: null, error };
+      }
+
+      return { data: data ?? [], error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_folder_codes' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // File codes at the end of a folder; codes already in it keep their place
+  static async addCodesToFolder(
+    folderId: string,
+    codeIds: string[]
+  ): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.rpc('add_codes_to_folder', {
+        p_folder_id: folderId,
+        p_code_ids: codeIds,
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'add_codes_to_folder' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'add_codes_to_folder' } });
+      return { error: error as Error };
+    }
+  }
+
+  // Take codes out of a folder without touching the codes themselves
+  static async removeCodesFromFolder(
+    folderId: string,
+    codeIds: string[]
+  ): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase
+        .from('folder_codes')
+        .delete()
+        .eq('folder_id', folderId)
+        .in('code_id', codeIds);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'remove_codes_from_folder' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'remove_codes_from_folder' } });
+      return { error: error as Error };
+    }
+  }
+
+  // Save the manual order of a folder's codes; codes left out go after the listed ones
+  static async reorderFolderCodes(
+    folderId: string,
+    codeIds: string[]
+  ): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.rpc('reorder_folder_codes', {
+        p_folder_id: folderId,
+        p_code_ids: codeIds,
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'reorder_folder_codes' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'reorder_folder_codes' } });
+      return { error: error as Error };
+    }
+  }
+}
+
+export class SavedCodeService {
+  // Get the codes a user has saved to favorites, most recently saved first
+  static async getSavedCodes(
+    userId: string
+  ): Promise<{ data: SREFCode[] | null; error: Error | null }> {
+    try {
+      const { data: saved, error: savedError } = await supabase
+        .from('saved_codes')
+        .select('code_id')
+        .eq('user_id', userId)
+        .order('saved_at', { ascending: false });
+
+      if (savedError) {
+        captureException(savedError, { tags: { operation: 'get_saved_codes' } });
+        return { data: null, error: savedError };
+      }
+
+      const { data: savedCodes, error } = await getCodesByIds(
+        (saved ?? []).map(row => row.code_id)
+      );
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_saved_codes' } });
+        return { data: null, error };
+      }
+
+      return { data: savedCodes, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_saved_codes' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Save a code to favorites; saving it again is a no-op
+  static async saveCode(userId: string, codeId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase
+        .from('saved_codes')
+        .upsert(
+          { user_id: userId, code_id: codeId },
+          { onConflict: 'user_id,code_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        captureException(error, { tags: { operation: 'save_code' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'save_code' } });
+      return { error: error as Error };
+    }
+  }
+
+  // Remove a code from favorites
+  static async unsaveCode(userId: string, codeId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase
+        .from('saved_codes')
+        .delete()
+        .eq('user_id', userId)
+        .eq('code_id', codeId);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'unsave_code' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'unsave_code' } });
+      return { error: error as Error };
+    }
+  }
+}
+
+export class DiscoverService {
+  // Get one page of other users' codes for the discover feed. Text matches the
+  // same way as library search but doesn't change the order; pages continue from
+  // the sort value and id of the last code.
+  static async getDiscoverPage(
+    userId: string | null,
+    options: {
+      filters?: Omit<SREFCodeFilters, 'folderId'>;
+      sort?: DiscoverSort;
+      cursor?: SREFCodeCursor | null;
+      pageSize?: number;
+    } = {}
+  ): Promise<{ data: SREFCodePage | null; error: Error | null }> {
+    const {
+      filters = {},
+      sort = 'newest',
+      cursor = null,
+      pageSize = SREF_CODES_PAGE_SIZE,
+    } = options;
+    const tags = filters.tags ?? [];
+
+    try {
+      const { data: matches, error: feedError } = await supabase.rpc('discover_sref_codes', {
+        p_user_id: userId ?? undefined,
+        p_query: filters.query?.trim() || undefined,
+        p_tags: tags.length > 0 ? tags : undefined,
+        p_tag_mode: filters.tagMode,
+        p_excluded_tags: filters.excludedTags?.length ? filters.excludedTags : undefined,
+        p_sv_version: filters.svVersion,
+        p_created_from: filters.createdFrom,
+        p_created_until: filters.createdUntil,
+        p_min_images: filters.minImages,
+        p_max_images: filters.maxImages,
+        p_sort: sort,
+        p_limit: pageSize + 1,
+        p_after_value: cursor ? Number(cursor.value) : undefined,
+        p_after_id: cursor?.id,
+      });
+
+      if (feedError) {
+        captureException(feedError, { tags: { operation: 'discover_sref_codes' } });
+        return { data: null, error: feedError };
+      }
+
+      const pageMatches = (matches || []).slice(0, pageSize);
+      const { data: codes, error } = await getCodesByIds(pageMatches.map(match => match.code_id));
+
+      if (error || !codes) {
+        captureException(error, { tags: { operation: 'discover_sref_codes' } });
+        return { data: null, error };
+      }
+
+      const last = pageMatches[pageMatches.length - 1];
+      const nextCursor =
+        (matches?.length ?? 0) > pageSize
+          ? { value: String(last.sort_value), id: last.code_id }
+          : null;
+
+      return { data: { codes, nextCursor }, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'discover_sref_codes' } });
+      return { data: null, error: error as Error };
+    }
+  }
+}
+
+export class VoteService {
+  // Get every vote the user has cast, keyed by code id
+  static async getUserVotes(
+    userId: string
+  ): Promise<{ data: Record<string, CodeVote> | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('code_votes')
+        .select('code_id, is_upvote')
+        .eq('user_id', userId);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_user_votes' } });
+        return { data: null, error };
+      }
+
+      const votes: Record<string, CodeVote> = {};
+      (data ?? []).forEach(row => {
+        votes[row.code_id] = row.is_upvote ? 'up' : 'down';
+      });
+
+      return { data: votes, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_user_votes' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Vote on a code for the first time. Returns the code's updated counts.
+  static async castVote(
+    userId: string,
+    codeId: string,
+    vote: CodeVote
+  ): Promise<{ data: VoteCounts | null; error: Error | null }> {
+    try {
+      const { error: voteError } = await supabase
+        .from('code_votes')
+        .insert({ user_id: userId, code_id: codeId, is_upvote: vote === 'up' });
+
+      if (voteError) {
+        captureException(voteError, { tags: { operation: 'cast_vote' } });
+        return { data: null, error: voteError };
+      }
+
+      // The vote stands even if the counts can't be refreshed right now
+      const { data, error } = await refreshVoteCounts(codeId);
+      if (error) {
+        captureException(error, { tags: { operation: 'cast_vote' } });
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'cast_vote' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Turn an existing vote the other way. Returns the code's updated counts.
+  static async changeVote(
+    userId: string,
+    codeId: string,
+    vote: CodeVote
+  ): Promise<{ data: VoteCounts | null; error: Error | null }> {
+    try {
+      const { error: voteError } = await supabase
+        .from('code_votes')
+        .update({ is_upvote: vote === 'up', updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('code_id', codeId);
+
+      if (voteError) {
+        captureException(voteError, { tags: { operation: 'change_vote' } });
+        return { data: null, error: voteError };
+      }
+
+      const { data, error } = await refreshVoteCounts(codeId);
+      if (error) {
+        captureException(error, { tags: { operation: 'change_vote' } });
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'change_vote' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Take a vote back. Returns the code's updated counts.
+  static async retractVote(
+    userId: string,
+    codeId: string
+  ): Promise<{ data: VoteCounts | null; error: Error | null }> {
+    try {
+      const { error: voteError } = await supabase
+        .from('code_votes')
+        .delete()
+        .eq('user_id', userId)
+        .eq('code_id', codeId);
+
+      if (voteError) {
+        captureException(voteError, { tags: { operation: 'retract_vote' } });
+        return { data: null, error: voteError };
+      }
+
+      const { data, error } = await refreshVoteCounts(codeId);
+      if (error) {
+        captureException(error, { tags: { operation: 'retract_vote' } });
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'retract_vote' } });
+      return { data: null, error: error as Error };
+    }
+  }
+}
+
+export class CopyService {
+  // Record that the current user copied a code. Returns the code's new copy count.
+  static async recordCopy(codeId: string): Promise<{ data: number | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase.rpc('record_code_copy', { p_code_id: codeId });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'record_code_copy' } });
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'record_code_copy' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Get the codes the current user copied most recently, once each
+  static async getRecentCopies(
+    limit = RECENT_COPIES_LIMIT
+  ): Promise<{ data: RecentCopy[] | null; error: Error | null }> {
+    try {
+      const { data: copies, error: copiesError } = await supabase.rpc('get_recent_code_copies', {
+        p_limit: limit,
+      });
+
+      if (copiesError) {
+        captureException(copiesError, { tags: { operation: 'get_recent_copies' } });
+        return { data: null, error: copiesError };
+      }
+
+      const { data: codes, error } = await getCodesByIds((copies ?? []).map(copy => copy.code_id));
+
+      if (error || !codes) {
+        captureException(error, { tags: { operation: 'get_recent_copies' } });
+        return { data: null, error };
+      }
+
+      // Codes that were deleted or made private since are left out
+      const copiedAt = new Map<string, string>(
+        (copies ?? []).map(copy => [copy.code_id, copy.copied_at])
+      );
+      return {
+        data: codes.map(code => ({ code, copiedAt: copiedAt.get(code.id) ?? '' })),
+        error: null,
+      };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_recent_copies' } });
+      return { data: null, error: error as Error };
+    }
+  }
+}
+
+// Packs: titled, ordered collections of a user's codes, published as numbered
+// versions that other users can import into their own library
+export class PackService {
+  // Get all packs a user made, most recently updated first
+  static async getUserPacks(userId: string): Promise<{ data: Pack[] | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('packs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_user_packs' } });
+        return { data: null, error };
+      }
+
+      return { data: data ?? [], error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_user_packs' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Which codes are in which of the given packs, in each pack's order
+  static async getPackCodes(
+    packIds: string[]
+  ): Promise<{ data: { pack_id: string; code_id: string }[] | null; error: Error | null }> {
+    if (packIds.length === 0) {
+      return { data: [], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('pack_codes')
+        .select('pack_id, code_id')
+        .in('pack_id', packIds)
+        .order('position', { ascending: true });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_pack_codes' } });
+        return { data: null, error };
+      }
+
+      return { data: data ?? [], error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_pack_codes' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Get codes with their images and tags in the order given, e.g. a pack's codes
+  static async getCodes(
+    codeIds: string[]
+  ): Promise<{ data: SREFCode[] | null; error: Error | null }> {
+    try {
+      const { data, error } = await getCodesByIds(codeIds);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_pack_code_details' } });
+      }
+
+      return { data, error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_pack_code_details' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Get published public packs by other users, most recently updated first
+  static async getCommunityPacks(
+    userId: string,
+    limit = COMMUNITY_PACKS_LIMIT
+  ): Promise<{ data: Pack[] | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('packs')
+        .select('*')
+        .eq('visibility', 'public')
+        .gt('version', 0)
+        .neq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_community_packs' } });
+        return { data: null, error };
+      }
+
+      return { data: data ?? [], error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_community_packs' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // The version of each pack the user last imported, by pack id
+  static async getPackImports(
+    userId: string
+  ): Promise<{ data: Record<string, number> | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('pack_imports')
+        .select('pack_id, version')
+        .eq('user_id', userId);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_pack_imports' } });
+        return { data: null, error };
+      }
+
+      return {
+        data: Object.fromEntries((data ?? []).map(row => [row.pack_id, row.version])),
+        error: null,
+      };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_pack_imports' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Create a new, unpublished pack
+  static async createPack(pack: PackInsert): Promise<{ data: Pack | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase.from('packs').insert(pack).select().single();
+
+      if (error) {
+        captureException(error, { tags: { operation: 'create_pack' } });
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'create_pack' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Update a pack's details. Importers see the change once it is published.
+  static async updatePack(
+    packId: string,
+    updates: PackUpdate
+  ): Promise<{ data: Pack | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('packs')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', packId)
+        .select()
+        .single();
+
+      if (error) {
+        captureException(error, { tags: { operation: 'update_pack' } });
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'update_pack' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Delete a pack and its versions. Codes already imported from it are kept.
+  static async deletePack(packId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.from('packs').delete().eq('id', packId);
+
+      if (error) {
+        captureException(error, { tags: { operation: 'delete_pack' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'delete_pack' } });
+      return { error: error as Error };
+    }
+  }
+
+  // Replace a pack's codes with codeIds, in that order
+  static async setPackCodes(packId: string, codeIds: string[]): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.rpc('set_pack_codes', {
+        p_pack_id: packId,
+        p_code_ids: codeIds,
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'set_pack_codes' } });
+      }
+
+      return { error };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'set_pack_codes' } });
+      return { error: error as Error };
+    }
+  }
+
+  // Publish the pack as it is now as its next version, shared publicly or only by
+  // link. Returns the new version number.
+  static async publishPack(
+    packId: string,
+    visibility: Exclude<CodeVisibility, 'private'>
+  ): Promise<{ data: number | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase.rpc('publish_pack', {
+        p_pack_id: packId,
+        p_visibility: visibility,
+      });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'publish_pack' } });
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'publish_pack' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Get the latest published version of a pack, e.g. from a share link. data is
+  // null if the pack doesn't exist, was never published or is private.
+  static async getSharedPack(
+    packId: string
+  ): Promise<{ data: SharedPack | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase.rpc('get_shared_pack', { p_pack_id: packId });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_shared_pack' } });
+        return { data: null, error };
+      }
+
+      return { data: (data as SharedPack | null) ?? null, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_shared_pack' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Copy a pack's latest version into the current user's library, with images,
+  // tags and where each code came from. Codes imported before are skipped.
+  // Returns the ids of the codes added; their images are still the author's files.
+  static async importPack(packId: string): Promise<{ data: string[] | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase.rpc('import_pack', { p_pack_id: packId });
+
+      if (error) {
+        captureException(error, { tags: { operation: 'import_pack' } });
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'import_pack' } });
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // Imported packs with a newer version out, and what the new version changed
+  static async getPackUpdates(): Promise<{ data: PackChanges[] | null; error: Error | null }> {
+    try {
+      const { data, error } = await supabase.rpc('get_pack_updates');
+
+      if (error) {
+        captureException(error, { tags: { operation: 'get_pack_updates' } });
+        return { data: null, error };
+      }
+
+      return {
+        data: (data ?? []).map(update => ({
+          packId: update.pack_id,
+          title: update.title,
+          importedVersion: update.imported_version,
+          latestVersion: update.latest_version,
+          added: update.added_codes,
+          removed: update.removed_codes,
+          changed: update.changed_codes,
+        })),
+        error: null,
+      };
+    } catch (error) {
+      captureException(error, { tags: { operation: 'get_pack_updates' } });
+      return { data: null, error: error as Error };
+    }
+  }
 }
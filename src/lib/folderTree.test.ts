@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { Folder } from './database';
+import { buildFolderTree, flattenFolderTree, folderSubtreeIds, moveCodeIds } from './folderTree';
+
+const folder = (id: string, name: string, parent_id: string | null = null): Folder => ({
+  id,
+  user_id: 'user-1',
+  name,
+  parent_id,
+  is_smart: false,
+  search_criteria: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+});
+
+const folders = [
+  folder('people', 'People'),
+  folder('landscapes', 'Landscapes'),
+  folder('portraits', 'Portraits', 'people'),
+  folder('crowds', 'Crowds', 'people'),
+  folder('close-ups', 'Close-ups', 'portraits'),
+];
+
+describe('buildFolderTree', () => {
+  it('should nest folders under their parents, sorted by name', () => {
+    const tree = buildFolderTree(folders);
+
+    expect(tree.map(node => node.folder.name)).toEqual(['Landscapes', 'People']);
+    expect(tree[1].children.map(node => node.folder.name)).toEqual(['Crowds', 'Portraits']);
+    expect(tree[1].children[1].children[0]).toMatchObject({
+      folder: { id: 'close-ups' },
+      depth: 2,
+      children: [],
+    });
+  });
+
+  it('should put folders with a missing parent at the top level', () => {
+    const tree = buildFolderTree([folder('orphan', 'Orphan', 'gone')]);
+
+    expect(tree).toEqual([
+      { folder: expect.objectContaining({ id: 'orphan' }), depth: 0, children: [] },
+    ]);
+  });
+});
+
+describe('flattenFolderTree', () => {
+  it('should list parents before their children', () => {
+    const ids = flattenFolderTree(buildFolderTree(folders)).map(node => node.folder.id);
+
+    expect(ids).toEqual(['landscapes', 'people', 'crowds', 'portraits', 'close-ups']);
+  });
+});
+
+describe('folderSubtreeIds', () => {
+  it('should include the folder and everything inside it', () => {
+    expect([...folderSubtreeIds(folders, 'people')].sort()).toEqual([
+      'close-ups',
+      'crowds',
+      'people',
+      'portraits',
+    ]);
+    expect([...folderSubtreeIds(folders, 'landscapes')]).toEqual(['landscapes']);
+  });
+});
+
+describe('moveCodeIds', () => {
+  const order = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should put codes moved down the list after the target', () => {
+    expect(moveCodeIds(order, ['b'], 'd')).toEqual(['a', 'c', 'd', 'b', 'e']);
+  });
+
+  it('should put codes moved up the list before the target', () => {
+    expect(moveCodeIds(order, ['d'], 'b')).toEqual(['a', 'd', 'b', 'c', 'e']);
+  });
+
+  it('should move several codes together in their current order', () => {
+    expect(moveCodeIds(order, ['e', 'a'], 'c')).toEqual(['b', 'c', 'a', 'e', 'd']);
+  });
+
+  it('should leave the order alone when dropped onto one of the moved codes', () => {
+    expect(moveCodeIds(order, ['a', 'b'], 'b')).toBe(order);
+  });
+});
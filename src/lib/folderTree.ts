@@ -0,0 +1,63 @@
+import { Folder } from './database';
+
+export interface FolderNode {
+  folder: Folder;
+  // 0 for top-level folders
+  depth: number;
+  children: FolderNode[];
+}
+
+/**
+ * Arrange folders into a tree by parent_id. Siblings are sorted by name; a
+ * folder whose parent isn't in the list shows up at the top level.
+ */
+export const buildFolderTree = (folders: Folder[]): FolderNode[] => {
+  const ids = new Set(folders.map(folder => folder.id));
+  const childrenOf = new Map<string | null, Folder[]>();
+  folders.forEach(folder => {
+    const parentId = folder.parent_id && ids.has(folder.parent_id) ? folder.parent_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), folder]);
+  });
+
+  const build = (parentId: string | null, depth: number): FolderNode[] =>
+    (childrenOf.get(parentId) ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(folder => ({ folder, depth, children: build(folder.id, depth + 1) }));
+
+  return build(null, 0);
+};
+
+// Every node in the tree, parents before their children
+export const flattenFolderTree = (nodes: FolderNode[]): FolderNode[] =>
+  nodes.flatMap(node => [node, ...flattenFolderTree(node.children)]);
+
+// The folder and everything inside it, e.g. to rule them out as move targets
+export const folderSubtreeIds = (folders: Folder[], folderId: string): Set<string> => {
+  const subtree = new Set([folderId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    folders.forEach(folder => {
+      if (folder.parent_id && subtree.has(folder.parent_id) && !subtree.has(folder.id)) {
+        subtree.add(folder.id);
+        grew = true;
+      }
+    });
+  }
+  return subtree;
+};
+
+/**
+ * A folder's code order after dropping the moved codes onto target. They land
+ * after the target when moved down the list and before it when moved up, keeping
+ * their own relative order. Returns the order unchanged if target is one of them.
+ */
+export const moveCodeIds = (order: string[], moved: string[], targetId: string): string[] => {
+  if (moved.includes(targetId) || !order.includes(targetId)) return order;
+
+  const movedInOrder = order.filter(id => moved.includes(id));
+  const rest = order.filter(id => !moved.includes(id));
+  const movingDown = order.indexOf(movedInOrder[0]) < order.indexOf(targetId);
+  const insertAt = rest.indexOf(targetId) + (movingDown ? 1 : 0);
+  return [...rest.slice(0, insertAt), ...movedInOrder, ...rest.slice(insertAt)];
+};
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { SREFCode } from './database';
+import {
+  buildLibraryBundle,
+  fromExportedCode,
+  getExportFilename,
+  parseLibraryExport,
+  toLibraryCSV,
+  toLibraryJSON,
+} from './libraryExport';
+
+const code = (overrides: Partial<SREFCode> = {}): SREFCode => ({
+  id: 'code-1',
+  user_id: 'user-1',
+  title: 'Neon City',
+  code_value: '--sref 123',
+  sv_version: 6,
+  notes: null,
+  copy_count: 3,
+  upvotes: 1,
+  downvotes: 0,
+  save_count: 0,
+  visibility: 'private',
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-16T12:00:00Z',
+  tags: ['neon', 'city'],
+  images: [
+    {
+      id: 'image-2',
+      code_id: 'code-1',
+      image_url: 'https://example.com/b.png',
+      position: 1,
+      created_at: '2025-03-15T12:00:00Z',
+    },
+    {
+      id: 'image-1',
+      code_id: 'code-1',
+      image_url: 'https://example.com/a.jpg',
+      position: 0,
+      created_at: '2025-03-15T12:00:00Z',
+    },
+  ],
+  ...overrides,
+});
+
+const scope = { kind: 'folder' as const, label: 'Neon Cities' };
+const exportedAt = new Date('2025-03-20T09:30:00Z');
+
+describe('toLibraryJSON', () => {
+  it('should round-trip through parseLibraryExport into new library codes', () => {
+    const { data, error } = parseLibraryExport(toLibraryJSON([code()], scope, exportedAt));
+
+    expect(error).toBe(null);
+    expect(data?.scope).toEqual(scope);
+    expect(data?.exported_at).toBe('2025-03-20T09:30:00.000Z');
+    expect(data?.codes.map(exported => fromExportedCode(exported, 'user-2'))).toEqual([
+      {
+        user_id: 'user-2',
+        title: 'Neon City',
+        code_value: '--sref 123',
+        sv_version: 6,
+        notes: null,
+        visibility: 'private',
+        images: ['https://example.com/a.jpg', 'https://example.com/b.png'],
+        tags: ['neon', 'city'],
+      },
+    ]);
+  });
+});
+
+describe('parseLibraryExport', () => {
+  it('should reject files that are not a supported export', () => {
+    expect(parseLibraryExport('{').error).toBe('The file is not valid JSON');
+    expect(parseLibraryExport(JSON.stringify({ format: 'other', version: 1 })).error).toBe(
+      'The file is not an SREF library export this app can read'
+    );
+
+    const exported = JSON.parse(toLibraryJSON([code()], scope, exportedAt));
+    exported.codes[0].sv_version = 'six';
+    expect(parseLibraryExport(JSON.stringify(exported)).error).toMatch(
+      /^Invalid export at codes\.0\.sv_version:/
+    );
+  });
+});
+
+describe('toLibraryCSV', () => {
+  it('should write one row per code with tags and images joined', () => {
+    const csv = toLibraryCSV([code({ title: 'Neon, "City"', notes: 'two\nlines' })]);
+
+    expect(csv).toBe(
+      'id,title,code_value,sv_version,tags,notes,visibility,images,created_at,updated_at\r\n' +
+        'code-1,"Neon, ""City""",\'--sref 123,6,"neon, city","two\nlines",private,' +
+        'https://example.com/a.jpg https://example.com/b.png,' +
+        '2025-03-15T12:00:00Z,2025-03-16T12:00:00Z\r\n'
+    );
+  });
+
+  it('should keep fields that look like formulas as text', () => {
+    const csv = toLibraryCSV([
+      code({ title: '=HYPERLINK("https://evil.example")', notes: '@SUM(A1)' }),
+    ]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""https://evil.example"")"`);
+    expect(csv).toContain(`,'@SUM(A1),`);
+  });
+});
+
+describe('buildLibraryBundle', () => {
+  it('should zip the exports with each image and list images that failed', async () => {
+    const downloadImage = vi.fn(async (url: string) =>
+      url.endsWith('a.jpg')
+        ? { data: new Blob(['a'], { type: 'image/jpeg' }), error: null }
+        : { data: null, error: 'Download failed: 404 Not Found' }
+    );
+
+    const { data, manifest } = await buildLibraryBundle([code()], scope, downloadImage, exportedAt);
+
+    expect(manifest.code_count).toBe(1);
+    expect(manifest.images).toEqual([
+      { code_id: 'code-1', url: 'https://example.com/a.jpg', path: 'images/code-1/1.jpg' },
+    ]);
+    expect(manifest.missing_images).toEqual(['https://example.com/b.png']);
+
+    const zip = await JSZip.loadAsync(data);
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'images/',
+      'images/code-1/',
+      'images/code-1/1.jpg',
+      'library.csv',
+      'library.json',
+      'manifest.json',
+    ]);
+    const json = await zip.file('library.json')?.async('string');
+    expect(json).toBe(toLibraryJSON([code()], scope, exportedAt));
+  });
+});
+
+describe('getExportFilename', () => {
+  it('should name the file after the scope and date', () => {
+    expect(getExportFilename(scope, 'zip', exportedAt)).toBe(
+      'sref-folder-neon-cities-2025-03-20.zip'
+    );
+    expect(getExportFilename({ kind: 'library', label: '' }, 'json', exportedAt)).toBe(
+      'sref-library-2025-03-20.json'
+    );
+  });
+});
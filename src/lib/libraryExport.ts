@@ -0,0 +1,273 @@
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { SREFCode, SREFCodeInsert } from './database';
+
+// What an export covers, recorded in the file so it's clear where it came from
+export type ExportScopeKind = 'library' | 'folder' | 'search' | 'selection';
+
+export interface ExportScope {
+  kind: ExportScopeKind;
+  // e.g. the folder name or the search text
+  label: string;
+}
+
+export const LIBRARY_EXPORT_FORMAT = 'smc-manager/library';
+export const LIBRARY_EXPORT_VERSION = 1;
+export const LIBRARY_BUNDLE_FORMAT = 'smc-manager/bundle';
+
+// Tags and image URLs share a single CSV column each
+export const CSV_TAG_SEPARATOR = ', ';
+export const CSV_IMAGE_SEPARATOR = ' ';
+
+const exportedCodeSchema = z.object({
+  // The code's id in the library it was exported from, so imports can spot repeats
+  id: z.string(),
+  title: z.string(),
+  code_value: z.string(),
+  sv_version: z.number().int(),
+  tags: z.array(z.string()),
+  notes: z.string().nullable(),
+  visibility: z.enum(['private', 'unlisted', 'public']),
+  // Image URLs in display order
+  images: z.array(z.string()),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Version 1 of the JSON export. Any change to its shape needs a new version.
+export const libraryExportSchema = z.object({
+  format: z.literal(LIBRARY_EXPORT_FORMAT),
+  version: z.literal(LIBRARY_EXPORT_VERSION),
+  exported_at: z.string(),
+  scope: z.object({
+    kind: z.enum(['library', 'folder', 'search', 'selection']),
+    label: z.string(),
+  }),
+  codes: z.array(exportedCodeSchema),
+});
+
+export type ExportedCode = z.infer<typeof exportedCodeSchema>;
+export type LibraryExport = z.infer<typeof libraryExportSchema>;
+
+export const toExportedCode = (code: SREFCode): ExportedCode => ({
+  id: code.id,
+  title: code.title,
+  code_value: code.code_value,
+  sv_version: code.sv_version,
+  tags: code.tags,
+  notes: code.notes,
+  visibility: code.visibility,
+  images: [...code.images].sort((a, b) => a.position - b.position).map(image => image.image_url),
+  created_at: code.created_at,
+  updated_at: code.updated_at,
+});
+
+// The new library code an exported code becomes when it is imported
+export const fromExportedCode = (code: ExportedCode, userId: string): SREFCodeInsert => ({
+  user_id: userId,
+  title: code.title,
+  code_value: code.code_value,
+  sv_version: code.sv_version,
+  notes: code.notes,
+  visibility: code.visibility,
+  images: code.images,
+  tags: code.tags,
+});
+
+export const buildLibraryExport = (
+  codes: SREFCode[],
+  scope: ExportScope,
+  exportedAt = new Date()
+): LibraryExport => ({
+  format: LIBRARY_EXPORT_FORMAT,
+  version: LIBRARY_EXPORT_VERSION,
+  exported_at: exportedAt.toISOString(),
+  scope,
+  codes: codes.map(toExportedCode),
+});
+
+export const toLibraryJSON = (codes: SREFCode[], scope: ExportScope, exportedAt = new Date()) =>
+  JSON.stringify(buildLibraryExport(codes, scope, exportedAt), null, 2);
+
+// Read a JSON export back, e.g. for import. Anything that isn't a supported
+// export is rejected with the first problem found.
+export const parseLibraryExport = (
+  text: string
+): { data: LibraryExport | null; error: string | null } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { data: null, error: 'The file is not valid JSON' };
+  }
+
+  const result = libraryExportSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    return {
+      data: null,
+      error:
+        path === 'format' || path === 'version'
+          ? 'The file is not an SREF library export this app can read'
+          : `Invalid export at ${path || 'the top level'}: ${issue.message}`,
+    };
+  }
+
+  return { data: result.data, error: null };
+};
+
+export const CSV_COLUMNS = [
+  'id',
+  'title',
+  'code_value',
+  'sv_version',
+  'tags',
+  'notes',
+  'visibility',
+  'images',
+  'created_at',
+  'updated_at',
+] as const;
+
+// Spreadsheets run a cell starting with one of these as a formula
+export const CSV_FORMULA_PREFIX = /^[=+\-@]/;
+
+// Quote a field when it holds a separator, quote or line break (RFC 4180), and
+// prefix formula-like text with ' so spreadsheets show it as text
+const toCSVField = (value: string | number | null) => {
+  const raw = value === null ? '' : String(value);
+  const text = CSV_FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per code, with tags and image URLs joined into single columns
+export const toLibraryCSV = (codes: SREFCode[]) => {
+  const rows = codes
+    .map(toExportedCode)
+    .map(code =>
+      [
+        code.id,
+        code.title,
+        code.code_value,
+        code.sv_version,
+        code.tags.join(CSV_TAG_SEPARATOR),
+        code.notes,
+        code.visibility,
+        code.images.join(CSV_IMAGE_SEPARATOR),
+        code.created_at,
+        code.updated_at,
+      ]
+        .map(toCSVField)
+        .join(',')
+    );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// File extension for a downloaded image, from its type or else its URL
+const getImageExtension = (image: Blob, url: string) =>
+  IMAGE_EXTENSIONS[image.type] ??
+  url
+    .split('?')[0]
+    .match(/\.([a-z0-9]{1,5})$/i)?.[1]
+    ?.toLowerCase() ??
+  'bin';
+
+const bundledImageSchema = z.object({
+  code_id: z.string(),
+  url: z.string(),
+  // Path of the downloaded file inside the zip
+  path: z.string(),
+});
+
+// manifest.json of a zip bundle, versioned with the JSON export
+export const libraryBundleManifestSchema = z.object({
+  format: z.literal(LIBRARY_BUNDLE_FORMAT),
+  version: z.literal(LIBRARY_EXPORT_VERSION),
+  exported_at: z.string(),
+  scope: libraryExportSchema.shape.scope,
+  code_count: z.number().int(),
+  files: z.object({ json: z.string(), csv: z.string() }),
+  images: z.array(bundledImageSchema),
+  // Images that couldn't be downloaded; the codes still list their URLs
+  missing_images: z.array(z.string()),
+});
+
+export type BundledImage = z.infer<typeof bundledImageSchema>;
+export type LibraryBundleManifest = z.infer<typeof libraryBundleManifestSchema>;
+
+export type ImageDownloader = (url: string) => Promise<{ data: Blob | null; error: string | null }>;
+
+/**
+ * A zip with the JSON and CSV exports, every image the codes use and a
+ * manifest.json mapping each image URL to its file. library.json is the same
+ * as the standalone JSON export, so the bundle imports the same way.
+ */
+export const buildLibraryBundle = async (
+  codes: SREFCode[],
+  scope: ExportScope,
+  downloadImage: ImageDownloader,
+  exportedAt = new Date()
+): Promise<{ data: Blob; manifest: LibraryBundleManifest }> => {
+  const zip = new JSZip();
+  const images: BundledImage[] = [];
+  const missingImages: string[] = [];
+
+  // One at a time, so large libraries don't open hundreds of requests at once
+  for (const code of codes.map(toExportedCode)) {
+    for (const [index, url] of code.images.entries()) {
+      const { data } = await downloadImage(url);
+      if (!data) {
+        missingImages.push(url);
+        continue;
+      }
+      const path = `images/${code.id}/${index + 1}.${getImageExtension(data, url)}`;
+      zip.file(path, data);
+      images.push({ code_id: code.id, url, path });
+    }
+  }
+
+  const manifest: LibraryBundleManifest = {
+    format: LIBRARY_BUNDLE_FORMAT,
+    version: LIBRARY_EXPORT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    scope,
+    code_count: codes.length,
+    files: { json: 'library.json', csv: 'library.csv' },
+    images,
+    missing_images: missingImages,
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('library.json', toLibraryJSON(codes, scope, exportedAt));
+  zip.file('library.csv', toLibraryCSV(codes));
+
+  return { data: await zip.generateAsync({ type: 'blob' }), manifest };
+};
+
+// File name for an export, e.g. sref-library-neon-cities-2025-03-15.zip
+export const getExportFilename = (scope: ExportScope, extension: string, date = new Date()) => {
+  const slug = scope.label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `sref-${scope.kind}${slug ? `-${slug}` : ''}-${date.toISOString().slice(0, 10)}.${extension}`;
+};
+
+// Hand a file to the browser as a download
+export const saveFile = (data: Blob, filename: string) => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked after the click has been handled so the download isn't cut off
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
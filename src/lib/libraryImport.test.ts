@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { SREFCode } from './database';
+import { buildLibraryBundle, toLibraryCSV } from './libraryExport';
+import {
+  ValidImportRow,
+  findDuplicateRows,
+  fromCSVTable,
+  guessColumnMapping,
+  parseCSV,
+  planImport,
+  readImportFile,
+  validateImportRecords,
+} from './libraryImport';
+
+const libraryCode = (overrides: Partial<SREFCode> = {}): SREFCode => ({
+  id: 'code-1',
+  user_id: 'user-1',
+  title: 'Neon City',
+  code_value: '--sref 123',
+  sv_version: 6,
+  notes: null,
+  copy_count: 0,
+  upvotes: 0,
+  downvotes: 0,
+  save_count: 0,
+  visibility: 'private',
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-15T12:00:00Z',
+  tags: ['neon'],
+  images: [],
+  ...overrides,
+});
+
+const row = (rowNumber: number, codeValue: string, tags: string[] = []): ValidImportRow => ({
+  row: rowNumber,
+  code: {
+    title: `Row ${rowNumber}`,
+    code_value: codeValue,
+    sv_version: 6,
+    notes: null,
+    visibility: 'private',
+    images: [],
+    tags,
+  },
+});
+
+describe('parseCSV', () => {
+  it('should read quoted fields, CRLF line endings and skip blank lines', () => {
+    expect(
+      parseCSV('\uFEFFName,Code\r\n"Neon, ""City""","--sref 1\n2"\r\n\r\nDusk,--sref 3')
+    ).toEqual({
+      headers: ['Name', 'Code'],
+      rows: [
+        ['Neon, "City"', '--sref 1\n2'],
+        ['Dusk', '--sref 3'],
+      ],
+    });
+  });
+});
+
+describe('fromCSVTable', () => {
+  it('should map guessed columns and report every problem with a row', () => {
+    const table = parseCSV(
+      'Name,SREF Code,SV,Keywords,Extra\n' +
+        'Neon,--sref 123,6,"Neon; City",x\n' +
+        ',sref 5,v5,,y\n' +
+        'Dusk,--sref 9,,,z\n'
+    );
+    const mapping = guessColumnMapping(table.headers);
+
+    expect(mapping).toEqual({
+      title: 0,
+      code_value: 1,
+      version: 2,
+      tags: 3,
+      notes: null,
+      visibility: null,
+      images: null,
+    });
+
+    const { rows, errors } = validateImportRecords(fromCSVTable(table, mapping), tag =>
+      tag.toLowerCase()
+    );
+
+    expect(rows).toEqual([
+      {
+        row: 2,
+        code: {
+          title: 'Neon',
+          code_value: '--sref 123',
+          sv_version: 6,
+          tags: ['neon', 'city'],
+          images: [],
+          notes: null,
+          visibility: 'private',
+        },
+      },
+      expect.objectContaining({ row: 4, code: expect.objectContaining({ sv_version: 6 }) }),
+    ]);
+    expect(errors).toEqual([
+      {
+        row: 3,
+        messages: [
+          'Title is required',
+          'SREF code must include "--sref"',
+          'SREF code must follow format "--sref 1234567890"',
+          'Version must be either SV4 or SV6',
+        ],
+      },
+    ]);
+  });
+
+  it('should read back the formula-escaped fields of our own CSV export', () => {
+    const table = parseCSV(toLibraryCSV([libraryCode({ title: '=Neon', notes: "'quoted" })]));
+
+    expect(fromCSVTable(table, guessColumnMapping(table.headers))).toEqual([
+      expect.objectContaining({ title: '=Neon', code_value: '--sref 123', notes: "'quoted" }),
+    ]);
+  });
+});
+
+describe('findDuplicateRows', () => {
+  it('should find rows repeating a library code or an earlier row', () => {
+    const rows = [
+      row(2, '--sref  123'),
+      row(3, '--sref 7'),
+      row(4, '--sref 7'),
+      row(5, '--sref 8'),
+    ];
+
+    expect(findDuplicateRows(rows, [libraryCode()])).toEqual([2, 4]);
+  });
+});
+
+describe('planImport', () => {
+  const rows = [
+    row(2, '--sref 123', ['neon', 'city']),
+    row(3, '--sref 7', ['dusk']),
+    row(4, '--sref 7', ['warm']),
+  ];
+
+  it('should skip duplicates', () => {
+    const { tasks, skipped } = planImport(rows, [libraryCode()], 'skip');
+
+    expect(tasks.map(task => [task.type, task.row])).toEqual([['create', 3]]);
+    expect(skipped).toBe(2);
+  });
+
+  it('should merge the tags of duplicates into the code they repeat', () => {
+    const { tasks, skipped } = planImport(rows, [libraryCode()], 'merge');
+
+    expect(tasks).toEqual([
+      {
+        row: 2,
+        status: 'pending',
+        type: 'merge',
+        codeId: 'code-1',
+        title: 'Neon City',
+        tags: ['city'],
+      },
+      expect.objectContaining({
+        row: 3,
+        type: 'create',
+        code: expect.objectContaining({ tags: ['dusk', 'warm'] }),
+      }),
+    ]);
+    expect(skipped).toBe(0);
+  });
+
+  it('should create duplicates as new codes', () => {
+    const { tasks, skipped } = planImport(rows, [libraryCode()], 'duplicate');
+
+    expect(tasks.map(task => [task.type, task.row])).toEqual([
+      ['create', 2],
+      ['create', 3],
+      ['create', 4],
+    ]);
+    expect(skipped).toBe(0);
+  });
+});
+
+describe('readImportFile', () => {
+  it('should read the codes and images of a zip bundle', async () => {
+    const image = new Blob(['a'], { type: 'image/png' });
+    const { data: bundle } = await buildLibraryBundle(
+      [
+        libraryCode({
+          images: [
+            {
+              id: 'image-1',
+              code_id: 'code-1',
+              image_url: 'https://example.com/a.png',
+              position: 0,
+              created_at: '2025-03-15T12:00:00Z',
+            },
+          ],
+        }),
+      ],
+      { kind: 'library', label: '' },
+      async () => ({ data: image, error: null })
+    );
+
+    const { data, error } = await readImportFile(new File([bundle], 'library.zip'));
+
+    expect(error).toBe(null);
+    expect(data?.kind).toBe('zip');
+    expect(data?.records).toEqual([
+      expect.objectContaining({
+        title: 'Neon City',
+        version: 'SV6',
+        images: ['https://example.com/a.png'],
+      }),
+    ]);
+    expect(data?.images['https://example.com/a.png'].type).toBe('image/png');
+  });
+
+  it('should reject a bundle whose manifest does not match the export format', async () => {
+    const { data: bundle } = await buildLibraryBundle(
+      [libraryCode()],
+      { kind: 'library', label: '' },
+      async () => ({ data: null, error: null })
+    );
+    const zip = await JSZip.loadAsync(bundle);
+    const manifest = JSON.parse((await zip.file('manifest.json')?.async('string')) ?? '');
+    zip.file('manifest.json', JSON.stringify({ ...manifest, images: [{ url: 42 }] }));
+    const tampered = await zip.generateAsync({ type: 'blob' });
+
+    const { data, error } = await readImportFile(new File([tampered], 'library.zip'));
+
+    expect(data).toBe(null);
+    expect(error).toBe('The zip is not an SREF library bundle');
+  });
+});
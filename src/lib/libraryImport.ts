@@ -0,0 +1,418 @@
+import JSZip from 'jszip';
+import { SREFCode, SREFCodeInsert } from './database';
+import { TagNormalizer } from './tagNormalization';
+import {
+  CSV_FORMULA_PREFIX,
+  LibraryExport,
+  libraryBundleManifestSchema,
+  parseLibraryExport,
+} from './libraryExport';
+import { createSrefCodeSchema } from '../schemas/srefValidation';
+
+// Code fields a CSV column can be mapped to
+export type ImportField =
+  | 'title'
+  | 'code_value'
+  | 'version'
+  | 'tags'
+  | 'notes'
+  | 'visibility'
+  | 'images';
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'code_value', label: 'SREF code', required: true },
+  { field: 'version', label: 'Version', required: false },
+  { field: 'tags', label: 'Tags', required: false },
+  { field: 'notes', label: 'Notes', required: false },
+  { field: 'visibility', label: 'Visibility', required: false },
+  { field: 'images', label: 'Image URLs', required: false },
+];
+
+// Index of the CSV column each field is read from, or null when it isn't imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// A code as read from a file, before validation. Every source is turned into these.
+export interface ImportRecord {
+  // Row number shown in the error report: the CSV row (the header is row 1) or the
+  // code's place in a JSON export
+  row: number;
+  title: string;
+  code_value: string;
+  version: string;
+  tags: string[];
+  notes: string;
+  visibility: string;
+  images: string[];
+}
+
+export type ImportCode = Omit<SREFCodeInsert, 'user_id'>;
+
+export interface ValidImportRow {
+  row: number;
+  code: ImportCode;
+}
+
+export interface ImportRowError {
+  row: number;
+  messages: string[];
+}
+
+// What to do with a code that is already in the library (same code and version)
+export type DuplicateStrategy = 'skip' | 'merge' | 'duplicate';
+
+export type ImportTask = {
+  // Row the task came from; a merge lists the first row that asked for it
+  row: number;
+  status: 'pending' | 'done' | 'failed';
+  error?: string;
+} & (
+  | { type: 'create'; code: ImportCode }
+  // Tags to add to an existing library code
+  | { type: 'merge'; codeId: string; title: string; tags: string[] }
+);
+
+/**
+ * An import in progress, kept in IndexedDB after every step so it can pick
+ * up where it stopped if the tab is closed
+ */
+export interface ImportSession {
+  userId: string;
+  fileName: string;
+  startedAt: string;
+  tasks: ImportTask[];
+  // Rows left out as duplicates
+  skipped: number;
+  // Image files from a zip bundle, by the URL the codes list them under
+  images: Record<string, Blob>;
+  // Storage URLs of bundled images already uploaded, by the same URL
+  uploadedImages: Record<string, string>;
+}
+
+export interface ImportSource {
+  fileName: string;
+  kind: 'json' | 'csv' | 'zip';
+  // Codes from an export; CSVs are read as a table and mapped to codes afterwards
+  records: ImportRecord[];
+  table: CSVTable | null;
+  images: Record<string, Blob>;
+}
+
+// Codes without a version, e.g. from a CSV with no version column, are taken as SV6
+export const DEFAULT_IMPORT_VERSION = 'SV6';
+
+// Parse CSV text (RFC 4180: quoted fields may hold commas, quotes and line breaks).
+// The first row is the header; blank lines are skipped.
+export const parseCSV = (text: string): CSVTable => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  const [headers = [], ...body] = rows;
+  return { headers: headers.map(header => header.trim()), rows: body };
+};
+
+// Header names each field is recognised by, after normalizeHeader
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name'],
+  code_value: ['code_value', 'code', 'sref', 'sref_code'],
+  version: ['version', 'sv_version', 'sv'],
+  tags: ['tags', 'tag', 'keywords'],
+  notes: ['notes', 'note', 'description'],
+  visibility: ['visibility'],
+  images: ['images', 'image', 'image_url', 'image_urls'],
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+
+// Map columns to fields by their headers; the user adjusts the rest in the wizard
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex(header => FIELD_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+const splitList = (value: string, separator: RegExp) =>
+  value
+    .split(separator)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+// "SV6", "sv 6", "v6" and "6" all mean SV6; anything else is left for validation to reject
+const normalizeVersion = (value: string) => {
+  const match = value.trim().match(/^(?:s?v)?\s*(\d+)$/i);
+  return match ? `SV${match[1]}` : value.trim() || DEFAULT_IMPORT_VERSION;
+};
+
+// Drop the ' our CSV export puts before formula-like text
+const unescapeFormula = (value: string) =>
+  value.startsWith("'") && CSV_FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+export const fromCSVTable = (table: CSVTable, mapping: ColumnMapping): ImportRecord[] =>
+  table.rows.map((values, index) => {
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : unescapeFormula((values[column] ?? '').trim());
+    };
+    return {
+      row: index + 2,
+      title: read('title'),
+      code_value: read('code_value'),
+      version: normalizeVersion(read('version')),
+      tags: splitList(read('tags'), /[,;]/),
+      notes: read('notes'),
+      visibility: read('visibility').toLowerCase() || 'private',
+      images: splitList(read('images'), /[\s,;]+/),
+    };
+  });
+
+export const fromLibraryExport = (data: LibraryExport): ImportRecord[] =>
+  data.codes.map((code, index) => ({
+    row: index + 1,
+    title: code.title,
+    code_value: code.code_value,
+    version: `SV${code.sv_version}`,
+    tags: code.tags,
+    notes: code.notes ?? '',
+    visibility: code.visibility,
+    images: code.images,
+  }));
+
+/**
+ * Check each record against the code schema, with tags in the user's
+ * canonical spelling. Invalid rows are reported with every problem found.
+ */
+export const validateImportRecords = (records: ImportRecord[], normalizeTag?: TagNormalizer) => {
+  const schema = createSrefCodeSchema(normalizeTag);
+  const rows: ValidImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach(record => {
+    const result = schema.safeParse(record);
+    if (!result.success) {
+      errors.push({
+        row: record.row,
+        messages: [...new Set(result.error.issues.map(issue => issue.message))],
+      });
+      return;
+    }
+
+    const { version, notes, ...code } = result.data;
+    rows.push({
+      row: record.row,
+      code: { ...code, sv_version: parseInt(version.slice(2), 10), notes: notes || null },
+    });
+  });
+
+  return { rows, errors };
+};
+
+// Codes count as the same when their code and version match, ignoring spacing
+export const getDuplicateKey = (code: { code_value: string; sv_version: number }) =>
+  `${code.code_value.trim().replace(/\s+/g, ' ')}|${code.sv_version}`;
+
+// Rows that repeat a library code or an earlier row in the file
+export const findDuplicateRows = (rows: ValidImportRow[], libraryCodes: SREFCode[]) => {
+  const seen = new Set(libraryCodes.map(getDuplicateKey));
+  return rows
+    .filter(({ code }) => {
+      const key = getDuplicateKey(code);
+      if (seen.has(key)) return true;
+      seen.add(key);
+      return false;
+    })
+    .map(({ row }) => row);
+};
+
+const addMissingTags = (tags: string[], additions: string[]) => [
+  ...tags,
+  ...additions.filter(tag => !tags.includes(tag)),
+];
+
+/**
+ * Turn validated rows into the steps of an import. Duplicates of a library
+ * code or of an earlier row are skipped, have their tags merged into that
+ * code, or are created again, depending on the strategy.
+ */
+export const planImport = (
+  rows: ValidImportRow[],
+  libraryCodes: SREFCode[],
+  strategy: DuplicateStrategy
+) => {
+  const libraryByKey = new Map(libraryCodes.map(code => [getDuplicateKey(code), code]));
+  const tasks: ImportTask[] = [];
+  // Task creating or merging into the code for each key, so later rows can fold into it
+  const taskByKey = new Map<string, ImportTask>();
+  let skipped = 0;
+
+  rows.forEach(({ row, code }) => {
+    const key = getDuplicateKey(code);
+    const existing = libraryByKey.get(key);
+    const earlier = taskByKey.get(key);
+
+    if (strategy === 'duplicate' || (!existing && !earlier)) {
+      const task: ImportTask = { row, status: 'pending', type: 'create', code };
+      tasks.push(task);
+      if (!earlier) taskByKey.set(key, task);
+      return;
+    }
+    if (strategy === 'skip') {
+      skipped++;
+      return;
+    }
+
+    if (earlier?.type === 'create') {
+      earlier.code = { ...earlier.code, tags: addMissingTags(earlier.code.tags, code.tags) };
+      return;
+    }
+    if (earlier?.type === 'merge') {
+      earlier.tags = addMissingTags(earlier.tags, code.tags);
+      return;
+    }
+
+    const newTags = existing ? code.tags.filter(tag => !existing.tags.includes(tag)) : [];
+    if (!existing || newTags.length === 0) {
+      // Nothing to add to the library code
+      skipped++;
+      return;
+    }
+    const task: ImportTask = {
+      row,
+      status: 'pending',
+      type: 'merge',
+      codeId: existing.id,
+      title: existing.title,
+      tags: newTags,
+    };
+    tasks.push(task);
+    taskByKey.set(key, task);
+  });
+
+  return { tasks, skipped };
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+// Read a zip bundle made by the export: its codes and the image files they use
+const readBundle = async (file: Blob, fileName: string) => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestText = await zip.file('manifest.json')?.async('string');
+  const result = libraryBundleManifestSchema.safeParse(
+    manifestText ? JSON.parse(manifestText) : null
+  );
+  if (!result.success) {
+    return { data: null, error: 'The zip is not an SREF library bundle' };
+  }
+  const manifest = result.data;
+
+  const jsonText = await zip.file(manifest.files.json)?.async('string');
+  const { data, error } = parseLibraryExport(jsonText ?? '');
+  if (!data) return { data: null, error };
+
+  const images: Record<string, Blob> = {};
+  for (const image of manifest.images) {
+    const content = await zip.file(image.path)?.async('blob');
+    if (!content) continue;
+    const extension = image.path.split('.').pop()?.toLowerCase() ?? '';
+    // Zip entries have no type, and uploads are checked by type
+    images[image.url] = new Blob([content], { type: IMAGE_TYPES[extension] ?? '' });
+  }
+
+  const source: ImportSource = {
+    fileName,
+    kind: 'zip',
+    records: fromLibraryExport(data),
+    table: null,
+    images,
+  };
+  return { data: source, error: null };
+};
+
+// Read a JSON export, zip bundle or CSV picked by the user
+export const readImportFile = async (
+  file: File
+): Promise<{ data: ImportSource | null; error: string | null }> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  try {
+    if (extension === 'zip') return await readBundle(file, file.name);
+
+    const text = await file.text();
+    if (extension === 'csv') {
+      const table = parseCSV(text);
+      if (table.headers.length === 0) return { data: null, error: 'The CSV file is empty' };
+      return {
+        data: { fileName: file.name, kind: 'csv', records: [], table, images: {} },
+        error: null,
+      };
+    }
+
+    const { data, error } = parseLibraryExport(text);
+    if (!data) return { data: null, error };
+    return {
+      data: {
+        fileName: file.name,
+        kind: 'json',
+        records: fromLibraryExport(data),
+        table: null,
+        images: {},
+      },
+      error: null,
+    };
+  } catch {
+    return { data: null, error: 'The file could not be read' };
+  }
+};
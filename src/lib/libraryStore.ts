@@ -0,0 +1,571 @@
+import {
+  CodeVote,
+  Folder,
+  Pack,
+  PackChanges,
+  RECENT_COPIES_LIMIT,
+  RecentCopy,
+  SREFCode,
+  SREFCodeCursor,
+  SREFCodeFilters,
+  SREFCodeSort,
+  VoteCounts,
+} from './database';
+import { OfflineCache } from './offlineCache';
+import { DEFAULT_TAG_RULES, TagRules } from './tagNormalization';
+import { isTagWithin } from './tagTree';
+import { EMPTY_TAG_STATS, TagStats } from './tagStats';
+
+// Mutation currently awaiting the server for a code
+export type PendingMutation = 'create' | 'update' | 'delete';
+
+// Filters and sort order the loaded pages were fetched with
+export interface LibraryQuery {
+  filters: SREFCodeFilters;
+  sort: SREFCodeSort;
+}
+
+export const DEFAULT_LIBRARY_QUERY: LibraryQuery = { filters: {}, sort: 'newest' };
+
+// Normalized library state shared by every useSREFCodes/useTags consumer
+export interface LibraryState {
+  ownerId: string | null;
+  codesById: Record<string, SREFCode>;
+  codeIds: string[];
+  pendingById: Record<string, PendingMutation>;
+  codesLoaded: boolean;
+  codesLoading: boolean;
+  codesError: string | null;
+  // The codes come from a cached snapshot that is missing pages never loaded online
+  codesPartial: boolean;
+  // Codes deleted since the library was loaded, so they aren't kept in the
+  // offline snapshot's unloaded pages
+  removedCodeIds: string[];
+  query: LibraryQuery;
+  nextCursor: SREFCodeCursor | null;
+  hasMore: boolean;
+  loadingMore: boolean;
+  tags: string[];
+  // Codes carrying each tag, as of the last tag fetch
+  tagCounts: Record<string, number>;
+  // Codes carrying each tag or namespace, including everything below it
+  tagTotals: Record<string, number>;
+  tagsLoaded: boolean;
+  tagsLoading: boolean;
+  tagsError: string | null;
+  tagRules: TagRules;
+  tagRulesLoaded: boolean;
+  tagRulesLoading: boolean;
+  tagRulesError: string | null;
+  // Usage and co-occurrence behind tag suggestions; cleared to stale when tags change
+  tagStats: TagStats;
+  tagStatsLoaded: boolean;
+  tagStatsLoading: boolean;
+  tagStatsError: string | null;
+  folders: Folder[];
+  // Ids of the codes filed in each folder
+  folderCodeIds: Record<string, string[]>;
+  foldersLoaded: boolean;
+  foldersLoading: boolean;
+  foldersError: string | null;
+  // Codes the user saved to favorites, most recently saved first. They may
+  // belong to anyone, so they are kept apart from the library's own codes.
+  savedCodes: SREFCode[];
+  savedCodesLoaded: boolean;
+  savedCodesLoading: boolean;
+  savedCodesError: string | null;
+  // The user's vote on each code they voted on
+  votes: Record<string, CodeVote>;
+  // Latest counts for codes voted on this session; they override the counts
+  // on whichever copy of the code is shown
+  voteCounts: Record<string, VoteCounts>;
+  votesLoaded: boolean;
+  votesLoading: boolean;
+  votesError: string | null;
+  // Codes the user copied most recently, once each, newest first
+  recentCopies: RecentCopy[];
+  recentCopiesLoaded: boolean;
+  recentCopiesLoading: boolean;
+  recentCopiesError: string | null;
+  // The user's own packs, most recently updated first
+  packs: Pack[];
+  // Ids of the codes in each of the user's packs, in the pack's order
+  packCodeIds: Record<string, string[]>;
+  // Published public packs by other users
+  communityPacks: Pack[];
+  // The version of each pack the user last imported
+  packImports: Record<string, number>;
+  // Imported packs with a newer version out
+  packUpdates: PackChanges[];
+  packsLoaded: boolean;
+  packsLoading: boolean;
+  packsError: string | null;
+  queuedCount: number;
+  syncing: boolean;
+}
+
+export interface LibraryStore {
+  getState: () => LibraryState;
+  setState: (updater: (state: LibraryState) => Partial<LibraryState>) => void;
+  subscribe: (listener: () => void) => () => void;
+  /**
+   * Share a single in-flight request between callers using the same key
+   */
+  dedupe: <T>(key: string, request: () => Promise<T>) => Promise<T>;
+  /**
+   * Keep one long-lived subscription per key running while any caller holds it.
+   * Returns a release function; the subscription stops when the last holder releases.
+   */
+  retain: (key: string, start: () => () => void) => () => void;
+  /**
+   * Drop all data and start over for a different user
+   */
+  reset: (ownerId: string | null) => void;
+}
+
+const createInitialState = (ownerId: string | null): LibraryState => ({
+  ownerId,
+  codesById: {},
+  codeIds: [],
+  pendingById: {},
+  codesLoaded: false,
+  codesLoading: false,
+  codesError: null,
+  codesPartial: false,
+  removedCodeIds: [],
+  query: DEFAULT_LIBRARY_QUERY,
+  nextCursor: null,
+  hasMore: false,
+  loadingMore: false,
+  tags: [],
+  tagCounts: {},
+  tagTotals: {},
+  tagsLoaded: false,
+  tagsLoading: false,
+  tagsError: null,
+  tagRules: DEFAULT_TAG_RULES,
+  tagRulesLoaded: false,
+  tagRulesLoading: false,
+  tagRulesError: null,
+  tagStats: EMPTY_TAG_STATS,
+  tagStatsLoaded: false,
+  tagStatsLoading: false,
+  tagStatsError: null,
+  folders: [],
+  folderCodeIds: {},
+  foldersLoaded: false,
+  foldersLoading: false,
+  foldersError: null,
+  savedCodes: [],
+  savedCodesLoaded: false,
+  savedCodesLoading: false,
+  savedCodesError: null,
+  votes: {},
+  voteCounts: {},
+  votesLoaded: false,
+  votesLoading: false,
+  votesError: null,
+  recentCopies: [],
+  recentCopiesLoaded: false,
+  recentCopiesLoading: false,
+  recentCopiesError: null,
+  packs: [],
+  packCodeIds: {},
+  communityPacks: [],
+  packImports: {},
+  packUpdates: [],
+  packsLoaded: false,
+  packsLoading: false,
+  packsError: null,
+  queuedCount: 0,
+  syncing: false,
+});
+
+export const createLibraryStore = (): LibraryStore => {
+  let state = createInitialState(null);
+  const listeners = new Set<() => void>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  const retained = new Map<string, { holders: number; stop: () => void }>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  return {
+    getState: () => state,
+    setState: updater => {
+      state = { ...state, ...updater(state) };
+      emit();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dedupe: <T>(key: string, request: () => Promise<T>) => {
+      const existing = inFlight.get(key);
+      if (existing) return existing as Promise<T>;
+
+      const promise = request().finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return promise;
+    },
+    retain: (key, start) => {
+      const existing = retained.get(key);
+      if (existing) {
+        existing.holders++;
+      } else {
+        retained.set(key, { holders: 1, stop: start() });
+      }
+
+      let released = false;
+      return () => {
+        const entry = retained.get(key);
+        if (released || !entry) return;
+        released = true;
+        entry.holders--;
+        if (entry.holders === 0) {
+          retained.delete(key);
+          entry.stop();
+        }
+      };
+    },
+    reset: ownerId => {
+      inFlight.clear();
+      state = createInitialState(ownerId);
+      emit();
+    },
+  };
+};
+
+// Two queries are the same if they fetch the same codes; empty filters equal missing ones
+export const isSameQuery = (a: LibraryQuery, b: LibraryQuery) => {
+  const normalize = ({ filters, sort }: LibraryQuery) =>
+    JSON.stringify([
+      filters.query?.trim() || '',
+      [...(filters.tags ?? [])].sort(),
+      filters.tagMode ?? 'any',
+      [...(filters.excludedTags ?? [])].sort(),
+      filters.svVersion ?? null,
+      filters.createdFrom ?? null,
+      filters.createdUntil ?? null,
+      filters.folderId ?? null,
+      filters.minImages ?? null,
+      filters.maxImages ?? null,
+      sort,
+    ]);
+  return normalize(a) === normalize(b);
+};
+
+export const hasActiveFilters = ({ filters }: LibraryQuery) =>
+  Boolean(filters.query?.trim()) ||
+  (filters.tags?.length ?? 0) > 0 ||
+  (filters.excludedTags?.length ?? 0) > 0 ||
+  filters.svVersion !== undefined ||
+  Boolean(filters.createdFrom) ||
+  Boolean(filters.createdUntil) ||
+  Boolean(filters.folderId) ||
+  filters.minImages !== undefined ||
+  filters.maxImages !== undefined;
+
+// Split text into lowercase alphanumeric words, the way search_sref_codes splits queries
+const searchWords = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+// Whether every query term starts a word in one of the fields, like the server search
+export const matchesSearchQuery = (fields: string[], query: string) => {
+  const words = searchWords(fields.join(' '));
+  return searchWords(query).every(term => words.some(word => word.startsWith(term)));
+};
+
+// Whether a code's tags satisfy the tag filters: any or all of the included tags, none
+// excluded. A namespace matches every tag below it.
+export const matchesTagFilters = (
+  codeTags: string[],
+  { tags = [], tagMode = 'any', excludedTags = [] }: SREFCodeFilters
+) => {
+  const hasTag = (tag: string) => codeTags.some(codeTag => isTagWithin(codeTag, tag));
+  const matchesIncluded =
+    tags.length === 0 || (tagMode === 'all' ? tags.every(hasTag) : tags.some(hasTag));
+  return matchesIncluded && !excludedTags.some(hasTag);
+};
+
+// Client-side equivalent of the service filters, for cached or offline data. Folder
+// filters need to know which codes are filed where.
+export const matchesFilters = (
+  code: SREFCode,
+  filters: SREFCodeFilters,
+  folderCodeIds: Record<string, string[]> = {}
+) => {
+  const matchesQuery = matchesSearchQuery(
+    [code.title, code.code_value, ...code.tags, code.notes ?? ''],
+    filters.query ?? ''
+  );
+  const matchesTags = matchesTagFilters(code.tags, filters);
+  const createdAt = new Date(code.created_at).getTime();
+  const matchesVersion = filters.svVersion === undefined || code.sv_version === filters.svVersion;
+  const matchesCreated =
+    (!filters.createdFrom || createdAt >= new Date(filters.createdFrom).getTime()) &&
+    (!filters.createdUntil || createdAt < new Date(filters.createdUntil).getTime());
+  const matchesFolder =
+    !filters.folderId || (folderCodeIds[filters.folderId] ?? []).includes(code.id);
+  const matchesImages =
+    (filters.minImages === undefined || code.images.length >= filters.minImages) &&
+    (filters.maxImages === undefined || code.images.length <= filters.maxImages);
+  return (
+    matchesQuery &&
+    matchesTags &&
+    matchesVersion &&
+    matchesCreated &&
+    matchesFolder &&
+    matchesImages
+  );
+};
+
+const mergeTags = (tags: string[], additions: string[]) =>
+  [...new Set([...tags, ...additions])].sort();
+
+// State transitions - each returns the partial state to merge
+
+export const replaceCodes = (codes: SREFCode[]): Partial<LibraryState> => ({
+  codesById: Object.fromEntries(codes.map(code => [code.id, code])),
+  codeIds: codes.map(code => code.id),
+});
+
+// Add the next page after the codes already loaded
+export const appendCodes = (state: LibraryState, codes: SREFCode[]): Partial<LibraryState> => {
+  const newCodes = codes.filter(code => !(code.id in state.codesById));
+  return {
+    codesById: {
+      ...state.codesById,
+      ...Object.fromEntries(codes.map(code => [code.id, code])),
+    },
+    codeIds: [...state.codeIds, ...newCodes.map(code => code.id)],
+  };
+};
+
+export const upsertCode = (
+  state: LibraryState,
+  code: SREFCode,
+  options: { prepend?: boolean } = {}
+): Partial<LibraryState> => {
+  const exists = code.id in state.codesById;
+  return {
+    codesById: { ...state.codesById, [code.id]: code },
+    codeIds: exists
+      ? state.codeIds
+      : options.prepend
+        ? [code.id, ...state.codeIds]
+        : [...state.codeIds, code.id],
+    tags: mergeTags(state.tags, code.tags),
+  };
+};
+
+// Swap a code for another one in place, e.g. an optimistic placeholder for the saved row
+export const replaceCode = (
+  state: LibraryState,
+  codeId: string,
+  code: SREFCode
+): Partial<LibraryState> => {
+  const { [codeId]: _replaced, ...codesById } = state.codesById;
+  // The saved row may already have arrived through another channel, e.g. realtime
+  const codeIds = state.codeIds.includes(code.id)
+    ? state.codeIds.filter(id => id !== codeId)
+    : state.codeIds.includes(codeId)
+      ? state.codeIds.map(id => (id === codeId ? code.id : id))
+      : [code.id, ...state.codeIds];
+  return {
+    codesById: { ...codesById, [code.id]: code },
+    codeIds,
+    tags: mergeTags(state.tags, code.tags),
+  };
+};
+
+export const removeCode = (state: LibraryState, codeId: string): Partial<LibraryState> => {
+  const { [codeId]: _removed, ...codesById } = state.codesById;
+  const { [codeId]: _pending, ...pendingById } = state.pendingById;
+  return {
+    codesById,
+    codeIds: state.codeIds.filter(id => id !== codeId),
+    pendingById,
+    removedCodeIds: [...state.removedCodeIds.filter(id => id !== codeId), codeId],
+    // Deleting a code removes it from everyone's favorites too
+    savedCodes: state.savedCodes.filter(code => code.id !== codeId),
+    recentCopies: state.recentCopies.filter(copy => copy.code.id !== codeId),
+  };
+};
+
+// Update a single code in place; codes not in the library are ignored
+const updateCode = (
+  state: LibraryState,
+  codeId: string,
+  update: (code: SREFCode) => SREFCode
+): Partial<LibraryState> => {
+  const code = state.codesById[codeId];
+  if (!code) return {};
+  return { codesById: { ...state.codesById, [codeId]: update(code) } };
+};
+
+export const upsertImage = (
+  state: LibraryState,
+  image: SREFCode['images'][number]
+): Partial<LibraryState> =>
+  updateCode(state, image.code_id, code => ({
+    ...code,
+    images: [...code.images.filter(existing => existing.id !== image.id), image].sort(
+      (a, b) => a.position - b.position
+    ),
+  }));
+
+export const removeImage = (state: LibraryState, imageId: string): Partial<LibraryState> => {
+  const code = Object.values(state.codesById).find(candidate =>
+    candidate.images.some(image => image.id === imageId)
+  );
+  if (!code) return {};
+  return updateCode(state, code.id, current => ({
+    ...current,
+    images: current.images.filter(image => image.id !== imageId),
+  }));
+};
+
+export const addTag = (state: LibraryState, codeId: string, tag: string): Partial<LibraryState> => {
+  if (!state.codesById[codeId]) return {};
+  return {
+    ...updateCode(state, codeId, code =>
+      code.tags.includes(tag) ? code : { ...code, tags: [...code.tags, tag] }
+    ),
+    tags: mergeTags(state.tags, [tag]),
+  };
+};
+
+export const removeTag = (
+  state: LibraryState,
+  codeId: string,
+  tag: string
+): Partial<LibraryState> =>
+  updateCode(state, codeId, code => ({
+    ...code,
+    tags: code.tags.filter(existing => existing !== tag),
+  }));
+
+// Adjust a code's save count wherever it is shown, without waiting for the server
+const changeSaveCount = (
+  state: LibraryState,
+  codeId: string,
+  change: number
+): Partial<LibraryState> =>
+  updateCode(state, codeId, code => ({
+    ...code,
+    save_count: Math.max(code.save_count + change, 0),
+  }));
+
+export const addSavedCode = (state: LibraryState, code: SREFCode): Partial<LibraryState> => {
+  if (state.savedCodes.some(saved => saved.id === code.id)) return {};
+  return {
+    ...changeSaveCount(state, code.id, 1),
+    savedCodes: [{ ...code, save_count: code.save_count + 1 }, ...state.savedCodes],
+  };
+};
+
+export const removeSavedCode = (state: LibraryState, codeId: string): Partial<LibraryState> => {
+  if (!state.savedCodes.some(saved => saved.id === codeId)) return {};
+  return {
+    ...changeSaveCount(state, codeId, -1),
+    savedCodes: state.savedCodes.filter(saved => saved.id !== codeId),
+  };
+};
+
+// Set a code's copy count wherever it is shown
+export const setCopyCount = (
+  state: LibraryState,
+  codeId: string,
+  copyCount: number
+): Partial<LibraryState> => ({
+  ...updateCode(state, codeId, code => ({ ...code, copy_count: copyCount })),
+  recentCopies: state.recentCopies.map(copy =>
+    copy.code.id === codeId ? { ...copy, code: { ...copy.code, copy_count: copyCount } } : copy
+  ),
+});
+
+// Move a copied code to the front of the recent copies, counting the copy
+export const addRecentCopy = (
+  state: LibraryState,
+  code: SREFCode,
+  copiedAt: string
+): Partial<LibraryState> => {
+  const copyCount = code.copy_count + 1;
+  return {
+    ...updateCode(state, code.id, current => ({ ...current, copy_count: copyCount })),
+    recentCopies: [
+      { code: { ...code, copy_count: copyCount }, copiedAt },
+      ...state.recentCopies.filter(copy => copy.code.id !== code.id),
+    ].slice(0, RECENT_COPIES_LIMIT),
+  };
+};
+
+// A code's counts as last seen by the store
+export const getVoteCounts = (state: LibraryState, code: SREFCode): VoteCounts =>
+  state.voteCounts[code.id] ?? { upvotes: code.upvotes, downvotes: code.downvotes };
+
+// Record the user's vote on a code (null retracts it) and move its counts to match
+export const setVote = (
+  state: LibraryState,
+  code: SREFCode,
+  vote: CodeVote | null
+): Partial<LibraryState> => {
+  const previous = state.votes[code.id] ?? null;
+  if (previous === vote) return {};
+
+  const counts = { ...getVoteCounts(state, code) };
+  if (previous === 'up') counts.upvotes = Math.max(counts.upvotes - 1, 0);
+  if (previous === 'down') counts.downvotes = Math.max(counts.downvotes - 1, 0);
+  if (vote === 'up') counts.upvotes += 1;
+  if (vote === 'down') counts.downvotes += 1;
+
+  const { [code.id]: _previous, ...votes } = state.votes;
+  return {
+    votes: vote ? { ...votes, [code.id]: vote } : votes,
+    voteCounts: { ...state.voteCounts, [code.id]: counts },
+  };
+};
+
+export const setPending = (
+  state: LibraryState,
+  codeId: string,
+  mutation: PendingMutation | null
+): Partial<LibraryState> => {
+  const { [codeId]: _previous, ...pendingById } = state.pendingById;
+  return {
+    pendingById: mutation ? { ...pendingById, [codeId]: mutation } : pendingById,
+  };
+};
+
+export const selectCodes = (state: Pick<LibraryState, 'codeIds' | 'codesById'>): SREFCode[] =>
+  state.codeIds.map(id => state.codesById[id]).filter(Boolean);
+
+// Save the current library snapshot so it can be shown on the next load, even offline.
+// Filtered results are not the library, so they are never cached. While pages are
+// still unloaded, their codes are kept from the previous snapshot, which stays as
+// complete as it was.
+export const persistLibrary = async (store: LibraryStore) => {
+  const state = store.getState();
+  if (!state.ownerId || !state.codesLoaded || hasActiveFilters(state.query)) {
+    return;
+  }
+
+  const codes = selectCodes(state);
+  if (!state.hasMore && !state.codesPartial) {
+    return OfflineCache.saveLibrary(state.ownerId, codes, state.tags, true);
+  }
+
+  const cached = await OfflineCache.getLibrary(state.ownerId);
+  const skipped = new Set([...state.codeIds, ...state.removedCodeIds]);
+  return OfflineCache.saveLibrary(
+    state.ownerId,
+    [...codes, ...(cached?.codes ?? []).filter(code => !skipped.has(code.id))],
+    state.tags,
+    cached?.complete === true
+  );
+};
@@ -0,0 +1,292 @@
+import { SREFCode, SREFCodeInsert, SREFCodeUpdate } from './database';
+import { ImportSession } from './libraryImport';
+import { captureException } from './sentry';
+
+// Library snapshot kept so the last known library can be shown before the network answers
+export interface CachedLibrary {
+  userId: string;
+  codes: SREFCode[];
+  tags: string[];
+  // Every code in the library, rather than only the pages loaded when it was saved
+  complete: boolean;
+  cachedAt: string;
+}
+
+interface CachedThumbnail {
+  url: string;
+  blob: Blob;
+  cachedAt: string;
+}
+
+// Change carried by a queued mutation
+export type QueuedChange =
+  | { type: 'create'; payload: SREFCodeInsert }
+  | { type: 'update'; payload: SREFCodeUpdate; baseUpdatedAt?: string }
+  | { type: 'delete'; baseUpdatedAt?: string };
+
+// Mutation as handed to the queue, before it is given its place in line
+export type NewQueuedMutation = {
+  id: string;
+  userId: string;
+  codeId: string;
+  queuedAt: string;
+} & QueuedChange;
+
+// Edit made while offline, replayed through SREFCodeService once the connection returns
+export type QueuedMutation = NewQueuedMutation & {
+  // Position in the queue. queuedAt only has millisecond resolution, so edits made
+  // in quick succession can share it and can't be ordered by it.
+  sequence: number;
+};
+
+const DB_NAME = 'smc-manager';
+// Version 2 added the imports store
+const DB_VERSION = 2;
+
+const STORES = {
+  library: { keyPath: 'userId' },
+  thumbnails: { keyPath: 'url' },
+  mutations: { keyPath: 'id' },
+  // At most one unfinished import per user
+  imports: { keyPath: 'userId' },
+} as const;
+
+type StoreName = keyof typeof STORES;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORES) as StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, STORES[name]);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class OfflineCache {
+  /**
+   * IndexedDB is missing in some private browsing modes and in tests;
+   * every method degrades to a no-op there
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Get the last cached library for a user
+   */
+  static async getLibrary(userId: string): Promise<CachedLibrary | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const library = await runRequest<CachedLibrary | undefined>('library', 'readonly', store =>
+        store.get(userId)
+      );
+      return library ?? null;
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_get_library' } });
+      return null;
+    }
+  }
+
+  /**
+   * Replace the cached library for a user
+   */
+  static async saveLibrary(
+    userId: string,
+    codes: SREFCode[],
+    tags: string[],
+    complete: boolean
+  ): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      const library: CachedLibrary = {
+        userId,
+        codes,
+        tags,
+        complete,
+        cachedAt: new Date().toISOString(),
+      };
+      await runRequest('library', 'readwrite', store => store.put(library));
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_save_library' } });
+    }
+  }
+
+  /**
+   * Get a cached image as a blob
+   */
+  static async getThumbnail(url: string): Promise<Blob | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const thumbnail = await runRequest<CachedThumbnail | undefined>(
+        'thumbnails',
+        'readonly',
+        store => store.get(url)
+      );
+      return thumbnail?.blob ?? null;
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_get_thumbnail' } });
+      return null;
+    }
+  }
+
+  /**
+   * Download an image and keep it for offline use
+   */
+  static async cacheThumbnail(url: string): Promise<void> {
+    if (!this.isAvailable() || url.startsWith('data:') || url.startsWith('blob:')) return;
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) return;
+
+      const thumbnail: CachedThumbnail = {
+        url,
+        blob: await response.blob(),
+        cachedAt: new Date().toISOString(),
+      };
+      await runRequest('thumbnails', 'readwrite', store => store.put(thumbnail));
+    } catch (error) {
+      // Usually a network or CORS failure - the image just stays uncached
+      captureException(error, { tags: { operation: 'offline_cache_thumbnail' }, extra: { url } });
+    }
+  }
+
+  /**
+   * Add a mutation to the end of the durable sync queue
+   */
+  static async queueMutation(mutation: NewQueuedMutation): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      const db = await openDatabase();
+      // The next sequence number is read and written in one transaction, so two
+      // mutations queued at once can't be given the same number
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction('mutations', 'readwrite');
+        const store = transaction.objectStore('mutations');
+        const request = store.getAll();
+        request.onsuccess = () => {
+          const queued = request.result as QueuedMutation[];
+          const sequence = queued.reduce((last, item) => Math.max(last, item.sequence ?? 0), 0) + 1;
+          store.put({ ...mutation, sequence });
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+      return true;
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_queue_mutation' } });
+      return false;
+    }
+  }
+
+  /**
+   * Get a user's queued mutations in the order they were made
+   */
+  static async getQueuedMutations(userId: string): Promise<QueuedMutation[]> {
+    if (!this.isAvailable()) return [];
+
+    try {
+      const mutations = await runRequest<QueuedMutation[]>('mutations', 'readonly', store =>
+        store.getAll()
+      );
+      // Mutations queued before sequence numbers existed have none and go first
+      return mutations
+        .filter(mutation => mutation.userId === userId)
+        .sort(
+          (a, b) => (a.sequence ?? 0) - (b.sequence ?? 0) || a.queuedAt.localeCompare(b.queuedAt)
+        );
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_get_mutations' } });
+      return [];
+    }
+  }
+
+  /**
+   * Remove a mutation from the sync queue once it has been handled
+   */
+  static async removeQueuedMutation(mutationId: string): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await runRequest('mutations', 'readwrite', store => store.delete(mutationId));
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_remove_mutation' } });
+    }
+  }
+
+  /**
+   * Get a user's unfinished import, if there is one
+   */
+  static async getImportSession(userId: string): Promise<ImportSession | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const session = await runRequest<ImportSession | undefined>('imports', 'readonly', store =>
+        store.get(userId)
+      );
+      return session ?? null;
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_get_import' } });
+      return null;
+    }
+  }
+
+  /**
+   * Save an import's progress so it can be resumed
+   */
+  static async saveImportSession(session: ImportSession): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await runRequest('imports', 'readwrite', store => store.put(session));
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_save_import' } });
+    }
+  }
+
+  /**
+   * Forget a user's import once it has finished or been discarded
+   */
+  static async clearImportSession(userId: string): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await runRequest('imports', 'readwrite', store => store.delete(userId));
+    } catch (error) {
+      captureException(error, { tags: { operation: 'offline_clear_import' } });
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { supabase } from './supabase';
+import { SREFCode, SREFCodeService } from './database';
+import {
+  LibraryStore,
+  addTag,
+  hasActiveFilters,
+  removeCode,
+  removeImage,
+  removeTag,
+  upsertCode,
+  upsertImage,
+} from './libraryStore';
+import { captureException } from './sentry';
+
+export type LibraryTable = 'sref_codes' | 'code_images' | 'code_tags';
+
+// Row-level change to a user's library, shaped like a Supabase postgres_changes payload
+export interface LibraryChange {
+  table: LibraryTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, unknown> | null;
+  old: Record<string, unknown> | null;
+}
+
+export type ChangeSourceStatus = 'connected' | 'unavailable';
+
+// Anything that can deliver library changes: Supabase realtime, another tab, or a test
+export interface ChangeSource {
+  subscribe: (
+    userId: string,
+    onChange: (change: LibraryChange) => void,
+    onStatus?: (status: ChangeSourceStatus) => void
+  ) => () => void;
+  /**
+   * Announce a change made by this client to listeners that can't see the database
+   */
+  publish: (userId: string, change: LibraryChange) => void;
+}
+
+const BROADCAST_CHANNEL_NAME = 'smc-manager:library';
+
+/**
+ * Postgres row changes via Supabase realtime. Only sref_codes carries user_id, so
+ * only its rows can be filtered to the user's own on the server. Every write to
+ * images and tags also updates the code they belong to, and that update refetches
+ * the whole code.
+ */
+export const createSupabaseChangeSource = (client = supabase): ChangeSource => ({
+  subscribe: (userId, onChange, onStatus) => {
+    const channel = client
+      .channel(`library:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sref_codes', filter: `user_id=eq.${userId}` },
+        payload =>
+          onChange({
+            table: 'sref_codes',
+            eventType: payload.eventType,
+            new: Object.keys(payload.new).length > 0 ? payload.new : null,
+            old: Object.keys(payload.old).length > 0 ? payload.old : null,
+          })
+      );
+
+    channel.subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        onStatus?.('connected');
+      } else {
+        if (error) {
+          captureException(error, {
+            tags: { operation: 'realtime_subscribe' },
+            user: { id: userId },
+          });
+        }
+        onStatus?.('unavailable');
+      }
+    });
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  },
+  // The database announces its own changes
+  publish: () => {},
+});
+
+/**
+ * Changes relayed between tabs of the same browser. Each tab publishes what it
+ * saved, so the others stay current without a realtime connection.
+ */
+export const createBroadcastChangeSource = (): ChangeSource => {
+  const isSupported = typeof BroadcastChannel !== 'undefined';
+  let sender: BroadcastChannel | null = null;
+
+  return {
+    subscribe: (userId, onChange, onStatus) => {
+      if (!isSupported) {
+        onStatus?.('unavailable');
+        return () => {};
+      }
+
+      const channel = new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+      channel.onmessage = (event: MessageEvent<{ userId: string; change: LibraryChange }>) => {
+        if (event.data?.userId === userId) {
+          onChange(event.data.change);
+        }
+      };
+      onStatus?.('connected');
+
+      return () => channel.close();
+    },
+    publish: (userId, change) => {
+      if (!isSupported) return;
+      sender ??= new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+      sender.postMessage({ userId, change });
+    },
+  };
+};
+
+/**
+ * In-memory source for tests: emit() delivers a change as if it came from another device
+ */
+export const createMemoryChangeSource = (): ChangeSource & {
+  emit: (userId: string, change: LibraryChange) => void;
+} => {
+  const listeners = new Set<{ userId: string; onChange: (change: LibraryChange) => void }>();
+  const emit = (userId: string, change: LibraryChange) =>
+    listeners.forEach(listener => {
+      if (listener.userId === userId) listener.onChange(change);
+    });
+
+  return {
+    subscribe: (userId, onChange, onStatus) => {
+      const listener = { userId, onChange };
+      listeners.add(listener);
+      onStatus?.('connected');
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    publish: emit,
+    emit,
+  };
+};
+
+/**
+ * Supabase realtime, falling back to cross-tab broadcasts while realtime is unavailable
+ */
+export const createLibraryChangeSource = (
+  primary: ChangeSource = createSupabaseChangeSource(),
+  fallback: ChangeSource = createBroadcastChangeSource()
+): ChangeSource => ({
+  subscribe: (userId, onChange, onStatus) => {
+    let stopFallback: (() => void) | null = null;
+
+    const stopPrimary = primary.subscribe(userId, onChange, status => {
+      if (status === 'connected') {
+        stopFallback?.();
+        stopFallback = null;
+      } else if (!stopFallback) {
+        stopFallback = fallback.subscribe(userId, onChange);
+      }
+      onStatus?.(status);
+    });
+
+    return () => {
+      stopPrimary();
+      stopFallback?.();
+    };
+  },
+  publish: (userId, change) => {
+    primary.publish(userId, change);
+    fallback.publish(userId, change);
+  },
+});
+
+// Whole-code change in the shape other tabs can merge without a refetch
+export const codeChange = (
+  eventType: LibraryChange['eventType'],
+  code: Pick<SREFCode, 'id'> & Partial<SREFCode>
+): LibraryChange => ({
+  table: 'sref_codes',
+  eventType,
+  new: eventType === 'DELETE' ? null : code,
+  old: eventType === 'DELETE' ? { id: code.id } : null,
+});
+
+/**
+ * Merge a user's incoming library changes into the store until the returned
+ * function is called. Codes with a local mutation in flight are skipped; that
+ * mutation's own result is authoritative for them.
+ */
+export const subscribeToLibraryChanges = (
+  store: LibraryStore,
+  userId: string,
+  source: ChangeSource
+): (() => void) => {
+  const isCurrentOwner = () => store.getState().ownerId === userId;
+  const isPending = (codeId: string) => codeId in store.getState().pendingById;
+  const hasCode = (codeId: string) => codeId in store.getState().codesById;
+
+  // Realtime DELETE payloads only carry the primary key, so remember which code
+  // and tag each tag row belongs to when it is inserted
+  const tagRows = new Map<string, { codeId: string; tag: string }>();
+
+  // Row changes to sref_codes don't include images and tags; fetch the complete code
+  const refreshCode = (codeId: string) =>
+    store.dedupe(`code:${codeId}`, async () => {
+      const { data, error } = await SREFCodeService.getSREFCodeById(codeId);
+      if (!isCurrentOwner() || isPending(codeId)) return;
+
+      if (data) {
+        store.setState(state => upsertCode(state, data, { prepend: true }));
+      } else if ((error as { code?: string } | null)?.code === 'PGRST116') {
+        store.setState(state => removeCode(state, codeId));
+      }
+    });
+
+  const handleCodeChange = ({ eventType, new: row, old }: LibraryChange) => {
+    const codeId = String((eventType === 'DELETE' ? old?.id : row?.id) ?? '');
+    if (!codeId || isPending(codeId)) return;
+
+    if (eventType === 'DELETE') {
+      store.setState(state => removeCode(state, codeId));
+      return;
+    }
+
+    // A filtered view only shows codes the server matched; don't slip new ones in
+    if (!hasCode(codeId) && hasActiveFilters(store.getState().query)) return;
+
+    if (row && row.user_id === userId && Array.isArray(row.images) && Array.isArray(row.tags)) {
+      store.setState(state => upsertCode(state, row as SREFCode, { prepend: true }));
+    } else if (!row || row.user_id === userId) {
+      refreshCode(codeId);
+    }
+  };
+
+  const handleImageChange = ({ eventType, new: row, old }: LibraryChange) => {
+    if (eventType === 'DELETE') {
+      if (old?.id) store.setState(state => removeImage(state, String(old.id)));
+      return;
+    }
+
+    const image = row as SREFCode['images'][number] | null;
+    if (!image || !hasCode(image.code_id) || isPending(image.code_id)) return;
+    store.setState(state => upsertImage(state, image));
+  };
+
+  const handleTagChange = ({ eventType, new: row, old }: LibraryChange) => {
+    if (eventType === 'DELETE') {
+      const tagRow =
+        old?.code_id && old?.tag
+          ? { codeId: String(old.code_id), tag: String(old.tag) }
+          : tagRows.get(String(old?.id));
+      // Unknown tag rows are covered by the sref_codes update in the same transaction
+      if (!tagRow || isPending(tagRow.codeId)) return;
+
+      tagRows.delete(String(old?.id));
+      store.setState(state => removeTag(state, tagRow.codeId, tagRow.tag));
+      return;
+    }
+
+    if (!row?.code_id || !row.tag) return;
+    const codeId = String(row.code_id);
+    const tag = String(row.tag);
+    if (row.id) tagRows.set(String(row.id), { codeId, tag });
+    if (!hasCode(codeId) || isPending(codeId)) return;
+    store.setState(state => addTag(state, codeId, tag));
+  };
+
+  return source.subscribe(userId, change => {
+    if (!isCurrentOwner()) return;
+
+    switch (change.table) {
+      case 'sref_codes':
+        handleCodeChange(change);
+        break;
+      case 'code_images':
+        handleImageChange(change);
+        break;
+      case 'code_tags':
+        handleTagChange(change);
+        break;
+    }
+  });
+};
@@ -0,0 +1,391 @@
+import { describe, it, expect } from 'vitest';
+import { SREFCode } from './database';
+import { evaluateSearchQuery, parseSearchQuery, toServiceFilters } from './searchQuery';
+
+const code = (overrides: Partial<SREFCode> = {}): SREFCode => ({
+  id: 'sref-1',
+  user_id: 'user-1',
+  code_value: '--sref 1234567890',
+  sv_version: 6,
+  title: 'Neon City Nights',
+  notes: 'Pairs well with rainy streets',
+  copy_count: 0,
+  upvotes: 0,
+  downvotes: 0,
+  save_count: 0,
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-15T12:00:00Z',
+  images: [],
+  tags: ['neon', 'cyberpunk'],
+  ...overrides,
+});
+
+describe('parseSearchQuery', () => {
+  describe('plain text', () => {
+    it('should return no tree for an empty query', () => {
+      expect(parseSearchQuery('   ')).toEqual({ ast: null, errors: [] });
+    });
+
+    it('should parse a single word as text', () => {
+      expect(parseSearchQuery('neon').ast).toEqual({ type: 'text', value: 'neon', phrase: false });
+    });
+
+    it('should AND words next to each other', () => {
+      expect(parseSearchQuery('neon city').ast).toEqual({
+        type: 'and',
+        children: [
+          { type: 'text', value: 'neon', phrase: false },
+          { type: 'text', value: 'city', phrase: false },
+        ],
+      });
+    });
+
+    it('should parse a quoted phrase', () => {
+      expect(parseSearchQuery('"city nights"').ast).toEqual({
+        type: 'text',
+        value: 'city nights',
+        phrase: true,
+      });
+    });
+
+    it('should report a missing closing quote and keep the phrase', () => {
+      const result = parseSearchQuery('"city nights');
+
+      expect(result.ast).toEqual({ type: 'text', value: 'city nights', phrase: true });
+      expect(result.errors).toEqual([{ message: 'Missing closing quote', start: 0, end: 12 }]);
+    });
+  });
+
+  describe('fields', () => {
+    it('should parse tag filters, with * as a prefix match', () => {
+      expect(parseSearchQuery('tag:neon').ast).toEqual({
+        type: 'tag',
+        value: 'neon',
+        prefix: false,
+      });
+      expect(parseSearchQuery('tag:cyber*').ast).toEqual({
+        type: 'tag',
+        value: 'cyber',
+        prefix: true,
+      });
+    });
+
+    it('should accept quoted tag values', () => {
+      expect(parseSearchQuery('tag:"dark fantasy"').ast).toEqual({
+        type: 'tag',
+        value: 'dark fantasy',
+        prefix: false,
+      });
+    });
+
+    it('should parse sv versions with or without the SV prefix', () => {
+      expect(parseSearchQuery('sv:6').ast).toEqual({ type: 'version', value: 6 });
+      expect(parseSearchQuery('sv:SV4').ast).toEqual({ type: 'version', value: 4 });
+    });
+
+    it('should reject unsupported sv versions', () => {
+      const result = parseSearchQuery('sv:5');
+
+      expect(result.ast).toBeNull();
+      expect(result.errors).toEqual([{ message: 'sv: must be 4 or 6', start: 0, end: 4 }]);
+    });
+
+    it('should parse code filters, with * as a prefix match', () => {
+      expect(parseSearchQuery('code:1234*').ast).toEqual({
+        type: 'code',
+        value: '1234',
+        prefix: true,
+      });
+      expect(parseSearchQuery('code:1234567890').ast).toEqual({
+        type: 'code',
+        value: '1234567890',
+        prefix: false,
+      });
+    });
+
+    it('should parse created dates with comparison operators', () => {
+      expect(parseSearchQuery('created:>2025-01-01').ast).toEqual({
+        type: 'created',
+        operator: '>',
+        value: '2025-01-01',
+      });
+      expect(parseSearchQuery('created:2025-01-01').ast).toEqual({
+        type: 'created',
+        operator: '=',
+        value: '2025-01-01',
+      });
+    });
+
+    it('should reject dates that do not exist', () => {
+      expect(parseSearchQuery('created:2025-02-30').errors).toHaveLength(1);
+      expect(parseSearchQuery('created:yesterday').errors).toHaveLength(1);
+    });
+
+    it('should parse image counts', () => {
+      expect(parseSearchQuery('images:0').ast).toEqual({
+        type: 'images',
+        operator: '=',
+        value: 0,
+      });
+      expect(parseSearchQuery('images:>=2').ast).toEqual({
+        type: 'images',
+        operator: '>=',
+        value: 2,
+      });
+    });
+
+    it('should report unknown fields with their position and keep the rest', () => {
+      const result = parseSearchQuery('neon color:red');
+
+      expect(result.ast).toEqual({ type: 'text', value: 'neon', phrase: false });
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({ start: 5, end: 14 });
+      expect(result.errors[0].message).toContain('Unknown filter "color:"');
+    });
+
+    it('should report fields without a value', () => {
+      expect(parseSearchQuery('tag:').errors).toEqual([
+        { message: 'tag: needs a value', start: 0, end: 4 },
+      ]);
+    });
+  });
+
+  describe('negation and OR groups', () => {
+    it('should negate a term with a leading minus', () => {
+      expect(parseSearchQuery('-tag:dark').ast).toEqual({
+        type: 'not',
+        child: { type: 'tag', value: 'dark', prefix: false },
+      });
+    });
+
+    it('should not treat a lone minus or -- as negation', () => {
+      expect(parseSearchQuery('- neon').ast).toEqual({
+        type: 'text',
+        value: 'neon',
+        phrase: false,
+      });
+      expect(parseSearchQuery('--sref').ast).toEqual({
+        type: 'text',
+        value: '--sref',
+        phrase: false,
+      });
+    });
+
+    it('should join groups with OR, binding looser than AND', () => {
+      expect(parseSearchQuery('tag:neon sv:6 OR tag:pastel').ast).toEqual({
+        type: 'or',
+        children: [
+          {
+            type: 'and',
+            children: [
+              { type: 'tag', value: 'neon', prefix: false },
+              { type: 'version', value: 6 },
+            ],
+          },
+          { type: 'tag', value: 'pastel', prefix: false },
+        ],
+      });
+    });
+
+    it('should group with parentheses', () => {
+      expect(parseSearchQuery('sv:6 (tag:neon OR tag:pastel)').ast).toEqual({
+        type: 'and',
+        children: [
+          { type: 'version', value: 6 },
+          {
+            type: 'or',
+            children: [
+              { type: 'tag', value: 'neon', prefix: false },
+              { type: 'tag', value: 'pastel', prefix: false },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should negate a group', () => {
+      expect(parseSearchQuery('-(tag:dark OR tag:gothic)').ast).toEqual({
+        type: 'not',
+        child: {
+          type: 'or',
+          children: [
+            { type: 'tag', value: 'dark', prefix: false },
+            { type: 'tag', value: 'gothic', prefix: false },
+          ],
+        },
+      });
+    });
+
+    it('should report OR without a term on both sides', () => {
+      const result = parseSearchQuery('neon OR');
+
+      expect(result.ast).toEqual({ type: 'text', value: 'neon', phrase: false });
+      expect(result.errors).toEqual([
+        { message: 'OR needs a search term on both sides', start: 5, end: 7 },
+      ]);
+    });
+
+    it('should report unbalanced parentheses', () => {
+      expect(parseSearchQuery('(neon').errors).toEqual([
+        { message: 'Missing closing parenthesis', start: 0, end: 1 },
+      ]);
+      expect(parseSearchQuery('neon) city').errors).toEqual([
+        { message: 'Unmatched closing parenthesis', start: 4, end: 5 },
+      ]);
+      expect(parseSearchQuery('neon) city').ast).toEqual({
+        type: 'and',
+        children: [
+          { type: 'text', value: 'neon', phrase: false },
+          { type: 'text', value: 'city', phrase: false },
+        ],
+      });
+    });
+
+    it('should treat lowercase or as a word', () => {
+      expect(parseSearchQuery('neon or city').ast).toMatchObject({
+        type: 'and',
+        children: [{ value: 'neon' }, { value: 'or' }, { value: 'city' }],
+      });
+    });
+  });
+});
+
+describe('evaluateSearchQuery', () => {
+  const matches = (query: string, target = code()) =>
+    evaluateSearchQuery(parseSearchQuery(query).ast, target);
+
+  it('should match everything without a query', () => {
+    expect(matches('')).toBe(true);
+  });
+
+  it('should match words as prefixes across title, code, tags and notes', () => {
+    expect(matches('neo nigh')).toBe(true);
+    expect(matches('cyber')).toBe(true);
+    expect(matches('rainy')).toBe(true);
+    expect(matches('1234')).toBe(true);
+    expect(matches('desert')).toBe(false);
+  });
+
+  it('should match phrases only when the words are adjacent', () => {
+    expect(matches('"city nights"')).toBe(true);
+    expect(matches('"nights city"')).toBe(false);
+  });
+
+  it('should match tags exactly or by prefix', () => {
+    expect(matches('tag:neon')).toBe(true);
+    expect(matches('tag:neo')).toBe(false);
+    expect(matches('tag:neo*')).toBe(true);
+  });
+
+  it('should match every tag below a namespace', () => {
+    const nested = code({ tags: ['medium/watercolor'] });
+
+    expect(matches('tag:medium', nested)).toBe(true);
+    expect(matches('tag:medium/watercolor', nested)).toBe(true);
+    expect(matches('tag:medium/ink', nested)).toBe(false);
+    expect(matches('-tag:medium', nested)).toBe(false);
+  });
+
+  it('should exclude negated terms', () => {
+    expect(matches('-tag:dark')).toBe(true);
+    expect(matches('-tag:neon')).toBe(false);
+  });
+
+  it('should match versions', () => {
+    expect(matches('sv:6')).toBe(true);
+    expect(matches('sv:4')).toBe(false);
+  });
+
+  it('should match code numbers exactly or by prefix', () => {
+    expect(matches('code:1234*')).toBe(true);
+    expect(matches('code:1234')).toBe(false);
+    expect(matches('code:1234567890')).toBe(true);
+  });
+
+  it('should compare creation dates by calendar day', () => {
+    expect(matches('created:2025-03-15')).toBe(true);
+    expect(matches('created:>2025-01-01')).toBe(true);
+    expect(matches('created:>2025-03-15')).toBe(false);
+    expect(matches('created:<=2025-03-15')).toBe(true);
+  });
+
+  it('should compare image counts', () => {
+    expect(matches('images:0')).toBe(true);
+    const withImages = code({
+      images: [
+        {
+          id: 'image-1',
+          code_id: 'sref-1',
+          image_url: 'https://example.com/1.jpg',
+          position: 0,
+          created_at: '2025-03-15T12:00:00Z',
+        },
+      ],
+    });
+    expect(matches('images:0', withImages)).toBe(false);
+    expect(matches('images:>0', withImages)).toBe(true);
+  });
+
+  it('should match either side of OR', () => {
+    expect(matches('tag:pastel OR sv:6')).toBe(true);
+    expect(matches('tag:pastel OR sv:4')).toBe(false);
+  });
+});
+
+describe('toServiceFilters', () => {
+  const translate = (query: string) => toServiceFilters(parseSearchQuery(query).ast);
+
+  it('should return no filters for an empty query', () => {
+    expect(translate('')).toEqual({ filters: {}, exact: true });
+  });
+
+  it('should send words, tags, version and dates to the service exactly', () => {
+    expect(translate('neon city tag:cyberpunk sv:6 created:>=2025-01-01')).toEqual({
+      filters: {
+        query: 'neon city',
+        tags: ['cyberpunk'],
+        tagMode: 'all',
+        svVersion: 6,
+        createdFrom: '2025-01-01',
+      },
+      exact: true,
+    });
+  });
+
+  it('should turn date comparisons into an inclusive start and exclusive end', () => {
+    expect(translate('created:2025-01-31').filters).toEqual({
+      createdFrom: '2025-01-31',
+      createdUntil: '2025-02-01',
+    });
+    expect(translate('created:>2025-01-31').filters).toEqual({ createdFrom: '2025-02-01' });
+    expect(translate('created:<2025-01-31').filters).toEqual({ createdUntil: '2025-01-31' });
+    expect(translate('created:<=2025-01-31').filters).toEqual({ createdUntil: '2025-02-01' });
+  });
+
+  it('should narrow the service search and leave the rest to the evaluator', () => {
+    expect(translate('code:1234* "city nights" tag:cyber*')).toEqual({
+      filters: { query: '1234 city nights cyber' },
+      exact: false,
+    });
+  });
+
+  it('should require every tag and exclude negated tags', () => {
+    expect(translate('tag:neon tag:cyberpunk -tag:dark')).toEqual({
+      filters: { tags: ['neon', 'cyberpunk'], tagMode: 'all', excludedTags: ['dark'] },
+      exact: true,
+    });
+  });
+
+  it('should not send OR groups, negated text or image counts to the service', () => {
+    expect(translate('neon -city')).toEqual({ filters: { query: 'neon' }, exact: false });
+    expect(translate('neon images:0')).toEqual({ filters: { query: 'neon' }, exact: false });
+    expect(translate('tag:neon OR tag:pastel')).toEqual({ filters: {}, exact: false });
+  });
+
+  it('should skip text without any searchable characters', () => {
+    expect(translate('-- --sref 1234')).toEqual({
+      filters: { query: '--sref 1234' },
+      exact: true,
+    });
+  });
+});
@@ -0,0 +1,418 @@
+import { SREFCode, SREFCodeFilters } from './database';
+import { matchesSearchQuery } from './libraryStore';
+import { isTagWithin } from './tagTree';
+
+export type SearchComparison = '=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Parsed library search. Terms next to each other are AND-ed, `OR` joins the
+ * groups on either side of it, and a leading `-` negates a term or group.
+ */
+export type SearchNode =
+  | { type: 'text'; value: string; phrase: boolean }
+  | { type: 'tag'; value: string; prefix: boolean }
+  | { type: 'version'; value: number }
+  | { type: 'code'; value: string; prefix: boolean }
+  | { type: 'created'; operator: SearchComparison; value: string }
+  | { type: 'images'; operator: SearchComparison; value: number }
+  | { type: 'not'; child: SearchNode }
+  | { type: 'and'; children: SearchNode[] }
+  | { type: 'or'; children: SearchNode[] };
+
+// Part of the query that could not be understood; start and end are offsets into it
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  // null when there is nothing to filter by
+  ast: SearchNode | null;
+  errors: SearchQueryError[];
+}
+
+export interface SearchServiceFilters {
+  filters: SREFCodeFilters;
+  // False when the filters only narrow the results down and evaluateSearchQuery has to finish the job
+  exact: boolean;
+}
+
+type Token =
+  | { kind: 'open'; negated: boolean; start: number; end: number }
+  | { kind: 'close'; start: number; end: number }
+  | { kind: 'or'; start: number; end: number }
+  | {
+      kind: 'term';
+      negated: boolean;
+      field: string | null;
+      value: string;
+      quoted: boolean;
+      start: number;
+      end: number;
+    };
+
+type TermToken = Extract<Token, { kind: 'term' }>;
+
+export const SEARCH_FIELDS = ['tag', 'sv', 'code', 'created', 'images'] as const;
+
+const FIELD_PATTERN = /^([a-z]+):/i;
+const DATE_COMPARISON_PATTERN = /^(>=|<=|>|<)?(\d{4}-\d{2}-\d{2})$/;
+const NUMBER_COMPARISON_PATTERN = /^(>=|<=|>|<)?(\d+)$/;
+const WORD_CHARACTER_PATTERN = /[\p{L}\p{N}]/u;
+
+const tokenize = (input: string, errors: SearchQueryError[]): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    // A minus directly before a term negates it; -- (as in --sref) is just text
+    const negated = input[index] === '-' && /[^\s-]/.test(input[index + 1] ?? '');
+    if (negated) index++;
+
+    if (input[index] === '(') {
+      tokens.push({ kind: 'open', negated, start, end: ++index });
+      continue;
+    }
+    if (!negated && input[index] === ')') {
+      tokens.push({ kind: 'close', start, end: ++index });
+      continue;
+    }
+
+    let field: string | null = null;
+    const fieldMatch = FIELD_PATTERN.exec(input.slice(index));
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      index += fieldMatch[0].length;
+    }
+
+    let value: string;
+    const quoted = input[index] === '"';
+    if (quoted) {
+      const closingQuote = input.indexOf('"', index + 1);
+      if (closingQuote === -1) {
+        errors.push({ message: 'Missing closing quote', start, end: input.length });
+        value = input.slice(index + 1);
+        index = input.length;
+      } else {
+        value = input.slice(index + 1, closingQuote);
+        index = closingQuote + 1;
+      }
+    } else {
+      const valueStart = index;
+      while (index < input.length && !/[\s()]/.test(input[index])) index++;
+      value = input.slice(valueStart, index);
+    }
+
+    if (!negated && !field && !quoted && value === 'OR') {
+      tokens.push({ kind: 'or', start, end: index });
+    } else {
+      tokens.push({ kind: 'term', negated, field, value, quoted, start, end: index });
+    }
+  }
+
+  return tokens;
+};
+
+// Rejects impossible dates like 2025-02-30, which Date would roll over into March
+const isCalendarDate = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(day.getTime()) && day.toISOString().startsWith(date);
+};
+
+const buildTerm = (token: TermToken, errors: SearchQueryError[]): SearchNode | null => {
+  const fail = (message: string) => {
+    errors.push({ message, start: token.start, end: token.end });
+    return null;
+  };
+
+  const buildNode = (): SearchNode | null => {
+    const { field, value, quoted } = token;
+
+    // Punctuation on its own, like the -- in --sref, has nothing to match
+    if (field === null) {
+      return WORD_CHARACTER_PATTERN.test(value) ? { type: 'text', value, phrase: quoted } : null;
+    }
+    if (!value) {
+      return fail(`${field}: needs a value`);
+    }
+
+    switch (field) {
+      case 'tag': {
+        const prefix = !quoted && value.endsWith('*') && value.length > 1;
+        return { type: 'tag', value: prefix ? value.slice(0, -1) : value, prefix };
+      }
+      case 'sv': {
+        const match = /^(?:sv)?([46])$/i.exec(value);
+        return match ? { type: 'version', value: Number(match[1]) } : fail('sv: must be 4 or 6');
+      }
+      case 'code': {
+        const match = /^(\d+)(\*)?$/.exec(value);
+        return match
+          ? { type: 'code', value: match[1], prefix: Boolean(match[2]) }
+          : fail('code: must be digits, optionally ending in *');
+      }
+      case 'created': {
+        const match = DATE_COMPARISON_PATTERN.exec(value);
+        if (!match || !isCalendarDate(match[2])) {
+          return fail('created: must be a date like 2025-01-01, optionally after >, >=, < or <=');
+        }
+        return {
+          type: 'created',
+          operator: (match[1] as SearchComparison | undefined) ?? '=',
+          value: match[2],
+        };
+      }
+      case 'images': {
+        const match = NUMBER_COMPARISON_PATTERN.exec(value);
+        return match
+          ? {
+              type: 'images',
+              operator: (match[1] as SearchComparison | undefined) ?? '=',
+              value: Number(match[2]),
+            }
+          : fail('images: must be a number, optionally after >, >=, < or <=');
+      }
+      default:
+        return fail(
+          `Unknown filter "${field}:". Try ${SEARCH_FIELDS.map(name => `${name}:`).join(', ')}`
+        );
+    }
+  };
+
+  const node = buildNode();
+  return node && token.negated ? { type: 'not', child: node } : node;
+};
+
+// Collapse a list of operands, flattening nested groups of the same kind
+const combine = (type: 'and' | 'or', nodes: SearchNode[]): SearchNode | null => {
+  const children = nodes.flatMap(node => (node.type === type ? node.children : [node]));
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+};
+
+/**
+ * Parse a library search such as `neon tag:city -tag:dark sv:6 (code:12* OR "exact phrase")`.
+ * Parts that can't be understood are reported as errors and left out of the tree,
+ * so the rest of the query still applies.
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const errors: SearchQueryError[] = [];
+  const tokens = tokenize(input, errors);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const parseOr = (): SearchNode | null => {
+    const operands: SearchNode[] = [];
+    let operand = parseAnd();
+    if (operand) operands.push(operand);
+
+    while (peek()?.kind === 'or') {
+      const token = tokens[position++];
+      const next = parseAnd();
+      if (!operand || !next) {
+        errors.push({
+          message: 'OR needs a search term on both sides',
+          start: token.start,
+          end: token.end,
+        });
+      }
+      if (next) operands.push(next);
+      operand = next;
+    }
+
+    return combine('or', operands);
+  };
+
+  const parseAnd = (): SearchNode | null => {
+    const operands: SearchNode[] = [];
+    while (position < tokens.length && peek().kind !== 'or' && peek().kind !== 'close') {
+      const operand = parseOperand();
+      if (operand) operands.push(operand);
+    }
+    return combine('and', operands);
+  };
+
+  const parseOperand = (): SearchNode | null => {
+    const token = tokens[position++];
+
+    if (token.kind === 'term') {
+      return buildTerm(token, errors);
+    }
+
+    // parseAnd stops at OR and ), so anything else is an opening parenthesis
+    if (token.kind !== 'open') return null;
+    const group = parseOr();
+    if (peek()?.kind === 'close') {
+      position++;
+    } else {
+      errors.push({ message: 'Missing closing parenthesis', start: token.start, end: token.end });
+    }
+    if (!group) return null;
+    return token.negated ? { type: 'not', child: group } : group;
+  };
+
+  const groups: SearchNode[] = [];
+  let group = parseOr();
+  if (group) groups.push(group);
+
+  // Only an unmatched ) can stop the top level early; report it and keep going
+  while (position < tokens.length) {
+    const token = tokens[position++];
+    errors.push({ message: 'Unmatched closing parenthesis', start: token.start, end: token.end });
+    group = parseOr();
+    if (group) groups.push(group);
+  }
+
+  return { ast: combine('and', groups), errors };
+};
+
+const compare = <T extends number | string>(actual: T, operator: SearchComparison, expected: T) => {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+const searchableFields = (code: SREFCode) => [
+  code.title,
+  code.code_value,
+  ...code.tags,
+  code.notes ?? '',
+];
+
+const normalizePhrase = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Whether a code matches a parsed search. Dates are compared as UTC calendar days,
+ * like created_at on the server.
+ */
+export const evaluateSearchQuery = (node: SearchNode | null, code: SREFCode): boolean => {
+  if (!node) return true;
+
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => evaluateSearchQuery(child, code));
+    case 'or':
+      return node.children.some(child => evaluateSearchQuery(child, code));
+    case 'not':
+      return !evaluateSearchQuery(node.child, code);
+    case 'text':
+      return node.phrase
+        ? normalizePhrase(searchableFields(code).join(' ')).includes(normalizePhrase(node.value))
+        : matchesSearchQuery(searchableFields(code), node.value);
+    case 'tag':
+      return code.tags.some(tag =>
+        node.prefix ? tag.startsWith(node.value) : isTagWithin(tag, node.value)
+      );
+    case 'version':
+      return code.sv_version === node.value;
+    case 'code':
+      return (code.code_value.match(/\d+/g) ?? []).some(number =>
+        node.prefix ? number.startsWith(node.value) : number === node.value
+      );
+    case 'created':
+      return compare(code.created_at.slice(0, 10), node.operator, node.value);
+    case 'images':
+      return compare(code.images.length, node.operator, node.value);
+  }
+};
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+/**
+ * Translate a parsed search into SREFCodeService filters. Only top-level AND-ed
+ * terms the service can express are sent; everything else (OR groups, negated
+ * text, image counts, phrases) is left to evaluateSearchQuery and reported as inexact.
+ */
+export const toServiceFilters = (node: SearchNode | null): SearchServiceFilters => {
+  const filters: SREFCodeFilters = {};
+  const terms: string[] = [];
+  let exact = true;
+
+  const narrowCreated = (from?: string, until?: string) => {
+    if (from && (!filters.createdFrom || from > filters.createdFrom)) filters.createdFrom = from;
+    if (until && (!filters.createdUntil || until < filters.createdUntil)) {
+      filters.createdUntil = until;
+    }
+  };
+
+  const clauses = !node ? [] : node.type === 'and' ? node.children : [node];
+  clauses.forEach(clause => {
+    switch (clause.type) {
+      case 'text':
+        // Full-text search matches the words; a phrase also needs them in order
+        terms.push(clause.value);
+        if (clause.phrase) exact = false;
+        break;
+      case 'tag':
+        // Every tag: term has to match, so exact tags are sent in 'all' mode
+        if (clause.prefix) {
+          terms.push(clause.value);
+          exact = false;
+        } else {
+          filters.tags = [...(filters.tags ?? []), clause.value];
+          filters.tagMode = 'all';
+        }
+        break;
+      case 'not':
+        if (clause.child.type === 'tag' && !clause.child.prefix) {
+          filters.excludedTags = [...(filters.excludedTags ?? []), clause.child.value];
+        } else {
+          exact = false;
+        }
+        break;
+      case 'version':
+        if (filters.svVersion !== undefined && filters.svVersion !== clause.value) exact = false;
+        filters.svVersion ??= clause.value;
+        break;
+      case 'code':
+        terms.push(clause.value);
+        exact = false;
+        break;
+      case 'created':
+        switch (clause.operator) {
+          case '>':
+            narrowCreated(nextDay(clause.value));
+            break;
+          case '>=':
+            narrowCreated(clause.value);
+            break;
+          case '<':
+            narrowCreated(undefined, clause.value);
+            break;
+          case '<=':
+            narrowCreated(undefined, nextDay(clause.value));
+            break;
+          default:
+            narrowCreated(clause.value, nextDay(clause.value));
+        }
+        break;
+      default:
+        exact = false;
+    }
+  });
+
+  if (terms.length > 0) filters.query = terms.join(' ');
+  return { filters, exact };
+};
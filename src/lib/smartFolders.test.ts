@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Folder } from './database';
+import { combineFilters, getSmartFolderCriteria, toSmartFolderCriteria } from './smartFolders';
+
+const folder = (overrides: Partial<Folder>): Folder => ({
+  id: 'folder-1',
+  user_id: 'user-1',
+  name: 'Neon',
+  parent_id: null,
+  is_smart: true,
+  search_criteria: null,
+  created_at: '2025-03-15T12:00:00Z',
+  updated_at: '2025-03-15T12:00:00Z',
+  ...overrides,
+});
+
+describe('getSmartFolderCriteria', () => {
+  it('should read the criteria of a smart folder', () => {
+    const criteria = getSmartFolderCriteria(
+      folder({ search_criteria: { tags: ['neon'], tagMode: 'all', minImages: 2 } })
+    );
+
+    expect(criteria).toEqual({ tags: ['neon'], tagMode: 'all', minImages: 2 });
+  });
+
+  it('should ignore regular folders and criteria that no longer validate', () => {
+    expect(
+      getSmartFolderCriteria(folder({ is_smart: false, search_criteria: { query: 'a' } }))
+    ).toBe(null);
+    expect(getSmartFolderCriteria(folder({ search_criteria: { svVersion: 5 } }))).toBe(null);
+  });
+});
+
+describe('toSmartFolderCriteria', () => {
+  it('should keep the filters a smart folder can store', () => {
+    expect(
+      toSmartFolderCriteria({
+        query: ' city ',
+        tags: ['neon'],
+        excludedTags: [],
+        svVersion: 6,
+        createdFrom: '2025-01-01',
+        folderId: 'folder-2',
+      })
+    ).toEqual({
+      query: 'city',
+      tags: ['neon'],
+      tagMode: 'any',
+      svVersion: 6,
+      createdFrom: '2025-01-01',
+    });
+  });
+});
+
+describe('combineFilters', () => {
+  it('should narrow to both the search and the criteria', () => {
+    expect(
+      combineFilters(
+        { query: 'city', excludedTags: ['dark'], createdFrom: '2025-01-01', minImages: 1 },
+        {
+          query: 'neon',
+          excludedTags: ['blurry'],
+          createdFrom: '2024-06-01',
+          createdUntil: '2025-06-01',
+          minImages: 2,
+        }
+      )
+    ).toEqual({
+      query: 'neon city',
+      excludedTags: ['blurry', 'dark'],
+      createdFrom: '2025-01-01',
+      createdUntil: '2025-06-01',
+      minImages: 2,
+    });
+  });
+
+  it('should merge tags when both need every tag', () => {
+    expect(
+      combineFilters({ tags: ['city'], tagMode: 'all' }, { tags: ['neon'], tagMode: 'all' })
+    ).toEqual({ tags: ['neon', 'city'], tagMode: 'all' });
+  });
+
+  it('should keep the search tags when the two tag filters cannot be merged', () => {
+    expect(
+      combineFilters({ tags: ['city'], tagMode: 'any' }, { tags: ['neon'], tagMode: 'all' })
+    ).toEqual({ tags: ['city'], tagMode: 'any' });
+    expect(combineFilters({}, { tags: ['neon'], tagMode: 'any' })).toEqual({
+      tags: ['neon'],
+      tagMode: 'any',
+    });
+  });
+});
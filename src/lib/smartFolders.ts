@@ -0,0 +1,77 @@
+import { Folder, SREFCodeFilters } from './database';
+import { SmartFolderCriteria, smartFolderCriteriaSchema } from '../schemas/srefValidation';
+
+// A smart folder's criteria, or null for regular folders and criteria that no
+// longer validate
+export const getSmartFolderCriteria = (folder: Folder): SmartFolderCriteria | null => {
+  if (!folder.is_smart) return null;
+  const result = smartFolderCriteriaSchema.safeParse(folder.search_criteria);
+  return result.success ? result.data : null;
+};
+
+// Criteria worth saving from the current library filters; folders aren't part of them
+export const toSmartFolderCriteria = ({
+  folderId: _folderId,
+  ...filters
+}: SREFCodeFilters): SmartFolderCriteria => {
+  const criteria: SmartFolderCriteria = {};
+  if (filters.query?.trim()) criteria.query = filters.query.trim();
+  if (filters.tags?.length) {
+    criteria.tags = filters.tags;
+    criteria.tagMode = filters.tagMode ?? 'any';
+  }
+  if (filters.excludedTags?.length) criteria.excludedTags = filters.excludedTags;
+  if (filters.svVersion === 4 || filters.svVersion === 6) criteria.svVersion = filters.svVersion;
+  if (filters.createdFrom) criteria.createdFrom = filters.createdFrom.slice(0, 10);
+  if (filters.createdUntil) criteria.createdUntil = filters.createdUntil.slice(0, 10);
+  if (filters.minImages !== undefined) criteria.minImages = filters.minImages;
+  if (filters.maxImages !== undefined) criteria.maxImages = filters.maxImages;
+  return criteria;
+};
+
+const later = (a?: string, b?: string) => (a && b ? (a > b ? a : b) : (a ?? b));
+const earlier = (a?: string, b?: string) => (a && b ? (a < b ? a : b) : (a ?? b));
+
+/**
+ * Service filters for searching inside a smart folder. Text, exclusions, dates and
+ * image counts narrow to both; when both sides filter on tags and they can't be
+ * expressed as one filter, the search's tags win. Callers still check the criteria
+ * with matchesFilters to drop anything the combined filter let through.
+ */
+export const combineFilters = (
+  filters: SREFCodeFilters,
+  criteria: SmartFolderCriteria
+): SREFCodeFilters => {
+  const combined: SREFCodeFilters = { ...criteria, ...filters };
+
+  const query = [criteria.query, filters.query].filter(Boolean).join(' ');
+  if (query) combined.query = query;
+
+  if (filters.tags?.length && criteria.tags?.length) {
+    const bothAll = filters.tagMode === 'all' && criteria.tagMode === 'all';
+    if (bothAll) combined.tags = [...new Set([...criteria.tags, ...filters.tags])];
+  } else if (criteria.tags?.length) {
+    combined.tags = criteria.tags;
+    combined.tagMode = criteria.tagMode;
+  }
+
+  const excludedTags = [
+    ...new Set([...(criteria.excludedTags ?? []), ...(filters.excludedTags ?? [])]),
+  ];
+  if (excludedTags.length > 0) combined.excludedTags = excludedTags;
+
+  combined.createdFrom = later(criteria.createdFrom, filters.createdFrom);
+  combined.createdUntil = earlier(criteria.createdUntil, filters.createdUntil);
+
+  if (criteria.minImages !== undefined && filters.minImages !== undefined) {
+    combined.minImages = Math.max(criteria.minImages, filters.minImages);
+  }
+  if (criteria.maxImages !== undefined && filters.maxImages !== undefined) {
+    combined.maxImages = Math.min(criteria.maxImages, filters.maxImages);
+  }
+
+  // Leave unset filters out rather than undefined, so queries compare cleanly
+  return Object.fromEntries(
+    Object.entries(combined).filter(([, value]) => value !== undefined)
+  ) as SREFCodeFilters;
+};
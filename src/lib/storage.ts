@@ -155,6 +155,102 @@ export class StorageService {
     }
   }
 
+  /**
+   * Download an image by its URL. Images in our bucket are read through storage;
+   * anything else (e.g. codes imported with outside URLs) is fetched directly.
+   */
+  static async downloadImage(url: string): Promise<{ data: Blob | null; error: string | null }> {
+    try {
+      const filename = this.getBucketPath(url);
+
+      if (filename === null) {
+        const response = await fetch(url);
+        if (!response.ok) {
+          return {
+            data: null,
+            error: `Download failed: ${response.status} ${response.statusText}`,
+          };
+        }
+        return { data: await response.blob(), error: null };
+      }
+
+      const { data, error } = await supabase.storage
+        .from(STORAGE_CONFIG.bucketName)
+        .download(filename);
+
+      if (error) {
+        captureException(error, {
+          tags: { operation: 'download_image' },
+          extra: { filename },
+        });
+        return { data: null, error: `Download failed: ${error.message}` };
+      }
+
+      return { data, error: null };
+    } catch (error: unknown) {
+      captureException(error, {
+        tags: { operation: 'download_image' },
+        extra: { url },
+      });
+      return { data: null, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Copy an image from another user's folder in our bucket into the given user's
+   * folder, so it outlives the original. Resolves to the URL to use: the copy, or
+   * the URL itself for images already in the user's folder or stored elsewhere.
+   */
+  static async copyImage(
+    url: string,
+    userId: string
+  ): Promise<{ data: string | null; error: string | null }> {
+    const path = this.getBucketPath(url);
+    if (path === null || path.startsWith(`${userId}/`)) {
+      return { data: url, error: null };
+    }
+
+    const { data: image, error: downloadError } = await this.downloadImage(url);
+    if (!image) return { data: null, error: downloadError ?? 'Download failed' };
+
+    const { data, error } = await this.uploadImage(
+      new File([image], path.split('/').pop() ?? 'image', { type: image.type }),
+      userId
+    );
+    return data ? { data: data.url, error: null } : { data: null, error };
+  }
+
+  /**
+   * Copy a code's images with copyImage, keeping their order. If any copy fails,
+   * the copies already made are deleted again and nothing is returned.
+   */
+  static async copyImages(
+    urls: string[],
+    userId: string
+  ): Promise<{ data: string[] | null; error: string | null }> {
+    const copies = await Promise.all(urls.map(url => this.copyImage(url, userId)));
+    const failedCopy = copies.find(copy => !copy.data);
+    const copiedUrls = copies.map((copy, index) => copy.data ?? urls[index]);
+
+    if (failedCopy) {
+      await this.removeCopies(urls, copiedUrls);
+      return { data: null, error: failedCopy.error };
+    }
+    return { data: copiedUrls, error: null };
+  }
+
+  /**
+   * Delete the files copyImages made, e.g. when the code they were copied for
+   * couldn't be saved. URLs it returned unchanged are left alone.
+   */
+  static async removeCopies(urls: string[], copiedUrls: string[]): Promise<void> {
+    const paths = copiedUrls.flatMap((copy, index) => {
+      const path = copy === urls[index] ? null : this.getBucketPath(copy);
+      return path === null ? [] : [path];
+    });
+    await Promise.all(paths.map(path => this.deleteImage(path)));
+  }
+
   /**
    * Get optimized image URL with transformations
    */
@@ -177,6 +273,16 @@ export class StorageService {
     return data.publicUrl;
   }
 
+  /**
+   * Path of an image within our bucket, or null for images stored elsewhere
+   */
+  private static getBucketPath(url: string): string | null {
+    const marker = `/storage/v1/object/public/${STORAGE_CONFIG.bucketName}/`;
+    const markerIndex = url.indexOf(marker);
+    if (markerIndex === -1) return null;
+    return decodeURIComponent(url.slice(markerIndex + marker.length).split('?')[0]);
+  }
+
   /**
    * Validate file before upload
    */
@@ -0,0 +1,150 @@
+import { SREFCode, SREFCodeService } from './database';
+import { OfflineCache, QueuedChange, QueuedMutation } from './offlineCache';
+import { captureException } from './sentry';
+
+// Queued mutation that was not applied because the code changed on the server meanwhile
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  serverCode: SREFCode | null;
+  reason: 'modified' | 'deleted';
+}
+
+export interface SyncReport {
+  applied: number;
+  conflicts: SyncConflict[];
+  failed: QueuedMutation[];
+  // Mutations left in the queue because the connection dropped mid-replay
+  remaining: number;
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+export class SyncQueue {
+  /**
+   * Queue a mutation made while offline
+   */
+  static async enqueue(
+    mutation: { userId: string; codeId: string } & QueuedChange
+  ): Promise<boolean> {
+    return OfflineCache.queueMutation({
+      ...mutation,
+      id: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Number of mutations waiting to be replayed for a user
+   */
+  static async count(userId: string): Promise<number> {
+    return (await OfflineCache.getQueuedMutations(userId)).length;
+  }
+
+  /**
+   * Replay a user's queued mutations in order through SREFCodeService.
+   *
+   * Updates and deletes carry the updated_at of the version they were made
+   * against; if the server copy has moved on since, the mutation is dropped
+   * and reported as a conflict so the newer server version wins.
+   */
+  static async replay(userId: string): Promise<SyncReport> {
+    const mutations = await OfflineCache.getQueuedMutations(userId);
+    const report: SyncReport = { applied: 0, conflicts: [], failed: [], remaining: 0 };
+
+    // Placeholder ids of codes created offline, mapped to their saved ids
+    const savedIds = new Map<string, string>();
+    // updated_at of codes this replay has already written, so follow-up edits don't conflict
+    const knownVersions = new Map<string, string>();
+    // Codes whose earlier mutation conflicted or failed; later edits to them are skipped too
+    const skippedIds = new Set<string>();
+
+    for (let index = 0; index < mutations.length; index++) {
+      const mutation = mutations[index];
+
+      if (isOffline()) {
+        report.remaining = mutations.length - index;
+        break;
+      }
+
+      const codeId = savedIds.get(mutation.codeId) ?? mutation.codeId;
+
+      try {
+        if (skippedIds.has(codeId)) {
+          report.failed.push(mutation);
+        } else if (mutation.type === 'create') {
+          const { data, error } = await SREFCodeService.createSREFCode(mutation.payload);
+          if (error || !data) throw error ?? new Error('Create returned no data');
+
+          savedIds.set(mutation.codeId, data.id);
+          knownVersions.set(data.id, data.updated_at);
+          report.applied++;
+        } else if (codeId.startsWith('temp-')) {
+          // The offline create this edit depends on never made it to the server
+          report.failed.push(mutation);
+        } else {
+          const conflict = await this.checkConflict(
+            mutation,
+            codeId,
+            knownVersions.get(codeId) ?? mutation.baseUpdatedAt
+          );
+
+          if (conflict) {
+            report.conflicts.push(conflict);
+            skippedIds.add(codeId);
+          } else if (mutation.type === 'update') {
+            const { data, error } = await SREFCodeService.updateSREFCode(codeId, mutation.payload);
+            if (error || !data) throw error ?? new Error('Update returned no data');
+
+            knownVersions.set(codeId, data.updated_at);
+            report.applied++;
+          } else {
+            const { error } = await SREFCodeService.deleteSREFCode(codeId);
+            if (error) throw error;
+
+            report.applied++;
+          }
+        }
+      } catch (error) {
+        // Keep the rest of the queue for later if the connection went away
+        if (isOffline()) {
+          report.remaining = mutations.length - index;
+          break;
+        }
+
+        report.failed.push(mutation);
+        skippedIds.add(codeId);
+        captureException(error, {
+          tags: { operation: `sync_${mutation.type}_sref_code` },
+          user: { id: userId },
+        });
+      }
+
+      await OfflineCache.removeQueuedMutation(mutation.id);
+    }
+
+    return report;
+  }
+
+  private static async checkConflict(
+    mutation: QueuedMutation,
+    codeId: string,
+    expectedUpdatedAt: string | undefined
+  ): Promise<SyncConflict | null> {
+    if (!expectedUpdatedAt) return null;
+
+    const { data, error } = await SREFCodeService.getSREFCodeById(codeId);
+    if (error) {
+      // PGRST116: .single() matched no rows, i.e. the code was deleted elsewhere
+      if ((error as { code?: string }).code !== 'PGRST116') throw error;
+
+      // A delete of a code that is already gone is not worth reporting
+      return mutation.type === 'delete' ? null : { mutation, serverCode: null, reason: 'deleted' };
+    }
+
+    if (data && data.updated_at !== expectedUpdatedAt) {
+      return { mutation, serverCode: data, reason: 'modified' };
+    }
+
+    return null;
+  }
+}
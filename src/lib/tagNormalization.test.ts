@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TAG_RULES,
+  TagRules,
+  createTagNormalizer,
+  normalizeTagText,
+  normalizeTags,
+  planTagCanonicalization,
+} from './tagNormalization';
+
+const rules = (overrides: Partial<TagRules> = {}): TagRules => ({
+  ...DEFAULT_TAG_RULES,
+  ...overrides,
+});
+
+describe('normalizeTagText', () => {
+  it('should trim and collapse whitespace', () => {
+    expect(normalizeTagText('  neon   lights ', rules({ lowercase: false }))).toBe('neon lights');
+  });
+
+  it('should fold case when enabled', () => {
+    expect(normalizeTagText('Neon', rules())).toBe('neon');
+    expect(normalizeTagText('Neon', rules({ lowercase: false }))).toBe('Neon');
+  });
+
+  it('should join words with dashes', () => {
+    expect(normalizeTagText(' neon  lights_bright--glow- ', rules({ separator: 'dash' }))).toBe(
+      'neon-lights-bright-glow'
+    );
+  });
+
+  it('should join words with spaces', () => {
+    expect(normalizeTagText('neon-lights__bright', rules({ separator: 'space' }))).toBe(
+      'neon lights bright'
+    );
+  });
+
+  it('should tidy namespace separators', () => {
+    expect(normalizeTagText(' Medium / Watercolor// ', rules())).toBe('medium/watercolor');
+    expect(normalizeTagText('/era/ 80s', rules({ separator: 'dash' }))).toBe('era/80s');
+    expect(normalizeTagText('art style/ oil-paint', rules({ separator: 'dash' }))).toBe(
+      'art-style/oil-paint'
+    );
+  });
+
+  it('should keep separators as typed by default', () => {
+    expect(normalizeTagText('neon-lights', rules())).toBe('neon-lights');
+  });
+});
+
+describe('createTagNormalizer', () => {
+  it('should map aliases to their canonical tag', () => {
+    const normalize = createTagNormalizer(
+      rules({ aliases: [{ alias: 'synthwave', canonical: 'retrowave' }] })
+    );
+
+    expect(normalize('Synthwave')).toBe('retrowave');
+    expect(normalize('vaporwave')).toBe('vaporwave');
+  });
+
+  it('should match aliases in any spelling the rules normalize the same way', () => {
+    const normalize = createTagNormalizer(
+      rules({ separator: 'dash', aliases: [{ alias: 'Neon Lights', canonical: 'Neon' }] })
+    );
+
+    expect(normalize('neon_lights')).toBe('neon');
+  });
+
+  it('should not follow alias chains', () => {
+    const normalize = createTagNormalizer(
+      rules({
+        aliases: [
+          { alias: 'a', canonical: 'b' },
+          { alias: 'b', canonical: 'c' },
+        ],
+      })
+    );
+
+    expect(normalize('a')).toBe('b');
+  });
+});
+
+describe('normalizeTags', () => {
+  it('should drop empty tags and duplicates, keeping order', () => {
+    const normalize = createTagNormalizer(rules());
+
+    expect(normalizeTags(['Neon', 'city', 'neon ', '  ', 'City'], normalize)).toEqual([
+      'neon',
+      'city',
+    ]);
+  });
+});
+
+describe('planTagCanonicalization', () => {
+  it('should group tags that need rewriting by their canonical tag', () => {
+    const normalize = createTagNormalizer(
+      rules({ aliases: [{ alias: 'synthwave', canonical: 'retrowave' }] })
+    );
+
+    expect(
+      planTagCanonicalization(
+        ['Cyberpunk', 'cyberpunk', 'CYBERPUNK', 'Synthwave', 'neon'],
+        normalize
+      )
+    ).toEqual([
+      { sources: ['Cyberpunk', 'CYBERPUNK'], target: 'cyberpunk' },
+      { sources: ['Synthwave'], target: 'retrowave' },
+    ]);
+  });
+
+  it('should rename chained aliases straight to the final tag', () => {
+    const normalize = createTagNormalizer(
+      rules({
+        aliases: [
+          { alias: 'a', canonical: 'b' },
+          { alias: 'b', canonical: 'c' },
+          { alias: 'x', canonical: 'y' },
+          { alias: 'y', canonical: 'x' },
+        ],
+      })
+    );
+
+    expect(planTagCanonicalization(['a', 'b', 'x', 'y'], normalize)).toEqual([
+      { sources: ['a', 'b'], target: 'c' },
+    ]);
+  });
+
+  it('should return nothing when every tag is canonical', () => {
+    expect(planTagCanonicalization(['neon', 'city'], createTagNormalizer(rules()))).toEqual([]);
+  });
+});
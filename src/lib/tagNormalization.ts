@@ -0,0 +1,112 @@
+// How words inside a tag are joined: as typed, by single spaces or by dashes
+export type TagSeparator = 'keep' | 'space' | 'dash';
+
+export interface TagNormalizationSettings {
+  // Fold case so "Neon" and "neon" are the same tag
+  lowercase: boolean;
+  separator: TagSeparator;
+}
+
+// Synonym that should always be stored as its canonical tag
+export interface TagAlias {
+  alias: string;
+  canonical: string;
+}
+
+export interface TagRules extends TagNormalizationSettings {
+  aliases: TagAlias[];
+}
+
+export type TagNormalizer = (tag: string) => string;
+
+// Rules for users who haven't configured any
+export const DEFAULT_TAG_RULES: TagRules = {
+  lowercase: true,
+  separator: 'keep',
+  aliases: [],
+};
+
+/**
+ * Apply case and separator rules to a single tag. Surrounding whitespace is
+ * always dropped, runs of whitespace become one space, and "/" namespace
+ * separators lose surrounding spaces and empty segments.
+ */
+export const normalizeTagText = (tag: string, settings: TagNormalizationSettings): string => {
+  let value = tag
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*\/[\s/]*/g, '/')
+    .replace(/^\/+|\/+$/g, '');
+
+  if (settings.lowercase) {
+    value = value.toLowerCase();
+  }
+
+  if (settings.separator === 'space') {
+    value = value
+      .replace(/[\s_-]+/g, ' ')
+      .replace(/ ?\/ ?/g, '/')
+      .trim();
+  } else if (settings.separator === 'dash') {
+    value = value.replace(/[\s_-]+/g, '-').replace(/^-+|-+$|(?<=\/)-+|-+(?=\/)/g, '');
+  }
+
+  return value;
+};
+
+/**
+ * Compile rules into a function that maps any spelling of a tag to its
+ * canonical form. Aliases are matched after normalization, so "Neon Lights"
+ * hits an alias saved as "neon-lights" when both normalize the same way.
+ * Aliases don't chain: the canonical tag is only normalized, not looked up again.
+ */
+export const createTagNormalizer = (rules: TagRules): TagNormalizer => {
+  const aliases = new Map<string, string>();
+  rules.aliases.forEach(({ alias, canonical }) => {
+    aliases.set(normalizeTagText(alias, rules), normalizeTagText(canonical, rules));
+  });
+
+  return tag => {
+    const value = normalizeTagText(tag, rules);
+    return aliases.get(value) ?? value;
+  };
+};
+
+// Normalize a list of tags, dropping empty results and duplicates but keeping order
+export const normalizeTags = (tags: string[], normalize: TagNormalizer): string[] => [
+  ...new Set(tags.map(normalize).filter(tag => tag !== '')),
+];
+
+// Follow aliases to the tag that normalizes to itself. A loop of aliases
+// resolves to where it started, leaving the tag as it is.
+const resolveTag = (tag: string, normalize: TagNormalizer) => {
+  const seen = new Set([tag]);
+  let target = normalize(tag);
+  while (!seen.has(target)) {
+    seen.add(target);
+    const next = normalize(target);
+    if (next === target) return target;
+    target = next;
+  }
+  return target;
+};
+
+/**
+ * Existing tags that the rules would store differently, grouped by canonical tag.
+ * Tags that already are canonical are left out. Alias chains are followed to
+ * their end, so no target is also renamed (rename_tags rejects such plans).
+ */
+export const planTagCanonicalization = (
+  tags: string[],
+  normalize: TagNormalizer
+): { sources: string[]; target: string }[] => {
+  const groups = new Map<string, string[]>();
+
+  tags.forEach(tag => {
+    const target = resolveTag(tag, normalize);
+    if (target === '' || target === tag) return;
+    groups.set(target, [...(groups.get(target) ?? []), tag]);
+  });
+
+  return [...groups].map(([target, sources]) => ({ sources, target }));
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_TAG_STATS, computeTagStats, rankTags } from './tagStats';
+
+describe('computeTagStats', () => {
+  it('should count codes per tag and per pair of tags', () => {
+    const stats = computeTagStats([
+      { code_id: 'a', tag: 'cyberpunk' },
+      { code_id: 'a', tag: 'neon' },
+      { code_id: 'b', tag: 'cyberpunk' },
+      { code_id: 'b', tag: 'neon' },
+      { code_id: 'b', tag: 'city' },
+      { code_id: 'c', tag: 'city' },
+    ]);
+
+    expect(stats.counts).toEqual({ cyberpunk: 2, neon: 2, city: 2 });
+    expect(stats.cooccurrence).toEqual({
+      cyberpunk: { neon: 2, city: 1 },
+      neon: { cyberpunk: 2, city: 1 },
+      city: { cyberpunk: 1, neon: 1 },
+    });
+  });
+
+  it('should ignore a tag repeated on the same code', () => {
+    const stats = computeTagStats([
+      { code_id: 'a', tag: 'neon' },
+      { code_id: 'a', tag: 'neon' },
+    ]);
+
+    expect(stats).toEqual({ counts: { neon: 1 }, cooccurrence: {} });
+  });
+});
+
+describe('rankTags', () => {
+  const stats = computeTagStats([
+    { code_id: 'a', tag: 'cyberpunk' },
+    { code_id: 'a', tag: 'neon' },
+    { code_id: 'b', tag: 'cyberpunk' },
+    { code_id: 'b', tag: 'neon' },
+    { code_id: 'c', tag: 'watercolor' },
+    { code_id: 'd', tag: 'watercolor' },
+    { code_id: 'e', tag: 'watercolor' },
+    { code_id: 'e', tag: 'cyberpunk' },
+  ]);
+  const tags = ['cyberpunk', 'neon', 'watercolor'];
+
+  it('should rank by usage when nothing is selected', () => {
+    expect(rankTags(stats, tags)).toEqual(['cyberpunk', 'watercolor', 'neon']);
+  });
+
+  it('should put tags that go with the selected ones first', () => {
+    expect(rankTags(stats, tags, ['cyberpunk'])).toEqual(['neon', 'watercolor', 'cyberpunk']);
+  });
+
+  it('should fall back to names without stats', () => {
+    expect(rankTags(EMPTY_TAG_STATS, ['neon', 'city'], ['cyberpunk'])).toEqual(['city', 'neon']);
+  });
+});
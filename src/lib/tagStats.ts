@@ -0,0 +1,57 @@
+export interface TagStats {
+  // Codes carrying each tag
+  counts: Record<string, number>;
+  // Codes carrying both tags, keyed by one tag and then the other
+  cooccurrence: Record<string, Record<string, number>>;
+}
+
+// Stats for users whose library hasn't loaded yet
+export const EMPTY_TAG_STATS: TagStats = { counts: {}, cooccurrence: {} };
+
+// Count tag usage and pairwise co-occurrence from (code, tag) rows
+export const computeTagStats = (rows: { code_id: string; tag: string }[]): TagStats => {
+  const tagsByCode = new Map<string, Set<string>>();
+  rows.forEach(({ code_id, tag }) => {
+    const tags = tagsByCode.get(code_id) ?? new Set<string>();
+    tags.add(tag);
+    tagsByCode.set(code_id, tags);
+  });
+
+  const counts: Record<string, number> = {};
+  const cooccurrence: Record<string, Record<string, number>> = {};
+
+  tagsByCode.forEach(tags => {
+    tags.forEach(tag => {
+      counts[tag] = (counts[tag] ?? 0) + 1;
+      tags.forEach(other => {
+        if (other === tag) return;
+        const pairs = cooccurrence[tag] ?? {};
+        pairs[other] = (pairs[other] ?? 0) + 1;
+        cooccurrence[tag] = pairs;
+      });
+    });
+  });
+
+  return { counts, cooccurrence };
+};
+
+/**
+ * Order tags by how likely they are to be added to a code that already has
+ * the selected tags. A tag scores the share of codes with each selected tag
+ * that also carry it, so "neon" leads once "cyberpunk" is on the code if most
+ * cyberpunk codes are also neon. Ties, and codes with no tags yet, fall back
+ * to overall usage and then name.
+ */
+export const rankTags = (stats: TagStats, tags: string[], selected: string[] = []): string[] => {
+  const score = (tag: string) =>
+    selected.reduce((sum, chosen) => {
+      const together = stats.cooccurrence[chosen]?.[tag] ?? 0;
+      const total = stats.counts[chosen] ?? 0;
+      return total > 0 ? sum + together / total : sum;
+    }, 0);
+
+  return tags
+    .map(tag => ({ tag, score: score(tag), count: stats.counts[tag] ?? 0 }))
+    .sort((a, b) => b.score - a.score || b.count - a.count || a.tag.localeCompare(b.tag))
+    .map(({ tag }) => tag);
+};
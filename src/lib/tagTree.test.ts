@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTagTree,
+  countTagUsage,
+  flattenTagTree,
+  isTagWithin,
+  suggestTags,
+  tagAncestors,
+} from './tagTree';
+
+describe('tagAncestors', () => {
+  it('should list every namespace above a tag, outermost first', () => {
+    expect(tagAncestors('a/b/c')).toEqual(['a', 'a/b']);
+    expect(tagAncestors('neon')).toEqual([]);
+  });
+});
+
+describe('isTagWithin', () => {
+  it('should match the tag itself and anything below it', () => {
+    expect(isTagWithin('medium', 'medium')).toBe(true);
+    expect(isTagWithin('medium/watercolor', 'medium')).toBe(true);
+    expect(isTagWithin('medium/watercolor/wet', 'medium')).toBe(true);
+    expect(isTagWithin('mediums', 'medium')).toBe(false);
+    expect(isTagWithin('medium', 'medium/watercolor')).toBe(false);
+  });
+});
+
+describe('countTagUsage', () => {
+  it('should count distinct codes per tag and per namespace', () => {
+    const { counts, totals } = countTagUsage([
+      { code_id: 'a', tag: 'medium/ink' },
+      { code_id: 'a', tag: 'medium/watercolor' },
+      { code_id: 'b', tag: 'medium/watercolor' },
+      { code_id: 'b', tag: 'neon' },
+    ]);
+
+    expect(counts).toEqual({ 'medium/ink': 1, 'medium/watercolor': 2, neon: 1 });
+    expect(totals).toEqual({ medium: 2, 'medium/ink': 1, 'medium/watercolor': 2, neon: 1 });
+  });
+});
+
+describe('buildTagTree', () => {
+  it('should nest tags under their namespaces, sorted by name', () => {
+    const tree = buildTagTree(
+      ['neon', 'medium/watercolor', 'medium/ink', 'era/80s'],
+      { neon: 3, 'medium/watercolor': 2, 'medium/ink': 1, 'era/80s': 1 },
+      { medium: 3 }
+    );
+
+    expect(tree.map(node => node.path)).toEqual(['era', 'medium', 'neon']);
+    expect(tree[1]).toMatchObject({ name: 'medium', count: 0, total: 3 });
+    expect(tree[1].children).toEqual([
+      { name: 'ink', path: 'medium/ink', count: 1, total: 1, children: [] },
+      { name: 'watercolor', path: 'medium/watercolor', count: 2, total: 2, children: [] },
+    ]);
+  });
+
+  it('should keep a namespace that is also a tag', () => {
+    const tree = buildTagTree(['medium', 'medium/ink'], { medium: 2, 'medium/ink': 1 });
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]).toMatchObject({ path: 'medium', count: 2 });
+    expect(flattenTagTree(tree).map(node => node.path)).toEqual(['medium', 'medium/ink']);
+  });
+});
+
+describe('suggestTags', () => {
+  const tags = ['medium/watercolor', 'medium/ink', 'medium/oil/thick', 'era/80s', 'neon'];
+
+  it('should suggest top-level tags and namespaces, then deeper matches', () => {
+    expect(suggestTags(tags, 'me').map(suggestion => suggestion.value)).toEqual([
+      'medium/',
+      'medium/watercolor',
+      'medium/ink',
+      'medium/oil/thick',
+    ]);
+    expect(suggestTags(tags, 'water')).toEqual([{ value: 'medium/watercolor', namespace: false }]);
+  });
+
+  it('should suggest what sits directly inside a typed namespace, in the order given', () => {
+    expect(suggestTags(tags, 'medium/')).toEqual([
+      { value: 'medium/watercolor', namespace: false },
+      { value: 'medium/ink', namespace: false },
+      { value: 'medium/oil/', namespace: true },
+    ]);
+    expect(suggestTags(tags, 'medium/w')).toEqual([
+      { value: 'medium/watercolor', namespace: false },
+    ]);
+  });
+
+  it('should rank names starting with the input first', () => {
+    expect(suggestTags(['a/link', 'a/ink'], 'a/in').map(suggestion => suggestion.value)).toEqual([
+      'a/ink',
+      'a/link',
+    ]);
+  });
+
+  it('should leave out tags that are already chosen', () => {
+    expect(
+      suggestTags(tags, 'medium/', ['medium/ink']).map(suggestion => suggestion.value)
+    ).toEqual(['medium/watercolor', 'medium/oil/']);
+  });
+});
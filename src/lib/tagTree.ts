@@ -0,0 +1,173 @@
+// Tags containing "/" form a hierarchy: "medium/watercolor" sits under "medium"
+export const TAG_PATH_SEPARATOR = '/';
+
+export interface TagTreeNode {
+  // Last segment of the path, e.g. "watercolor"
+  name: string;
+  // Full tag, e.g. "medium/watercolor"
+  path: string;
+  // Codes tagged with exactly this path; 0 for namespaces nobody tags directly
+  count: number;
+  // Codes tagged with this path or anything below it
+  total: number;
+  children: TagTreeNode[];
+}
+
+// A tag suggestion: either a tag to add or a namespace to type into
+export interface TagSuggestion {
+  value: string;
+  namespace: boolean;
+}
+
+const joinPath = (segments: string[]) => segments.join(TAG_PATH_SEPARATOR);
+
+// Every namespace above a tag, outermost first: "a/b/c" -> ["a", "a/b"]
+export const tagAncestors = (tag: string): string[] => {
+  const segments = tag.split(TAG_PATH_SEPARATOR);
+  return segments.slice(0, -1).map((_, index) => joinPath(segments.slice(0, index + 1)));
+};
+
+// Whether a tag is the given tag or sits anywhere below it
+export const isTagWithin = (tag: string, ancestor: string) =>
+  tag === ancestor || tag.startsWith(ancestor + TAG_PATH_SEPARATOR);
+
+/**
+ * Count distinct codes per tag from (code, tag) rows. counts is for the exact
+ * tag; totals also includes every tag below it, so a code tagged both
+ * "medium/ink" and "medium/watercolor" counts once towards "medium".
+ */
+export const countTagUsage = (
+  rows: { code_id: string; tag: string }[]
+): { counts: Record<string, number>; totals: Record<string, number> } => {
+  const exact = new Map<string, Set<string>>();
+  const within = new Map<string, Set<string>>();
+  const add = (map: Map<string, Set<string>>, path: string, codeId: string) => {
+    const codes = map.get(path) ?? new Set<string>();
+    codes.add(codeId);
+    map.set(path, codes);
+  };
+
+  rows.forEach(({ code_id, tag }) => {
+    add(exact, tag, code_id);
+    [...tagAncestors(tag), tag].forEach(path => add(within, path, code_id));
+  });
+
+  const toCounts = (map: Map<string, Set<string>>) =>
+    Object.fromEntries([...map].map(([path, codes]) => [path, codes.size]));
+  return { counts: toCounts(exact), totals: toCounts(within) };
+};
+
+/**
+ * Arrange tags into a tree, adding a node for every namespace on the way.
+ * Siblings are sorted by name. Missing counts are 0.
+ */
+export const buildTagTree = (
+  tags: string[],
+  counts: Record<string, number> = {},
+  totals: Record<string, number> = {}
+): TagTreeNode[] => {
+  const nodes = new Map<string, TagTreeNode>();
+  const roots: TagTreeNode[] = [];
+
+  const ensureNode = (path: string): TagTreeNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+
+    const segments = path.split(TAG_PATH_SEPARATOR);
+    const node: TagTreeNode = {
+      name: segments[segments.length - 1],
+      path,
+      count: counts[path] ?? 0,
+      total: totals[path] ?? counts[path] ?? 0,
+      children: [],
+    };
+    nodes.set(path, node);
+
+    const parent = segments.length > 1 ? ensureNode(joinPath(segments.slice(0, -1))) : null;
+    (parent ? parent.children : roots).push(node);
+    return node;
+  };
+
+  tags.forEach(ensureNode);
+
+  const sortNodes = (list: TagTreeNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+};
+
+// Every node in the tree, parents before their children
+export const flattenTagTree = (nodes: TagTreeNode[]): TagTreeNode[] =>
+  nodes.flatMap(node => [node, ...flattenTagTree(node.children)]);
+
+/**
+ * Autocomplete for a tag input. Input containing "/" suggests what sits
+ * directly inside that namespace; other input suggests top-level tags and
+ * namespaces, then any deeper tag containing the text. Names starting with
+ * the input come first; otherwise suggestions keep the order of tags, so pass
+ * them ranked. Tags in exclude are left out.
+ */
+export const suggestTags = (
+  tags: string[],
+  input: string,
+  exclude: string[] = [],
+  limit = 5
+): TagSuggestion[] => {
+  const separatorIndex = input.lastIndexOf(TAG_PATH_SEPARATOR);
+  const namespace = separatorIndex === -1 ? '' : input.slice(0, separatorIndex);
+  const needle = input
+    .slice(separatorIndex + 1)
+    .trim()
+    .toLowerCase();
+  const prefix = namespace ? namespace + TAG_PATH_SEPARATOR : '';
+
+  const suggestions = new Map<string, TagSuggestion>();
+  const addSuggestion = (suggestion: TagSuggestion) => {
+    const key = `${suggestion.namespace ? 'namespace' : 'tag'}:${suggestion.value}`;
+    if (!suggestions.has(key)) suggestions.set(key, suggestion);
+  };
+
+  // Direct children of the namespace whose name matches, prefix matches first
+  const children = tags
+    .filter(tag => tag.startsWith(prefix) && tag.length > prefix.length)
+    .map(tag => {
+      const rest = tag.slice(prefix.length).split(TAG_PATH_SEPARATOR);
+      return { name: rest[0], nested: rest.length > 1 };
+    })
+    .filter(({ name }) => name.toLowerCase().includes(needle))
+    .sort(
+      (a, b) =>
+        Number(!a.name.toLowerCase().startsWith(needle)) -
+        Number(!b.name.toLowerCase().startsWith(needle))
+    );
+
+  children.forEach(({ name, nested }) => {
+    const path = prefix + name;
+    if (nested) {
+      addSuggestion({ value: path + TAG_PATH_SEPARATOR, namespace: true });
+    } else if (!exclude.includes(path)) {
+      addSuggestion({ value: path, namespace: false });
+    }
+  });
+
+  // A namespace can also be a tag in its own right
+  children
+    .filter(({ nested }) => nested)
+    .forEach(({ name }) => {
+      const path = prefix + name;
+      if (tags.includes(path) && !exclude.includes(path)) {
+        addSuggestion({ value: path, namespace: false });
+      }
+    });
+
+  if (!namespace && needle) {
+    tags
+      .filter(tag => tag.toLowerCase().includes(needle) && !exclude.includes(tag))
+      .forEach(tag => addSuggestion({ value: tag, namespace: false }));
+  }
+
+  return [...suggestions.values()].slice(0, limit);
+};
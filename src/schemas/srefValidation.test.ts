@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
+import { DEFAULT_TAG_RULES, createTagNormalizer } from '../lib/tagNormalization';
 import {
+  createSrefCodeSchema,
+  folderNameSchema,
+  packSchema,
+  smartFolderCriteriaSchema,
   srefCodeSchema,
   srefSubmissionSchema,
   srefUpdateSchema,
@@ -318,6 +323,169 @@ describe('srefCodeSchema', () => {
       expect(result.images).toHaveLength(6);
     });
   });
+
+  describe('notes validation', () => {
+    it('should default to empty string when notes not provided', () => {
+      const data = {
+        title: 'Test',
+        code_value: '--sref 123',
+        version: 'SV6' as const,
+      };
+
+      const result = srefCodeSchema.parse(data);
+      expect(result.notes).toBe('');
+    });
+
+    it('should trim notes', () => {
+      const data = {
+        title: 'Test',
+        code_value: '--sref 123',
+        version: 'SV6' as const,
+        notes: '  Works best with --stylize 250  ',
+      };
+
+      const result = srefCodeSchema.parse(data);
+      expect(result.notes).toBe('Works best with --stylize 250');
+    });
+
+    it('should reject notes longer than 2000 characters', () => {
+      const data = {
+        title: 'Test',
+        code_value: '--sref 123',
+        version: 'SV6' as const,
+        notes: 'a'.repeat(2001),
+      };
+
+      expect(() => srefCodeSchema.parse(data)).toThrow('Notes must be 2000 characters or less');
+    });
+  });
+
+  describe('visibility validation', () => {
+    const base = { title: 'Test', code_value: '--sref 123', version: 'SV6' as const };
+
+    it('should default to private when visibility not provided', () => {
+      expect(srefCodeSchema.parse(base).visibility).toBe('private');
+    });
+
+    it('should accept unlisted and public', () => {
+      expect(srefCodeSchema.parse({ ...base, visibility: 'unlisted' }).visibility).toBe('unlisted');
+      expect(srefCodeSchema.parse({ ...base, visibility: 'public' }).visibility).toBe('public');
+    });
+
+    it('should reject unknown visibility levels', () => {
+      expect(() => srefCodeSchema.parse({ ...base, visibility: 'friends' })).toThrow(
+        'Visibility must be private, unlisted or public'
+      );
+    });
+  });
+});
+
+describe('createSrefCodeSchema', () => {
+  const schema = createSrefCodeSchema(
+    createTagNormalizer({
+      ...DEFAULT_TAG_RULES,
+      separator: 'dash',
+      aliases: [{ alias: 'synthwave', canonical: 'retrowave' }],
+    })
+  );
+  const base = { title: 'Test', code_value: '--sref 123', version: 'SV6' as const };
+
+  it('should normalize tags and apply aliases', () => {
+    const result = schema.parse({ ...base, tags: ['Neon Lights', 'neon-lights ', 'Synthwave'] });
+
+    expect(result.tags).toEqual(['neon-lights', 'retrowave']);
+  });
+
+  it('should apply the tag limits after normalizing', () => {
+    const tags = Array.from({ length: 21 }, (_: unknown, i: number) =>
+      i < 2 ? 'Neon' : `tag${i}`
+    );
+
+    expect(schema.parse({ ...base, tags }).tags).toHaveLength(20);
+    expect(() => schema.parse({ ...base, tags: ['a'.repeat(51)] })).toThrow(
+      'Tags must be 50 characters or less'
+    );
+  });
+
+  it('should drop tags that normalize to nothing', () => {
+    expect(schema.parse({ ...base, tags: ['neon', ' - '] }).tags).toEqual(['neon']);
+  });
+});
+
+describe('folderNameSchema', () => {
+  it('should trim folder names', () => {
+    expect(folderNameSchema.parse('  Portraits ')).toBe('Portraits');
+  });
+
+  it('should reject empty and overlong names', () => {
+    expect(() => folderNameSchema.parse('   ')).toThrow('Folder name cannot be empty');
+    expect(() => folderNameSchema.parse('a'.repeat(101))).toThrow(
+      'Folder names must be 100 characters or less'
+    );
+  });
+});
+
+describe('smartFolderCriteriaSchema', () => {
+  it('should accept the library search filters', () => {
+    const criteria = {
+      query: 'neon',
+      tags: ['city'],
+      tagMode: 'all' as const,
+      excludedTags: ['dark'],
+      svVersion: 6 as const,
+      createdFrom: '2025-01-01',
+      createdUntil: '2025-02-01',
+      minImages: 1,
+      maxImages: 4,
+    };
+
+    expect(smartFolderCriteriaSchema.parse(criteria)).toEqual(criteria);
+  });
+
+  it('should need at least one filter', () => {
+    expect(() => smartFolderCriteriaSchema.parse({ query: '  ' })).toThrow(
+      'Add at least one filter'
+    );
+  });
+
+  it('should reject inverted ranges', () => {
+    expect(() =>
+      smartFolderCriteriaSchema.parse({ createdFrom: '2025-02-01', createdUntil: '2025-01-01' })
+    ).toThrow('The start date must be before the end date');
+    expect(() => smartFolderCriteriaSchema.parse({ minImages: 3, maxImages: 1 })).toThrow(
+      'The minimum image count cannot be above the maximum'
+    );
+    expect(() => smartFolderCriteriaSchema.parse({ minImages: 1.5 })).toThrow(
+      'Image counts must be whole numbers'
+    );
+  });
+});
+
+describe('packSchema', () => {
+  it('should trim details and default the optional ones to empty', () => {
+    expect(packSchema.parse({ title: '  Neon nights ' })).toEqual({
+      title: 'Neon nights',
+      description: '',
+      cover_image_url: '',
+    });
+  });
+
+  it('should accept a cover image URL', () => {
+    const pack = {
+      title: 'Neon nights',
+      description: 'City lights',
+      cover_image_url: 'https://example.com/cover.jpg',
+    };
+
+    expect(packSchema.parse(pack)).toEqual(pack);
+  });
+
+  it('should reject missing titles and invalid covers', () => {
+    expect(() => packSchema.parse({ title: '  ' })).toThrow('Pack title is required');
+    expect(() => packSchema.parse({ title: 'Neon', cover_image_url: 'cover.jpg' })).toThrow(
+      'Invalid cover image URL'
+    );
+  });
 });
 
 describe('srefSubmissionSchema', () => {
@@ -557,6 +725,8 @@ describe('Complex validation scenarios', () => {
         'https://example.com/image2.png',
         'https://cdn.example.com/gallery/image3.gif',
       ],
+      notes: 'Pairs well with --stylize 400',
+      visibility: 'public',
       user_id: '550e8400-e29b-41d4-a716-446655440000',
       sv_version: 6,
     };
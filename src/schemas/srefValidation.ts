@@ -1,39 +1,151 @@
 import { z } from 'zod';
+import { TagNormalizer, normalizeTags } from '../lib/tagNormalization';
 
-// Base SREF code validation schema
-export const srefCodeSchema = z.object({
+// A single tag name, shared by the code form and the tag manager
+export const tagSchema = z
+  .string()
+  .min(1, 'Tag cannot be empty')
+  .max(50, 'Tags must be 50 characters or less');
+
+// A folder name, as created or renamed from the sidebar
+export const folderNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Folder name cannot be empty')
+  .max(100, 'Folder names must be 100 characters or less');
+
+const imageCountSchema = z
+  .number()
+  .int('Image counts must be whole numbers')
+  .min(0, 'Image counts cannot be negative');
+
+// What a smart folder matches: the library search filters, stored as the folder's
+// search_criteria. Dates are calendar days; createdUntil is exclusive.
+export const smartFolderCriteriaSchema = z
+  .object({
+    query: z.string().trim().max(200, 'Search text must be 200 characters or less').optional(),
+    tags: z.array(tagSchema).max(20, 'Maximum 20 tags allowed').optional(),
+    tagMode: z.enum(['any', 'all']).optional(),
+    excludedTags: z.array(tagSchema).max(20, 'Maximum 20 tags allowed').optional(),
+    svVersion: z.union([z.literal(4), z.literal(6)]).optional(),
+    createdFrom: z.string().date('Dates must look like 2025-01-01').optional(),
+    createdUntil: z.string().date('Dates must look like 2025-01-01').optional(),
+    minImages: imageCountSchema.optional(),
+    maxImages: imageCountSchema.optional(),
+  })
+  .refine(
+    criteria =>
+      Boolean(criteria.query) ||
+      Boolean(criteria.tags?.length) ||
+      Boolean(criteria.excludedTags?.length) ||
+      criteria.svVersion !== undefined ||
+      Boolean(criteria.createdFrom) ||
+      Boolean(criteria.createdUntil) ||
+      criteria.minImages !== undefined ||
+      criteria.maxImages !== undefined,
+    'Add at least one filter'
+  )
+  .refine(
+    criteria =>
+      !criteria.createdFrom ||
+      !criteria.createdUntil ||
+      criteria.createdFrom < criteria.createdUntil,
+    { message: 'The start date must be before the end date', path: ['createdUntil'] }
+  )
+  .refine(
+    criteria =>
+      criteria.minImages === undefined ||
+      criteria.maxImages === undefined ||
+      criteria.minImages <= criteria.maxImages,
+    { message: 'The minimum image count cannot be above the maximum', path: ['maxImages'] }
+  );
+
+export type SmartFolderCriteria = z.infer<typeof smartFolderCriteriaSchema>;
+
+// A pack's details, as entered in the pack editor. Empty optional fields are
+// saved as no description or cover.
+export const packSchema = z.object({
   title: z
     .string()
-    .min(1, 'Title is required')
-    .max(100, 'Title must be 100 characters or less')
-    .trim(),
-
-  code_value: z
+    .trim()
+    .min(1, 'Pack title is required')
+    .max(100, 'Pack titles must be 100 characters or less'),
+  description: z
     .string()
-    .min(1, 'SREF code is required')
-    .refine(value => value.includes('--sref'), 'SREF code must include "--sref"')
-    .refine(
-      value => /--sref\s+\d+/.test(value),
-      'SREF code must follow format "--sref 1234567890"'
-    ),
-
-  version: z.enum(['SV4', 'SV6'], {
-    errorMap: () => ({ message: 'Version must be either SV4 or SV6' }),
-  }),
-
-  tags: z
-    .array(z.string().min(1).max(50))
-    .max(20, 'Maximum 20 tags allowed')
+    .trim()
+    .max(2000, 'Descriptions must be 2000 characters or less')
     .optional()
-    .default([]),
-
-  images: z
-    .array(z.string().url('Invalid image URL'))
-    .max(6, 'Maximum 6 images allowed')
+    .default(''),
+  cover_image_url: z
+    .union([z.literal(''), z.string().trim().url('Invalid cover image URL')])
     .optional()
-    .default([]),
+    .default(''),
 });
 
+export type PackFormData = z.infer<typeof packSchema>;
+
+const tagListSchema = (
+  normalizeTag?: TagNormalizer
+): z.ZodType<string[], z.ZodTypeDef, string[]> => {
+  const tagList = z.array(tagSchema).max(20, 'Maximum 20 tags allowed');
+  if (!normalizeTag) return tagList;
+
+  // Normalize first so the limits apply to the tags that will actually be saved
+  return z
+    .array(z.string())
+    .transform(tags => normalizeTags(tags, normalizeTag))
+    .pipe(tagList);
+};
+
+// SREF code validation schema. Given the user's tag normalizer, tags come out
+// in their canonical spelling with duplicates removed.
+export const createSrefCodeSchema = (normalizeTag?: TagNormalizer) =>
+  z.object({
+    title: z
+      .string()
+      .min(1, 'Title is required')
+      .max(100, 'Title must be 100 characters or less')
+      .trim(),
+
+    code_value: z
+      .string()
+      .min(1, 'SREF code is required')
+      .refine(value => value.includes('--sref'), 'SREF code must include "--sref"')
+      .refine(
+        value => /--sref\s+\d+/.test(value),
+        'SREF code must follow format "--sref 1234567890"'
+      ),
+
+    version: z.enum(['SV4', 'SV6'], {
+      errorMap: () => ({ message: 'Version must be either SV4 or SV6' }),
+    }),
+
+    tags: tagListSchema(normalizeTag).optional().default([]),
+
+    images: z
+      .array(z.string().url('Invalid image URL'))
+      .max(6, 'Maximum 6 images allowed')
+      .optional()
+      .default([]),
+
+    notes: z
+      .string()
+      .max(2000, 'Notes must be 2000 characters or less')
+      .trim()
+      .optional()
+      .default(''),
+
+    visibility: z
+      .enum(['private', 'unlisted', 'public'], {
+        errorMap: () => ({ message: 'Visibility must be private, unlisted or public' }),
+      })
+      .optional()
+      .default('private'),
+  });
+
+// Base SREF code validation schema, with tags kept as entered
+export const srefCodeSchema = createSrefCodeSchema();
+
 // Form data type (what the form uses)
 export type SREFFormData = z.infer<typeof srefCodeSchema>;
 
@@ -69,10 +69,12 @@ export interface Database {
           code_value: string;
           sv_version: number;
           title: string;
+          notes: string | null;
           copy_count: number;
           upvotes: number;
           downvotes: number;
           save_count: number;
+          visibility: 'private' | 'unlisted' | 'public';
           created_at: string;
           updated_at: string;
         };
@@ -82,10 +84,12 @@ export interface Database {
           code_value: string;
           sv_version: number;
           title: string;
+          notes?: string | null;
           copy_count?: number;
           upvotes?: number;
           downvotes?: number;
           save_count?: number;
+          visibility?: 'private' | 'unlisted' | 'public';
           created_at?: string;
           updated_at?: string;
         };
@@ -95,10 +99,12 @@ export interface Database {
           code_value?: string;
           sv_version?: number;
           title?: string;
+          notes?: string | null;
           copy_count?: number;
           upvotes?: number;
           downvotes?: number;
           save_count?: number;
+          visibility?: 'private' | 'unlisted' | 'public';
           created_at?: string;
           updated_at?: string;
         };
@@ -152,18 +158,21 @@ export interface Database {
           folder_id: string;
           code_id: string;
           added_at: string;
+          position: number;
         };
         Insert: {
           id?: string;
           folder_id: string;
           code_id: string;
           added_at?: string;
+          position?: number;
         };
         Update: {
           id?: string;
           folder_id?: string;
           code_id?: string;
           added_at?: string;
+          position?: number;
         };
       };
       saved_codes: {
@@ -238,6 +247,189 @@ export interface Database {
           updated_at?: string;
         };
       };
+      code_copies: {
+        Row: {
+          id: string;
+          user_id: string;
+          code_id: string;
+          copied_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          code_id: string;
+          copied_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          code_id?: string;
+          copied_at?: string;
+        };
+      };
+      tag_settings: {
+        Row: {
+          user_id: string;
+          lowercase: boolean;
+          separator: 'keep' | 'space' | 'dash';
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          lowercase?: boolean;
+          separator?: 'keep' | 'space' | 'dash';
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          lowercase?: boolean;
+          separator?: 'keep' | 'space' | 'dash';
+          updated_at?: string;
+        };
+      };
+      tag_aliases: {
+        Row: {
+          user_id: string;
+          alias: string;
+          canonical: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          alias: string;
+          canonical: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          alias?: string;
+          canonical?: string;
+          created_at?: string;
+        };
+      };
+      packs: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string;
+          description: string | null;
+          cover_image_url: string | null;
+          visibility: 'private' | 'unlisted' | 'public';
+          version: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          title: string;
+          description?: string | null;
+          cover_image_url?: string | null;
+        };
+        Update: {
+          title?: string;
+          description?: string | null;
+          cover_image_url?: string | null;
+          updated_at?: string;
+        };
+      };
+      pack_codes: {
+        Row: {
+          id: string;
+          pack_id: string;
+          code_id: string;
+          position: number;
+        };
+        Insert: {
+          id?: string;
+          pack_id: string;
+          code_id: string;
+          position?: number;
+        };
+        Update: {
+          id?: string;
+          pack_id?: string;
+          code_id?: string;
+          position?: number;
+        };
+      };
+      pack_versions: {
+        Row: {
+          id: string;
+          pack_id: string;
+          version: number;
+          title: string;
+          description: string | null;
+          cover_image_url: string | null;
+          code_ids: string[];
+          published_at: string;
+        };
+        Insert: {
+          id?: string;
+          pack_id: string;
+          version: number;
+          title: string;
+          description?: string | null;
+          cover_image_url?: string | null;
+          code_ids?: string[];
+          published_at?: string;
+        };
+        Update: {
+          id?: string;
+          pack_id?: string;
+          version?: number;
+          title?: string;
+          description?: string | null;
+          cover_image_url?: string | null;
+          code_ids?: string[];
+          published_at?: string;
+        };
+      };
+      pack_imports: {
+        Row: {
+          id: string;
+          user_id: string;
+          pack_id: string;
+          version: number;
+          imported_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          pack_id: string;
+          version: number;
+          imported_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          pack_id?: string;
+          version?: number;
+          imported_at?: string;
+        };
+      };
+      code_provenance: {
+        Row: {
+          code_id: string;
+          source_code_id: string | null;
+          pack_id: string | null;
+          pack_version: number | null;
+          imported_at: string;
+        };
+        Insert: {
+          code_id: string;
+          source_code_id?: string | null;
+          pack_id?: string | null;
+          pack_version?: number | null;
+          imported_at?: string;
+        };
+        Update: {
+          code_id?: string;
+          source_code_id?: string | null;
+          pack_id?: string | null;
+          pack_version?: number | null;
+          imported_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -249,6 +441,215 @@ export interface Database {
         };
         Returns: void;
       };
+      create_sref_code: {
+        Args: {
+          p_user_id: string;
+          p_code_value: string;
+          p_sv_version: number;
+          p_title: string;
+          p_images?: string[];
+          p_tags?: string[];
+          p_notes?: string;
+          p_visibility?: string;
+        };
+        Returns: string;
+      };
+      update_sref_code: {
+        Args: {
+          p_code_id: string;
+          p_title?: string;
+          p_code_value?: string;
+          p_sv_version?: number;
+          p_images?: string[];
+          p_images_to_delete?: string[];
+          p_images_to_add?: string[];
+          p_tags?: string[];
+          p_tags_to_delete?: string[];
+          p_tags_to_add?: string[];
+          p_notes?: string;
+          p_visibility?: string;
+        };
+        Returns: string;
+      };
+      get_shared_sref_code: {
+        Args: {
+          p_code_id: string;
+        };
+        Returns: Record<string, unknown> | null;
+      };
+      search_sref_codes: {
+        Args: {
+          p_user_id: string;
+          p_query: string;
+          p_tags?: string[];
+          p_tag_mode?: string;
+          p_excluded_tags?: string[];
+          p_sv_version?: number;
+          p_created_from?: string;
+          p_created_until?: string;
+          p_folder_id?: string;
+          p_min_images?: number;
+          p_max_images?: number;
+          p_limit?: number;
+          p_after_rank?: number;
+          p_after_id?: string;
+        };
+        Returns: {
+          code_id: string;
+          rank: number;
+        }[];
+      };
+      get_folder_sref_codes: {
+        Args: {
+          p_user_id: string;
+          p_folder_id: string;
+          p_tags?: string[];
+          p_tag_mode?: string;
+          p_excluded_tags?: string[];
+          p_sv_version?: number;
+          p_created_from?: string;
+          p_created_until?: string;
+          p_min_images?: number;
+          p_max_images?: number;
+          p_limit?: number;
+          p_after_position?: number;
+          p_after_id?: string;
+        };
+        Returns: {
+          code_id: string;
+          position: number;
+        }[];
+      };
+      get_user_tag_rows: {
+        Args: {
+          p_user_id: string;
+          p_limit?: number;
+          p_after_code_id?: string;
+          p_after_tag?: string;
+        };
+        Returns: {
+          code_id: string;
+          tag: string;
+        }[];
+      };
+      discover_sref_codes: {
+        Args: {
+          p_user_id?: string;
+          p_query?: string;
+          p_tags?: string[];
+          p_tag_mode?: string;
+          p_excluded_tags?: string[];
+          p_sv_version?: number;
+          p_created_from?: string;
+          p_created_until?: string;
+          p_min_images?: number;
+          p_max_images?: number;
+          p_sort?: string;
+          p_limit?: number;
+          p_after_value?: number;
+          p_after_id?: string;
+        };
+        Returns: {
+          code_id: string;
+          sort_value: number;
+        }[];
+      };
+      record_code_copy: {
+        Args: {
+          p_code_id: string;
+        };
+        Returns: number;
+      };
+      get_recent_code_copies: {
+        Args: {
+          p_limit?: number;
+        };
+        Returns: {
+          code_id: string;
+          copied_at: string;
+        }[];
+      };
+      merge_tags: {
+        Args: {
+          p_user_id: string;
+          p_sources: string[];
+          p_target: string;
+        };
+        Returns: number;
+      };
+      delete_tags: {
+        Args: {
+          p_user_id: string;
+          p_tags: string[];
+        };
+        Returns: number;
+      };
+      rename_tags: {
+        Args: {
+          p_user_id: string;
+          p_sources: string[];
+          p_targets: string[];
+        };
+        Returns: number;
+      };
+      delete_folder: {
+        Args: {
+          p_folder_id: string;
+        };
+        Returns: void;
+      };
+      add_codes_to_folder: {
+        Args: {
+          p_folder_id: string;
+          p_code_ids: string[];
+        };
+        Returns: void;
+      };
+      reorder_folder_codes: {
+        Args: {
+          p_folder_id: string;
+          p_code_ids: string[];
+        };
+        Returns: void;
+      };
+      set_pack_codes: {
+        Args: {
+          p_pack_id: string;
+          p_code_ids: string[];
+        };
+        Returns: void;
+      };
+      publish_pack: {
+        Args: {
+          p_pack_id: string;
+          p_visibility?: string;
+        };
+        Returns: number;
+      };
+      get_shared_pack: {
+        Args: {
+          p_pack_id: string;
+        };
+        Returns: Record<string, unknown> | null;
+      };
+      import_pack: {
+        Args: {
+          p_pack_id: string;
+        };
+        Returns: string[];
+      };
+      get_pack_updates: {
+        Args: Record<string, never>;
+        Returns: {
+          pack_id: string;
+          title: string;
+          imported_version: number;
+          latest_version: number;
+          added_codes: { id: string; title: string }[];
+          removed_codes: { id: string; title: string }[];
+          changed_codes: { id: string; title: string }[];
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
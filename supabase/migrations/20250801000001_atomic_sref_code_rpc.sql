@@ -0,0 +1,104 @@
+-- Atomic create/update of SREF codes together with their images and tags.
+-- PostgREST runs every RPC call in a single transaction, so a failure in any
+-- statement rolls back the whole save instead of leaving a half-saved code.
+-- Both functions run as the caller, so the existing RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION create_sref_code(
+  p_user_id UUID,
+  p_code_value TEXT,
+  p_sv_version INTEGER,
+  p_title TEXT,
+  p_images TEXT[] DEFAULT '{}',
+  p_tags TEXT[] DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  new_code_id UUID;
+BEGIN
+  INSERT INTO sref_codes (user_id, code_value, sv_version, title)
+  VALUES (p_user_id, p_code_value, p_sv_version, p_title)
+  RETURNING id INTO new_code_id;
+
+  INSERT INTO code_images (code_id, image_url, position)
+  SELECT new_code_id, images.image_url, images.ordinality - 1
+  FROM unnest(COALESCE(p_images, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT new_code_id, tags.tag
+  FROM unnest(COALESCE(p_tags, '{}')) AS tags(tag);
+
+  RETURN new_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Omitted (NULL) arguments leave the corresponding data untouched.
+-- Image and tag diffs take precedence over full replacement arrays.
+CREATE OR REPLACE FUNCTION update_sref_code(
+  p_code_id UUID,
+  p_title TEXT DEFAULT NULL,
+  p_code_value TEXT DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_images TEXT[] DEFAULT NULL,
+  p_images_to_delete TEXT[] DEFAULT NULL,
+  p_images_to_add TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tags_to_delete TEXT[] DEFAULT NULL,
+  p_tags_to_add TEXT[] DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  next_position INTEGER;
+BEGIN
+  UPDATE sref_codes
+  SET
+    title = COALESCE(p_title, title),
+    code_value = COALESCE(p_code_value, code_value),
+    sv_version = COALESCE(p_sv_version, sv_version),
+    updated_at = NOW()
+  WHERE id = p_code_id;
+
+  -- RLS hides codes owned by other users, so this also covers permission errors
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SREF code % not found', p_code_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_images_to_delete IS NOT NULL OR p_images_to_add IS NOT NULL THEN
+    DELETE FROM code_images
+    WHERE code_id = p_code_id
+      AND image_url = ANY(COALESCE(p_images_to_delete, '{}'));
+
+    SELECT COALESCE(MAX(position), -1) + 1 INTO next_position
+    FROM code_images
+    WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, next_position + images.ordinality - 1
+    FROM unnest(COALESCE(p_images_to_add, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+  ELSIF p_images IS NOT NULL THEN
+    DELETE FROM code_images WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, images.ordinality - 1
+    FROM unnest(p_images) WITH ORDINALITY AS images(image_url, ordinality);
+  END IF;
+
+  IF p_tags_to_delete IS NOT NULL OR p_tags_to_add IS NOT NULL THEN
+    DELETE FROM code_tags
+    WHERE code_id = p_code_id
+      AND tag = ANY(COALESCE(p_tags_to_delete, '{}'));
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(COALESCE(p_tags_to_add, '{}')) AS tags(tag)
+    ON CONFLICT (code_id, tag) DO NOTHING;
+  ELSIF p_tags IS NOT NULL THEN
+    DELETE FROM code_tags WHERE code_id = p_code_id;
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(p_tags) AS tags(tag);
+  END IF;
+
+  RETURN p_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,26 @@
+-- Stream row changes of a user's library to connected clients.
+-- REPLICA IDENTITY FULL lets realtime evaluate RLS and filters against the full
+-- old row on UPDATE/DELETE instead of just the primary key.
+
+ALTER TABLE sref_codes REPLICA IDENTITY FULL;
+ALTER TABLE code_images REPLICA IDENTITY FULL;
+ALTER TABLE code_tags REPLICA IDENTITY FULL;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['sref_codes', 'code_images', 'code_tags'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
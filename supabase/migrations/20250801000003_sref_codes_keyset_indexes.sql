@@ -0,0 +1,11 @@
+-- Indexes backing keyset pagination of a user's library.
+-- Each matches one sort order: (sort column, id) scoped to the owner.
+
+CREATE INDEX IF NOT EXISTS idx_sref_codes_user_created_at
+  ON sref_codes (user_id, created_at, id);
+
+CREATE INDEX IF NOT EXISTS idx_sref_codes_user_title
+  ON sref_codes (user_id, title, id);
+
+CREATE INDEX IF NOT EXISTS idx_code_tags_tag_code_id
+  ON code_tags (tag, code_id);
@@ -0,0 +1,231 @@
+-- Full-text search over a user's SREF codes: title, code value, tags and notes,
+-- ranked by relevance with prefix matching on every search term.
+--
+-- Search documents live in their own table so `select *` on sref_codes doesn't
+-- ship a tsvector with every code. Triggers keep them current as codes and
+-- their tags change.
+
+ALTER TABLE sref_codes ADD COLUMN IF NOT EXISTS notes TEXT;
+
+CREATE TABLE IF NOT EXISTS sref_code_search (
+  code_id UUID PRIMARY KEY REFERENCES sref_codes(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sref_code_search_document ON sref_code_search USING GIN (document);
+
+ALTER TABLE sref_code_search ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view search documents of own codes" ON sref_code_search
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM sref_codes
+      WHERE sref_codes.id = sref_code_search.code_id
+      AND sref_codes.user_id = auth.uid()
+    )
+  );
+
+-- The 'simple' configuration keeps code values and tag names intact instead of
+-- stemming them as English words. Titles and tags outrank code values and notes.
+CREATE OR REPLACE FUNCTION refresh_sref_code_search(p_code_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO sref_code_search (code_id, document)
+  SELECT
+    codes.id,
+    setweight(to_tsvector('simple', COALESCE(codes.title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(
+      (SELECT string_agg(code_tags.tag, ' ') FROM code_tags WHERE code_tags.code_id = codes.id),
+      ''
+    )), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(codes.code_value, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(codes.notes, '')), 'C')
+  FROM sref_codes AS codes
+  WHERE codes.id = p_code_id
+  ON CONFLICT (code_id) DO UPDATE SET document = EXCLUDED.document;
+$$ LANGUAGE sql;
+
+-- Only the triggers below write search documents
+REVOKE EXECUTE ON FUNCTION refresh_sref_code_search(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sref_codes_refresh_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_sref_code_search(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION code_tags_refresh_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Tags removed by a cascading code delete have nothing left to refresh
+  PERFORM refresh_sref_code_search(
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.code_id ELSE NEW.code_id END
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sref_codes_refresh_search ON sref_codes;
+CREATE TRIGGER sref_codes_refresh_search
+  AFTER INSERT OR UPDATE OF title, code_value, notes ON sref_codes
+  FOR EACH ROW EXECUTE FUNCTION sref_codes_refresh_search();
+
+DROP TRIGGER IF EXISTS code_tags_refresh_search ON code_tags;
+CREATE TRIGGER code_tags_refresh_search
+  AFTER INSERT OR UPDATE OR DELETE ON code_tags
+  FOR EACH ROW EXECUTE FUNCTION code_tags_refresh_search();
+
+-- Backfill existing codes
+SELECT refresh_sref_code_search(id) FROM sref_codes;
+
+-- Ranked search, one keyset page at a time. The query arrives as a plain
+-- parameter: it is split into alphanumeric terms here and every term must
+-- match the start of a word, so user input never reaches a filter string.
+-- Returns no rows when the query has no searchable terms.
+CREATE OR REPLACE FUNCTION search_sref_codes(
+  p_user_id UUID,
+  p_query TEXT,
+  p_tags TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, rank REAL) AS $$
+  WITH search AS (
+    SELECT to_tsquery('simple', string_agg(terms.term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS terms(term)
+    WHERE terms.term <> ''
+  ),
+  matches AS (
+    SELECT codes.id, ts_rank(documents.document, search.query) AS rank
+    FROM search
+    JOIN sref_code_search AS documents ON documents.document @@ search.query
+    JOIN sref_codes AS codes ON codes.id = documents.code_id
+    WHERE codes.user_id = p_user_id
+      AND (
+        COALESCE(cardinality(p_tags), 0) = 0
+        OR EXISTS (
+          SELECT 1 FROM code_tags
+          WHERE code_tags.code_id = codes.id
+          AND code_tags.tag = ANY(p_tags)
+        )
+      )
+  )
+  SELECT matches.id, matches.rank
+  FROM matches
+  WHERE p_after_id IS NULL OR (matches.rank, matches.id) < (p_after_rank, p_after_id)
+  ORDER BY matches.rank DESC, matches.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Notes are saved through the same atomic RPCs as the rest of a code. Adding a
+-- parameter changes the signature, so the old versions are dropped first.
+DROP FUNCTION IF EXISTS create_sref_code(UUID, TEXT, INTEGER, TEXT, TEXT[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION create_sref_code(
+  p_user_id UUID,
+  p_code_value TEXT,
+  p_sv_version INTEGER,
+  p_title TEXT,
+  p_images TEXT[] DEFAULT '{}',
+  p_tags TEXT[] DEFAULT '{}',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_code_id UUID;
+BEGIN
+  INSERT INTO sref_codes (user_id, code_value, sv_version, title, notes)
+  VALUES (p_user_id, p_code_value, p_sv_version, p_title, p_notes)
+  RETURNING id INTO new_code_id;
+
+  INSERT INTO code_images (code_id, image_url, position)
+  SELECT new_code_id, images.image_url, images.ordinality - 1
+  FROM unnest(COALESCE(p_images, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT new_code_id, tags.tag
+  FROM unnest(COALESCE(p_tags, '{}')) AS tags(tag);
+
+  RETURN new_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP FUNCTION IF EXISTS update_sref_code(
+  UUID, TEXT, TEXT, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], TEXT[]
+);
+
+-- Omitted (NULL) arguments leave the corresponding data untouched; pass an
+-- empty string to clear the notes.
+CREATE OR REPLACE FUNCTION update_sref_code(
+  p_code_id UUID,
+  p_title TEXT DEFAULT NULL,
+  p_code_value TEXT DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_images TEXT[] DEFAULT NULL,
+  p_images_to_delete TEXT[] DEFAULT NULL,
+  p_images_to_add TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tags_to_delete TEXT[] DEFAULT NULL,
+  p_tags_to_add TEXT[] DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  next_position INTEGER;
+BEGIN
+  UPDATE sref_codes
+  SET
+    title = COALESCE(p_title, title),
+    code_value = COALESCE(p_code_value, code_value),
+    sv_version = COALESCE(p_sv_version, sv_version),
+    notes = CASE WHEN p_notes IS NULL THEN notes ELSE NULLIF(p_notes, '') END,
+    updated_at = NOW()
+  WHERE id = p_code_id;
+
+  -- RLS hides codes owned by other users, so this also covers permission errors
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SREF code % not found', p_code_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_images_to_delete IS NOT NULL OR p_images_to_add IS NOT NULL THEN
+    DELETE FROM code_images
+    WHERE code_id = p_code_id
+      AND image_url = ANY(COALESCE(p_images_to_delete, '{}'));
+
+    SELECT COALESCE(MAX(position), -1) + 1 INTO next_position
+    FROM code_images
+    WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, next_position + images.ordinality - 1
+    FROM unnest(COALESCE(p_images_to_add, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+  ELSIF p_images IS NOT NULL THEN
+    DELETE FROM code_images WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, images.ordinality - 1
+    FROM unnest(p_images) WITH ORDINALITY AS images(image_url, ordinality);
+  END IF;
+
+  IF p_tags_to_delete IS NOT NULL OR p_tags_to_add IS NOT NULL THEN
+    DELETE FROM code_tags
+    WHERE code_id = p_code_id
+      AND tag = ANY(COALESCE(p_tags_to_delete, '{}'));
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(COALESCE(p_tags_to_add, '{}')) AS tags(tag)
+    ON CONFLICT (code_id, tag) DO NOTHING;
+  ELSIF p_tags IS NOT NULL THEN
+    DELETE FROM code_tags WHERE code_id = p_code_id;
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(p_tags) AS tags(tag);
+  END IF;
+
+  RETURN p_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
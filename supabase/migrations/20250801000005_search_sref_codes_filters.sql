@@ -0,0 +1,47 @@
+-- Structured search filters (version and creation date) for the full-text search
+-- RPC, so `sv:` and `created:` filters narrow ranked results on the server too.
+-- Adding parameters changes the signature, so the old version is dropped first.
+
+DROP FUNCTION IF EXISTS search_sref_codes(UUID, TEXT, TEXT[], INTEGER, REAL, UUID);
+
+CREATE OR REPLACE FUNCTION search_sref_codes(
+  p_user_id UUID,
+  p_query TEXT,
+  p_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, rank REAL) AS $$
+  WITH search AS (
+    SELECT to_tsquery('simple', string_agg(terms.term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS terms(term)
+    WHERE terms.term <> ''
+  ),
+  matches AS (
+    SELECT codes.id, ts_rank(documents.document, search.query) AS rank
+    FROM search
+    JOIN sref_code_search AS documents ON documents.document @@ search.query
+    JOIN sref_codes AS codes ON codes.id = documents.code_id
+    WHERE codes.user_id = p_user_id
+      AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+      AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+      AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+      AND (
+        COALESCE(cardinality(p_tags), 0) = 0
+        OR EXISTS (
+          SELECT 1 FROM code_tags
+          WHERE code_tags.code_id = codes.id
+          AND code_tags.tag = ANY(p_tags)
+        )
+      )
+  )
+  SELECT matches.id, matches.rank
+  FROM matches
+  WHERE p_after_id IS NULL OR (matches.rank, matches.id) < (p_after_rank, p_after_id)
+  ORDER BY matches.rank DESC, matches.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
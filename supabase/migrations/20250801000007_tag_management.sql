@@ -0,0 +1,80 @@
+-- Library-wide tag management: merge (and rename) or delete tags across all of a
+-- user's codes in one transaction. Both functions return the number of codes
+-- that changed, and touch updated_at on those codes so other clients pick the
+-- change up.
+
+-- Moves every source tag onto the target. Renaming is merging a single tag into
+-- a new name. Codes already carrying the target keep a single copy of it.
+CREATE OR REPLACE FUNCTION merge_tags(
+  p_user_id UUID,
+  p_sources TEXT[],
+  p_target TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  IF NULLIF(btrim(COALESCE(p_target, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Tag name cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE sref_codes
+  SET updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND EXISTS (
+      SELECT 1 FROM code_tags
+      WHERE code_tags.code_id = sref_codes.id
+      AND code_tags.tag = ANY(p_sources)
+      AND code_tags.tag <> p_target
+    );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT code_tags.code_id, p_target
+  FROM code_tags
+  JOIN sref_codes ON sref_codes.id = code_tags.code_id
+  WHERE sref_codes.user_id = p_user_id
+    AND code_tags.tag = ANY(p_sources)
+  ON CONFLICT (code_id, tag) DO NOTHING;
+
+  DELETE FROM code_tags
+  USING sref_codes
+  WHERE sref_codes.id = code_tags.code_id
+    AND sref_codes.user_id = p_user_id
+    AND code_tags.tag = ANY(p_sources)
+    AND code_tags.tag <> p_target;
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Removes the tags from every code; the codes themselves are kept
+CREATE OR REPLACE FUNCTION delete_tags(
+  p_user_id UUID,
+  p_tags TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  UPDATE sref_codes
+  SET updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND EXISTS (
+      SELECT 1 FROM code_tags
+      WHERE code_tags.code_id = sref_codes.id
+      AND code_tags.tag = ANY(p_tags)
+    );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  DELETE FROM code_tags
+  USING sref_codes
+  WHERE sref_codes.id = code_tags.code_id
+    AND sref_codes.user_id = p_user_id
+    AND code_tags.tag = ANY(p_tags);
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,99 @@
+-- Tag normalization: per-user case and separator rules plus an alias table that
+-- maps synonyms to a canonical tag. The rules are applied by the app whenever
+-- tags are entered; rename_tags rewrites tags saved before the rules existed.
+
+CREATE TABLE IF NOT EXISTS tag_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  lowercase BOOLEAN NOT NULL DEFAULT TRUE,
+  separator TEXT NOT NULL DEFAULT 'keep' CHECK (separator IN ('keep', 'space', 'dash')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  canonical TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, alias)
+);
+
+ALTER TABLE tag_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tag_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tag settings" ON tag_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tag settings" ON tag_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tag settings" ON tag_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own tag aliases" ON tag_aliases
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tag aliases" ON tag_aliases
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tag aliases" ON tag_aliases
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tag aliases" ON tag_aliases
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Rename many tags at once: p_sources[i] becomes p_targets[i] on every one of
+-- the user's codes, merging with the target where a code already has it. Runs
+-- in one transaction and returns the number of codes that changed.
+CREATE OR REPLACE FUNCTION rename_tags(
+  p_user_id UUID,
+  p_sources TEXT[],
+  p_targets TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  IF COALESCE(cardinality(p_sources), 0) <> COALESCE(cardinality(p_targets), 0) THEN
+    RAISE EXCEPTION 'Every source tag needs a target' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_targets) AS targets(tag)
+    WHERE NULLIF(btrim(COALESCE(targets.tag, '')), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Tag name cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE sref_codes
+  SET updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND EXISTS (
+      SELECT 1
+      FROM code_tags
+      JOIN unnest(p_sources, p_targets) AS renames(source, target)
+        ON renames.source = code_tags.tag
+      WHERE code_tags.code_id = sref_codes.id
+      AND renames.source <> renames.target
+    );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT code_tags.code_id, renames.target
+  FROM code_tags
+  JOIN sref_codes ON sref_codes.id = code_tags.code_id
+  JOIN unnest(p_sources, p_targets) AS renames(source, target)
+    ON renames.source = code_tags.tag
+  WHERE sref_codes.user_id = p_user_id
+  ON CONFLICT (code_id, tag) DO NOTHING;
+
+  DELETE FROM code_tags
+  USING sref_codes, unnest(p_sources, p_targets) AS renames(source, target)
+  WHERE sref_codes.id = code_tags.code_id
+    AND sref_codes.user_id = p_user_id
+    AND code_tags.tag = renames.source
+    AND renames.source <> renames.target;
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,127 @@
+-- Folders: a tree of folders per user (parent_id), with codes filed into them
+-- through folder_codes. A code can sit in any number of folders; folders never
+-- own their codes, so deleting one leaves the codes in the library.
+
+CREATE INDEX IF NOT EXISTS idx_folders_user_parent ON folders (user_id, parent_id);
+CREATE INDEX IF NOT EXISTS idx_folder_codes_code_id ON folder_codes (code_id);
+
+-- A folder's parent must belong to the same user and can't be the folder
+-- itself or anything inside it
+CREATE OR REPLACE FUNCTION check_folder_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM folders WHERE id = NEW.parent_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Parent folder not found' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM folders WHERE id = NEW.parent_id
+      UNION
+      SELECT folders.id, folders.parent_id
+      FROM folders
+      JOIN ancestors ON folders.id = ancestors.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A folder cannot be moved inside itself' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER folders_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON folders
+  FOR EACH ROW EXECUTE FUNCTION check_folder_parent();
+
+-- Deletes a folder after moving its subfolders up to its own parent. Filing
+-- rows go with the folder; the codes stay in the library.
+CREATE OR REPLACE FUNCTION delete_folder(p_folder_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE folders AS children
+  SET parent_id = deleted.parent_id, updated_at = NOW()
+  FROM folders AS deleted
+  WHERE deleted.id = p_folder_id
+    AND children.parent_id = deleted.id;
+
+  DELETE FROM folders WHERE id = p_folder_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- folder_ids is a PostgREST computed column listing the folders a code is filed
+-- in, so the library page query can filter on a folder with cs
+CREATE OR REPLACE FUNCTION folder_ids(sref_codes)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(folder_codes.folder_id), '{}')
+  FROM folder_codes
+  WHERE folder_codes.code_id = $1.id;
+$$ LANGUAGE sql STABLE;
+
+-- Search gains the same folder filter. Adding a parameter changes the
+-- signature, so the old version is dropped first.
+DROP FUNCTION IF EXISTS search_sref_codes(
+  UUID, TEXT, TEXT[], TEXT, TEXT[], INTEGER, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE,
+  INTEGER, REAL, UUID
+);
+
+-- p_tag_mode is 'any' or 'all' and applies to p_tags
+CREATE OR REPLACE FUNCTION search_sref_codes(
+  p_user_id UUID,
+  p_query TEXT,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tag_mode TEXT DEFAULT 'any',
+  p_excluded_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_folder_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, rank REAL) AS $$
+  WITH search AS (
+    SELECT to_tsquery('simple', string_agg(terms.term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS terms(term)
+    WHERE terms.term <> ''
+  ),
+  matches AS (
+    SELECT codes.id, ts_rank(documents.document, search.query) AS rank
+    FROM search
+    JOIN sref_code_search AS documents ON documents.document @@ search.query
+    JOIN sref_codes AS codes ON codes.id = documents.code_id
+    WHERE codes.user_id = p_user_id
+      AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+      AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+      AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+      AND (
+        p_folder_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM folder_codes
+          WHERE folder_codes.code_id = codes.id AND folder_codes.folder_id = p_folder_id
+        )
+      )
+      AND (
+        COALESCE(cardinality(p_tags), 0) = 0
+        OR (p_tag_mode = 'all' AND tag_paths(codes) @> p_tags)
+        OR (p_tag_mode <> 'all' AND tag_paths(codes) && p_tags)
+      )
+      AND (
+        COALESCE(cardinality(p_excluded_tags), 0) = 0
+        OR NOT tag_paths(codes) && p_excluded_tags
+      )
+  )
+  SELECT matches.id, matches.rank
+  FROM matches
+  WHERE p_after_id IS NULL OR (matches.rank, matches.id) < (p_after_rank, p_after_id)
+  ORDER BY matches.rank DESC, matches.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
@@ -0,0 +1,96 @@
+-- Smart folders: folders with is_smart set hold no codes of their own. Their
+-- search_criteria is a library filter (text, tags, SV version, creation dates,
+-- image count) and their contents are whatever codes currently match it.
+
+ALTER TABLE folders
+  ADD CONSTRAINT folders_smart_criteria
+  CHECK (NOT is_smart OR search_criteria IS NOT NULL);
+
+-- Codes can only be filed into regular folders
+CREATE OR REPLACE FUNCTION check_folder_code_target()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM folders WHERE id = NEW.folder_id AND is_smart) THEN
+    RAISE EXCEPTION 'Codes cannot be added to a smart folder' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER folder_codes_check_target
+  BEFORE INSERT OR UPDATE OF folder_id ON folder_codes
+  FOR EACH ROW EXECUTE FUNCTION check_folder_code_target();
+
+-- image_count is a PostgREST computed column, so the library page query can
+-- filter on how many images a code has
+CREATE OR REPLACE FUNCTION image_count(sref_codes)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER FROM code_images WHERE code_images.code_id = $1.id;
+$$ LANGUAGE sql STABLE;
+
+-- Search gains the image count range. Adding parameters changes the
+-- signature, so the old version is dropped first.
+DROP FUNCTION IF EXISTS search_sref_codes(
+  UUID, TEXT, TEXT[], TEXT, TEXT[], INTEGER, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE,
+  UUID, INTEGER, REAL, UUID
+);
+
+-- p_tag_mode is 'any' or 'all' and applies to p_tags. p_min_images and
+-- p_max_images are both inclusive.
+CREATE OR REPLACE FUNCTION search_sref_codes(
+  p_user_id UUID,
+  p_query TEXT,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tag_mode TEXT DEFAULT 'any',
+  p_excluded_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_folder_id UUID DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, rank REAL) AS $$
+  WITH search AS (
+    SELECT to_tsquery('simple', string_agg(terms.term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS terms(term)
+    WHERE terms.term <> ''
+  ),
+  matches AS (
+    SELECT codes.id, ts_rank(documents.document, search.query) AS rank
+    FROM search
+    JOIN sref_code_search AS documents ON documents.document @@ search.query
+    JOIN sref_codes AS codes ON codes.id = documents.code_id
+    WHERE codes.user_id = p_user_id
+      AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+      AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+      AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+      AND (
+        p_folder_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM folder_codes
+          WHERE folder_codes.code_id = codes.id AND folder_codes.folder_id = p_folder_id
+        )
+      )
+      AND (p_min_images IS NULL OR image_count(codes) >= p_min_images)
+      AND (p_max_images IS NULL OR image_count(codes) <= p_max_images)
+      AND (
+        COALESCE(cardinality(p_tags), 0) = 0
+        OR (p_tag_mode = 'all' AND tag_paths(codes) @> p_tags)
+        OR (p_tag_mode <> 'all' AND tag_paths(codes) && p_tags)
+      )
+      AND (
+        COALESCE(cardinality(p_excluded_tags), 0) = 0
+        OR NOT tag_paths(codes) && p_excluded_tags
+      )
+  )
+  SELECT matches.id, matches.rank
+  FROM matches
+  WHERE p_after_id IS NULL OR (matches.rank, matches.id) < (p_after_rank, p_after_id)
+  ORDER BY matches.rank DESC, matches.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
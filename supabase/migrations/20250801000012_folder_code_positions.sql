@@ -0,0 +1,46 @@
+-- Manual ordering inside folders: each filing row gets a position, starting at
+-- 0 within its folder. Existing rows keep the order they were added in.
+
+ALTER TABLE folder_codes ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+
+UPDATE folder_codes
+SET position = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY folder_id ORDER BY added_at, id) - 1 AS position
+  FROM folder_codes
+) AS ordered
+WHERE folder_codes.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_folder_codes_folder_position ON folder_codes (folder_id, position);
+
+-- Files codes at the end of a folder, in the order given. Codes already in
+-- the folder keep their place.
+CREATE OR REPLACE FUNCTION add_codes_to_folder(p_folder_id UUID, p_code_ids UUID[])
+RETURNS VOID AS $$
+  INSERT INTO folder_codes (folder_id, code_id, position)
+  SELECT
+    p_folder_id,
+    added.code_id,
+    COALESCE((SELECT MAX(position) + 1 FROM folder_codes WHERE folder_id = p_folder_id), 0)
+      + added.ordinality::INTEGER - 1
+  FROM unnest(p_code_ids) WITH ORDINALITY AS added(code_id, ordinality)
+  ON CONFLICT (folder_id, code_id) DO NOTHING;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Puts a folder's codes in the order given. Codes left out of p_code_ids go
+-- after the listed ones, keeping their current order.
+CREATE OR REPLACE FUNCTION reorder_folder_codes(p_folder_id UUID, p_code_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE folder_codes
+  SET position = ordered.position
+  FROM (
+    SELECT
+      folder_codes.id,
+      ROW_NUMBER() OVER (
+        ORDER BY array_position(p_code_ids, folder_codes.code_id) NULLS LAST, folder_codes.position
+      ) - 1 AS position
+    FROM folder_codes
+    WHERE folder_codes.folder_id = p_folder_id
+  ) AS ordered
+  WHERE folder_codes.id = ordered.id;
+$$ LANGUAGE sql SECURITY INVOKER;
@@ -0,0 +1,31 @@
+-- Favorites: sref_codes.save_count follows saved_codes through a trigger, so
+-- it stays accurate however rows are added or removed. Users can't update other
+-- people's codes, so the trigger runs as the table owner.
+
+CREATE OR REPLACE FUNCTION saved_codes_update_save_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE sref_codes SET save_count = save_count + 1 WHERE id = NEW.code_id;
+  ELSE
+    -- Rows removed by a cascading code delete have no count left to update
+    UPDATE sref_codes SET save_count = GREATEST(save_count - 1, 0) WHERE id = OLD.code_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER saved_codes_update_save_count
+  AFTER INSERT OR DELETE ON saved_codes
+  FOR EACH ROW EXECUTE FUNCTION saved_codes_update_save_count();
+
+-- Counts written before the trigger existed
+UPDATE sref_codes
+SET save_count = COALESCE(
+  (SELECT COUNT(*) FROM saved_codes WHERE saved_codes.code_id = sref_codes.id),
+  0
+);
+
+-- Favorites list, newest save first
+CREATE INDEX IF NOT EXISTS idx_saved_codes_user_saved_at ON saved_codes (user_id, saved_at DESC);
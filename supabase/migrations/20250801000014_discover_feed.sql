@@ -0,0 +1,80 @@
+-- Discover: a feed of other users' codes, sorted by age, copies or votes and
+-- filtered like the library.
+
+-- Search documents follow their codes: anyone who can see a code can search
+-- it, so the feed can use the same full-text index as the library
+DROP POLICY IF EXISTS "Users can view search documents of own codes" ON sref_code_search;
+
+CREATE POLICY "Search documents are viewable with their codes" ON sref_code_search
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM sref_codes
+      WHERE sref_codes.id = sref_code_search.code_id
+    )
+  );
+
+-- One keyset page of the feed, leaving out p_user_id's own codes. p_sort is
+-- 'newest', 'most_copied' or 'top_voted' (upvotes minus downvotes). Every
+-- sort is expressed as a number, so pages continue from the sort value and id
+-- of the last code. The query is matched like search_sref_codes, but doesn't
+-- change the order.
+CREATE OR REPLACE FUNCTION discover_sref_codes(
+  p_user_id UUID DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tag_mode TEXT DEFAULT 'any',
+  p_excluded_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_limit INTEGER DEFAULT 24,
+  p_after_value DOUBLE PRECISION DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, sort_value DOUBLE PRECISION) AS $$
+  WITH search AS (
+    SELECT to_tsquery('simple', string_agg(terms.term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS terms(term)
+    WHERE terms.term <> ''
+  ),
+  matches AS (
+    SELECT
+      codes.id,
+      CASE p_sort
+        WHEN 'most_copied' THEN codes.copy_count::DOUBLE PRECISION
+        WHEN 'top_voted' THEN (codes.upvotes - codes.downvotes)::DOUBLE PRECISION
+        ELSE extract(epoch FROM codes.created_at)::DOUBLE PRECISION
+      END AS sort_value
+    FROM sref_codes AS codes, search
+    WHERE (p_user_id IS NULL OR codes.user_id <> p_user_id)
+      AND (
+        search.query IS NULL
+        OR EXISTS (
+          SELECT 1 FROM sref_code_search AS documents
+          WHERE documents.code_id = codes.id AND documents.document @@ search.query
+        )
+      )
+      AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+      AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+      AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+      AND (p_min_images IS NULL OR image_count(codes) >= p_min_images)
+      AND (p_max_images IS NULL OR image_count(codes) <= p_max_images)
+      AND (
+        COALESCE(cardinality(p_tags), 0) = 0
+        OR (p_tag_mode = 'all' AND tag_paths(codes) @> p_tags)
+        OR (p_tag_mode <> 'all' AND tag_paths(codes) && p_tags)
+      )
+      AND (
+        COALESCE(cardinality(p_excluded_tags), 0) = 0
+        OR NOT tag_paths(codes) && p_excluded_tags
+      )
+  )
+  SELECT matches.id, matches.sort_value
+  FROM matches
+  WHERE p_after_id IS NULL OR (matches.sort_value, matches.id) < (p_after_value, p_after_id)
+  ORDER BY matches.sort_value DESC, matches.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
@@ -0,0 +1,168 @@
+-- Per-code visibility. Codes used to be readable by everyone; existing codes
+-- become private, so nothing stays exposed until its owner chooses to share it.
+--   private   only the owner
+--   unlisted  anyone who has the code's id, through get_shared_sref_code
+--   public    everyone, including the Discover feed
+
+ALTER TABLE sref_codes
+  ADD COLUMN visibility TEXT NOT NULL DEFAULT 'private'
+  CHECK (visibility IN ('private', 'unlisted', 'public'));
+
+DROP POLICY IF EXISTS "Public codes are viewable by everyone" ON sref_codes;
+DROP POLICY IF EXISTS "Code images are viewable by everyone" ON code_images;
+DROP POLICY IF EXISTS "Code tags are viewable by everyone" ON code_tags;
+
+CREATE POLICY "Users can view their own codes and public codes" ON sref_codes
+  FOR SELECT USING (auth.uid() = user_id OR visibility = 'public');
+
+-- Images and tags follow their code's visibility
+CREATE POLICY "Code images are viewable with their codes" ON code_images
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM sref_codes WHERE sref_codes.id = code_images.code_id)
+  );
+
+CREATE POLICY "Code tags are viewable with their codes" ON code_tags
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM sref_codes WHERE sref_codes.id = code_tags.code_id)
+  );
+
+-- Visibility is saved through the same atomic RPCs as the rest of a code.
+-- Adding a parameter changes the signature, so the old versions are dropped first.
+DROP FUNCTION IF EXISTS create_sref_code(UUID, TEXT, INTEGER, TEXT, TEXT[], TEXT[], TEXT);
+
+CREATE OR REPLACE FUNCTION create_sref_code(
+  p_user_id UUID,
+  p_code_value TEXT,
+  p_sv_version INTEGER,
+  p_title TEXT,
+  p_images TEXT[] DEFAULT '{}',
+  p_tags TEXT[] DEFAULT '{}',
+  p_notes TEXT DEFAULT NULL,
+  p_visibility TEXT DEFAULT 'private'
+)
+RETURNS UUID AS $$
+DECLARE
+  new_code_id UUID;
+BEGIN
+  INSERT INTO sref_codes (user_id, code_value, sv_version, title, notes, visibility)
+  VALUES (p_user_id, p_code_value, p_sv_version, p_title, p_notes, p_visibility)
+  RETURNING id INTO new_code_id;
+
+  INSERT INTO code_images (code_id, image_url, position)
+  SELECT new_code_id, images.image_url, images.ordinality - 1
+  FROM unnest(COALESCE(p_images, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT new_code_id, tags.tag
+  FROM unnest(COALESCE(p_tags, '{}')) AS tags(tag);
+
+  RETURN new_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP FUNCTION IF EXISTS update_sref_code(
+  UUID, TEXT, TEXT, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], TEXT
+);
+
+-- Omitted (NULL) arguments leave the corresponding data untouched; pass an
+-- empty string to clear the notes.
+CREATE OR REPLACE FUNCTION update_sref_code(
+  p_code_id UUID,
+  p_title TEXT DEFAULT NULL,
+  p_code_value TEXT DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_images TEXT[] DEFAULT NULL,
+  p_images_to_delete TEXT[] DEFAULT NULL,
+  p_images_to_add TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tags_to_delete TEXT[] DEFAULT NULL,
+  p_tags_to_add TEXT[] DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_visibility TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  next_position INTEGER;
+BEGIN
+  UPDATE sref_codes
+  SET
+    title = COALESCE(p_title, title),
+    code_value = COALESCE(p_code_value, code_value),
+    sv_version = COALESCE(p_sv_version, sv_version),
+    notes = CASE WHEN p_notes IS NULL THEN notes ELSE NULLIF(p_notes, '') END,
+    visibility = COALESCE(p_visibility, visibility),
+    updated_at = NOW()
+  WHERE id = p_code_id;
+
+  -- RLS hides codes owned by other users, so this also covers permission errors
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SREF code % not found', p_code_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_images_to_delete IS NOT NULL OR p_images_to_add IS NOT NULL THEN
+    DELETE FROM code_images
+    WHERE code_id = p_code_id
+      AND image_url = ANY(COALESCE(p_images_to_delete, '{}'));
+
+    SELECT COALESCE(MAX(position), -1) + 1 INTO next_position
+    FROM code_images
+    WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, next_position + images.ordinality - 1
+    FROM unnest(COALESCE(p_images_to_add, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+  ELSIF p_images IS NOT NULL THEN
+    DELETE FROM code_images WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, images.ordinality - 1
+    FROM unnest(p_images) WITH ORDINALITY AS images(image_url, ordinality);
+  END IF;
+
+  IF p_tags_to_delete IS NOT NULL OR p_tags_to_add IS NOT NULL THEN
+    DELETE FROM code_tags
+    WHERE code_id = p_code_id
+      AND tag = ANY(COALESCE(p_tags_to_delete, '{}'));
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(COALESCE(p_tags_to_add, '{}')) AS tags(tag)
+    ON CONFLICT (code_id, tag) DO NOTHING;
+  ELSIF p_tags IS NOT NULL THEN
+    DELETE FROM code_tags WHERE code_id = p_code_id;
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(p_tags) AS tags(tag);
+  END IF;
+
+  RETURN p_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Fetches a code by id, e.g. from a share link. Unlisted codes can't be listed
+-- or searched, so this is the only way to read them; private codes are only
+-- returned to their owner. Returns the code with its images and tags, or NULL.
+CREATE OR REPLACE FUNCTION get_shared_sref_code(p_code_id UUID)
+RETURNS JSONB AS $$
+  SELECT to_jsonb(codes) || jsonb_build_object(
+    'images', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', images.id, 'image_url', images.image_url, 'position', images.position)
+          ORDER BY images.position
+        )
+        FROM code_images AS images
+        WHERE images.code_id = codes.id
+      ),
+      '[]'::JSONB
+    ),
+    'tags', COALESCE(
+      (SELECT jsonb_agg(tags.tag ORDER BY tags.tag) FROM code_tags AS tags WHERE tags.code_id = codes.id),
+      '[]'::JSONB
+    )
+  )
+  FROM sref_codes AS codes
+  WHERE codes.id = p_code_id
+    AND (codes.visibility IN ('public', 'unlisted') OR codes.user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,52 @@
+-- Voting: users vote once per code, never on their own codes, and only on
+-- codes they can see. The counts on sref_codes are recomputed by
+-- update_code_vote_counts after every vote change.
+
+DROP POLICY IF EXISTS "Users can manage their own votes" ON code_votes;
+
+CREATE POLICY "Users can vote on codes of other users" ON code_votes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM sref_codes
+      WHERE sref_codes.id = code_votes.code_id
+      AND sref_codes.user_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can change their own votes" ON code_votes
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM sref_codes
+      WHERE sref_codes.id = code_votes.code_id
+      AND sref_codes.user_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can retract their own votes" ON code_votes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- A vote isn't an edit to the code, so updated_at is left alone
+CREATE OR REPLACE FUNCTION update_code_vote_counts(code_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE sref_codes
+  SET
+    upvotes = (
+      SELECT COUNT(*) FROM code_votes
+      WHERE code_votes.code_id = update_code_vote_counts.code_id
+      AND is_upvote = true
+    ),
+    downvotes = (
+      SELECT COUNT(*) FROM code_votes
+      WHERE code_votes.code_id = update_code_vote_counts.code_id
+      AND is_upvote = false
+    )
+  WHERE id = update_code_vote_counts.code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Counting a code's votes
+CREATE INDEX IF NOT EXISTS idx_code_votes_code_id ON code_votes (code_id);
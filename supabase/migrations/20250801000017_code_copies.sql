@@ -0,0 +1,60 @@
+-- Copy tracking: every copy of a code is logged per user and counted on the
+-- code itself. Copies only go through record_code_copy, which also counts
+-- copies of other users' codes towards their author.
+
+CREATE TABLE code_copies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_id UUID NOT NULL REFERENCES sref_codes(id) ON DELETE CASCADE,
+  copied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE code_copies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own copies" ON code_copies
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Copy history, newest first
+CREATE INDEX IF NOT EXISTS idx_code_copies_user_copied_at ON code_copies (user_id, copied_at DESC);
+
+-- "Most used" library order
+CREATE INDEX IF NOT EXISTS idx_sref_codes_user_copy_count ON sref_codes (user_id, copy_count, id);
+
+-- Log a copy by the current user and bump the code's copy_count in one step.
+-- Runs as the table owner so copies of other users' codes can be counted;
+-- private codes only count for their owner. Returns the new count.
+CREATE OR REPLACE FUNCTION record_code_copy(p_code_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_copy_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE sref_codes
+  SET copy_count = copy_count + 1
+  WHERE id = p_code_id
+    AND (user_id = auth.uid() OR visibility <> 'private')
+  RETURNING copy_count INTO v_copy_count;
+
+  IF v_copy_count IS NULL THEN
+    RAISE EXCEPTION 'SREF code % not found', p_code_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO code_copies (user_id, code_id) VALUES (auth.uid(), p_code_id);
+
+  RETURN v_copy_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The codes a user copied most recently, once each, with their latest copy time
+CREATE OR REPLACE FUNCTION get_recent_code_copies(p_limit INTEGER DEFAULT 12)
+RETURNS TABLE (code_id UUID, copied_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT copies.code_id, MAX(copies.copied_at) AS copied_at
+  FROM code_copies AS copies
+  WHERE copies.user_id = auth.uid()
+  GROUP BY copies.code_id
+  ORDER BY MAX(copies.copied_at) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
@@ -0,0 +1,353 @@
+-- Packs: titled, ordered collections of a user's codes, published as numbered
+-- versions for other users to import.
+--   private   only the owner
+--   unlisted  anyone who has the pack's id, through get_shared_pack
+--   public    everyone, listed in the Packs tab
+-- pack_codes is the owner's working list. Publishing snapshots it into
+-- pack_versions, and importers only ever see published versions, so codes in
+-- a pack are shared through it even while the codes themselves are private.
+
+CREATE TABLE packs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  cover_image_url TEXT,
+  visibility TEXT NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'unlisted', 'public')),
+  -- Latest published version; 0 until the pack is first published
+  version INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE pack_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  pack_id UUID NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+  code_id UUID NOT NULL REFERENCES sref_codes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(pack_id, code_id)
+);
+
+CREATE TABLE pack_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  pack_id UUID NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  cover_image_url TEXT,
+  -- The pack's codes at publishing time, in order
+  code_ids UUID[] NOT NULL DEFAULT '{}',
+  published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(pack_id, version)
+);
+
+-- The version of each pack a user imported last
+CREATE TABLE pack_imports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pack_id UUID NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, pack_id)
+);
+
+-- Where an imported code came from. The source links are cleared, not
+-- cascaded, when the original code or pack is deleted.
+CREATE TABLE code_provenance (
+  code_id UUID PRIMARY KEY REFERENCES sref_codes(id) ON DELETE CASCADE,
+  source_code_id UUID REFERENCES sref_codes(id) ON DELETE SET NULL,
+  pack_id UUID REFERENCES packs(id) ON DELETE SET NULL,
+  pack_version INTEGER,
+  imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pack_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pack_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pack_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE code_provenance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own packs and public packs" ON packs
+  FOR SELECT USING (auth.uid() = user_id OR visibility = 'public');
+
+CREATE POLICY "Users can manage their own packs" ON packs
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Only the pack's owner sees its working list, and it can only hold their codes
+CREATE POLICY "Users can manage their pack codes" ON pack_codes
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT user_id FROM packs WHERE id = pack_id
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM packs WHERE id = pack_id
+    )
+    AND auth.uid() IN (
+      SELECT user_id FROM sref_codes WHERE id = code_id
+    )
+  );
+
+CREATE POLICY "Pack versions are viewable with their packs" ON pack_versions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM packs WHERE packs.id = pack_versions.pack_id)
+  );
+
+CREATE POLICY "Users can publish their own packs" ON pack_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM packs WHERE id = pack_id
+    )
+  );
+
+CREATE POLICY "Users can manage their pack imports" ON pack_imports
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Written by import_pack only
+CREATE POLICY "Users can view the provenance of their codes" ON code_provenance
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT user_id FROM sref_codes WHERE id = code_id
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_packs_user_id ON packs (user_id);
+CREATE INDEX IF NOT EXISTS idx_packs_public_updated_at ON packs (updated_at DESC)
+  WHERE visibility = 'public';
+CREATE INDEX IF NOT EXISTS idx_pack_codes_pack_position ON pack_codes (pack_id, position);
+CREATE INDEX IF NOT EXISTS idx_code_provenance_source_code_id ON code_provenance (source_code_id);
+
+-- Replaces a pack's working list with p_code_ids, in that order
+CREATE OR REPLACE FUNCTION set_pack_codes(p_pack_id UUID, p_code_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM pack_codes
+  WHERE pack_id = p_pack_id AND NOT (code_id = ANY (p_code_ids));
+
+  INSERT INTO pack_codes (pack_id, code_id, position)
+  SELECT p_pack_id, listed.code_id, listed.ordinality::INTEGER - 1
+  FROM unnest(p_code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+  ON CONFLICT (pack_id, code_id) DO UPDATE SET position = EXCLUDED.position;
+
+  UPDATE packs SET updated_at = NOW() WHERE id = p_pack_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Snapshots the pack's title, description, cover and codes as its next
+-- version, and shares it publicly or by link. Returns the new version number.
+CREATE OR REPLACE FUNCTION publish_pack(p_pack_id UUID, p_visibility TEXT DEFAULT 'public')
+RETURNS INTEGER AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  IF p_visibility NOT IN ('unlisted', 'public') THEN
+    RAISE EXCEPTION 'Packs are published as unlisted or public' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE packs
+  SET version = version + 1, visibility = p_visibility, updated_at = NOW()
+  WHERE id = p_pack_id AND user_id = auth.uid()
+  RETURNING version INTO v_version;
+
+  IF v_version IS NULL THEN
+    RAISE EXCEPTION 'Pack % not found', p_pack_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO pack_versions (pack_id, version, title, description, cover_image_url, code_ids)
+  SELECT
+    packs.id,
+    v_version,
+    packs.title,
+    packs.description,
+    packs.cover_image_url,
+    COALESCE(
+      (SELECT array_agg(pack_codes.code_id ORDER BY pack_codes.position)
+       FROM pack_codes WHERE pack_codes.pack_id = packs.id),
+      '{}'
+    )
+  FROM packs
+  WHERE packs.id = p_pack_id;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Fetches the latest published version of a pack, e.g. from a share link,
+-- with its codes in order. Private packs are only returned to their owner.
+-- Returns NULL for packs that don't exist or were never published.
+CREATE OR REPLACE FUNCTION get_shared_pack(p_pack_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', packs.id,
+    'user_id', packs.user_id,
+    'title', versions.title,
+    'description', versions.description,
+    'cover_image_url', versions.cover_image_url,
+    'visibility', packs.visibility,
+    'version', versions.version,
+    'published_at', versions.published_at,
+    'codes', COALESCE(
+      (
+        SELECT jsonb_agg(
+          to_jsonb(codes) || jsonb_build_object(
+            'images', COALESCE(
+              (
+                SELECT jsonb_agg(
+                  jsonb_build_object('id', images.id, 'image_url', images.image_url, 'position', images.position)
+                  ORDER BY images.position
+                )
+                FROM code_images AS images
+                WHERE images.code_id = codes.id
+              ),
+              '[]'::JSONB
+            ),
+            'tags', COALESCE(
+              (SELECT jsonb_agg(tags.tag ORDER BY tags.tag) FROM code_tags AS tags WHERE tags.code_id = codes.id),
+              '[]'::JSONB
+            )
+          )
+          ORDER BY listed.ordinality
+        )
+        FROM unnest(versions.code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+        JOIN sref_codes AS codes ON codes.id = listed.code_id
+      ),
+      '[]'::JSONB
+    )
+  )
+  FROM packs
+  JOIN pack_versions AS versions
+    ON versions.pack_id = packs.id AND versions.version = packs.version
+  WHERE packs.id = p_pack_id
+    AND (packs.visibility <> 'private' OR packs.user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Copies the codes of a pack's latest version, with their images and tags,
+-- into the current user's library as private codes, recording where each one
+-- came from. Codes the user already imported from the same original are
+-- skipped, so importing a newer version only brings in what was added.
+-- Returns the number of codes imported.
+CREATE OR REPLACE FUNCTION import_pack(p_pack_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_pack packs%ROWTYPE;
+  v_code_ids UUID[];
+  v_source sref_codes%ROWTYPE;
+  v_code_id UUID;
+  v_imported INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_pack FROM packs
+  WHERE id = p_pack_id AND version > 0 AND visibility <> 'private';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pack % not found', p_pack_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_pack.user_id = v_user_id THEN
+    RAISE EXCEPTION 'Packs cannot be imported by their owner' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT code_ids INTO v_code_ids FROM pack_versions
+  WHERE pack_id = p_pack_id AND version = v_pack.version;
+
+  FOR v_source IN
+    SELECT codes.*
+    FROM unnest(v_code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+    JOIN sref_codes AS codes ON codes.id = listed.code_id
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM code_provenance AS provenance
+      JOIN sref_codes AS mine ON mine.id = provenance.code_id
+      WHERE provenance.source_code_id = codes.id AND mine.user_id = v_user_id
+    )
+    ORDER BY listed.ordinality
+  LOOP
+    INSERT INTO sref_codes (user_id, code_value, sv_version, title, notes)
+    VALUES (v_user_id, v_source.code_value, v_source.sv_version, v_source.title, v_source.notes)
+    RETURNING id INTO v_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT v_code_id, image_url, position FROM code_images WHERE code_id = v_source.id;
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT v_code_id, tag FROM code_tags WHERE code_id = v_source.id;
+
+    INSERT INTO code_provenance (code_id, source_code_id, pack_id, pack_version)
+    VALUES (v_code_id, v_source.id, p_pack_id, v_pack.version);
+
+    v_imported := v_imported + 1;
+  END LOOP;
+
+  INSERT INTO pack_imports (user_id, pack_id, version)
+  VALUES (v_user_id, p_pack_id, v_pack.version)
+  ON CONFLICT (user_id, pack_id)
+  DO UPDATE SET version = EXCLUDED.version, imported_at = NOW();
+
+  RETURN v_imported;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Packs the current user imported that have published a newer version since,
+-- with the codes added, removed and edited between the two versions. Each
+-- code is returned as {id, title}.
+CREATE OR REPLACE FUNCTION get_pack_updates()
+RETURNS TABLE (
+  pack_id UUID,
+  title TEXT,
+  imported_version INTEGER,
+  latest_version INTEGER,
+  added_codes JSONB,
+  removed_codes JSONB,
+  changed_codes JSONB
+) AS $$
+  WITH updates AS (
+    SELECT
+      packs.id AS pack_id,
+      latest.title,
+      imports.version AS imported_version,
+      latest.version AS latest_version,
+      latest.code_ids AS latest_ids,
+      COALESCE(imported.code_ids, '{}') AS imported_ids,
+      COALESCE(imported.published_at, imports.imported_at) AS imported_published_at
+    FROM pack_imports AS imports
+    JOIN packs ON packs.id = imports.pack_id
+    JOIN pack_versions AS latest
+      ON latest.pack_id = packs.id AND latest.version = packs.version
+    LEFT JOIN pack_versions AS imported
+      ON imported.pack_id = packs.id AND imported.version = imports.version
+    WHERE imports.user_id = auth.uid()
+      AND packs.version > imports.version
+      AND packs.visibility <> 'private'
+  )
+  SELECT
+    updates.pack_id,
+    updates.title,
+    updates.imported_version,
+    updates.latest_version,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('id', codes.id, 'title', codes.title))
+       FROM sref_codes AS codes
+       WHERE codes.id = ANY (updates.latest_ids) AND NOT codes.id = ANY (updates.imported_ids)),
+      '[]'::JSONB
+    ),
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('id', codes.id, 'title', codes.title))
+       FROM sref_codes AS codes
+       WHERE codes.id = ANY (updates.imported_ids) AND NOT codes.id = ANY (updates.latest_ids)),
+      '[]'::JSONB
+    ),
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('id', codes.id, 'title', codes.title))
+       FROM sref_codes AS codes
+       WHERE codes.id = ANY (updates.latest_ids)
+         AND codes.id = ANY (updates.imported_ids)
+         AND codes.updated_at > updates.imported_published_at),
+      '[]'::JSONB
+    )
+  FROM updates;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
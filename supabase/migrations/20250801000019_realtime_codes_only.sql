@@ -0,0 +1,18 @@
+-- Stream only sref_codes to clients. image and tag rows carry no user_id, so a
+-- subscription to them couldn't be filtered to one user's library. Every write to
+-- them also updates their sref_codes row, which clients follow instead.
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['code_images', 'code_tags'] LOOP
+    IF EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime DROP TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Page a folder's codes in their manual order on the server, so codes on later
+-- pages don't arrive out of order.
+
+-- A folder's codes in their manual order, one keyset page at a time. Pages
+-- continue from the position and id of the last code. Filters match
+-- search_sref_codes.
+CREATE OR REPLACE FUNCTION get_folder_sref_codes(
+  p_user_id UUID,
+  p_folder_id UUID,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tag_mode TEXT DEFAULT 'any',
+  p_excluded_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_after_position INTEGER DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, position INTEGER) AS $$
+  SELECT codes.id, folder_codes.position
+  FROM folder_codes
+  JOIN sref_codes AS codes ON codes.id = folder_codes.code_id
+  WHERE folder_codes.folder_id = p_folder_id
+    AND codes.user_id = p_user_id
+    AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+    AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+    AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+    AND (p_min_images IS NULL OR image_count(codes) >= p_min_images)
+    AND (p_max_images IS NULL OR image_count(codes) <= p_max_images)
+    AND (
+      COALESCE(cardinality(p_tags), 0) = 0
+      OR (p_tag_mode = 'all' AND tag_paths(codes) @> p_tags)
+      OR (p_tag_mode <> 'all' AND tag_paths(codes) && p_tags)
+    )
+    AND (
+      COALESCE(cardinality(p_excluded_tags), 0) = 0
+      OR NOT tag_paths(codes) && p_excluded_tags
+    )
+    AND (
+      p_after_id IS NULL
+      OR (folder_codes.position, codes.id) > (p_after_position, p_after_id)
+    )
+  ORDER BY folder_codes.position, codes.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
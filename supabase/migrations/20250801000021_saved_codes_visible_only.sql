@@ -0,0 +1,14 @@
+-- Users can only save codes they can see, so save_count can't be raised on
+-- private codes. Saves are never edited, only added and removed, so a save
+-- can't be moved to another code behind the save_count trigger's back.
+
+DROP POLICY IF EXISTS "Users can manage their saved codes" ON saved_codes;
+
+CREATE POLICY "Users can save codes they can see" ON saved_codes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM sref_codes WHERE sref_codes.id = saved_codes.code_id)
+  );
+
+CREATE POLICY "Users can remove their saved codes" ON saved_codes
+  FOR DELETE USING (auth.uid() = user_id);
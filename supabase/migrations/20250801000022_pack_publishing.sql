@@ -0,0 +1,68 @@
+-- Versions are only written by publish_pack. Clients could otherwise insert a
+-- version listing any code ids, sharing other users' private codes through it,
+-- or bump a pack's version and visibility without publishing anything.
+
+DROP POLICY IF EXISTS "Users can publish their own packs" ON pack_versions;
+
+-- Owners edit a pack's details; version and visibility change through publish_pack
+REVOKE INSERT, UPDATE ON packs FROM anon, authenticated;
+GRANT INSERT (user_id, title, description, cover_image_url) ON packs TO authenticated;
+GRANT UPDATE (title, description, cover_image_url, updated_at) ON packs TO authenticated;
+
+-- Snapshots the pack's title, description, cover and codes as its next
+-- version, and shares it publicly or by link. Returns the new version number.
+-- This is the only way versions are written; it runs as the table owner, so
+-- it checks the pack belongs to the caller and only snapshots codes the owner
+-- still owns.
+CREATE OR REPLACE FUNCTION publish_pack(p_pack_id UUID, p_visibility TEXT DEFAULT 'public')
+RETURNS INTEGER AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  IF p_visibility NOT IN ('unlisted', 'public') THEN
+    RAISE EXCEPTION 'Packs are published as unlisted or public' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE packs
+  SET version = version + 1, visibility = p_visibility, updated_at = NOW()
+  WHERE id = p_pack_id AND user_id = auth.uid()
+  RETURNING version INTO v_version;
+
+  IF v_version IS NULL THEN
+    RAISE EXCEPTION 'Pack % not found', p_pack_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO pack_versions (pack_id, version, title, description, cover_image_url, code_ids)
+  SELECT
+    packs.id,
+    v_version,
+    packs.title,
+    packs.description,
+    packs.cover_image_url,
+    COALESCE(
+      (SELECT array_agg(pack_codes.code_id ORDER BY pack_codes.position)
+       FROM pack_codes
+       JOIN sref_codes AS codes ON codes.id = pack_codes.code_id
+       WHERE pack_codes.pack_id = packs.id AND codes.user_id = packs.user_id),
+      '{}'
+    )
+  FROM packs
+  WHERE packs.id = p_pack_id;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Drop codes from versions published before this that their pack's owner
+-- doesn't own
+UPDATE pack_versions
+SET code_ids = COALESCE(
+  (
+    SELECT array_agg(listed.code_id ORDER BY listed.ordinality)
+    FROM unnest(pack_versions.code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+    JOIN sref_codes AS codes ON codes.id = listed.code_id
+    JOIN packs ON packs.id = pack_versions.pack_id
+    WHERE codes.user_id = packs.user_id
+  ),
+  '{}'
+);
@@ -0,0 +1,74 @@
+-- rename_tags applies every rename to the tags as they were before the call,
+-- so a plan whose target is also renamed (a -> b, b -> c) dropped the tag from
+-- codes that only had a. Such plans are now rejected; the app resolves alias
+-- chains to their final tag before sending them.
+
+-- Rename many tags at once: p_sources[i] becomes p_targets[i] on every one of
+-- the user's codes, merging with the target where a code already has it. Runs
+-- in one transaction and returns the number of codes that changed.
+CREATE OR REPLACE FUNCTION rename_tags(
+  p_user_id UUID,
+  p_sources TEXT[],
+  p_targets TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  IF COALESCE(cardinality(p_sources), 0) <> COALESCE(cardinality(p_targets), 0) THEN
+    RAISE EXCEPTION 'Every source tag needs a target' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_targets) AS targets(tag)
+    WHERE NULLIF(btrim(COALESCE(targets.tag, '')), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Tag name cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  -- Every rename reads the tags as they were before the call, so a chain like
+  -- a -> b, b -> c would add b to codes that only had a and then delete it
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_sources, p_targets) AS renames(source, target)
+    JOIN unnest(p_sources, p_targets) AS chained(source, target)
+      ON chained.source = renames.target
+    WHERE renames.source <> renames.target
+      AND chained.source <> chained.target
+  ) THEN
+    RAISE EXCEPTION 'A renamed tag cannot also be a rename target' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE sref_codes
+  SET updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND EXISTS (
+      SELECT 1
+      FROM code_tags
+      JOIN unnest(p_sources, p_targets) AS renames(source, target)
+        ON renames.source = code_tags.tag
+      WHERE code_tags.code_id = sref_codes.id
+      AND renames.source <> renames.target
+    );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT code_tags.code_id, renames.target
+  FROM code_tags
+  JOIN sref_codes ON sref_codes.id = code_tags.code_id
+  JOIN unnest(p_sources, p_targets) AS renames(source, target)
+    ON renames.source = code_tags.tag
+  WHERE sref_codes.user_id = p_user_id
+  ON CONFLICT (code_id, tag) DO NOTHING;
+
+  DELETE FROM code_tags
+  USING sref_codes, unnest(p_sources, p_targets) AS renames(source, target)
+  WHERE sref_codes.id = code_tags.code_id
+    AND sref_codes.user_id = p_user_id
+    AND code_tags.tag = renames.source
+    AND renames.source <> renames.target;
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,75 @@
+-- Imported codes kept the author's image URLs, so they broke when the author
+-- deleted or replaced those files. import_pack now returns the new codes' ids
+-- so the app can copy their images into the importer's storage, as cloning does.
+
+DROP FUNCTION IF EXISTS import_pack(UUID);
+
+-- Copies the codes of a pack's latest version, with their images and tags,
+-- into the current user's library as private codes, recording where each one
+-- came from. Codes the user already imported from the same original are
+-- skipped, so importing a newer version only brings in what was added.
+-- Returns the ids of the imported codes. Their images still point at the
+-- author's files; the app copies them into the importer's storage.
+CREATE FUNCTION import_pack(p_pack_id UUID)
+RETURNS UUID[] AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_pack packs%ROWTYPE;
+  v_code_ids UUID[];
+  v_source sref_codes%ROWTYPE;
+  v_code_id UUID;
+  v_imported UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_pack FROM packs
+  WHERE id = p_pack_id AND version > 0 AND visibility <> 'private';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pack % not found', p_pack_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_pack.user_id = v_user_id THEN
+    RAISE EXCEPTION 'Packs cannot be imported by their owner' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT code_ids INTO v_code_ids FROM pack_versions
+  WHERE pack_id = p_pack_id AND version = v_pack.version;
+
+  FOR v_source IN
+    SELECT codes.*
+    FROM unnest(v_code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+    JOIN sref_codes AS codes ON codes.id = listed.code_id
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM code_provenance AS provenance
+      JOIN sref_codes AS mine ON mine.id = provenance.code_id
+      WHERE provenance.source_code_id = codes.id AND mine.user_id = v_user_id
+    )
+    ORDER BY listed.ordinality
+  LOOP
+    INSERT INTO sref_codes (user_id, code_value, sv_version, title, notes)
+    VALUES (v_user_id, v_source.code_value, v_source.sv_version, v_source.title, v_source.notes)
+    RETURNING id INTO v_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT v_code_id, image_url, position FROM code_images WHERE code_id = v_source.id;
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT v_code_id, tag FROM code_tags WHERE code_id = v_source.id;
+
+    INSERT INTO code_provenance (code_id, source_code_id, pack_id, pack_version)
+    VALUES (v_code_id, v_source.id, p_pack_id, v_pack.version);
+
+    v_imported := v_imported || v_code_id;
+  END LOOP;
+
+  INSERT INTO pack_imports (user_id, pack_id, version)
+  VALUES (v_user_id, p_pack_id, v_pack.version)
+  ON CONFLICT (user_id, pack_id)
+  DO UPDATE SET version = EXCLUDED.version, imported_at = NOW();
+
+  RETURN v_imported;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,24 @@
+-- Read the tags on a user's codes in pages. Listing every code id and then
+-- asking for their tags hit the API's row limit, and the id list outgrew the
+-- request URL, on large libraries.
+
+-- One row per tag on each of the user's codes, ordered by code and tag, one
+-- keyset page at a time. Pages continue from the code id and tag of the last row.
+CREATE OR REPLACE FUNCTION get_user_tag_rows(
+  p_user_id UUID,
+  p_limit INTEGER DEFAULT 1000,
+  p_after_code_id UUID DEFAULT NULL,
+  p_after_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, tag TEXT) AS $$
+  SELECT code_tags.code_id, code_tags.tag
+  FROM code_tags
+  JOIN sref_codes AS codes ON codes.id = code_tags.code_id
+  WHERE codes.user_id = p_user_id
+    AND (
+      p_after_code_id IS NULL
+      OR (code_tags.code_id, code_tags.tag) > (p_after_code_id, p_after_tag)
+    )
+  ORDER BY code_tags.code_id, code_tags.tag
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
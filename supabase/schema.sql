@@ -16,7 +16,9 @@ CREATE TABLE folders (
   is_smart BOOLEAN NOT NULL DEFAULT FALSE,
   search_criteria JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Smart folders list whatever codes match their criteria
+  CONSTRAINT folders_smart_criteria CHECK (NOT is_smart OR search_criteria IS NOT NULL)
 );
 
 CREATE TABLE sref_codes (
@@ -25,10 +27,14 @@ CREATE TABLE sref_codes (
   code_value TEXT NOT NULL,
   sv_version INTEGER NOT NULL,
   title TEXT NOT NULL,
+  notes TEXT,
   copy_count INTEGER NOT NULL DEFAULT 0,
   upvotes INTEGER NOT NULL DEFAULT 0,
   downvotes INTEGER NOT NULL DEFAULT 0,
   save_count INTEGER NOT NULL DEFAULT 0,
+  -- Who can see the code: only its owner, anyone with its id, or everyone
+  visibility TEXT NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'unlisted', 'public')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -54,6 +60,8 @@ CREATE TABLE folder_codes (
   folder_id UUID NOT NULL REFERENCES folders(id) ON DELETE CASCADE,
   code_id UUID NOT NULL REFERENCES sref_codes(id) ON DELETE CASCADE,
   added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Manual order within the folder, starting at 0
+  position INTEGER NOT NULL DEFAULT 0,
   UNIQUE(folder_id, code_id)
 );
 
@@ -84,6 +92,14 @@ CREATE TABLE code_votes (
   UNIQUE(user_id, code_id)
 );
 
+-- Every copy of a code, logged through record_code_copy
+CREATE TABLE code_copies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_id UUID NOT NULL REFERENCES sref_codes(id) ON DELETE CASCADE,
+  copied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Enable Row Level Security
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE folders ENABLE ROW LEVEL SECURITY;
@@ -94,6 +110,7 @@ ALTER TABLE folder_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE saved_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE waitlist ENABLE ROW LEVEL SECURITY;
 ALTER TABLE code_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE code_copies ENABLE ROW LEVEL SECURITY;
 
 -- Create policies
 CREATE POLICY "Users can view their own data" ON users
@@ -117,8 +134,8 @@ CREATE POLICY "Users can update their own folders" ON folders
 CREATE POLICY "Users can delete their own folders" ON folders
   FOR DELETE USING (auth.uid() = user_id);
 
-CREATE POLICY "Public codes are viewable by everyone" ON sref_codes
-  FOR SELECT USING (true);
+CREATE POLICY "Users can view their own codes and public codes" ON sref_codes
+  FOR SELECT USING (auth.uid() = user_id OR visibility = 'public');
 
 CREATE POLICY "Users can create their own codes" ON sref_codes
   FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -129,8 +146,10 @@ CREATE POLICY "Users can update their own codes" ON sref_codes
 CREATE POLICY "Users can delete their own codes" ON sref_codes
   FOR DELETE USING (auth.uid() = user_id);
 
-CREATE POLICY "Code images are viewable by everyone" ON code_images
-  FOR SELECT USING (true);
+CREATE POLICY "Code images are viewable with their codes" ON code_images
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM sref_codes WHERE sref_codes.id = code_images.code_id)
+  );
 
 CREATE POLICY "Users can create images for their own codes" ON code_images
   FOR INSERT WITH CHECK (
@@ -153,8 +172,10 @@ CREATE POLICY "Users can update images for their own codes" ON code_images
     )
   );
 
-CREATE POLICY "Code tags are viewable by everyone" ON code_tags
-  FOR SELECT USING (true);
+CREATE POLICY "Code tags are viewable with their codes" ON code_tags
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM sref_codes WHERE sref_codes.id = code_tags.code_id)
+  );
 
 CREATE POLICY "Users can create tags for their own codes" ON code_tags
   FOR INSERT WITH CHECK (
@@ -194,8 +215,14 @@ CREATE POLICY "Users can manage their folder codes" ON folder_codes
 CREATE POLICY "Users can view their saved codes" ON saved_codes
   FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can manage their saved codes" ON saved_codes
-  FOR ALL USING (auth.uid() = user_id);
+CREATE POLICY "Users can save codes they can see" ON saved_codes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM sref_codes WHERE sref_codes.id = saved_codes.code_id)
+  );
+
+CREATE POLICY "Users can remove their saved codes" ON saved_codes
+  FOR DELETE USING (auth.uid() = user_id);
 
 CREATE POLICY "Waitlist is viewable by admins" ON waitlist
   FOR SELECT USING (
@@ -210,26 +237,1224 @@ CREATE POLICY "Anyone can join waitlist" ON waitlist
 CREATE POLICY "Users can view their own votes" ON code_votes
   FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can manage their own votes" ON code_votes
-  FOR ALL USING (auth.uid() = user_id);
+-- Votes go on codes the user can see but doesn't own
+CREATE POLICY "Users can vote on codes of other users" ON code_votes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM sref_codes
+      WHERE sref_codes.id = code_votes.code_id
+      AND sref_codes.user_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can change their own votes" ON code_votes
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM sref_codes
+      WHERE sref_codes.id = code_votes.code_id
+      AND sref_codes.user_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can retract their own votes" ON code_votes
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own copies" ON code_copies
+  FOR SELECT USING (auth.uid() = user_id);
 
--- RPC function to update vote counts efficiently
+-- RPC function to update vote counts efficiently. A vote isn't an edit to the
+-- code, so updated_at is left alone.
 CREATE OR REPLACE FUNCTION update_code_vote_counts(code_id UUID)
 RETURNS VOID AS $$
 BEGIN
-  UPDATE sref_codes 
-  SET 
+  UPDATE sref_codes
+  SET
     upvotes = (
-      SELECT COUNT(*) FROM code_votes 
-      WHERE code_votes.code_id = update_code_vote_counts.code_id 
+      SELECT COUNT(*) FROM code_votes
+      WHERE code_votes.code_id = update_code_vote_counts.code_id
       AND is_upvote = true
     ),
     downvotes = (
-      SELECT COUNT(*) FROM code_votes 
-      WHERE code_votes.code_id = update_code_vote_counts.code_id 
+      SELECT COUNT(*) FROM code_votes
+      WHERE code_votes.code_id = update_code_vote_counts.code_id
       AND is_upvote = false
-    ),
-    updated_at = NOW()
+    )
   WHERE id = update_code_vote_counts.code_id;
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Counting a code's votes
+CREATE INDEX idx_code_votes_code_id ON code_votes (code_id);
+
+-- RPC functions to create and update SREF codes with their images and tags atomically
+
+CREATE OR REPLACE FUNCTION create_sref_code(
+  p_user_id UUID,
+  p_code_value TEXT,
+  p_sv_version INTEGER,
+  p_title TEXT,
+  p_images TEXT[] DEFAULT '{}',
+  p_tags TEXT[] DEFAULT '{}',
+  p_notes TEXT DEFAULT NULL,
+  p_visibility TEXT DEFAULT 'private'
+)
+RETURNS UUID AS $$
+DECLARE
+  new_code_id UUID;
+BEGIN
+  INSERT INTO sref_codes (user_id, code_value, sv_version, title, notes, visibility)
+  VALUES (p_user_id, p_code_value, p_sv_version, p_title, p_notes, p_visibility)
+  RETURNING id INTO new_code_id;
+
+  INSERT INTO code_images (code_id, image_url, position)
+  SELECT new_code_id, images.image_url, images.ordinality - 1
+  FROM unnest(COALESCE(p_images, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT new_code_id, tags.tag
+  FROM unnest(COALESCE(p_tags, '{}')) AS tags(tag);
+
+  RETURN new_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Omitted (NULL) arguments leave the corresponding data untouched; pass an
+-- empty string to clear the notes.
+CREATE OR REPLACE FUNCTION update_sref_code(
+  p_code_id UUID,
+  p_title TEXT DEFAULT NULL,
+  p_code_value TEXT DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_images TEXT[] DEFAULT NULL,
+  p_images_to_delete TEXT[] DEFAULT NULL,
+  p_images_to_add TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tags_to_delete TEXT[] DEFAULT NULL,
+  p_tags_to_add TEXT[] DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_visibility TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  next_position INTEGER;
+BEGIN
+  UPDATE sref_codes
+  SET
+    title = COALESCE(p_title, title),
+    code_value = COALESCE(p_code_value, code_value),
+    sv_version = COALESCE(p_sv_version, sv_version),
+    notes = CASE WHEN p_notes IS NULL THEN notes ELSE NULLIF(p_notes, '') END,
+    visibility = COALESCE(p_visibility, visibility),
+    updated_at = NOW()
+  WHERE id = p_code_id;
+
+  -- RLS hides codes owned by other users, so this also covers permission errors
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SREF code % not found', p_code_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_images_to_delete IS NOT NULL OR p_images_to_add IS NOT NULL THEN
+    DELETE FROM code_images
+    WHERE code_id = p_code_id
+      AND image_url = ANY(COALESCE(p_images_to_delete, '{}'));
+
+    SELECT COALESCE(MAX(position), -1) + 1 INTO next_position
+    FROM code_images
+    WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, next_position + images.ordinality - 1
+    FROM unnest(COALESCE(p_images_to_add, '{}')) WITH ORDINALITY AS images(image_url, ordinality);
+  ELSIF p_images IS NOT NULL THEN
+    DELETE FROM code_images WHERE code_id = p_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT p_code_id, images.image_url, images.ordinality - 1
+    FROM unnest(p_images) WITH ORDINALITY AS images(image_url, ordinality);
+  END IF;
+
+  IF p_tags_to_delete IS NOT NULL OR p_tags_to_add IS NOT NULL THEN
+    DELETE FROM code_tags
+    WHERE code_id = p_code_id
+      AND tag = ANY(COALESCE(p_tags_to_delete, '{}'));
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(COALESCE(p_tags_to_add, '{}')) AS tags(tag)
+    ON CONFLICT (code_id, tag) DO NOTHING;
+  ELSIF p_tags IS NOT NULL THEN
+    DELETE FROM code_tags WHERE code_id = p_code_id;
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT DISTINCT p_code_id, tags.tag
+    FROM unnest(p_tags) AS tags(tag);
+  END IF;
+
+  RETURN p_code_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Fetches a code by id, e.g. from a share link. Unlisted codes can't be listed
+-- or searched, so this is the only way to read them; private codes are only
+-- returned to their owner. Returns the code with its images and tags, or NULL.
+CREATE OR REPLACE FUNCTION get_shared_sref_code(p_code_id UUID)
+RETURNS JSONB AS $$
+  SELECT to_jsonb(codes) || jsonb_build_object(
+    'images', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', images.id, 'image_url', images.image_url, 'position', images.position)
+          ORDER BY images.position
+        )
+        FROM code_images AS images
+        WHERE images.code_id = codes.id
+      ),
+      '[]'::JSONB
+    ),
+    'tags', COALESCE(
+      (SELECT jsonb_agg(tags.tag ORDER BY tags.tag) FROM code_tags AS tags WHERE tags.code_id = codes.id),
+      '[]'::JSONB
+    )
+  )
+  FROM sref_codes AS codes
+  WHERE codes.id = p_code_id
+    AND (codes.visibility IN ('public', 'unlisted') OR codes.user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Realtime: stream library row changes to connected clients
+-- Image and tag writes also update their code, so only sref_codes is streamed
+ALTER TABLE sref_codes REPLICA IDENTITY FULL;
+ALTER TABLE code_images REPLICA IDENTITY FULL;
+ALTER TABLE code_tags REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE sref_codes;
+
+-- Keyset pagination indexes
+CREATE INDEX idx_sref_codes_user_created_at ON sref_codes (user_id, created_at, id);
+CREATE INDEX idx_sref_codes_user_title ON sref_codes (user_id, title, id);
+CREATE INDEX idx_code_tags_tag_code_id ON code_tags (tag, code_id);
+
+-- Full-text search documents, kept current by triggers
+CREATE TABLE sref_code_search (
+  code_id UUID PRIMARY KEY REFERENCES sref_codes(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL
+);
+
+CREATE INDEX idx_sref_code_search_document ON sref_code_search USING GIN (document);
+
+ALTER TABLE sref_code_search ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see a code can search it
+CREATE POLICY "Search documents are viewable with their codes" ON sref_code_search
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM sref_codes
+      WHERE sref_codes.id = sref_code_search.code_id
+    )
+  );
+
+-- The 'simple' configuration keeps code values and tag names intact instead of
+-- stemming them as English words. Titles and tags outrank code values and notes.
+CREATE OR REPLACE FUNCTION refresh_sref_code_search(p_code_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO sref_code_search (code_id, document)
+  SELECT
+    codes.id,
+    setweight(to_tsvector('simple', COALESCE(codes.title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(
+      (SELECT string_agg(code_tags.tag, ' ') FROM code_tags WHERE code_tags.code_id = codes.id),
+      ''
+    )), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(codes.code_value, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(codes.notes, '')), 'C')
+  FROM sref_codes AS codes
+  WHERE codes.id = p_code_id
+  ON CONFLICT (code_id) DO UPDATE SET document = EXCLUDED.document;
+$$ LANGUAGE sql;
+
+-- Only the triggers below write search documents
+REVOKE EXECUTE ON FUNCTION refresh_sref_code_search(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sref_codes_refresh_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_sref_code_search(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION code_tags_refresh_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Tags removed by a cascading code delete have nothing left to refresh
+  PERFORM refresh_sref_code_search(
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.code_id ELSE NEW.code_id END
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sref_codes_refresh_search
+  AFTER INSERT OR UPDATE OF title, code_value, notes ON sref_codes
+  FOR EACH ROW EXECUTE FUNCTION sref_codes_refresh_search();
+
+CREATE TRIGGER code_tags_refresh_search
+  AFTER INSERT OR UPDATE OR DELETE ON code_tags
+  FOR EACH ROW EXECUTE FUNCTION code_tags_refresh_search();
+
+-- Folders
+CREATE INDEX IF NOT EXISTS idx_folders_user_parent ON folders (user_id, parent_id);
+CREATE INDEX IF NOT EXISTS idx_folder_codes_code_id ON folder_codes (code_id);
+CREATE INDEX IF NOT EXISTS idx_folder_codes_folder_position ON folder_codes (folder_id, position);
+
+-- A folder's parent must belong to the same user and can't be the folder
+-- itself or anything inside it
+CREATE OR REPLACE FUNCTION check_folder_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM folders WHERE id = NEW.parent_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Parent folder not found' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM folders WHERE id = NEW.parent_id
+      UNION
+      SELECT folders.id, folders.parent_id
+      FROM folders
+      JOIN ancestors ON folders.id = ancestors.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A folder cannot be moved inside itself' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER folders_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON folders
+  FOR EACH ROW EXECUTE FUNCTION check_folder_parent();
+
+-- Deletes a folder after moving its subfolders up to its own parent. Filing
+-- rows go with the folder; the codes stay in the library.
+CREATE OR REPLACE FUNCTION delete_folder(p_folder_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE folders AS children
+  SET parent_id = deleted.parent_id, updated_at = NOW()
+  FROM folders AS deleted
+  WHERE deleted.id = p_folder_id
+    AND children.parent_id = deleted.id;
+
+  DELETE FROM folders WHERE id = p_folder_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- folder_ids is a PostgREST computed column listing the folders a code is filed
+-- in, so the library page query can filter on a folder with cs
+CREATE OR REPLACE FUNCTION folder_ids(sref_codes)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(folder_codes.folder_id), '{}')
+  FROM folder_codes
+  WHERE folder_codes.code_id = $1.id;
+$$ LANGUAGE sql STABLE;
+
+-- Codes can only be filed into regular folders
+CREATE OR REPLACE FUNCTION check_folder_code_target()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM folders WHERE id = NEW.folder_id AND is_smart) THEN
+    RAISE EXCEPTION 'Codes cannot be added to a smart folder' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER folder_codes_check_target
+  BEFORE INSERT OR UPDATE OF folder_id ON folder_codes
+  FOR EACH ROW EXECUTE FUNCTION check_folder_code_target();
+
+-- image_count is a PostgREST computed column, so the library page query can
+-- filter on how many images a code has
+CREATE OR REPLACE FUNCTION image_count(sref_codes)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER FROM code_images WHERE code_images.code_id = $1.id;
+$$ LANGUAGE sql STABLE;
+
+-- Files codes at the end of a folder, in the order given. Codes already in
+-- the folder keep their place.
+CREATE OR REPLACE FUNCTION add_codes_to_folder(p_folder_id UUID, p_code_ids UUID[])
+RETURNS VOID AS $$
+  INSERT INTO folder_codes (folder_id, code_id, position)
+  SELECT
+    p_folder_id,
+    added.code_id,
+    COALESCE((SELECT MAX(position) + 1 FROM folder_codes WHERE folder_id = p_folder_id), 0)
+      + added.ordinality::INTEGER - 1
+  FROM unnest(p_code_ids) WITH ORDINALITY AS added(code_id, ordinality)
+  ON CONFLICT (folder_id, code_id) DO NOTHING;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Puts a folder's codes in the order given. Codes left out of p_code_ids go
+-- after the listed ones, keeping their current order.
+CREATE OR REPLACE FUNCTION reorder_folder_codes(p_folder_id UUID, p_code_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE folder_codes
+  SET position = ordered.position
+  FROM (
+    SELECT
+      folder_codes.id,
+      ROW_NUMBER() OVER (
+        ORDER BY array_position(p_code_ids, folder_codes.code_id) NULLS LAST, folder_codes.position
+      ) - 1 AS position
+    FROM folder_codes
+    WHERE folder_codes.folder_id = p_folder_id
+  ) AS ordered
+  WHERE folder_codes.id = ordered.id;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- A folder's codes in their manual order, one keyset page at a time. Pages
+-- continue from the position and id of the last code. Filters match
+-- search_sref_codes.
+CREATE OR REPLACE FUNCTION get_folder_sref_codes(
+  p_user_id UUID,
+  p_folder_id UUID,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tag_mode TEXT DEFAULT 'any',
+  p_excluded_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_after_position INTEGER DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, position INTEGER) AS $$
+  SELECT codes.id, folder_codes.position
+  FROM folder_codes
+  JOIN sref_codes AS codes ON codes.id = folder_codes.code_id
+  WHERE folder_codes.folder_id = p_folder_id
+    AND codes.user_id = p_user_id
+    AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+    AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+    AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+    AND (p_min_images IS NULL OR image_count(codes) >= p_min_images)
+    AND (p_max_images IS NULL OR image_count(codes) <= p_max_images)
+    AND (
+      COALESCE(cardinality(p_tags), 0) = 0
+      OR (p_tag_mode = 'all' AND tag_paths(codes) @> p_tags)
+      OR (p_tag_mode <> 'all' AND tag_paths(codes) && p_tags)
+    )
+    AND (
+      COALESCE(cardinality(p_excluded_tags), 0) = 0
+      OR NOT tag_paths(codes) && p_excluded_tags
+    )
+    AND (
+      p_after_id IS NULL
+      OR (folder_codes.position, codes.id) > (p_after_position, p_after_id)
+    )
+  ORDER BY folder_codes.position, codes.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- One row per tag on each of the user's codes, ordered by code and tag, one
+-- keyset page at a time. Pages continue from the code id and tag of the last row.
+CREATE OR REPLACE FUNCTION get_user_tag_rows(
+  p_user_id UUID,
+  p_limit INTEGER DEFAULT 1000,
+  p_after_code_id UUID DEFAULT NULL,
+  p_after_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, tag TEXT) AS $$
+  SELECT code_tags.code_id, code_tags.tag
+  FROM code_tags
+  JOIN sref_codes AS codes ON codes.id = code_tags.code_id
+  WHERE codes.user_id = p_user_id
+    AND (
+      p_after_code_id IS NULL
+      OR (code_tags.code_id, code_tags.tag) > (p_after_code_id, p_after_tag)
+    )
+  ORDER BY code_tags.code_id, code_tags.tag
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Saved codes
+-- sref_codes.save_count follows saved_codes through this trigger. Users can't
+-- update other people's codes, so it runs as the table owner.
+CREATE OR REPLACE FUNCTION saved_codes_update_save_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE sref_codes SET save_count = save_count + 1 WHERE id = NEW.code_id;
+  ELSE
+    -- Rows removed by a cascading code delete have no count left to update
+    UPDATE sref_codes SET save_count = GREATEST(save_count - 1, 0) WHERE id = OLD.code_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER saved_codes_update_save_count
+  AFTER INSERT OR DELETE ON saved_codes
+  FOR EACH ROW EXECUTE FUNCTION saved_codes_update_save_count();
+
+CREATE INDEX idx_saved_codes_user_saved_at ON saved_codes (user_id, saved_at DESC);
+
+-- Tag filters
+-- tag_paths is a PostgREST computed column, so the library page query can filter
+-- on a code's tags with array operators (cs = all, ov = any, not.ov = none). It
+-- holds each tag plus every "/" namespace above it, so filtering on a namespace
+-- matches every tag below it.
+CREATE OR REPLACE FUNCTION tag_paths(sref_codes)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT paths.path), '{}')
+  FROM code_tags
+  CROSS JOIN LATERAL (
+    SELECT array_to_string((string_to_array(code_tags.tag, '/'))[1:depth], '/') AS path
+    FROM generate_series(1, cardinality(string_to_array(code_tags.tag, '/'))) AS depth
+  ) AS paths
+  WHERE code_tags.code_id = $1.id;
+$$ LANGUAGE sql STABLE;
+
+-- Ranked search, one keyset page at a time. The query arrives as a plain
+-- parameter: it is split into alphanumeric terms here and every term must
+-- match the start of a word, so user input never reaches a filter string.
+-- Returns no rows when the query has no searchable terms.
+-- p_tag_mode is 'any' or 'all' and applies to p_tags. p_min_images and
+-- p_max_images are both inclusive.
+CREATE OR REPLACE FUNCTION search_sref_codes(
+  p_user_id UUID,
+  p_query TEXT,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tag_mode TEXT DEFAULT 'any',
+  p_excluded_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_folder_id UUID DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, rank REAL) AS $$
+  WITH search AS (
+    SELECT to_tsquery('simple', string_agg(terms.term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS terms(term)
+    WHERE terms.term <> ''
+  ),
+  matches AS (
+    SELECT codes.id, ts_rank(documents.document, search.query) AS rank
+    FROM search
+    JOIN sref_code_search AS documents ON documents.document @@ search.query
+    JOIN sref_codes AS codes ON codes.id = documents.code_id
+    WHERE codes.user_id = p_user_id
+      AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+      AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+      AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+      AND (
+        p_folder_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM folder_codes
+          WHERE folder_codes.code_id = codes.id AND folder_codes.folder_id = p_folder_id
+        )
+      )
+      AND (p_min_images IS NULL OR image_count(codes) >= p_min_images)
+      AND (p_max_images IS NULL OR image_count(codes) <= p_max_images)
+      AND (
+        COALESCE(cardinality(p_tags), 0) = 0
+        OR (p_tag_mode = 'all' AND tag_paths(codes) @> p_tags)
+        OR (p_tag_mode <> 'all' AND tag_paths(codes) && p_tags)
+      )
+      AND (
+        COALESCE(cardinality(p_excluded_tags), 0) = 0
+        OR NOT tag_paths(codes) && p_excluded_tags
+      )
+  )
+  SELECT matches.id, matches.rank
+  FROM matches
+  WHERE p_after_id IS NULL OR (matches.rank, matches.id) < (p_after_rank, p_after_id)
+  ORDER BY matches.rank DESC, matches.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Discover
+-- One keyset page of the feed, leaving out p_user_id's own codes. p_sort is
+-- 'newest', 'most_copied' or 'top_voted' (upvotes minus downvotes). Every
+-- sort is expressed as a number, so pages continue from the sort value and id
+-- of the last code. The query is matched like search_sref_codes, but doesn't
+-- change the order.
+CREATE OR REPLACE FUNCTION discover_sref_codes(
+  p_user_id UUID DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_tag_mode TEXT DEFAULT 'any',
+  p_excluded_tags TEXT[] DEFAULT NULL,
+  p_sv_version INTEGER DEFAULT NULL,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_limit INTEGER DEFAULT 24,
+  p_after_value DOUBLE PRECISION DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (code_id UUID, sort_value DOUBLE PRECISION) AS $$
+  WITH search AS (
+    SELECT to_tsquery('simple', string_agg(terms.term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS terms(term)
+    WHERE terms.term <> ''
+  ),
+  matches AS (
+    SELECT
+      codes.id,
+      CASE p_sort
+        WHEN 'most_copied' THEN codes.copy_count::DOUBLE PRECISION
+        WHEN 'top_voted' THEN (codes.upvotes - codes.downvotes)::DOUBLE PRECISION
+        ELSE extract(epoch FROM codes.created_at)::DOUBLE PRECISION
+      END AS sort_value
+    FROM sref_codes AS codes, search
+    WHERE (p_user_id IS NULL OR codes.user_id <> p_user_id)
+      AND (
+        search.query IS NULL
+        OR EXISTS (
+          SELECT 1 FROM sref_code_search AS documents
+          WHERE documents.code_id = codes.id AND documents.document @@ search.query
+        )
+      )
+      AND (p_sv_version IS NULL OR codes.sv_version = p_sv_version)
+      AND (p_created_from IS NULL OR codes.created_at >= p_created_from)
+      AND (p_created_until IS NULL OR codes.created_at < p_created_until)
+      AND (p_min_images IS NULL OR image_count(codes) >= p_min_images)
+      AND (p_max_images IS NULL OR image_count(codes) <= p_max_images)
+      AND (
+        COALESCE(cardinality(p_tags), 0) = 0
+        OR (p_tag_mode = 'all' AND tag_paths(codes) @> p_tags)
+        OR (p_tag_mode <> 'all' AND tag_paths(codes) && p_tags)
+      )
+      AND (
+        COALESCE(cardinality(p_excluded_tags), 0) = 0
+        OR NOT tag_paths(codes) && p_excluded_tags
+      )
+  )
+  SELECT matches.id, matches.sort_value
+  FROM matches
+  WHERE p_after_id IS NULL OR (matches.sort_value, matches.id) < (p_after_value, p_after_id)
+  ORDER BY matches.sort_value DESC, matches.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Copy tracking
+CREATE INDEX idx_code_copies_user_copied_at ON code_copies (user_id, copied_at DESC);
+
+-- "Most used" library order
+CREATE INDEX idx_sref_codes_user_copy_count ON sref_codes (user_id, copy_count, id);
+
+-- Log a copy by the current user and bump the code's copy_count in one step.
+-- Runs as the table owner so copies of other users' codes can be counted;
+-- private codes only count for their owner. Returns the new count.
+CREATE OR REPLACE FUNCTION record_code_copy(p_code_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_copy_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE sref_codes
+  SET copy_count = copy_count + 1
+  WHERE id = p_code_id
+    AND (user_id = auth.uid() OR visibility <> 'private')
+  RETURNING copy_count INTO v_copy_count;
+
+  IF v_copy_count IS NULL THEN
+    RAISE EXCEPTION 'SREF code % not found', p_code_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO code_copies (user_id, code_id) VALUES (auth.uid(), p_code_id);
+
+  RETURN v_copy_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The codes a user copied most recently, once each, with their latest copy time
+CREATE OR REPLACE FUNCTION get_recent_code_copies(p_limit INTEGER DEFAULT 12)
+RETURNS TABLE (code_id UUID, copied_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT copies.code_id, MAX(copies.copied_at) AS copied_at
+  FROM code_copies AS copies
+  WHERE copies.user_id = auth.uid()
+  GROUP BY copies.code_id
+  ORDER BY MAX(copies.copied_at) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Tag management
+-- Moves every source tag onto the target. Renaming is merging a single tag into
+-- a new name. Codes already carrying the target keep a single copy of it.
+CREATE OR REPLACE FUNCTION merge_tags(
+  p_user_id UUID,
+  p_sources TEXT[],
+  p_target TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  IF NULLIF(btrim(COALESCE(p_target, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Tag name cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE sref_codes
+  SET updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND EXISTS (
+      SELECT 1 FROM code_tags
+      WHERE code_tags.code_id = sref_codes.id
+      AND code_tags.tag = ANY(p_sources)
+      AND code_tags.tag <> p_target
+    );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT code_tags.code_id, p_target
+  FROM code_tags
+  JOIN sref_codes ON sref_codes.id = code_tags.code_id
+  WHERE sref_codes.user_id = p_user_id
+    AND code_tags.tag = ANY(p_sources)
+  ON CONFLICT (code_id, tag) DO NOTHING;
+
+  DELETE FROM code_tags
+  USING sref_codes
+  WHERE sref_codes.id = code_tags.code_id
+    AND sref_codes.user_id = p_user_id
+    AND code_tags.tag = ANY(p_sources)
+    AND code_tags.tag <> p_target;
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Removes the tags from every code; the codes themselves are kept
+CREATE OR REPLACE FUNCTION delete_tags(
+  p_user_id UUID,
+  p_tags TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  UPDATE sref_codes
+  SET updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND EXISTS (
+      SELECT 1 FROM code_tags
+      WHERE code_tags.code_id = sref_codes.id
+      AND code_tags.tag = ANY(p_tags)
+    );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  DELETE FROM code_tags
+  USING sref_codes
+  WHERE sref_codes.id = code_tags.code_id
+    AND sref_codes.user_id = p_user_id
+    AND code_tags.tag = ANY(p_tags);
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Tag normalization
+CREATE TABLE IF NOT EXISTS tag_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  lowercase BOOLEAN NOT NULL DEFAULT TRUE,
+  separator TEXT NOT NULL DEFAULT 'keep' CHECK (separator IN ('keep', 'space', 'dash')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  canonical TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, alias)
+);
+
+ALTER TABLE tag_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tag_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tag settings" ON tag_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tag settings" ON tag_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tag settings" ON tag_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own tag aliases" ON tag_aliases
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tag aliases" ON tag_aliases
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tag aliases" ON tag_aliases
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tag aliases" ON tag_aliases
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Rename many tags at once: p_sources[i] becomes p_targets[i] on every one of
+-- the user's codes, merging with the target where a code already has it. Runs
+-- in one transaction and returns the number of codes that changed.
+CREATE OR REPLACE FUNCTION rename_tags(
+  p_user_id UUID,
+  p_sources TEXT[],
+  p_targets TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  IF COALESCE(cardinality(p_sources), 0) <> COALESCE(cardinality(p_targets), 0) THEN
+    RAISE EXCEPTION 'Every source tag needs a target' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_targets) AS targets(tag)
+    WHERE NULLIF(btrim(COALESCE(targets.tag, '')), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Tag name cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  -- Every rename reads the tags as they were before the call, so a chain like
+  -- a -> b, b -> c would add b to codes that only had a and then delete it
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_sources, p_targets) AS renames(source, target)
+    JOIN unnest(p_sources, p_targets) AS chained(source, target)
+      ON chained.source = renames.target
+    WHERE renames.source <> renames.target
+      AND chained.source <> chained.target
+  ) THEN
+    RAISE EXCEPTION 'A renamed tag cannot also be a rename target' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE sref_codes
+  SET updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND EXISTS (
+      SELECT 1
+      FROM code_tags
+      JOIN unnest(p_sources, p_targets) AS renames(source, target)
+        ON renames.source = code_tags.tag
+      WHERE code_tags.code_id = sref_codes.id
+      AND renames.source <> renames.target
+    );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  INSERT INTO code_tags (code_id, tag)
+  SELECT DISTINCT code_tags.code_id, renames.target
+  FROM code_tags
+  JOIN sref_codes ON sref_codes.id = code_tags.code_id
+  JOIN unnest(p_sources, p_targets) AS renames(source, target)
+    ON renames.source = code_tags.tag
+  WHERE sref_codes.user_id = p_user_id
+  ON CONFLICT (code_id, tag) DO NOTHING;
+
+  DELETE FROM code_tags
+  USING sref_codes, unnest(p_sources, p_targets) AS renames(source, target)
+  WHERE sref_codes.id = code_tags.code_id
+    AND sref_codes.user_id = p_user_id
+    AND code_tags.tag = renames.source
+    AND renames.source <> renames.target;
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Packs: titled, ordered collections of a user's codes, published as numbered
+-- versions for other users to import.
+--   private   only the owner
+--   unlisted  anyone who has the pack's id, through get_shared_pack
+--   public    everyone, listed in the Packs tab
+-- pack_codes is the owner's working list. Publishing snapshots it into
+-- pack_versions, and importers only ever see published versions, so codes in
+-- a pack are shared through it even while the codes themselves are private.
+
+CREATE TABLE packs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  cover_image_url TEXT,
+  visibility TEXT NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'unlisted', 'public')),
+  -- Latest published version; 0 until the pack is first published
+  version INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE pack_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  pack_id UUID NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+  code_id UUID NOT NULL REFERENCES sref_codes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(pack_id, code_id)
+);
+
+CREATE TABLE pack_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  pack_id UUID NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  cover_image_url TEXT,
+  -- The pack's codes at publishing time, in order
+  code_ids UUID[] NOT NULL DEFAULT '{}',
+  published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(pack_id, version)
+);
+
+-- The version of each pack a user imported last
+CREATE TABLE pack_imports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pack_id UUID NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, pack_id)
+);
+
+-- Where an imported code came from. The source links are cleared, not
+-- cascaded, when the original code or pack is deleted.
+CREATE TABLE code_provenance (
+  code_id UUID PRIMARY KEY REFERENCES sref_codes(id) ON DELETE CASCADE,
+  source_code_id UUID REFERENCES sref_codes(id) ON DELETE SET NULL,
+  pack_id UUID REFERENCES packs(id) ON DELETE SET NULL,
+  pack_version INTEGER,
+  imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pack_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pack_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pack_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE code_provenance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own packs and public packs" ON packs
+  FOR SELECT USING (auth.uid() = user_id OR visibility = 'public');
+
+CREATE POLICY "Users can manage their own packs" ON packs
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Owners edit a pack's details; version and visibility change through publish_pack
+REVOKE INSERT, UPDATE ON packs FROM anon, authenticated;
+GRANT INSERT (user_id, title, description, cover_image_url) ON packs TO authenticated;
+GRANT UPDATE (title, description, cover_image_url, updated_at) ON packs TO authenticated;
+
+-- Only the pack's owner sees its working list, and it can only hold their codes
+CREATE POLICY "Users can manage their pack codes" ON pack_codes
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT user_id FROM packs WHERE id = pack_id
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM packs WHERE id = pack_id
+    )
+    AND auth.uid() IN (
+      SELECT user_id FROM sref_codes WHERE id = code_id
+    )
+  );
+
+-- Written by publish_pack only
+CREATE POLICY "Pack versions are viewable with their packs" ON pack_versions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM packs WHERE packs.id = pack_versions.pack_id)
+  );
+
+CREATE POLICY "Users can manage their pack imports" ON pack_imports
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Written by import_pack only
+CREATE POLICY "Users can view the provenance of their codes" ON code_provenance
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT user_id FROM sref_codes WHERE id = code_id
+    )
+  );
+
+CREATE INDEX idx_packs_user_id ON packs (user_id);
+CREATE INDEX idx_packs_public_updated_at ON packs (updated_at DESC)
+  WHERE visibility = 'public';
+CREATE INDEX idx_pack_codes_pack_position ON pack_codes (pack_id, position);
+CREATE INDEX idx_code_provenance_source_code_id ON code_provenance (source_code_id);
+
+-- Replaces a pack's working list with p_code_ids, in that order
+CREATE OR REPLACE FUNCTION set_pack_codes(p_pack_id UUID, p_code_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM pack_codes
+  WHERE pack_id = p_pack_id AND NOT (code_id = ANY (p_code_ids));
+
+  INSERT INTO pack_codes (pack_id, code_id, position)
+  SELECT p_pack_id, listed.code_id, listed.ordinality::INTEGER - 1
+  FROM unnest(p_code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+  ON CONFLICT (pack_id, code_id) DO UPDATE SET position = EXCLUDED.position;
+
+  UPDATE packs SET updated_at = NOW() WHERE id = p_pack_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Snapshots the pack's title, description, cover and codes as its next
+-- version, and shares it publicly or by link. Returns the new version number.
+-- This is the only way versions are written; it runs as the table owner, so
+-- it checks the pack belongs to the caller and only snapshots codes the owner
+-- still owns.
+CREATE OR REPLACE FUNCTION publish_pack(p_pack_id UUID, p_visibility TEXT DEFAULT 'public')
+RETURNS INTEGER AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  IF p_visibility NOT IN ('unlisted', 'public') THEN
+    RAISE EXCEPTION 'Packs are published as unlisted or public' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE packs
+  SET version = version + 1, visibility = p_visibility, updated_at = NOW()
+  WHERE id = p_pack_id AND user_id = auth.uid()
+  RETURNING version INTO v_version;
+
+  IF v_version IS NULL THEN
+    RAISE EXCEPTION 'Pack % not found', p_pack_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO pack_versions (pack_id, version, title, description, cover_image_url, code_ids)
+  SELECT
+    packs.id,
+    v_version,
+    packs.title,
+    packs.description,
+    packs.cover_image_url,
+    COALESCE(
+      (SELECT array_agg(pack_codes.code_id ORDER BY pack_codes.position)
+       FROM pack_codes
+       JOIN sref_codes AS codes ON codes.id = pack_codes.code_id
+       WHERE pack_codes.pack_id = packs.id AND codes.user_id = packs.user_id),
+      '{}'
+    )
+  FROM packs
+  WHERE packs.id = p_pack_id;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fetches the latest published version of a pack, e.g. from a share link,
+-- with its codes in order. Codes only include what the pack shows, not their
+-- owner's notes. Private packs are only returned to their owner.
+-- Returns NULL for packs that don't exist or were never published.
+CREATE OR REPLACE FUNCTION get_shared_pack(p_pack_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', packs.id,
+    'user_id', packs.user_id,
+    'title', versions.title,
+    'description', versions.description,
+    'cover_image_url', versions.cover_image_url,
+    'visibility', packs.visibility,
+    'version', versions.version,
+    'published_at', versions.published_at,
+    'codes', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', codes.id,
+            'title', codes.title,
+            'code_value', codes.code_value,
+            'sv_version', codes.sv_version,
+            'created_at', codes.created_at,
+            'updated_at', codes.updated_at,
+            'images', COALESCE(
+              (
+                SELECT jsonb_agg(
+                  jsonb_build_object('id', images.id, 'image_url', images.image_url, 'position', images.position)
+                  ORDER BY images.position
+                )
+                FROM code_images AS images
+                WHERE images.code_id = codes.id
+              ),
+              '[]'::JSONB
+            ),
+            'tags', COALESCE(
+              (SELECT jsonb_agg(tags.tag ORDER BY tags.tag) FROM code_tags AS tags WHERE tags.code_id = codes.id),
+              '[]'::JSONB
+            )
+          )
+          ORDER BY listed.ordinality
+        )
+        FROM unnest(versions.code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+        JOIN sref_codes AS codes ON codes.id = listed.code_id
+      ),
+      '[]'::JSONB
+    )
+  )
+  FROM packs
+  JOIN pack_versions AS versions
+    ON versions.pack_id = packs.id AND versions.version = packs.version
+  WHERE packs.id = p_pack_id
+    AND (packs.visibility <> 'private' OR packs.user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Copies the codes of a pack's latest version, with their images and tags but
+-- not the author's notes, into the current user's library as private codes,
+-- recording where each one came from. Codes the user already imported from the
+-- same original are skipped, so importing a newer version only brings in what
+-- was added.
+-- Returns the ids of the imported codes. Their images still point at the
+-- author's files; the app copies them into the importer's storage.
+CREATE OR REPLACE FUNCTION import_pack(p_pack_id UUID)
+RETURNS UUID[] AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_pack packs%ROWTYPE;
+  v_code_ids UUID[];
+  v_source sref_codes%ROWTYPE;
+  v_code_id UUID;
+  v_imported UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_pack FROM packs
+  WHERE id = p_pack_id AND version > 0 AND visibility <> 'private';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pack % not found', p_pack_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_pack.user_id = v_user_id THEN
+    RAISE EXCEPTION 'Packs cannot be imported by their owner' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT code_ids INTO v_code_ids FROM pack_versions
+  WHERE pack_id = p_pack_id AND version = v_pack.version;
+
+  FOR v_source IN
+    SELECT codes.*
+    FROM unnest(v_code_ids) WITH ORDINALITY AS listed(code_id, ordinality)
+    JOIN sref_codes AS codes ON codes.id = listed.code_id
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM code_provenance AS provenance
+      JOIN sref_codes AS mine ON mine.id = provenance.code_id
+      WHERE provenance.source_code_id = codes.id AND mine.user_id = v_user_id
+    )
+    ORDER BY listed.ordinality
+  LOOP
+    INSERT INTO sref_codes (user_id, code_value, sv_version, title)
+    VALUES (v_user_id, v_source.code_value, v_source.sv_version, v_source.title)
+    RETURNING id INTO v_code_id;
+
+    INSERT INTO code_images (code_id, image_url, position)
+    SELECT v_code_id, image_url, position FROM code_images WHERE code_id = v_source.id;
+
+    INSERT INTO code_tags (code_id, tag)
+    SELECT v_code_id, tag FROM code_tags WHERE code_id = v_source.id;
+
+    INSERT INTO code_provenance (code_id, source_code_id, pack_id, pack_version)
+    VALUES (v_code_id, v_source.id, p_pack_id, v_pack.version);
+
+    v_imported := v_imported || v_code_id;
+  END LOOP;
+
+  INSERT INTO pack_imports (user_id, pack_id, version)
+  VALUES (v_user_id, p_pack_id, v_pack.version)
+  ON CONFLICT (user_id, pack_id)
+  DO UPDATE SET version = EXCLUDED.version, imported_at = NOW();
+
+  RETURN v_imported;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Packs the current user imported that have published a newer version since,
+-- with the codes added, removed and edited between the two versions. Each
+-- code is returned as {id, title}.
+CREATE OR REPLACE FUNCTION get_pack_updates()
+RETURNS TABLE (
+  pack_id UUID,
+  title TEXT,
+  imported_version INTEGER,
+  latest_version INTEGER,
+  added_codes JSONB,
+  removed_codes JSONB,
+  changed_codes JSONB
+) AS $$
+  WITH updates AS (
+    SELECT
+      packs.id AS pack_id,
+      latest.title,
+      imports.version AS imported_version,
+      latest.version AS latest_version,
+      latest.code_ids AS latest_ids,
+      COALESCE(imported.code_ids, '{}') AS imported_ids,
+      COALESCE(imported.published_at, imports.imported_at) AS imported_published_at
+    FROM pack_imports AS imports
+    JOIN packs ON packs.id = imports.pack_id
+    JOIN pack_versions AS latest
+      ON latest.pack_id = packs.id AND latest.version = packs.version
+    LEFT JOIN pack_versions AS imported
+      ON imported.pack_id = packs.id AND imported.version = imports.version
+    WHERE imports.user_id = auth.uid()
+      AND packs.version > imports.version
+      AND packs.visibility <> 'private'
+  )
+  SELECT
+    updates.pack_id,
+    updates.title,
+    updates.imported_version,
+    updates.latest_version,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('id', codes.id, 'title', codes.title))
+       FROM sref_codes AS codes
+       WHERE codes.id = ANY (updates.latest_ids) AND NOT codes.id = ANY (updates.imported_ids)),
+      '[]'::JSONB
+    ),
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('id', codes.id, 'title', codes.title))
+       FROM sref_codes AS codes
+       WHERE codes.id = ANY (updates.imported_ids) AND NOT codes.id = ANY (updates.latest_ids)),
+      '[]'::JSONB
+    ),
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('id', codes.id, 'title', codes.title))
+       FROM sref_codes AS codes
+       WHERE codes.id = ANY (updates.latest_ids)
+         AND codes.id = ANY (updates.imported_ids)
+         AND codes.updated_at > updates.imported_published_at),
+      '[]'::JSONB
+    )
+  FROM updates;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;